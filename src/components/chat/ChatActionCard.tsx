@@ -0,0 +1,73 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertTriangle,
+  BookmarkPlus,
+  CalendarDays,
+  CalendarPlus,
+  CheckCircle2,
+  Loader2,
+  ShoppingCart,
+  XCircle,
+} from "lucide-react";
+import type { ChatAction } from "@/types";
+
+const TOOL_ICONS: Record<ChatAction["tool"], React.ElementType> = {
+  create_meal_plan: CalendarDays,
+  add_recipe_to_plan: CalendarPlus,
+  add_grocery_item: ShoppingCart,
+  save_recipe: BookmarkPlus,
+};
+
+interface ChatActionCardProps {
+  actions: ChatAction[];
+  /** The confirm/cancel request is in flight */
+  isResolving: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/** Changes the chat agent lined up — nothing runs until the user confirms */
+export const ChatActionCard: React.FC<ChatActionCardProps> = ({
+  actions,
+  isResolving,
+  onConfirm,
+  onCancel,
+}) => {
+  const isPending = actions.some((a) => a.status === "pending");
+
+  return (
+    <div className="mt-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-3 space-y-2">
+      <ul className="space-y-1.5">
+        {actions.map((action) => {
+          const Icon = TOOL_ICONS[action.tool] || CalendarPlus;
+          return (
+            <li key={action.id} className="flex items-start gap-2 text-sm text-gray-900 dark:text-gray-100">
+              <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+              <span className={`flex-1 ${action.status === "cancelled" ? "line-through opacity-60" : ""}`}>
+                {action.summary}
+                {action.status === "failed" && action.error && (
+                  <span className="block text-xs text-red-600 dark:text-red-400">{action.error}</span>
+                )}
+              </span>
+              {action.status === "done" && <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-green-500" />}
+              {action.status === "failed" && <AlertTriangle className="h-4 w-4 flex-shrink-0 text-red-500" />}
+              {action.status === "cancelled" && <XCircle className="h-4 w-4 flex-shrink-0 text-gray-400" />}
+            </li>
+          );
+        })}
+      </ul>
+      {isPending && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" onClick={onConfirm} disabled={isResolving} className="gap-1.5">
+            {isResolving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Confirm{actions.length > 1 ? ` all (${actions.length})` : ""}
+          </Button>
+          <Button size="sm" variant="outline" onClick={onCancel} disabled={isResolving}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
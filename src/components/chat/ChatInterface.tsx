@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, createRef } from 'react'
-import { useSendMessage, useChatHistory } from "../../services/api";
+import { useSendMessage, useStreamMessage, useResolveChatActions, useChatHistory } from "../../services/api";
 import { apiClient } from "../../services/api";
 import { detectIntent } from "../../services/ragService";
 import { Logger } from "../../services/logger";
@@ -23,9 +23,10 @@ import {
   Save,
 } from "lucide-react";
 import toast from "react-hot-toast";
-import { ChatMessageResponse, StructuredRecipe } from "../../types";
+import { ChatAction, ChatMessageResponse, ChatStreamResponse, StructuredRecipe } from "../../types";
 import { useAuthStore } from "../../stores/authStore";
 import { StructuredRecipeDisplay, StructuredRecipeDisplayHandle } from "./StructuredRecipeDisplay";
+import { ChatActionCard } from "./ChatActionCard";
 
 /** Maximum image file size in bytes (5MB) */
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
@@ -113,6 +114,7 @@ interface Message {
   images?: string[]; // Array of image URLs or base64 data URLs
   recipe?: StructuredRecipe; // Optional structured recipe data
   recipes?: StructuredRecipe[]; // Optional multiple recipes
+  actions?: ChatAction[]; // Changes the chat agent staged for confirmation
 }
 
 interface Conversation {
@@ -133,6 +135,9 @@ export const ChatInterface: React.FC = () => {
   >(null);
   const [inputMessage, setInputMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false); // General chat / RAG answer in flight
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null); // Placeholder receiving deltas
+  const streamAbortRef = useRef<AbortController | null>(null);
   const [messageHistory, setMessageHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [tempInput, setTempInput] = useState("");
@@ -159,6 +164,8 @@ export const ChatInterface: React.FC = () => {
   const [avatarError, setAvatarError] = useState(false);
 
   const sendMessageMutation = useSendMessage();
+  const streamMessageMutation = useStreamMessage();
+  const resolveActionsMutation = useResolveChatActions();
   const { user } = useAuthStore();
   const {
     data: chatHistoryData,
@@ -208,6 +215,7 @@ export const ChatInterface: React.FC = () => {
                     images: msg.metadata?.imageUrls || undefined,
                     recipe: msg.metadata?.recipe || undefined,
                     recipes: msg.metadata?.recipes || undefined,
+                    actions: msg.metadata?.pendingActions || undefined,
                   }));
                 }
               } catch (error) {
@@ -799,11 +807,13 @@ export const ChatInterface: React.FC = () => {
 
         // Only send explicit intent if client-side detection strongly suggests recipe_extraction
         // Otherwise, let server's AI-powered detection decide (it handles images, context, etc.)
-        // Server intents: 'recipe_extraction' | 'rag_search' | 'general_chat'
+        // Server intents: 'recipe_extraction' | 'rag_search' | 'app_action' | 'general_chat'
+        // Meal plan and grocery requests ("add this recipe to Monday's dinner") detect as app_action,
+        // so they reach the server's agent instead of being forced into extraction
         const intentToSend =
           detectedIntent === "recipe_extraction"
             ? "recipe_extraction" // Explicitly request recipe extraction
-            : undefined; // Let server's AI detection decide (handles RAG search, general chat, etc.)
+            : undefined; // Let server's AI detection decide (handles RAG search, app actions, general chat, etc.)
 
         const messageData: {
           message: string;
@@ -819,17 +829,75 @@ export const ChatInterface: React.FC = () => {
             recentMessages: currentConversation.messages.slice(-5),
             conversationId: currentConversationId,
             clientDetectedIntent: detectedIntent, // Pass as hint for logging/debugging
+            today: new Date().toLocaleDateString("en-CA"), // Local YYYY-MM-DD for date math and the current meal plan
           },
         };
         if (imageDataUrls.length > 0) {
           messageData.images = imageDataUrls;
         }
-        const sendResponse = (await sendMessageMutation.mutateAsync(
-          messageData
-        )) as ChatMessageResponse & {
-          conversationId?: string;
-          sessionId?: string;
-        };
+
+        // Stream the answer into a placeholder message as it's generated
+        const streamId = `streaming-${Date.now()}`;
+        const abortController = new AbortController();
+        streamAbortRef.current = abortController;
+        setIsStreaming(true);
+        let streamedContent = "";
+        let sendResponse: ChatStreamResponse;
+        try {
+          sendResponse = await streamMessageMutation.mutateAsync({
+            data: messageData,
+            signal: abortController.signal,
+            onDelta: (content) => {
+              streamedContent += content;
+              setStreamingMessageId(streamId);
+              setConversations((prev) =>
+                prev.map((conv) =>
+                  conv.id === currentConversationId
+                    ? {
+                        ...conv,
+                        messages: conv.messages.some((msg) => msg.id === streamId)
+                          ? conv.messages.map((msg) =>
+                              msg.id === streamId ? { ...msg, content: streamedContent } : msg
+                            )
+                          : [
+                              ...conv.messages,
+                              { id: streamId, content: streamedContent, sender: "ai", timestamp: new Date() },
+                            ],
+                      }
+                    : conv
+                )
+              );
+            },
+          });
+        } catch (error) {
+          if (!abortController.signal.aborted) {
+            setConversations((prev) =>
+              prev.map((conv) => ({
+                ...conv,
+                messages: conv.messages.filter((msg) => msg.id !== streamId),
+              }))
+            );
+            throw error;
+          }
+          // Stopped by the user — keep the partial answer (the server saves it too)
+          Logger.chat.stateChange('message_stream_cancelled', {
+            conversationId: currentConversationId,
+            contentLength: streamedContent.length,
+          });
+          return;
+        } finally {
+          streamAbortRef.current = null;
+          setIsStreaming(false);
+          setStreamingMessageId(null);
+        }
+
+        // The saved message replaces the placeholder below
+        setConversations((prev) =>
+          prev.map((conv) => ({
+            ...conv,
+            messages: conv.messages.filter((msg) => msg.id !== streamId),
+          }))
+        );
 
         // Update conversation ID if this is a new conversation (from database)
         if (sendResponse.conversationId && currentConversation.isTemporary) {
@@ -882,6 +950,7 @@ export const ChatInterface: React.FC = () => {
         timestamp: new Date(response.response.timestamp),
         recipe: response.recipe, // Include structured recipe if present (backwards compat)
         recipes: responseRecipes && responseRecipes.length > 1 ? responseRecipes : undefined,
+        actions: response.actions,
       };
 
       // Log successful response
@@ -930,7 +999,9 @@ export const ChatInterface: React.FC = () => {
       });
       const errorMessage: Message = {
         id: Date.now().toString(),
-        content: "Sorry, I encountered an error. Please try again.",
+        content: (error as any)?.status === 429
+          ? (error as Error).message
+          : "Sorry, I encountered an error. Please try again.",
         sender: "ai",
         timestamp: new Date(),
       };
@@ -951,6 +1022,50 @@ export const ChatInterface: React.FC = () => {
     }
   };
 
+  // Confirm or cancel the changes an agent message lined up, then show what happened
+  const handleResolveActions = (messageId: string, decision: "confirm" | "cancel") => {
+    if (!currentConversationId) return;
+    const conversationId = currentConversationId;
+
+    resolveActionsMutation.mutate(
+      { messageId, decision },
+      {
+        onSuccess: (result) => {
+          const followUp: Message = {
+            id: result.response.id,
+            content: result.response.content,
+            sender: "ai",
+            timestamp: new Date(result.response.timestamp),
+          };
+          setConversations((prev) =>
+            prev.map((conv) =>
+              conv.id === conversationId
+                ? {
+                    ...conv,
+                    messages: [
+                      ...conv.messages.map((msg) =>
+                        msg.id === messageId ? { ...msg, actions: result.actions } : msg
+                      ),
+                      followUp,
+                    ],
+                    lastMessage: followUp.content,
+                  }
+                : conv
+            )
+          );
+
+          const failed = result.actions.filter((a) => a.status === "failed").length;
+          if (failed > 0) {
+            toast.error(`${failed} change${failed > 1 ? "s" : ""} couldn't be made`);
+          } else if (decision === "confirm") {
+            toast.success("Changes made");
+          }
+        },
+        onError: (err: any) => toast.error(err?.message || "Failed to apply changes"),
+      }
+    );
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -1378,6 +1493,17 @@ export const ChatInterface: React.FC = () => {
                           {message.content}
                         </p>
                       )}
+                      {message.actions && message.actions.length > 0 && (
+                        <ChatActionCard
+                          actions={message.actions}
+                          isResolving={
+                            resolveActionsMutation.isPending &&
+                            resolveActionsMutation.variables?.messageId === message.id
+                          }
+                          onConfirm={() => handleResolveActions(message.id, "confirm")}
+                          onCancel={() => handleResolveActions(message.id, "cancel")}
+                        />
+                      )}
                       <p
                         className={`text-xs opacity-70 mt-1 ${
                           message.sender === "user"
@@ -1424,7 +1550,7 @@ export const ChatInterface: React.FC = () => {
               </div>
             ))
           )}
-          {isLoading && (
+          {isLoading && !streamingMessageId && (
             <div className="flex gap-3 justify-start">
               <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
                 <Bot className="h-4 w-4 text-primary" />
@@ -1527,6 +1653,16 @@ export const ChatInterface: React.FC = () => {
                   className="flex-1 resize-y overflow-y-auto rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                   style={{ minHeight: '60px', maxHeight: '300px' }}
                 />
+                {isStreaming && (
+                  <Button
+                    onClick={() => streamAbortRef.current?.abort()}
+                    variant="outline"
+                    size="icon"
+                    title="Stop generating"
+                  >
+                    <Square className="h-4 w-4" />
+                  </Button>
+                )}
                 <Button
                   onClick={handleSendMessage}
                   disabled={
@@ -2,9 +2,12 @@ import React, { useState, useImperativeHandle, forwardRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Save, Clock, Users, ChefHat, Loader2, CheckCircle2, ChevronDown, ChevronRight, AlertTriangle, Copy, X, RefreshCw } from "lucide-react";
-import { useCreateRecipe, useUpdateRecipe, apiClient } from "@/services/api";
+import { Save, Clock, Users, ChefHat, Loader2, CheckCircle2, ChevronDown, ChevronRight, AlertTriangle } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useCreateRecipe, apiClient } from "@/services/api";
 import { VisibilityPicker, type RecipeVisibility } from "@/components/recipes/VisibilityPicker";
+import { DuplicateMergePanel } from "@/components/recipes/DuplicateMergePanel";
+import type { DuplicateResolution, QualityField, RecipeQuality, SimilarRecipeMatch } from "@/types/pipeline";
 
 interface Ingredient {
   name: string;
@@ -34,22 +37,34 @@ interface StructuredRecipe {
   nutrition_info?: Record<string, unknown> | null;
   source_url?: string | null;
   source_name?: string | null;
+  /** Per-field provenance from the pipeline's transform stage */
+  quality?: RecipeQuality;
 }
 
-interface SimilarRecipeMatch {
-  id: string;
-  title: string;
-  similarity: number;
-}
+const QUALITY_FIELD_LABELS: Record<QualityField, string> = {
+  title: "title",
+  description: "description",
+  ingredients: "ingredient amounts",
+  instructions: "instructions",
+  prep_time: "prep time",
+  cook_time: "cook time",
+  total_time: "total time",
+  servings: "servings",
+  difficulty: "difficulty",
+  cuisine: "cuisine",
+  tags: "tags",
+  image_url: "image",
+  nutrition_info: "nutrition",
+};
+
+/** Amber outline for fields the pipeline guessed */
+const REVIEW_BADGE_CLASS = "border-amber-400 text-amber-700 dark:border-amber-500 dark:text-amber-300";
 
 type SavePhase =
   | "idle"
-  | "checking_title"       // Phase 1: checking for duplicate title
-  | "duplicate_found"      // Phase 1 result: duplicate title exists
-  | "confirm_overwrite"    // Phase 1b: user clicked Overwrite, confirm before proceeding
+  | "checking_duplicates"  // Checking for duplicate titles and similar recipes
+  | "duplicate_found"      // Duplicates found: user picks keep / replace / save both / merge
   | "uploading_image"      // Uploading user image
-  | "checking_similarity"  // Phase 2: checking for similar recipes via embedding
-  | "similar_found"        // Phase 2 result: similar recipes found
   | "saving"               // Final save in progress
   | "saved";               // Done
 
@@ -87,14 +102,12 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
   onSave,
 }, ref) => {
   const [savePhase, setSavePhase] = useState<SavePhase>("idle");
-  const [similarRecipes, setSimilarRecipes] = useState<SimilarRecipeMatch[]>([]);
-  const [duplicateId, setDuplicateId] = useState<string | null>(null);
-  const [saveTitle, setSaveTitle] = useState(recipe.title);
+  const [duplicates, setDuplicates] = useState<SimilarRecipeMatch[]>([]);
   const [showIngredients, setShowIngredients] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [visibility, setVisibility] = useState<RecipeVisibility>("private");
   const createRecipeMutation = useCreateRecipe();
-  const updateRecipeMutation = useUpdateRecipe();
+  const queryClient = useQueryClient();
 
   // Normalize snake_case/camelCase fields from pipeline
   const prepTime = recipe.prepTime ?? recipe.prep_time ?? null;
@@ -102,8 +115,13 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
   const totalTime = recipe.totalTime ?? recipe.total_time ?? (prepTime || cookTime ? (prepTime || 0) + (cookTime || 0) : null);
   const imageUrl = recipe.imageUrl ?? recipe.image_url ?? null;
 
-  const isBusy = savePhase === "checking_title" || savePhase === "uploading_image" || savePhase === "checking_similarity" || savePhase === "saving";
-  const isPrompting = savePhase === "duplicate_found" || savePhase === "confirm_overwrite" || savePhase === "similar_found";
+  // Fields the pipeline inferred or defaulted — highlighted so they get checked before saving
+  const reviewFields = recipe.quality?.review ?? [];
+  const needsReview = (field: QualityField) => reviewFields.includes(field);
+  const fieldNote = (field: QualityField) => recipe.quality?.fields[field]?.note;
+
+  const isBusy = savePhase === "checking_duplicates" || savePhase === "uploading_image" || savePhase === "saving";
+  const isPrompting = savePhase === "duplicate_found";
   const isSaved = savePhase === "saved";
 
   // Expose imperative handle for "Save All" button
@@ -138,7 +156,7 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
     if (!finalImageUrl && userImageDataUrl) {
       try {
         setSavePhase("uploading_image");
-        const slug = saveTitle.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 50);
+        const slug = recipe.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 50);
         const imageFile = dataUrlToFile(userImageDataUrl, `${slug}.jpg`);
         finalImageUrl = await apiClient.uploadImage(imageFile, "recipes");
         console.log("Uploaded recipe image:", finalImageUrl);
@@ -165,38 +183,11 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
   });
 
   /** Final save — skips the duplicate check in createRecipe since we already checked. */
-  const doSave = async (title: string, skipSimilarityCheck = false) => {
+  const doSave = async () => {
     setSavePhase("saving");
     try {
       const finalImageUrl = await uploadImage();
-      const recipeData = buildRecipeData(title, finalImageUrl);
-
-      // Phase 2: similarity check (unless skipped)
-      if (!skipSimilarityCheck) {
-        setSavePhase("checking_similarity");
-        try {
-          const { similar } = await apiClient.checkSimilarRecipes({
-            title: recipeData.title,
-            description: recipeData.description,
-            ingredients: recipeData.ingredients,
-            instructions: recipeData.instructions,
-            tags: recipeData.tags,
-            cuisine: recipe.cuisine || undefined,
-            difficulty: recipeData.difficulty,
-          });
-
-          if (similar && similar.length > 0) {
-            setSimilarRecipes(similar);
-            setSavePhase("similar_found");
-            return; // Pause — user must confirm
-          }
-        } catch (err) {
-          // Similarity check failed (non-fatal) — proceed with save
-          console.warn("Similarity check failed (non-fatal):", err);
-        }
-      }
-
-      // Proceed with actual save
+      const recipeData = buildRecipeData(recipe.title, finalImageUrl);
       setSavePhase("saving");
       await createRecipeMutation.mutateAsync({ data: recipeData, options: { skipDuplicateCheck: true } });
       setSavePhase("saved");
@@ -207,7 +198,7 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
     }
   };
 
-  /** Phase 1: title duplicate check, then proceed to Phase 2 + save. */
+  /** Check for duplicate titles and similar recipes, then save or ask the user how to resolve. */
   const handleSave = async () => {
     if (isSaved || isBusy) return;
 
@@ -216,69 +207,71 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
       return;
     }
 
-    setSavePhase("checking_title");
+    setSavePhase("checking_duplicates");
     try {
-      const { isDuplicate, existingId } = await apiClient.checkDuplicateTitle(saveTitle);
-      if (isDuplicate) {
-        setDuplicateId(existingId || null);
+      const { similar } = await apiClient.checkSimilarRecipes({
+        title: recipe.title,
+        description: recipe.description || "",
+        ingredients: recipe.ingredients,
+        instructions: recipe.instructions,
+        tags: recipe.tags || [],
+        cuisine: recipe.cuisine || undefined,
+        difficulty: recipe.difficulty || "medium",
+        prep_time: prepTime,
+        cook_time: cookTime,
+        total_time: totalTime,
+        servings: recipe.servings ?? null,
+      });
+
+      if (similar && similar.length > 0) {
+        setDuplicates(similar);
         setSavePhase("duplicate_found");
         return; // Pause — user must choose
       }
     } catch (err) {
-      // Title check failed (non-fatal) — proceed anyway
-      console.warn("Title check failed (non-fatal):", err);
+      // Duplicate check failed (non-fatal) — proceed with save
+      console.warn("Duplicate check failed (non-fatal):", err);
     }
 
-    // No duplicate — proceed to Phase 2 (similarity) + save
-    await doSave(saveTitle);
-  };
-
-  /** User chose "Overwrite" from Phase 1 duplicate prompt — ask for confirmation. */
-  const handleOverwriteRequest = () => {
-    setSavePhase("confirm_overwrite");
+    await doSave();
   };
 
-  /** User confirmed overwrite — update the existing recipe. */
-  const handleOverwriteConfirm = async () => {
-    if (!duplicateId) return;
-    setSavePhase("saving");
+  /** User picked a resolution from the duplicate panel. */
+  const handleResolve = async (resolution: DuplicateResolution) => {
     try {
       const finalImageUrl = await uploadImage();
-      const recipeData = buildRecipeData(saveTitle, finalImageUrl);
-      await updateRecipeMutation.mutateAsync({ id: duplicateId, data: recipeData });
+      setSavePhase("saving");
+      await apiClient.resolveDuplicate(
+        {
+          ...buildRecipeData(recipe.title, finalImageUrl),
+          totalTime,
+          cuisine: recipe.cuisine ?? null,
+          nutritionInfo: recipe.nutrition_info ?? null,
+          sourceUrl: recipe.source_url ?? null,
+          sourceName: recipe.source_name ?? null,
+        },
+        { ...resolution, visibility }
+      );
+      queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      setDuplicates([]);
       setSavePhase("saved");
       onSave?.({ success: true });
     } catch (error: any) {
-      setSavePhase("idle");
-      onSave?.({ success: false, error: error?.message || "Failed to overwrite recipe." });
+      setSavePhase("duplicate_found");
+      onSave?.({ success: false, error: error?.message || "Failed to save recipe." });
     }
   };
 
-  /** User chose "Save as Copy" from Phase 1 duplicate prompt. */
-  const handleSaveAsCopy = async () => {
-    const copyTitle = `${recipe.title} (Copy)`;
-    setSaveTitle(copyTitle);
-    await doSave(copyTitle);
-  };
-
-  /** User chose "Save Anyway" from Phase 2 similarity prompt. */
-  const handleSaveDespiteSimilar = async () => {
-    setSimilarRecipes([]);
-    await doSave(saveTitle, true); // skip similarity re-check
-  };
-
-  /** User cancelled from any prompt. */
+  /** User cancelled from the duplicate panel. */
   const handleCancel = () => {
     setSavePhase("idle");
-    setSimilarRecipes([]);
-    setDuplicateId(null);
+    setDuplicates([]);
   };
 
   const getPhaseStatusText = () => {
     switch (savePhase) {
-      case "checking_title": return "Checking for duplicates...";
+      case "checking_duplicates": return "Checking for duplicates...";
       case "uploading_image": return "Uploading image...";
-      case "checking_similarity": return "Checking for similar recipes...";
       case "saving": return "Saving...";
       default: return "Saving...";
     }
@@ -295,30 +288,33 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
         )}
         <div className="flex flex-wrap gap-2 items-center">
           {prepTime != null && prepTime > 0 && (
-            <Badge variant="outline" className="gap-1">
+            <Badge variant="outline" className={`gap-1 ${needsReview("prep_time") ? REVIEW_BADGE_CLASS : ""}`} title={fieldNote("prep_time")}>
               <Clock className="h-3 w-3" />
               Prep: {prepTime}m
             </Badge>
           )}
           {cookTime != null && cookTime > 0 && (
-            <Badge variant="outline" className="gap-1">
+            <Badge variant="outline" className={`gap-1 ${needsReview("cook_time") ? REVIEW_BADGE_CLASS : ""}`} title={fieldNote("cook_time")}>
               <Clock className="h-3 w-3" />
               Cook: {cookTime}m
             </Badge>
           )}
           {totalTime != null && totalTime > 0 && (
-            <Badge variant="outline" className="gap-1">
+            <Badge variant="outline" className={`gap-1 ${needsReview("total_time") ? REVIEW_BADGE_CLASS : ""}`} title={fieldNote("total_time")}>
               Total: {totalTime}m
             </Badge>
           )}
           {recipe.servings != null && (
-            <Badge variant="outline" className="gap-1">
+            <Badge variant="outline" className={`gap-1 ${needsReview("servings") ? REVIEW_BADGE_CLASS : ""}`} title={fieldNote("servings")}>
               <Users className="h-3 w-3" />
               {recipe.servings} servings
             </Badge>
           )}
           {recipe.difficulty && (
-            <Badge className={getDifficultyColor(recipe.difficulty)}>
+            <Badge
+              className={`${getDifficultyColor(recipe.difficulty)} ${needsReview("difficulty") ? "ring-1 ring-amber-400" : ""}`}
+              title={fieldNote("difficulty")}
+            >
               <ChefHat className="h-3 w-3 mr-1" />
               {recipe.difficulty.charAt(0).toUpperCase() + recipe.difficulty.slice(1)}
             </Badge>
@@ -340,6 +336,15 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
             </a>
           </p>
         )}
+        {reviewFields.length > 0 && !isSaved && (
+          <p className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-300 mt-2">
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+            <span>
+              Check before saving — {reviewFields.map((field) => QUALITY_FIELD_LABELS[field]).join(", ")}{" "}
+              {reviewFields.length === 1 ? "was" : "were"} guessed or incomplete.
+            </span>
+          </p>
+        )}
       </CardHeader>
 
       <CardContent className="space-y-2 pt-0">
@@ -361,8 +366,9 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
               onClick={() => setShowIngredients(!showIngredients)}
               className="w-full flex items-center justify-between px-4 py-2.5 transition-colors rounded-lg hover:text-stone-900 dark:hover:text-white"
             >
-              <h4 className="font-semibold text-sm">
+              <h4 className="font-semibold text-sm flex items-center gap-1.5">
                 Ingredients ({recipe.ingredients.length})
+                {needsReview("ingredients") && <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />}
               </h4>
               {showIngredients ? (
                 <ChevronDown className="h-4 w-4 text-muted-foreground" />
@@ -372,6 +378,9 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
             </button>
             {showIngredients && (
               <div className="px-4 pb-3 space-y-1">
+                {needsReview("ingredients") && fieldNote("ingredients") && (
+                  <p className="text-xs text-amber-700 dark:text-amber-300 pb-1">{fieldNote("ingredients")}</p>
+                )}
                 {recipe.ingredients.map((ingredient, index) => {
                   const qty = formatIngredient(ingredient);
                   return (
@@ -400,8 +409,9 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
               onClick={() => setShowInstructions(!showInstructions)}
               className="w-full flex items-center justify-between px-4 py-2.5 transition-colors rounded-lg hover:text-stone-900 dark:hover:text-white"
             >
-              <h4 className="font-semibold text-sm">
+              <h4 className="font-semibold text-sm flex items-center gap-1.5">
                 Instructions ({recipe.instructions.length} steps)
+                {needsReview("instructions") && <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />}
               </h4>
               {showInstructions ? (
                 <ChevronDown className="h-4 w-4 text-muted-foreground" />
@@ -424,97 +434,9 @@ export const StructuredRecipeDisplay = forwardRef<StructuredRecipeDisplayHandle,
           </div>
         )}
 
-        {/* ── Phase 1 Prompt: Duplicate title found ── */}
-        {savePhase === "duplicate_found" && (
-          <div className="border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-950/30 rounded-lg p-3 space-y-2">
-            <div className="flex items-start gap-2">
-              <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
-              <div className="text-sm">
-                <p className="font-medium text-yellow-800 dark:text-yellow-200">
-                  Duplicate recipe name
-                </p>
-                <p className="text-yellow-700 dark:text-yellow-300 mt-0.5">
-                  A recipe named "{saveTitle}" already exists in your collection.
-                </p>
-              </div>
-            </div>
-            <div className="flex gap-2 ml-6">
-              <Button size="sm" variant="outline" onClick={handleSaveAsCopy} className="gap-1">
-                <Copy className="h-3 w-3" />
-                Save as Copy
-              </Button>
-              <Button size="sm" variant="destructive" onClick={handleOverwriteRequest} className="gap-1">
-                <RefreshCw className="h-3 w-3" />
-                Overwrite
-              </Button>
-              <Button size="sm" variant="ghost" onClick={handleCancel} className="gap-1">
-                <X className="h-3 w-3" />
-                Cancel
-              </Button>
-            </div>
-          </div>
-        )}
-
-        {/* ── Phase 1b: Confirm overwrite ── */}
-        {savePhase === "confirm_overwrite" && (
-          <div className="border border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-950/30 rounded-lg p-3 space-y-2">
-            <div className="flex items-start gap-2">
-              <AlertTriangle className="h-4 w-4 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
-              <div className="text-sm">
-                <p className="font-medium text-red-800 dark:text-red-200">
-                  Confirm overwrite
-                </p>
-                <p className="text-red-700 dark:text-red-300 mt-0.5">
-                  This will replace your existing "{saveTitle}" recipe. This action cannot be undone.
-                </p>
-              </div>
-            </div>
-            <div className="flex gap-2 ml-6">
-              <Button size="sm" variant="destructive" onClick={handleOverwriteConfirm}>
-                Yes, Overwrite
-              </Button>
-              <Button size="sm" variant="ghost" onClick={handleCancel} className="gap-1">
-                <X className="h-3 w-3" />
-                Cancel
-              </Button>
-            </div>
-          </div>
-        )}
-
-        {/* ── Phase 2 Prompt: Similar recipes found ── */}
-        {savePhase === "similar_found" && similarRecipes.length > 0 && (
-          <div className="border border-primary-300 dark:border-primary-700 bg-primary-50 dark:bg-primary-950/30 rounded-lg p-3 space-y-2">
-            <div className="flex items-start gap-2">
-              <AlertTriangle className="h-4 w-4 text-primary-500 dark:text-primary-400 mt-0.5 flex-shrink-0" />
-              <div className="text-sm">
-                <p className="font-medium text-primary-800 dark:text-primary-200">
-                  Similar recipes detected
-                </p>
-                <p className="text-primary-700 dark:text-primary-300 mt-0.5">
-                  We found recipes in your collection that look similar:
-                </p>
-                <ul className="mt-1.5 space-y-1">
-                  {similarRecipes.map((match) => (
-                    <li key={match.id} className="text-primary-700 dark:text-primary-300">
-                      <span className="font-medium">{match.title}</span>
-                      <span className="text-primary-500 dark:text-primary-400 ml-1.5">
-                        ({Math.round(match.similarity * 100)}% similar)
-                      </span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            </div>
-            <div className="flex gap-2 ml-6">
-              <Button size="sm" variant="default" onClick={handleSaveDespiteSimilar}>
-                Save Anyway
-              </Button>
-              <Button size="sm" variant="ghost" onClick={handleCancel} className="gap-1">
-                <X className="h-3 w-3" />
-                Cancel
-              </Button>
-            </div>
-          </div>
+        {/* ── Duplicate prompt: field diff with keep / replace / save both / merge ── */}
+        {savePhase === "duplicate_found" && duplicates.length > 0 && (
+          <DuplicateMergePanel matches={duplicates} onResolve={handleResolve} onCancel={handleCancel} />
         )}
 
         {/* Visibility picker + Save button at the bottom of the card */}
@@ -0,0 +1,94 @@
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import type { MealAbsences, MealSlot } from '@/types/mealPlan';
+
+interface MealDefaultsEditorProps {
+  mealAbsences: MealAbsences;
+  portionMultiplier: number;
+  onChange: (next: { mealAbsences: MealAbsences; portionMultiplier: number }) => void;
+}
+
+const SLOTS: { key: MealSlot; label: string }[] = [
+  { key: 'breakfast', label: 'Breakfast' },
+  { key: 'lunch', label: 'Lunch' },
+  { key: 'dinner', label: 'Dinner' },
+];
+
+const DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PORTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * Which meals someone usually eats at home (highlighted) on each weekday, and how big
+ * their portion is. New meal plan entries start from these.
+ */
+const MealDefaultsEditor = ({ mealAbsences, portionMultiplier, onChange }: MealDefaultsEditorProps) => {
+  const toggleDay = (slot: MealSlot, day: number) => {
+    const away = mealAbsences[slot] || [];
+    const nextAway = away.includes(day) ? away.filter((d) => d !== day) : [...away, day].sort();
+    const next = { ...mealAbsences };
+    if (nextAway.length > 0) next[slot] = nextAway;
+    else delete next[slot];
+    onChange({ mealAbsences: next, portionMultiplier });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label>Usually at these meals</Label>
+        <div className="space-y-1">
+          {SLOTS.map((slot) => (
+            <div key={slot.key} className="flex items-center gap-2">
+              <span className="w-16 text-xs text-muted-foreground">{slot.label}</span>
+              <div className="flex gap-1">
+                {DAYS.map((label, day) => {
+                  const isAway = (mealAbsences[slot.key] || []).includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      className={`w-6 h-6 rounded-md text-[10px] font-medium transition-all duration-150 ${
+                        isAway
+                          ? 'border border-dashed border-border text-muted-foreground/50 hover:border-primary/40'
+                          : 'bg-primary/15 text-primary hover:bg-primary/25'
+                      }`}
+                      onClick={() => toggleDay(slot.key, day)}
+                      title={`${DAY_NAMES[day]} ${slot.label.toLowerCase()}: ${isAway ? 'usually away' : 'usually eats'}`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          Click a day to mark them away, e.g. weekday lunches at school
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label className="text-xs">Portion size</Label>
+        <Select
+          value={String(portionMultiplier)}
+          onValueChange={(v) => onChange({ mealAbsences, portionMultiplier: parseFloat(v) })}
+        >
+          <SelectTrigger className="h-8 w-28 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PORTIONS.map((p) => (
+              <SelectItem key={p} value={String(p)}>
+                {p === 1 ? '1 serving' : `${p}× serving`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default MealDefaultsEditor;
@@ -0,0 +1,150 @@
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { X, Check, Users, AlertTriangle } from 'lucide-react';
+import type { MealAllergyConflict, MealAttendee, MealSlot, PlannedMealEntry } from '@/types/mealPlan';
+import {
+  isSameAttendee,
+  isUsuallyAway,
+  servingsForAttendees,
+  type HouseholdDiner,
+} from '@/utils/mealAttendance';
+
+interface AttendanceModalProps {
+  open: boolean;
+  /** The planned meal, with its date and slot */
+  target: { entry: PlannedMealEntry; date: string; slot: MealSlot } | null;
+  diners: HouseholdDiner[];
+  /** Allergy conflicts for this meal, per dependent */
+  conflicts: MealAllergyConflict[];
+  onConfirm: (attendees: MealAttendee[], servings: number) => void;
+  onClose: () => void;
+}
+
+function formatDay(dateStr: string): string {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+const AttendanceModal = ({ open, target, diners, conflicts, onConfirm, onClose }: AttendanceModalProps) => {
+  const [attendees, setAttendees] = useState<MealAttendee[]>([]);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  // Reset on open — entries without attendance count everyone; people who have left are dropped
+  useEffect(() => {
+    if (!open || !target) return;
+    const current = target.entry.attendees ?? diners;
+    setAttendees(
+      current
+        .filter((a) => diners.some((d) => isSameAttendee(d, a)))
+        .map(({ kind, id }) => ({ kind, id }))
+    );
+  }, [open, target, diners]);
+
+  // Close on escape
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose]);
+
+  const toggle = (diner: HouseholdDiner) => {
+    setAttendees((prev) =>
+      prev.some((a) => isSameAttendee(a, diner))
+        ? prev.filter((a) => !isSameAttendee(a, diner))
+        : [...prev, { kind: diner.kind, id: diner.id }]
+    );
+  };
+
+  if (!open || !target) return null;
+
+  const servings = servingsForAttendees(attendees, diners);
+
+  return (
+    <div
+      ref={overlayRef}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in"
+      onClick={(e) => { if (e.target === overlayRef.current) onClose(); }}
+    >
+      <div className="w-full max-w-md max-h-[80vh] mx-4 bg-white dark:bg-[#16171c] rounded-2xl shadow-2xl border border-stone-200/60 dark:border-white/[0.08] flex flex-col overflow-hidden animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-stone-200/60 dark:border-white/[0.06]">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-stone-900 dark:text-white truncate">
+              {target.entry.recipeName}
+            </h3>
+            <p className="text-xs text-stone-500 dark:text-gray-400 mt-0.5 capitalize">
+              {formatDay(target.date)} · {target.slot}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 rounded-xl" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Diners */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-1.5">
+          {diners.map((diner) => {
+            const isEating = attendees.some((a) => isSameAttendee(a, diner));
+            const conflict = diner.kind === 'family_member'
+              ? conflicts.find((c) => c.familyMemberId === diner.id)
+              : undefined;
+            return (
+              <button
+                key={`${diner.kind}:${diner.id}`}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl border text-left transition-all duration-150 ${
+                  isEating
+                    ? 'border-primary-500/30 bg-primary-500/[0.04]'
+                    : 'border-stone-200/60 dark:border-white/[0.06] opacity-60 hover:opacity-100'
+                }`}
+                onClick={() => toggle(diner)}
+              >
+                <div className={`w-4 h-4 rounded flex items-center justify-center flex-shrink-0 ${
+                  isEating ? 'bg-primary-500 text-white' : 'border border-stone-300 dark:border-white/[0.2]'
+                }`}>
+                  {isEating && <Check className="h-3 w-3" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-stone-800 dark:text-gray-200 truncate">{diner.name}</p>
+                  {conflict ? (
+                    <p className="flex items-center gap-1 text-[10px] text-rose-500">
+                      <AlertTriangle className="h-2.5 w-2.5 flex-shrink-0" />
+                      <span className="truncate">{conflict.conflicts.join('; ')}</span>
+                    </p>
+                  ) : isUsuallyAway(diner, target.date, target.slot) ? (
+                    <p className="text-[10px] text-stone-400 dark:text-gray-500">Usually away for this meal</p>
+                  ) : null}
+                </div>
+                {diner.portionMultiplier !== 1 && (
+                  <span className="text-[10px] font-medium text-stone-400 dark:text-gray-500 tabular-nums flex-shrink-0">
+                    {diner.portionMultiplier}×
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-stone-200/60 dark:border-white/[0.06] flex items-center justify-between bg-stone-50/50 dark:bg-white/[0.02]">
+          <span className="flex items-center gap-1.5 text-xs text-stone-500 dark:text-gray-400">
+            <Users className="h-3.5 w-3.5" />
+            {attendees.length} eating · {servings} {servings === 1 ? 'serving' : 'servings'}
+          </span>
+          <Button
+            size="sm"
+            disabled={attendees.length === 0}
+            className="gap-1.5 rounded-xl shadow-lg shadow-primary-500/20 hover:shadow-xl hover:shadow-primary-500/30 hover:-translate-y-0.5 active:translate-y-0 transition-all duration-200 disabled:opacity-40 disabled:shadow-none disabled:translate-y-0"
+            onClick={() => onConfirm(attendees, servings)}
+          >
+            <Check className="h-3.5 w-3.5" />
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceModal;
@@ -0,0 +1,273 @@
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Coffee,
+  Sun,
+  Moon,
+  X,
+  Check,
+  Shuffle,
+  Sparkles,
+  Loader2,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useGenerateMealPlan } from '@/services/api';
+import type { GeneratedMealPlan, GeneratedMealSlot } from '@/types/mealPlan';
+
+interface GeneratePlanModalProps {
+  open: boolean;
+  startDate: string;
+  endDate: string;
+  /** Plan whose empty slots get filled; omitted when a new draft plan will be created */
+  planId?: string;
+  onConfirm: (plan: GeneratedMealPlan) => void;
+  onClose: () => void;
+}
+
+const SLOT_CONFIG: { key: GeneratedMealSlot; label: string; icon: React.ElementType; color: string; bg: string; activeBg: string }[] = [
+  { key: 'breakfast', label: 'Breakfast', icon: Coffee, color: 'text-amber-500', bg: 'bg-amber-500/10', activeBg: 'bg-amber-500' },
+  { key: 'lunch', label: 'Lunch', icon: Sun, color: 'text-orange-500', bg: 'bg-orange-500/10', activeBg: 'bg-orange-500' },
+  { key: 'dinner', label: 'Dinner', icon: Moon, color: 'text-indigo-500', bg: 'bg-indigo-500/10', activeBg: 'bg-indigo-500' },
+];
+
+const DEFAULT_WEEKNIGHT_MINUTES = '45';
+const DEFAULT_NO_REPEAT_DAYS = '7';
+
+function formatDay(dateStr: string): string {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function countMeals(plan: GeneratedMealPlan): number {
+  return Object.values(plan.meals).reduce(
+    (sum, day) => sum + Object.values(day).reduce((n, entries) => n + (entries?.length || 0), 0),
+    0
+  );
+}
+
+const GeneratePlanModal = ({ open, startDate, endDate, planId, onConfirm, onClose }: GeneratePlanModalProps) => {
+  const [slots, setSlots] = useState<GeneratedMealSlot[]>(['dinner']);
+  const [maxMinutes, setMaxMinutes] = useState(DEFAULT_WEEKNIGHT_MINUTES);
+  const [noRepeatDays, setNoRepeatDays] = useState(DEFAULT_NO_REPEAT_DAYS);
+  const [draft, setDraft] = useState<GeneratedMealPlan | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const generate = useGenerateMealPlan();
+
+  // Reset on open
+  useEffect(() => {
+    if (open) setDraft(null);
+  }, [open]);
+
+  // Close on escape
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose]);
+
+  const toggleSlot = (slot: GeneratedMealSlot) => {
+    setSlots((prev) => (prev.includes(slot) ? prev.filter((s) => s !== slot) : [...prev, slot]));
+  };
+
+  /** Without a seed the server picks one, so every click is a fresh draft */
+  const handleGenerate = () => {
+    const minutes = parseInt(maxMinutes, 10);
+    generate.mutate(
+      {
+        startDate,
+        endDate,
+        slots,
+        maxWeeknightMinutes: minutes > 0 ? minutes : null,
+        noRepeatDays: Math.max(0, parseInt(noRepeatDays, 10) || 0),
+        planId,
+      },
+      {
+        onSuccess: setDraft,
+        onError: (err: any) => toast.error(err?.message || 'Failed to generate a plan'),
+      }
+    );
+  };
+
+  const removeEntry = (date: string, slot: GeneratedMealSlot) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const day = { ...prev.meals[date] };
+      delete day[slot];
+      return { ...prev, meals: { ...prev.meals, [date]: day } };
+    });
+  };
+
+  if (!open) return null;
+
+  const mealCount = draft ? countMeals(draft) : 0;
+  const excluded = draft
+    ? [
+        draft.excluded.allergy && `${draft.excluded.allergy} with a household allergen`,
+        draft.excluded.diet && `${draft.excluded.diet} against someone's diet`,
+        draft.excluded.disliked && `${draft.excluded.disliked} thumbs-downed`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div
+      ref={overlayRef}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in"
+      onClick={(e) => { if (e.target === overlayRef.current) onClose(); }}
+    >
+      <div className="w-full max-w-lg max-h-[85vh] mx-4 bg-white dark:bg-[#16171c] rounded-2xl shadow-2xl border border-stone-200/60 dark:border-white/[0.08] flex flex-col overflow-hidden animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-stone-200/60 dark:border-white/[0.06]">
+          <div>
+            <h3 className="text-lg font-semibold text-stone-900 dark:text-white">
+              Generate Plan
+            </h3>
+            <p className="text-xs text-stone-500 dark:text-gray-400 mt-0.5">
+              {formatDay(startDate)} – {formatDay(endDate)} · fills empty slots from your household's recipes
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 rounded-xl" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+          {/* Options */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-1.5">
+              {SLOT_CONFIG.map((slot) => {
+                const isActive = slots.includes(slot.key);
+                return (
+                  <button
+                    key={slot.key}
+                    onClick={() => toggleSlot(slot.key)}
+                    className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[11px] font-medium transition-all duration-150 ${
+                      isActive
+                        ? `${slot.activeBg} text-white shadow-sm`
+                        : `${slot.bg} ${slot.color} hover:opacity-80`
+                    }`}
+                  >
+                    <slot.icon className="h-3 w-3" />
+                    {slot.label}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="generate-max-minutes" className="text-xs font-medium">Weeknight dinners up to (min)</Label>
+                <Input
+                  id="generate-max-minutes"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={maxMinutes}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxMinutes(e.target.value)}
+                  className="mt-1 h-8 text-xs"
+                />
+              </div>
+              <div>
+                <Label htmlFor="generate-no-repeat" className="text-xs font-medium">No repeats within (days)</Label>
+                <Input
+                  id="generate-no-repeat"
+                  type="number"
+                  min={0}
+                  value={noRepeatDays}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNoRepeatDays(e.target.value)}
+                  className="mt-1 h-8 text-xs"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Draft preview */}
+          {draft && (
+            <div className="space-y-2">
+              {Object.keys(draft.meals).sort().map((date) => {
+                const day = draft.meals[date];
+                const entries = SLOT_CONFIG.filter((s) => day[s.key]?.length);
+                if (entries.length === 0) return null;
+                return (
+                  <div key={date} className="rounded-xl border border-stone-200/60 dark:border-white/[0.06] bg-stone-50/50 dark:bg-white/[0.02] px-3 py-2">
+                    <p className="text-[10px] font-semibold uppercase tracking-wider text-stone-400 dark:text-gray-500 mb-1">
+                      {formatDay(date)}
+                    </p>
+                    {entries.map((slot) => (
+                      <div key={slot.key} className="group/meal flex items-center gap-2 py-0.5 text-xs text-stone-700 dark:text-gray-300">
+                        <slot.icon className={`h-3 w-3 ${slot.color} flex-shrink-0`} />
+                        <span className="truncate flex-1">{day[slot.key]![0].recipeName}</span>
+                        <button
+                          className="flex-shrink-0 opacity-0 group-hover/meal:opacity-100 text-stone-400 hover:text-destructive transition-all"
+                          onClick={() => removeEntry(date, slot.key)}
+                          title="Leave this slot empty"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+              {mealCount === 0 && (
+                <p className="text-xs text-stone-400 dark:text-gray-500 text-center py-3">
+                  No recipes fit — try fewer constraints or add more recipes.
+                </p>
+              )}
+              {draft.unfilled.length > 0 && (
+                <p className="text-[10px] text-amber-500">
+                  {draft.unfilled.length} {draft.unfilled.length === 1 ? 'slot' : 'slots'} left empty — no recipe fits without repeating or breaking a constraint
+                </p>
+              )}
+              {excluded.length > 0 && (
+                <p className="text-[10px] text-stone-400 dark:text-gray-500">
+                  Left out: {excluded.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-stone-200/60 dark:border-white/[0.06] flex items-center justify-between bg-stone-50/50 dark:bg-white/[0.02]">
+          <span className="text-[10px] text-stone-400 dark:text-gray-500" title="Generating with the same seed and recipes gives the same plan">
+            {draft ? `Seed ${draft.seed}` : ''}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5 rounded-xl"
+              disabled={slots.length === 0 || generate.isPending}
+              onClick={handleGenerate}
+            >
+              {generate.isPending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : draft ? (
+                <Shuffle className="h-3.5 w-3.5" />
+              ) : (
+                <Sparkles className="h-3.5 w-3.5" />
+              )}
+              {draft ? 'Shuffle' : 'Generate'}
+            </Button>
+            {draft && (
+              <Button
+                size="sm"
+                disabled={mealCount === 0}
+                className="gap-1.5 rounded-xl shadow-lg shadow-primary-500/20 hover:shadow-xl hover:shadow-primary-500/30 hover:-translate-y-0.5 active:translate-y-0 transition-all duration-200 disabled:opacity-40 disabled:shadow-none disabled:translate-y-0"
+                onClick={() => onConfirm(draft)}
+              >
+                <Check className="h-3.5 w-3.5" />
+                Add {mealCount} to Plan
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeneratePlanModal;
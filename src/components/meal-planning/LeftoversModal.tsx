@@ -0,0 +1,197 @@
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Coffee,
+  Sun,
+  Moon,
+  Minus,
+  Plus,
+  X,
+  Check,
+  Soup,
+} from 'lucide-react';
+import type { MealSlot, PlannedMealEntry } from '@/types/mealPlan';
+
+export interface LeftoversPlan {
+  slot: MealSlot;
+  /** ISO date strings — one leftovers entry per date */
+  dates: string[];
+  /** Portions eaten at each leftovers meal */
+  servings: number;
+}
+
+interface LeftoversModalProps {
+  open: boolean;
+  /** The dinner the leftovers come from, and its date */
+  source: { entry: PlannedMealEntry; date: string } | null;
+  weekDates: Date[];
+  onConfirm: (plan: LeftoversPlan) => void;
+  onClose: () => void;
+}
+
+const SLOT_CONFIG: { key: MealSlot; label: string; icon: React.ElementType; color: string; bg: string; activeBg: string }[] = [
+  { key: 'breakfast', label: 'Breakfast', icon: Coffee, color: 'text-amber-500', bg: 'bg-amber-500/10', activeBg: 'bg-amber-500' },
+  { key: 'lunch', label: 'Lunch', icon: Sun, color: 'text-orange-500', bg: 'bg-orange-500/10', activeBg: 'bg-orange-500' },
+  { key: 'dinner', label: 'Dinner', icon: Moon, color: 'text-indigo-500', bg: 'bg-indigo-500/10', activeBg: 'bg-indigo-500' },
+];
+
+const DAYS_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_LEFTOVER_SERVINGS = 2;
+
+function formatDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+const LeftoversModal = ({ open, source, weekDates, onConfirm, onClose }: LeftoversModalProps) => {
+  const [slot, setSlot] = useState<MealSlot>('lunch');
+  const [dates, setDates] = useState<string[]>([]);
+  const [servings, setServings] = useState(DEFAULT_LEFTOVER_SERVINGS);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  // Days after the cook — leftovers can't come before it
+  const laterDates = weekDates.filter((d) => source && formatDateKey(d) > source.date);
+
+  // Reset on open — next day's lunch
+  useEffect(() => {
+    if (!open || !source) return;
+    const next = weekDates.map(formatDateKey).find((d) => d > source.date);
+    setSlot('lunch');
+    setDates(next ? [next] : []);
+    setServings(DEFAULT_LEFTOVER_SERVINGS);
+  }, [open, source, weekDates]);
+
+  // Close on escape
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose]);
+
+  const toggleDate = (dateStr: string) => {
+    setDates((prev) => (prev.includes(dateStr) ? prev.filter((d) => d !== dateStr) : [...prev, dateStr]));
+  };
+
+  if (!open || !source) return null;
+
+  const batchServings = (source.entry.servings || 0) + servings * dates.length;
+
+  return (
+    <div
+      ref={overlayRef}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in"
+      onClick={(e) => { if (e.target === overlayRef.current) onClose(); }}
+    >
+      <div className="w-full max-w-md mx-4 bg-white dark:bg-[#16171c] rounded-2xl shadow-2xl border border-stone-200/60 dark:border-white/[0.08] flex flex-col overflow-hidden animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-stone-200/60 dark:border-white/[0.06]">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-stone-900 dark:text-white">
+              Plan Leftovers
+            </h3>
+            <p className="text-xs text-stone-500 dark:text-gray-400 mt-0.5 truncate">
+              From {source.entry.recipeName}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 rounded-xl" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {laterDates.length === 0 ? (
+            <p className="text-xs text-stone-400 dark:text-gray-500 text-center py-3">
+              This is the last day of the week — plan leftovers from an earlier dinner.
+            </p>
+          ) : (
+            <>
+              {/* Slot */}
+              <div className="flex items-center gap-1.5">
+                {SLOT_CONFIG.map((s) => (
+                  <button
+                    key={s.key}
+                    onClick={() => setSlot(s.key)}
+                    className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[11px] font-medium transition-all duration-150 ${
+                      slot === s.key
+                        ? `${s.activeBg} text-white shadow-sm`
+                        : `${s.bg} ${s.color} hover:opacity-80`
+                    }`}
+                  >
+                    <s.icon className="h-3 w-3" />
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Days */}
+              <div className="flex flex-wrap gap-1.5">
+                {laterDates.map((date) => {
+                  const dateStr = formatDateKey(date);
+                  const isSelected = dates.includes(dateStr);
+                  return (
+                    <button
+                      key={dateStr}
+                      onClick={() => toggleDate(dateStr)}
+                      className={`px-2.5 py-1.5 rounded-lg text-[11px] font-medium border transition-all duration-150 ${
+                        isSelected
+                          ? 'bg-primary-500 border-primary-500 text-white shadow-sm'
+                          : 'border-stone-200 dark:border-white/[0.1] text-stone-500 dark:text-gray-400 hover:border-primary-500/40'
+                      }`}
+                    >
+                      {DAYS_SHORT[date.getDay()]} {date.getDate()}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Servings per leftovers meal */}
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-stone-700 dark:text-gray-300">Servings each time</span>
+                <div className="flex items-center gap-1.5">
+                  <button
+                    className="w-7 h-7 rounded-lg border border-stone-200 dark:border-white/[0.1] bg-white dark:bg-white/[0.05] flex items-center justify-center text-stone-500 hover:text-primary-500 hover:border-primary-500/30 hover:shadow-sm active:scale-95 transition-all duration-150 disabled:opacity-30 disabled:hover:text-stone-500"
+                    onClick={() => setServings((s) => Math.max(1, s - 1))}
+                    disabled={servings <= 1}
+                  >
+                    <Minus className="h-3 w-3" />
+                  </button>
+                  <span className="text-sm font-bold text-stone-900 dark:text-white w-7 text-center tabular-nums">
+                    {servings}
+                  </span>
+                  <button
+                    className="w-7 h-7 rounded-lg border border-stone-200 dark:border-white/[0.1] bg-white dark:bg-white/[0.05] flex items-center justify-center text-stone-500 hover:text-primary-500 hover:border-primary-500/30 hover:shadow-sm active:scale-95 transition-all duration-150"
+                    onClick={() => setServings((s) => s + 1)}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </button>
+                </div>
+              </div>
+
+              <p className="flex items-center gap-1.5 text-[11px] text-stone-500 dark:text-gray-400">
+                <Soup className="h-3.5 w-3.5 text-emerald-500 flex-shrink-0" />
+                Cook {batchServings} servings once — the grocery list buys for the whole batch
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-stone-200/60 dark:border-white/[0.06] flex justify-end bg-stone-50/50 dark:bg-white/[0.02]">
+          <Button
+            size="sm"
+            disabled={dates.length === 0}
+            className="gap-1.5 rounded-xl shadow-lg shadow-primary-500/20 hover:shadow-xl hover:shadow-primary-500/30 hover:-translate-y-0.5 active:translate-y-0 transition-all duration-200 disabled:opacity-40 disabled:shadow-none disabled:translate-y-0"
+            onClick={() => onConfirm({ slot, dates, servings })}
+          >
+            <Check className="h-3.5 w-3.5" />
+            Plan {dates.length} {dates.length === 1 ? 'Meal' : 'Meals'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeftoversModal;
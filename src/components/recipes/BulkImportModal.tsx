@@ -0,0 +1,400 @@
+import { useState, useRef, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { apiClient } from '@/services/api';
+import toast from 'react-hot-toast';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  Link2,
+  Loader2,
+  FileText,
+  FileUp,
+  BookOpen,
+  Upload,
+  X,
+} from 'lucide-react';
+import type { PipelineBatchItem, PipelineJob, PipelineStage } from '@/types/pipeline';
+
+interface BulkImportModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type Phase = 'input' | 'progress';
+
+const MAX_ITEMS = 25;
+const POLL_INTERVAL_MS = 2000;
+/** Stop polling after this long — the server fails jobs that stopped reporting by then */
+const POLL_TIMEOUT_MS = 16 * 60 * 1000;
+const EXPORT_FILE_TYPES = '.paprikarecipes,.paprikarecipe,.zip,.json,.mmf,.mm,.txt';
+const PDF_FILE_TYPES = '.pdf,application/pdf,image/*';
+/** A cookbook chapter can hold many recipes — raise the default cap of 5 */
+const PDF_MAX_RECIPES = 20;
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  adapter: 'Fetching',
+  extract: 'Extracting',
+  transform: 'Validating',
+  load: 'Saving',
+};
+
+/** Stage that is running now — the one after the last finished stage */
+const currentStageLabel = (job: PipelineJob): string => {
+  const order: PipelineStage[] = ['adapter', 'extract', 'transform', 'load'];
+  const last = job.stages[job.stages.length - 1];
+  const next = last ? order[order.indexOf(last.stage) + 1] : 'adapter';
+  return next ? STAGE_LABELS[next] : 'Finishing';
+};
+
+/**
+ * Split pasted input into batch items: every URL line is its own item,
+ * and blocks of recipe text are separated by a line containing only "---".
+ */
+const parseItems = (input: string): string[] => {
+  const items: string[] = [];
+  for (const block of input.split(/^\s*---\s*$/m)) {
+    const lines = block.split('\n').map((l) => l.trim()).filter(Boolean);
+    if (lines.length === 0) continue;
+    if (lines.every((l) => /^https?:\/\/\S+$/i.test(l))) {
+      items.push(...lines);
+    } else {
+      items.push(lines.join('\n'));
+    }
+  }
+  return items;
+};
+
+export const BulkImportModal = ({ open, onClose }: BulkImportModalProps) => {
+  const [phase, setPhase] = useState<Phase>('input');
+  const [input, setInput] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [items, setItems] = useState<PipelineBatchItem[]>([]);
+  const [jobs, setJobs] = useState<Map<string, PipelineJob>>(new Map());
+  const [pollDeadline, setPollDeadline] = useState(0);
+  const [timedOut, setTimedOut] = useState(false);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pdfInputRef = useRef<HTMLInputElement>(null);
+  const [pageRange, setPageRange] = useState('');
+  const queryClient = useQueryClient();
+
+  const parsedItems = parseItems(input);
+  const jobIds = items.map((i) => i.job_id).filter((id): id is string => !!id);
+  const finishedCount = jobIds.filter((id) => {
+    const status = jobs.get(id)?.status;
+    return status === 'succeeded' || status === 'failed';
+  }).length;
+  const allFinished = phase === 'progress' && finishedCount === jobIds.length;
+  const succeededCount = jobIds.filter((id) => jobs.get(id)?.status === 'succeeded').length;
+
+  // Reset on open
+  useEffect(() => {
+    if (open) {
+      setPhase('input');
+      setInput('');
+      setItems([]);
+      setJobs(new Map());
+      setTimedOut(false);
+    }
+  }, [open]);
+
+  // Close on escape
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose]);
+
+  // Poll job progress until every item has finished, or the deadline passes
+  useEffect(() => {
+    if (phase !== 'progress' || allFinished || timedOut || jobIds.length === 0) return;
+    const timer = setTimeout(async () => {
+      if (Date.now() > pollDeadline) {
+        // One last look through the jobs endpoint, which fails jobs that were cut off
+        const unfinished = jobIds.filter((id) => {
+          const status = jobs.get(id)?.status;
+          return status !== 'succeeded' && status !== 'failed';
+        });
+        const latest = await Promise.all(unfinished.map((id) => apiClient.getIngestJob(id).catch(() => null)));
+        setJobs((prev) => {
+          const next = new Map(prev);
+          for (const job of latest) if (job) next.set(job.id, job);
+          return next;
+        });
+        setTimedOut(true);
+        return;
+      }
+      try {
+        const latest = await apiClient.getIngestJobs(jobIds);
+        setJobs(new Map(latest.map((job) => [job.id, job])));
+      } catch (error) {
+        console.warn('Failed to poll import jobs:', error);
+        // Trigger the next poll anyway
+        setJobs((prev) => new Map(prev));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [phase, allFinished, timedOut, jobs, jobIds.join(',')]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Refresh the recipe list once the batch is done
+  useEffect(() => {
+    if ((allFinished || timedOut) && succeededCount > 0) {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+    }
+  }, [allFinished, timedOut, succeededCount, queryClient]);
+
+  const handleStart = async () => {
+    if (parsedItems.length === 0) return;
+    if (parsedItems.length > MAX_ITEMS) {
+      toast.error(`You can import up to ${MAX_ITEMS} recipes at a time`);
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const result = await apiClient.startBatchImport(parsedItems);
+      setItems(result.items);
+      setPollDeadline(Date.now() + POLL_TIMEOUT_MS);
+      setPhase('progress');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start import');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSubmitting(true);
+    try {
+      const { job_id } = await apiClient.importRecipeFile(file);
+      setItems([{ index: 0, source_type: 'file', label: file.name, job_id }]);
+      setPollDeadline(Date.now() + POLL_TIMEOUT_MS);
+      setPhase('progress');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import file');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePdfSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setSubmitting(true);
+    try {
+      const { job_id } = await apiClient.importRecipePdf(files, {
+        pages: pageRange.trim() || undefined,
+        maxRecipes: PDF_MAX_RECIPES,
+      });
+      const label = files.length === 1 ? files[0].name : `${files.length} page photos`;
+      setItems([{ index: 0, source_type: 'pdf', label, job_id }]);
+      setPollDeadline(Date.now() + POLL_TIMEOUT_MS);
+      setPhase('progress');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import PDF');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const renderStatus = (item: PipelineBatchItem) => {
+    const job = item.job_id ? jobs.get(item.job_id) : undefined;
+
+    if (!item.job_id || job?.status === 'failed') {
+      const error = item.errors?.[0] || job?.result?.errors?.[0];
+      return (
+        <div className="flex items-start gap-1.5 text-xs text-red-500">
+          <AlertCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          <span className="line-clamp-2">{error?.message || 'Import failed'}</span>
+        </div>
+      );
+    }
+    if (job?.status === 'succeeded') {
+      const count = job.result?.recipe_ids?.length || (job.result?.recipe_id ? 1 : 0);
+      const title = job.result?.recipe?.title;
+      return (
+        <div className="flex items-center gap-1.5 text-xs text-emerald-600 dark:text-emerald-400">
+          <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0" />
+          <span className="truncate">
+            {count > 1 ? `${count} recipes saved` : title ? `Saved "${title}"` : 'Saved'}
+          </span>
+        </div>
+      );
+    }
+    if (timedOut) {
+      return (
+        <div className="flex items-center gap-1.5 text-xs text-stone-400 dark:text-gray-500">
+          <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+          <span>Still running — check your recipes later</span>
+        </div>
+      );
+    }
+    if (job?.status === 'running') {
+      return (
+        <div className="flex items-center gap-1.5 text-xs text-primary-500">
+          <Loader2 className="h-3.5 w-3.5 animate-spin flex-shrink-0" />
+          <span>{currentStageLabel(job)}…</span>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-stone-400 dark:text-gray-500">
+        <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+        <span>Queued</span>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in"
+      onClick={(e) => {
+        if (e.target === overlayRef.current) onClose();
+      }}
+    >
+      <div className="w-full max-w-lg max-h-[80vh] mx-4 bg-white dark:bg-[#16171c] rounded-2xl shadow-2xl border border-stone-200/60 dark:border-white/[0.08] flex flex-col overflow-hidden animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-stone-200/60 dark:border-white/[0.06]">
+          <div>
+            <h3 className="text-lg font-semibold text-stone-900 dark:text-white">
+              Bulk Import
+            </h3>
+            <p className="text-xs text-stone-500 dark:text-gray-400 mt-0.5">
+              {phase === 'input'
+                ? `Paste up to ${MAX_ITEMS} recipe URLs or recipe texts`
+                : `${finishedCount} of ${jobIds.length} finished`}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 rounded-xl"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {phase === 'input' ? (
+          <div className="flex-1 min-h-0 overflow-y-auto p-5 space-y-3">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={10}
+              placeholder={'https://example.com/best-chili\nhttps://example.com/banana-bread\n---\nGrandma\'s Pancakes\n2 cups flour\n...'}
+              className="w-full rounded-xl border border-stone-200 dark:border-white/[0.1] bg-stone-50/50 dark:bg-white/[0.03] px-3 py-2.5 text-sm text-stone-800 dark:text-gray-200 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-primary-500/30 resize-none font-mono"
+            />
+            <p className="text-[11px] text-stone-400 dark:text-gray-500">
+              One URL per line. Separate pasted recipe texts with a line containing only <code>---</code>.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={EXPORT_FILE_TYPES}
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={submitting}
+              className="w-full flex items-center gap-3 p-3 rounded-xl border border-dashed border-stone-200 dark:border-white/[0.1] text-left hover:bg-stone-50 dark:hover:bg-white/[0.03] transition-colors disabled:opacity-50"
+            >
+              <FileUp className="h-4 w-4 text-stone-400 flex-shrink-0" />
+              <span className="text-xs text-stone-500 dark:text-gray-400">
+                Or import an export file from Paprika, Mealie, Tandoor or MealMaster
+              </span>
+            </button>
+            <input
+              ref={pdfInputRef}
+              type="file"
+              accept={PDF_FILE_TYPES}
+              multiple
+              className="hidden"
+              onChange={handlePdfSelect}
+            />
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => pdfInputRef.current?.click()}
+                disabled={submitting}
+                className="flex-1 flex items-center gap-3 p-3 rounded-xl border border-dashed border-stone-200 dark:border-white/[0.1] text-left hover:bg-stone-50 dark:hover:bg-white/[0.03] transition-colors disabled:opacity-50"
+              >
+                <BookOpen className="h-4 w-4 text-stone-400 flex-shrink-0" />
+                <span className="text-xs text-stone-500 dark:text-gray-400">
+                  Or a PDF or photos of cookbook pages
+                </span>
+              </button>
+              <input
+                value={pageRange}
+                onChange={(e) => setPageRange(e.target.value)}
+                placeholder="Pages, e.g. 12-18"
+                className="w-36 rounded-xl border border-stone-200 dark:border-white/[0.1] bg-stone-50/50 dark:bg-white/[0.03] px-3 py-2.5 text-xs text-stone-800 dark:text-gray-200 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-primary-500/30"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-2">
+            {items.map((item) => (
+              <div
+                key={item.index}
+                className="flex items-start gap-3 p-3 rounded-xl border border-stone-200/60 dark:border-white/[0.06] bg-stone-50/50 dark:bg-white/[0.02]"
+              >
+                <div className="w-7 h-7 rounded-lg bg-white dark:bg-white/[0.05] border border-stone-200 dark:border-white/[0.1] flex items-center justify-center flex-shrink-0">
+                  {item.source_type === 'file'
+                    ? <FileUp className="h-3.5 w-3.5 text-stone-400" />
+                    : item.source_type === 'pdf'
+                      ? <BookOpen className="h-3.5 w-3.5 text-stone-400" />
+                      : item.source_type === 'text'
+                        ? <FileText className="h-3.5 w-3.5 text-stone-400" />
+                        : <Link2 className="h-3.5 w-3.5 text-stone-400" />}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm font-medium text-stone-800 dark:text-gray-200 truncate">
+                    {item.label || `Item ${item.index + 1}`}
+                  </p>
+                  {renderStatus(item)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-stone-200/60 dark:border-white/[0.06] flex items-center justify-between bg-stone-50/50 dark:bg-white/[0.02]">
+          <span className="text-xs text-stone-400 dark:text-gray-500">
+            {phase === 'input'
+              ? `${parsedItems.length} ${parsedItems.length === 1 ? 'item' : 'items'}`
+              : `${succeededCount} imported`}
+          </span>
+          {phase === 'input' ? (
+            <Button
+              size="sm"
+              className="gap-1.5 rounded-xl shadow-lg shadow-primary-500/20 hover:shadow-xl hover:shadow-primary-500/30 transition-all duration-200"
+              onClick={handleStart}
+              disabled={submitting || parsedItems.length === 0}
+            >
+              {submitting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+              Import {parsedItems.length > 0 ? parsedItems.length : ''}
+            </Button>
+          ) : (
+            <Button size="sm" className="rounded-xl" onClick={onClose}>
+              {allFinished || timedOut ? 'Done' : 'Close — keeps running'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
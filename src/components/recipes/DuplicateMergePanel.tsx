@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, Copy, GitMerge, Loader2, RefreshCw, X } from 'lucide-react'
+import type {
+  DiffIngredient,
+  DuplicateResolution,
+  MergeField,
+  SimilarRecipeMatch,
+} from '@/types/pipeline'
+
+interface DuplicateMergePanelProps {
+  /** Duplicates of the recipe being saved, best match first */
+  matches: SimilarRecipeMatch[]
+  onResolve: (resolution: DuplicateResolution) => void
+  onCancel: () => void
+  busy?: boolean
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  prep_time: 'Prep time',
+  cook_time: 'Cook time',
+  total_time: 'Total time',
+  servings: 'Servings',
+  difficulty: 'Difficulty',
+  cuisine: 'Cuisine',
+  tags: 'Tags',
+  image_url: 'Image',
+  nutrition_info: 'Nutrition',
+  source_url: 'Source URL',
+  source_name: 'Source',
+}
+
+const TIME_FIELDS: MergeField[] = ['prep_time', 'cook_time', 'total_time']
+
+function formatValue(field: MergeField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (TIME_FIELDS.includes(field) && typeof value === 'number') return `${value} min`
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—'
+  if (field === 'image_url') return 'Image'
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, v]) => `${key}: ${v}`)
+      .join(', ')
+  }
+  return String(value)
+}
+
+function formatIngredient(ingredient: DiffIngredient): string {
+  return [ingredient.amount, ingredient.unit, ingredient.name].filter((part) => part !== null && part !== '').join(' ')
+}
+
+/**
+ * Field-by-field diff of a recipe being saved against an existing duplicate, with the
+ * four ways to resolve it: keep existing, replace, save both, or merge selected fields.
+ */
+export const DuplicateMergePanel: React.FC<DuplicateMergePanelProps> = ({
+  matches,
+  onResolve,
+  onCancel,
+  busy = false,
+}) => {
+  const [matchIndex, setMatchIndex] = useState(0)
+  const [selected, setSelected] = useState<Set<MergeField>>(new Set())
+  const [confirmReplace, setConfirmReplace] = useState(false)
+
+  const match = matches[Math.min(matchIndex, matches.length - 1)]
+  const { diff } = match
+
+  // Selection is per match — start each one with nothing to merge
+  useEffect(() => {
+    setSelected(new Set())
+    setConfirmReplace(false)
+  }, [match.id])
+
+  const toggleField = (field: MergeField) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(field)) next.delete(field)
+      else next.add(field)
+      return next
+    })
+  }
+
+  const resolve = (action: DuplicateResolution['action']) => {
+    onResolve({
+      action,
+      existing_id: match.id,
+      ...(action === 'merge' ? { fields: [...selected] } : {}),
+    })
+  }
+
+  const changedFields = diff.fields.filter((f) => f.changed)
+  const { added, removed, changed, unchanged } = diff.ingredients
+  const ingredientsChanged = diff.changed_fields.includes('ingredients')
+
+  return (
+    <div className="border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-950/30 rounded-lg p-3 space-y-3">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium text-yellow-800 dark:text-yellow-200">
+            {match.match === 'title' ? 'Duplicate recipe name' : 'Similar recipe found'}
+          </p>
+          <p className="text-yellow-700 dark:text-yellow-300 mt-0.5">
+            You already have "{match.title}"
+            {match.similarity != null && ` (${Math.round(match.similarity * 100)}% similar)`}.
+            {diff.changed_fields.length === 0
+              ? ' The recipes are identical.'
+              : ' Pick the fields to merge, or choose how to save.'}
+          </p>
+        </div>
+      </div>
+
+      {matches.length > 1 && (
+        <div className="flex flex-wrap gap-1.5 ml-6">
+          {matches.map((m, i) => (
+            <button
+              key={m.id}
+              type="button"
+              onClick={() => setMatchIndex(i)}
+              className={`rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+                i === matchIndex
+                  ? 'border-yellow-500 bg-yellow-100 dark:bg-yellow-900/40 text-yellow-900 dark:text-yellow-100'
+                  : 'border-yellow-300/60 dark:border-yellow-700/60 text-yellow-700 dark:text-yellow-300'
+              }`}
+            >
+              {m.title}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {diff.changed_fields.length > 0 && (
+        <div className="ml-6 rounded-md border border-yellow-200 dark:border-yellow-800/60 bg-white/60 dark:bg-black/10 text-xs divide-y divide-yellow-200/70 dark:divide-yellow-800/40">
+          <div className="grid grid-cols-[1.25rem_6rem_1fr_1fr] gap-2 px-2 py-1.5 font-semibold text-muted-foreground">
+            <span />
+            <span>Field</span>
+            <span>Existing</span>
+            <span>New</span>
+          </div>
+
+          {changedFields.map(({ field, existing, incoming }) => (
+            <label key={field} className="grid grid-cols-[1.25rem_6rem_1fr_1fr] gap-2 px-2 py-1.5 items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(field)}
+                onChange={() => toggleField(field)}
+                disabled={busy}
+                className="mt-0.5"
+              />
+              <span className="font-medium">{FIELD_LABELS[field]}</span>
+              <span className="text-muted-foreground break-words line-clamp-3">{formatValue(field, existing)}</span>
+              <span className="break-words line-clamp-3">{formatValue(field, incoming)}</span>
+            </label>
+          ))}
+
+          {ingredientsChanged && (
+            <label className="grid grid-cols-[1.25rem_6rem_1fr] gap-2 px-2 py-1.5 items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has('ingredients')}
+                onChange={() => toggleField('ingredients')}
+                disabled={busy}
+                className="mt-0.5"
+              />
+              <span className="font-medium">Ingredients</span>
+              <div className="space-y-0.5">
+                {added.map((ing, i) => (
+                  <p key={`a${i}`} className="text-green-700 dark:text-green-400">+ {formatIngredient(ing)}</p>
+                ))}
+                {removed.map((ing, i) => (
+                  <p key={`r${i}`} className="text-red-700 dark:text-red-400 line-through">− {formatIngredient(ing)}</p>
+                ))}
+                {changed.map((c, i) => (
+                  <p key={`c${i}`}>
+                    <span className="text-muted-foreground">{formatIngredient(c.existing)}</span>
+                    {' → '}
+                    {formatIngredient(c.incoming)}
+                  </p>
+                ))}
+                {unchanged > 0 && <p className="text-muted-foreground">{unchanged} unchanged</p>}
+              </div>
+            </label>
+          )}
+
+          {diff.instructions.changed && (
+            <label className="grid grid-cols-[1.25rem_6rem_1fr_1fr] gap-2 px-2 py-1.5 items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has('instructions')}
+                onChange={() => toggleField('instructions')}
+                disabled={busy}
+                className="mt-0.5"
+              />
+              <span className="font-medium">Instructions</span>
+              <span className="text-muted-foreground">{diff.instructions.existing.length} steps</span>
+              <span>{diff.instructions.incoming.length} steps</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {confirmReplace ? (
+        <div className="flex flex-wrap items-center gap-2 ml-6">
+          <span className="text-xs text-red-700 dark:text-red-300">
+            Replace "{match.title}" with the new recipe? This cannot be undone.
+          </span>
+          <Button size="sm" variant="destructive" onClick={() => resolve('replace')} disabled={busy}>
+            Yes, Replace
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setConfirmReplace(false)} disabled={busy}>
+            Back
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2 ml-6">
+          <Button size="sm" variant="outline" onClick={() => resolve('keep_existing')} disabled={busy}>
+            Keep Existing
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => resolve('save_both')} disabled={busy} className="gap-1">
+            <Copy className="h-3 w-3" />
+            Save Both
+          </Button>
+          <Button
+            size="sm"
+            variant="default"
+            onClick={() => resolve('merge')}
+            disabled={busy || selected.size === 0}
+            className="gap-1"
+          >
+            {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <GitMerge className="h-3 w-3" />}
+            Merge Selected
+          </Button>
+          <Button size="sm" variant="destructive" onClick={() => setConfirmReplace(true)} disabled={busy} className="gap-1">
+            <RefreshCw className="h-3 w-3" />
+            Replace
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={busy} className="gap-1">
+            <X className="h-3 w-3" />
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
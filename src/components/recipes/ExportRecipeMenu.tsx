@@ -0,0 +1,101 @@
+import React, { useState, useRef, useEffect } from 'react'
+import { apiClient } from '@/services/api'
+import { downloadBlob } from '@/utils/download'
+import { Download, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { RecipeExportFormat } from '@/types/pipeline'
+
+interface ExportRecipeMenuProps {
+  recipeId: string
+  recipeTitle: string
+  size?: 'sm' | 'default'
+}
+
+const EXPORT_OPTIONS: { format: RecipeExportFormat; label: string; hint: string; extension: string }[] = [
+  { format: 'jsonld', label: 'JSON-LD', hint: 'schema.org Recipe', extension: 'json' },
+  { format: 'markdown', label: 'Markdown', hint: 'Printable recipe card', extension: 'md' },
+  { format: 'paprika', label: 'Paprika', hint: 'Import into Paprika', extension: 'paprikarecipe' },
+]
+
+export const ExportRecipeMenu: React.FC<ExportRecipeMenuProps> = ({
+  recipeId,
+  recipeTitle,
+  size = 'default',
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [exporting, setExporting] = useState<RecipeExportFormat | null>(null)
+  const ref = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const handleExport = async (option: (typeof EXPORT_OPTIONS)[number]) => {
+    setExporting(option.format)
+    try {
+      const { blob, filename } = await apiClient.exportRecipe(recipeId, option.format)
+      const fallbackName = `${recipeTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'recipe'}.${option.extension}`
+      downloadBlob(blob, filename || fallbackName)
+      setIsOpen(false)
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to export recipe')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const isSmall = size === 'sm'
+
+  return (
+    <div ref={ref} className="relative inline-block">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsOpen(!isOpen)
+        }}
+        className={`inline-flex items-center gap-1.5 rounded-lg border border-border/60 bg-background/80 backdrop-blur-sm shadow-sm transition-all duration-200 hover:border-primary-500/40 hover:text-primary-500 dark:hover:text-primary-400 active:scale-[0.97] ${
+          isSmall ? 'h-8 px-2.5 text-xs' : 'h-9 px-3 text-sm'
+        } ${isOpen ? 'border-primary-500/50 shadow-md ring-1 ring-primary-500/20' : ''}`}
+        title="Export recipe"
+      >
+        <Download className={`${isSmall ? 'h-3 w-3' : 'h-3.5 w-3.5'} text-muted-foreground`} />
+        {!isSmall && <span className="font-medium">Export</span>}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 z-50 mt-1.5 w-52 rounded-lg border border-stone-200/50 dark:border-white/[0.08] bg-white/95 dark:bg-[#1e1f26]/95 backdrop-blur-xl shadow-lg shadow-black/10 dark:shadow-black/30 animate-in fade-in-0 zoom-in-95 slide-in-from-top-2 duration-150"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="p-1.5">
+            <div className="px-2.5 py-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Export as
+            </div>
+            {EXPORT_OPTIONS.map((option) => (
+              <button
+                key={option.format}
+                type="button"
+                onClick={() => handleExport(option)}
+                disabled={exporting !== null}
+                className="w-full flex items-center justify-between gap-2.5 rounded-lg px-2.5 py-2 text-[13px] text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white transition-all duration-150"
+              >
+                <span className="flex flex-col items-start">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="text-[11px] text-muted-foreground">{option.hint}</span>
+                </span>
+                {exporting === option.format && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { useMeasurementSystem } from '@/contexts/MeasurementSystemContext'
 import { convertIngredient, optimizeUnit, formatConvertedValue, Unit } from '@/utils/unitConverter'
 import { VisibilityPicker, type RecipeVisibility } from '@/components/recipes/VisibilityPicker'
 import { AddToCollectionMenu } from '@/components/recipes/AddToCollectionMenu'
+import { ExportRecipeMenu } from '@/components/recipes/ExportRecipeMenu'
 import AddToPlanButton from '@/components/meal-planning/AddToPlanButton'
 import { useUpdateRecipeVisibility } from '@/services/api'
 import {
@@ -141,6 +142,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({
             size="sm"
           />
           <AddToCollectionMenu recipeId={recipe.id} size="sm" />
+          <ExportRecipeMenu recipeId={recipe.id} recipeTitle={recipe.title} size="sm" />
           <VisibilityPicker
             value={localVisibility}
             onChange={(v) => {
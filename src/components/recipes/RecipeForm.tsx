@@ -23,7 +23,10 @@ import {
   ChevronsUpDown,
 } from "lucide-react";
 import { apiClient } from "@/services/api";
+import { useQueryClient } from "@tanstack/react-query";
 import { useMeasurementUnits } from "@/hooks/useMeasurementUnits";
+import { DuplicateMergePanel } from "@/components/recipes/DuplicateMergePanel";
+import type { DuplicateResolution, SimilarRecipeMatch } from "@/types/pipeline";
 import {
   DndContext,
   closestCenter,
@@ -343,9 +346,14 @@ export const RecipeForm: React.FC<RecipeFormProps> = ({
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [ingredientSort, setIngredientSort] = useState<string>("none");
+  // Duplicates of a new recipe, shown until the user picks how to save it
+  const [duplicates, setDuplicates] = useState<SimilarRecipeMatch[]>([]);
+  const [pendingRecipe, setPendingRecipe] = useState<Record<string, any> | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
 
   const createRecipeMutation = useCreateRecipe();
   const updateRecipeMutation = useUpdateRecipe();
+  const queryClient = useQueryClient();
   const measurementUnits = useMeasurementUnits();
 
   // Drag and drop sensors
@@ -510,7 +518,13 @@ export const RecipeForm: React.FC<RecipeFormProps> = ({
           data: recipeData,
         });
       } else {
-        await createRecipeMutation.mutateAsync({ data: recipeData });
+        const similar = await findDuplicates(recipeData);
+        if (similar.length > 0) {
+          setPendingRecipe(recipeData);
+          setDuplicates(similar);
+          return; // Pause — user picks keep / replace / save both / merge
+        }
+        await createRecipeMutation.mutateAsync({ data: recipeData, options: { skipDuplicateCheck: true } });
       }
       onSave();
     } catch (error: any) {
@@ -521,6 +535,51 @@ export const RecipeForm: React.FC<RecipeFormProps> = ({
     }
   };
 
+  /** Duplicate titles and similar recipes for a new recipe — a failed check never blocks saving */
+  const findDuplicates = async (recipeData: Record<string, any>): Promise<SimilarRecipeMatch[]> => {
+    try {
+      const { similar } = await apiClient.checkSimilarRecipes({
+        title: recipeData.title,
+        description: recipeData.description,
+        ingredients: recipeData.ingredients,
+        instructions: recipeData.instructions,
+        tags: recipeData.tags,
+        difficulty: recipeData.difficulty || undefined,
+        prep_time: recipeData.prepTime || null,
+        cook_time: recipeData.cookTime || null,
+        servings: recipeData.servings || null,
+        image_url: recipeData.imageUrl || null,
+      });
+      return similar ?? [];
+    } catch (err) {
+      console.warn("Duplicate check failed (non-fatal):", err);
+      return [];
+    }
+  };
+
+  const handleResolveDuplicate = async (resolution: DuplicateResolution) => {
+    if (!pendingRecipe) return;
+    setIsResolving(true);
+    setError(null);
+    try {
+      await apiClient.resolveDuplicate(pendingRecipe, resolution);
+      queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      setDuplicates([]);
+      setPendingRecipe(null);
+      onSave();
+    } catch (error: any) {
+      console.error("Failed to resolve duplicate:", error);
+      setError(error?.message || "Failed to save recipe. Please try again.");
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const cancelDuplicate = () => {
+    setDuplicates([]);
+    setPendingRecipe(null);
+  };
+
   const addTag = () => {
     if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
       setFormData((prev) => ({
@@ -696,6 +755,15 @@ export const RecipeForm: React.FC<RecipeFormProps> = ({
         </div>
       )}
 
+      {duplicates.length > 0 && (
+        <DuplicateMergePanel
+          matches={duplicates}
+          onResolve={handleResolveDuplicate}
+          onCancel={cancelDuplicate}
+          busy={isResolving}
+        />
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
           {/* Basic Information */}
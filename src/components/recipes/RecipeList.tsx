@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { useMemo } from 'react'
-import { useRecipes, useCreateRecipe, useDeleteRecipe, useRemoveRecipeFromCollection, useCollectionRecipes, usePublicRecipes, useHouseholdRecipes, useRecipeReactions, useToggleRecipeReaction, useMyHousehold } from '@/services/api'
+import { useRecipes, useSearchRecipes, useCreateRecipe, useDeleteRecipe, useRemoveRecipeFromCollection, useCollectionRecipes, usePublicRecipes, useHouseholdRecipes, useRecipeReactions, useToggleRecipeReaction, useMyHousehold } from '@/services/api'
 import { RecipeCard, RecipeReaction } from './RecipeCard'
 import { RecipeSearch } from './RecipeSearch'
 import { useAuthStore } from '@/stores/authStore'
@@ -39,6 +39,16 @@ export const RecipeList: React.FC<RecipeListProps> = ({
   const { data: publicRecipesData, isLoading: publicLoading } = usePublicRecipes({ limit: 50 });
   const { data: householdRecipesData, isLoading: householdLoading } = useHouseholdRecipes({ limit: 50 });
   const { data: collectionRecipes, isLoading: collectionLoading } = useCollectionRecipes(collectionId || '');
+
+  // Feeds search server-side (hybrid semantic + text); collections filter by title below
+  const isServerSearch = !!searchQuery.trim() && feedMode !== 'collection';
+  const { data: searchResults, isFetching: isSearching } = useSearchRecipes({
+    query: isServerSearch ? searchQuery.trim() : '',
+    scope: feedMode === 'collection' ? 'mine' : feedMode,
+    difficulty: filters.difficulty || undefined,
+    tags: [...filters.dietaryRestrictions, ...filters.tags],
+    limit: 50,
+  });
   const deleteRecipeMutation = useDeleteRecipe();
   const removeFromCollectionMutation = useRemoveRecipeFromCollection();
   const toggleReaction = useToggleRecipeReaction();
@@ -49,7 +59,9 @@ export const RecipeList: React.FC<RecipeListProps> = ({
   }, [householdData]);
 
   // Determine which recipes to show based on feed mode
-  const baseRecipes = feedMode === 'collection' && collectionId
+  const baseRecipes = isServerSearch
+    ? searchResults?.recipes || []
+    : feedMode === 'collection' && collectionId
     ? (collectionRecipes || []).map((cr: any) => cr.recipes).filter(Boolean)
     : feedMode === 'household'
     ? (householdRecipesData as any)?.recipes || []
@@ -62,6 +74,7 @@ export const RecipeList: React.FC<RecipeListProps> = ({
       // Search filter
       if (
         searchQuery &&
+        !isServerSearch &&
         !recipe.title.toLowerCase().includes(searchQuery.toLowerCase())
       ) {
         return false;
@@ -170,6 +183,7 @@ export const RecipeList: React.FC<RecipeListProps> = ({
             onSearchChange={setSearchQuery}
             filters={filters}
             onFiltersChange={setFilters}
+            isSearching={isServerSearch && isSearching}
           />
         </div>
 
@@ -1,9 +1,9 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent } from '@/components/ui/card'
-import { Search, Filter, X, Clock } from 'lucide-react'
+import { Search, Filter, X, Clock, Loader2 } from 'lucide-react'
 
 interface RecipeSearchProps {
   searchQuery: string
@@ -15,8 +15,13 @@ interface RecipeSearchProps {
     tags: string[]
   }
   onFiltersChange: (filters: any) => void
+  /** A server-side search for the current query is in flight */
+  isSearching?: boolean
 }
 
+// The query goes to the hybrid search endpoint, so wait for a pause in typing
+const SEARCH_DEBOUNCE_MS = 300
+
 const DIETARY_RESTRICTIONS = [
   'Vegetarian', 'Vegan', 'Gluten-Free', 'Dairy-Free', 
   'Keto', 'Paleo', 'Low-Carb', 'Nut-Free'
@@ -35,9 +40,21 @@ export const RecipeSearch: React.FC<RecipeSearchProps> = ({
   searchQuery,
   onSearchChange,
   filters,
-  onFiltersChange
+  onFiltersChange,
+  isSearching = false
 }) => {
   const [showFilters, setShowFilters] = useState(false)
+  const [query, setQuery] = useState(searchQuery)
+
+  useEffect(() => {
+    setQuery(searchQuery)
+  }, [searchQuery])
+
+  useEffect(() => {
+    if (query === searchQuery) return
+    const timer = setTimeout(() => onSearchChange(query), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [query, searchQuery, onSearchChange])
 
   const updateFilter = (key: string, value: any) => {
     onFiltersChange({
@@ -83,10 +100,13 @@ export const RecipeSearch: React.FC<RecipeSearchProps> = ({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-stone-400 z-10" />
           <Input
             placeholder="Search recipes by name, ingredients, or tags..."
-            value={searchQuery}
-            onChange={(e) => onSearchChange(e.target.value)}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
             className="pl-9 h-9 text-sm border border-stone-200 dark:border-white/[0.08] rounded-lg focus:border-primary-500 dark:focus:border-primary-400 bg-white dark:bg-white/[0.06] shadow-sm hover:shadow transition-all duration-200"
           />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 animate-spin text-stone-400" />
+          )}
         </div>
         <Button
           variant={showFilters ? 'default' : 'outline'}
@@ -0,0 +1,124 @@
+/**
+ * Record/replay for the Node OpenRouter client
+ * Saves request/response pairs to disk keyed by a hash of the endpoint and request body
+ * (model, messages and options). Same format and keys as the edge functions' recorder
+ * (supabase/functions/_shared/openrouter-recorder.ts), so recordings are shared.
+ *
+ *   OPENROUTER_RECORDING=record | replay | auto
+ *   OPENROUTER_RECORDINGS_DIR (default ./openrouter-recordings)
+ *
+ * Node only — file access is loaded lazily so the module stays safe to bundle.
+ */
+
+export type RecordingMode = 'record' | 'replay' | 'auto';
+
+export interface Recording {
+  key: string;
+  endpoint: string;
+  request: Record<string, unknown>;
+  response: unknown;
+  recorded_at: string;
+}
+
+const RECORDING_MODES: RecordingMode[] = ['record', 'replay', 'auto'];
+
+const DEFAULT_RECORDINGS_DIR = './openrouter-recordings';
+
+export class OpenRouterRecorder {
+  constructor(
+    readonly dir: string,
+    readonly mode: RecordingMode
+  ) {}
+
+  /**
+   * Answer a request from its recording, or `send` it and record the result.
+   * `send` throws on API errors, so only successful responses are recorded.
+   */
+  async fetch<T>(endpoint: string, body: object, send: () => Promise<T>): Promise<T> {
+    const key = await recordingKey(endpoint, body);
+
+    if (this.mode !== 'record') {
+      const recording = await this.read(key);
+      if (recording) return recording.response as T;
+      if (this.mode === 'replay') {
+        const model = (body as { model?: string }).model;
+        throw new Error(
+          `No OpenRouter recording for ${endpoint} (${model}, key ${key.slice(0, 12)}) — record it with OPENROUTER_RECORDING=record`
+        );
+      }
+    }
+
+    const response = await send();
+    await this.write({
+      key,
+      endpoint,
+      request: shortenDataUrls(body) as Record<string, unknown>,
+      response,
+      recorded_at: new Date().toISOString(),
+    });
+    return response;
+  }
+
+  private async read(key: string): Promise<Recording | null> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return JSON.parse(await readFile(`${this.dir}/${key}.json`, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async write(recording: Recording): Promise<void> {
+    const { mkdir, writeFile } = await import('node:fs/promises');
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(`${this.dir}/${recording.key}.json`, JSON.stringify(recording, null, 2));
+  }
+}
+
+/**
+ * The recorder configured by OPENROUTER_RECORDING, or null when recording is off
+ * (always off in the browser).
+ */
+export function createRecorderFromEnv(): OpenRouterRecorder | null {
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+  const mode = env?.OPENROUTER_RECORDING;
+  if (!mode) return null;
+  if (!RECORDING_MODES.includes(mode as RecordingMode)) {
+    throw new Error(`Invalid OPENROUTER_RECORDING: "${mode}". Must be one of: ${RECORDING_MODES.join(', ')}.`);
+  }
+  return new OpenRouterRecorder(env?.OPENROUTER_RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR, mode as RecordingMode);
+}
+
+/** SHA-256 of the endpoint and request body, with object keys sorted so key order doesn't matter */
+export async function recordingKey(endpoint: string, body: object): Promise<string> {
+  const { createHash } = await import('node:crypto');
+  return createHash('sha256').update(canonicalJson({ endpoint, body })).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((k) => record[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(record[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Keep recordings readable — base64 images are hashed into the key, not stored */
+function shortenDataUrls(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.startsWith('data:') && value.length > 100
+      ? `${value.slice(0, value.indexOf(',') + 1)}… (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(shortenDataUrls);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, shortenDataUrls(v)]));
+  }
+  return value;
+}
@@ -3,6 +3,8 @@
  * Handles all interactions with OpenRouter AI models
  */
 
+import { createRecorderFromEnv, type OpenRouterRecorder } from './openrouter-recorder';
+
 const OPENROUTER_API_KEY = (import.meta as any).env?.VITE_OPENROUTER_API_KEY || process.env.OPENROUTER_API_KEY;
 const FRONTEND_URL = (import.meta as any).env?.VITE_FRONTEND_URL || process.env.FRONTEND_URL || 'http://localhost:5173';
 
@@ -56,20 +58,29 @@ export class OpenRouterClient {
   private apiKey: string;
   private baseUrl = 'https://openrouter.ai/api/v1';
   private referer: string;
+  private recorder: OpenRouterRecorder | null;
 
-  constructor(apiKey?: string, referer?: string) {
+  constructor(apiKey?: string, referer?: string, recorder: OpenRouterRecorder | null = createRecorderFromEnv()) {
     this.apiKey = apiKey || OPENROUTER_API_KEY || '';
     this.referer = referer || FRONTEND_URL;
+    this.recorder = recorder;
 
-    if (!this.apiKey) {
+    if (!this.apiKey && recorder?.mode !== 'replay') {
       console.error('OpenRouter API key not provided');
     }
   }
 
   /**
-   * Call OpenRouter chat completions API
+   * Call OpenRouter chat completions API (through the recorder when OPENROUTER_RECORDING is set)
    */
   async chatCompletion(options: ChatCompletionOptions): Promise<OpenRouterResponse> {
+    if (this.recorder) {
+      return this.recorder.fetch('/chat/completions', options, () => this.sendChatCompletion(options));
+    }
+    return this.sendChatCompletion(options);
+  }
+
+  private async sendChatCompletion(options: ChatCompletionOptions): Promise<OpenRouterResponse> {
     if (!this.apiKey) {
       throw new Error('OpenRouter API key not configured');
     }
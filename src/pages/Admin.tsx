@@ -8,13 +8,36 @@ import {
   useAdminDeleteInvite,
   useAdminRemoveHouseholdMember,
   useAdminDeleteHousehold,
+  useAdminUsage,
+  useAdminSetQuota,
+  useAdminDeleteQuota,
+  useAdminEmbeddingQueue,
+  useAdminRunEmbeddings,
+  useAdminEmbeddingMigration,
 } from '@/services/api'
 import { useAuthStore } from '@/stores/authStore'
-import { Loader2, Users, Mail, Home, Trash2, CheckCircle, XCircle, Clock, Shield } from 'lucide-react'
+import type { EmbeddingMigrationAction, LlmQuotaLimits, LlmUsageBreakdown } from '@/types'
+import {
+  Loader2,
+  Users,
+  Mail,
+  Home,
+  Trash2,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Shield,
+  BarChart3,
+  ChevronLeft,
+  ChevronRight,
+  Gauge,
+  Sparkles,
+  RefreshCw,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import toast from 'react-hot-toast'
 
-type Tab = 'users' | 'invites' | 'households'
+type Tab = 'users' | 'invites' | 'households' | 'usage' | 'embeddings'
 
 const Admin: React.FC = () => {
   useDocumentTitle()
@@ -25,6 +48,8 @@ const Admin: React.FC = () => {
     { id: 'users', label: 'Users', icon: Users },
     { id: 'invites', label: 'Invites', icon: Mail },
     { id: 'households', label: 'Households', icon: Home },
+    { id: 'usage', label: 'Usage', icon: BarChart3 },
+    { id: 'embeddings', label: 'Embeddings', icon: Sparkles },
   ]
 
   return (
@@ -36,7 +61,7 @@ const Admin: React.FC = () => {
         </div>
         <div>
           <h1 className="text-xl font-bold text-gray-900 dark:text-white">Admin Panel</h1>
-          <p className="text-sm text-gray-500 dark:text-gray-400">Manage users, invites, and households</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Manage users, invites, households, and AI usage</p>
         </div>
       </div>
 
@@ -65,6 +90,8 @@ const Admin: React.FC = () => {
       {activeTab === 'users' && <UsersTab currentUserId={currentUser?.id} />}
       {activeTab === 'invites' && <InvitesTab />}
       {activeTab === 'households' && <HouseholdsTab />}
+      {activeTab === 'usage' && <UsageTab />}
+      {activeTab === 'embeddings' && <EmbeddingsTab />}
     </div>
   )
 }
@@ -337,6 +364,405 @@ const HouseholdsTab: React.FC = () => {
   )
 }
 
+// ── Usage Tab ──
+
+type QuotaTarget = { householdId: string } | { userId: string }
+
+const currentMonth = () => new Date().toISOString().slice(0, 7)
+
+const shiftMonth = (month: string, delta: number) => {
+  const [year, m] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, m - 1 + delta, 1)).toISOString().slice(0, 7)
+}
+
+const formatTokens = (tokens: number) =>
+  new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(tokens)
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`
+
+/** Ask for a limit — undefined when cancelled, null when left blank */
+const promptLimit = (label: string, current: number | null): number | null | undefined => {
+  const input = prompt(`${label} (leave blank for no limit)`, current?.toString() ?? '')
+  if (input === null) return undefined
+  if (input.trim() === '') return null
+  const value = Number(input)
+  if (!Number.isFinite(value) || value <= 0) {
+    toast.error(`${label} must be a positive number`)
+    return undefined
+  }
+  return value
+}
+
+const UsageTab: React.FC = () => {
+  const [month, setMonth] = useState(currentMonth)
+  const { data: usage, isLoading } = useAdminUsage(month)
+  const setQuota = useAdminSetQuota()
+  const deleteQuota = useAdminDeleteQuota()
+
+  const handleSetQuota = (target: QuotaTarget, name: string, current: LlmQuotaLimits) => {
+    const monthlyTokenLimit = promptLimit(`Monthly token limit for "${name}"`, current.monthlyTokenLimit)
+    if (monthlyTokenLimit === undefined) return
+    const monthlyCostLimitUsd = promptLimit(`Monthly cost limit (USD) for "${name}"`, current.monthlyCostLimitUsd)
+    if (monthlyCostLimitUsd === undefined) return
+    setQuota.mutate({ target, limits: { monthlyTokenLimit, monthlyCostLimitUsd } }, {
+      onSuccess: () => toast.success(`Quota updated for ${name}`),
+      onError: (err: any) => toast.error(err.message || 'Failed to update quota'),
+    })
+  }
+
+  const handleClearQuota = (target: QuotaTarget, name: string) => {
+    if (!confirm(`Remove the quota for "${name}"? The default quota will apply.`)) return
+    deleteQuota.mutate(target, {
+      onSuccess: () => toast.success(`Quota removed for ${name}`),
+      onError: (err: any) => toast.error(err.message || 'Failed to remove quota'),
+    })
+  }
+
+  const defaults = usage?.defaultQuota ?? { monthlyTokenLimit: null, monthlyCostLimitUsd: null }
+  const householdsWithUsage = (usage?.byHousehold || []).filter((h) => h.requests > 0)
+  const idleHouseholds = (usage?.byHousehold || []).filter((h) => h.requests === 0)
+
+  return (
+    <div className="space-y-4">
+      {/* Month + totals */}
+      <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] px-6 py-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setMonth(shiftMonth(month, -1))} className="p-1.5 h-auto" title="Previous month">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-semibold text-gray-900 dark:text-white w-20 text-center">{month}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              disabled={month >= currentMonth()}
+              className="p-1.5 h-auto"
+              title="Next month"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Default quota: {defaults.monthlyTokenLimit ? `${formatTokens(defaults.monthlyTokenLimit)} tokens` : 'no token limit'}
+            {' · '}
+            {defaults.monthlyCostLimitUsd ? formatCost(defaults.monthlyCostLimitUsd) : 'no cost limit'}
+          </p>
+        </div>
+        {isLoading || !usage ? (
+          <LoadingState />
+        ) : (
+          <div className="grid grid-cols-3 gap-4">
+            <UsageStat label="Requests" value={usage.totals.requests.toLocaleString()} />
+            <UsageStat
+              label="Tokens"
+              value={formatTokens(usage.totals.totalTokens)}
+              detail={`${formatTokens(usage.totals.promptTokens)} in · ${formatTokens(usage.totals.completionTokens)} out`}
+            />
+            <UsageStat label="Cost" value={formatCost(usage.totals.costUsd)} />
+          </div>
+        )}
+      </div>
+
+      {usage && (
+        <>
+          {/* Households */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] overflow-hidden">
+            <div className="px-6 py-3 border-b border-gray-100 dark:border-white/5">
+              <span className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">
+                Households ({householdsWithUsage.length} active, {idleHouseholds.length} idle)
+              </span>
+            </div>
+            <div className="divide-y divide-gray-100 dark:divide-white/5">
+              {usage.byHousehold.length === 0 && (
+                <div className="px-6 py-12 text-center text-sm text-gray-400">No households found</div>
+              )}
+              {[...householdsWithUsage, ...idleHouseholds].map((h) => (
+                <QuotaRow
+                  key={h.householdId}
+                  name={h.name}
+                  usage={h}
+                  quota={h}
+                  defaults={defaults}
+                  onSetQuota={() => handleSetQuota({ householdId: h.householdId }, h.name, h)}
+                  onClearQuota={() => handleClearQuota({ householdId: h.householdId }, h.name)}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Users */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] overflow-hidden">
+            <div className="px-6 py-3 border-b border-gray-100 dark:border-white/5">
+              <span className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">
+                Users ({usage.byUser.length})
+              </span>
+            </div>
+            <div className="divide-y divide-gray-100 dark:divide-white/5">
+              {usage.byUser.length === 0 && (
+                <div className="px-6 py-12 text-center text-sm text-gray-400">No usage this month</div>
+              )}
+              {usage.byUser.map((u) =>
+                u.inHousehold ? (
+                  // Household members share their household's quota
+                  <QuotaRow key={u.userId} name={u.displayName || u.email} detail={u.email} usage={u} />
+                ) : (
+                  <QuotaRow
+                    key={u.userId}
+                    name={u.displayName || u.email}
+                    detail={`${u.email} · no household`}
+                    usage={u}
+                    quota={u}
+                    defaults={defaults}
+                    onSetQuota={() => handleSetQuota({ userId: u.userId }, u.displayName || u.email, u)}
+                    onClearQuota={() => handleClearQuota({ userId: u.userId }, u.displayName || u.email)}
+                  />
+                )
+              )}
+            </div>
+          </div>
+
+          {/* Breakdown by task and model */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <UsageBreakdown title="By task" rows={usage.byTask.map((t) => ({ label: t.task, ...t }))} />
+            <UsageBreakdown title="By model" rows={usage.byModel.map((m) => ({ label: m.model, ...m }))} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+const UsageStat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div>
+    <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">{label}</p>
+    <p className="text-2xl font-bold text-gray-900 dark:text-white">{value}</p>
+    {detail && <p className="text-xs text-gray-400 dark:text-gray-500">{detail}</p>}
+  </div>
+)
+
+/** One household or user: usage against its effective quota, with quota actions when it has its own */
+const QuotaRow: React.FC<{
+  name: string
+  detail?: string
+  usage: LlmUsageBreakdown
+  quota?: LlmQuotaLimits
+  defaults?: LlmQuotaLimits
+  onSetQuota?: () => void
+  onClearQuota?: () => void
+}> = ({ name, detail, usage, quota, defaults, onSetQuota, onClearQuota }) => {
+  const hasCustomQuota = !!quota && (quota.monthlyTokenLimit !== null || quota.monthlyCostLimitUsd !== null)
+  const tokenLimit = hasCustomQuota ? quota!.monthlyTokenLimit : defaults?.monthlyTokenLimit ?? null
+  const costLimit = hasCustomQuota ? quota!.monthlyCostLimitUsd : defaults?.monthlyCostLimitUsd ?? null
+  const shares = [
+    tokenLimit ? usage.totalTokens / tokenLimit : 0,
+    costLimit ? usage.costUsd / costLimit : 0,
+  ]
+  const used = Math.max(...shares)
+  const limited = !!quota && (tokenLimit !== null || costLimit !== null)
+
+  return (
+    <div className="px-6 py-3 flex items-center gap-4">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{name}</p>
+        <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+          {detail ? `${detail} · ` : ''}
+          {usage.requests.toLocaleString()} requests
+        </p>
+      </div>
+      <span className="text-sm text-gray-700 dark:text-gray-300 w-20 text-right">{formatTokens(usage.totalTokens)}</span>
+      <span className="text-sm text-gray-700 dark:text-gray-300 w-20 text-right">{formatCost(usage.costUsd)}</span>
+      {quota && (
+        <div className="w-40 hidden md:block" title={limited ? `${Math.round(used * 100)}% of quota` : 'No quota'}>
+          {limited ? (
+            <>
+              <div className="h-1.5 rounded-full bg-gray-100 dark:bg-white/5 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${used >= 1 ? 'bg-red-500' : used >= 0.8 ? 'bg-amber-500' : 'bg-primary-500'}`}
+                  style={{ width: `${Math.min(used, 1) * 100}%` }}
+                />
+              </div>
+              <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-1 truncate">
+                {[tokenLimit && `${formatTokens(tokenLimit)} tokens`, costLimit && formatCost(costLimit)].filter(Boolean).join(' · ')}
+                {hasCustomQuota ? '' : ' (default)'}
+              </p>
+            </>
+          ) : (
+            <p className="text-[11px] text-gray-400 dark:text-gray-500">No quota</p>
+          )}
+        </div>
+      )}
+      {onSetQuota && (
+        <Button variant="ghost" size="sm" onClick={onSetQuota} className="text-gray-400 hover:text-primary-500 p-1.5 h-auto" title="Set quota">
+          <Gauge className="w-4 h-4" />
+        </Button>
+      )}
+      {onClearQuota && hasCustomQuota && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClearQuota}
+          className="text-gray-400 hover:text-red-500 dark:hover:text-red-400 p-1.5 h-auto"
+          title="Remove quota"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+const UsageBreakdown: React.FC<{ title: string; rows: (LlmUsageBreakdown & { label: string })[] }> = ({ title, rows }) => (
+  <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] overflow-hidden">
+    <div className="px-6 py-3 border-b border-gray-100 dark:border-white/5">
+      <span className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">{title}</span>
+    </div>
+    <div className="divide-y divide-gray-100 dark:divide-white/5">
+      {rows.length === 0 && <div className="px-6 py-8 text-center text-sm text-gray-400">No usage this month</div>}
+      {rows.map((row) => (
+        <div key={row.label} className="px-6 py-2.5 flex items-center gap-4">
+          <span className="flex-1 text-sm text-gray-900 dark:text-white truncate">{row.label}</span>
+          <span className="text-xs text-gray-400 dark:text-gray-500">{row.requests.toLocaleString()} req</span>
+          <span className="text-sm text-gray-700 dark:text-gray-300 w-16 text-right">{formatTokens(row.totalTokens)}</span>
+          <span className="text-sm text-gray-700 dark:text-gray-300 w-16 text-right">{formatCost(row.costUsd)}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+)
+
+// ── Embeddings Tab ──
+
+const EmbeddingsTab: React.FC = () => {
+  const { data: queue, isLoading } = useAdminEmbeddingQueue()
+  const runEmbeddings = useAdminRunEmbeddings()
+  const migration = useAdminEmbeddingMigration()
+
+  const handleRun = (all: boolean) => {
+    if (all && !confirm('Re-embed every recipe with the current model? Existing embeddings stay searchable until replaced.')) return
+    runEmbeddings.mutate(all, {
+      onSuccess: ({ queued }) => toast.success(all ? `Queued ${queued} recipes for re-embedding` : 'Embedding worker started'),
+      onError: (err: any) => toast.error(err.message || 'Failed to start the embedding worker'),
+    })
+  }
+
+  const runMigration = (action: EmbeddingMigrationAction, success: string) => {
+    migration.mutate(action, {
+      onSuccess: () => toast.success(success),
+      onError: (err: any) => toast.error(err.message || 'Embedding model change failed'),
+    })
+  }
+
+  const handleMigrate = () => {
+    const model = prompt('Embedding model to migrate to (OpenRouter model ID):')?.trim()
+    if (!model) return
+    runMigration({ action: 'migrate', model }, `Embedding recipes with ${model}`)
+  }
+
+  const handlePromote = () => {
+    if (!queue?.targetModel) return
+    const remaining = queue.totalRecipes - (queue.targetEmbedded ?? 0)
+    const message = remaining > 0
+      ? `${remaining} recipes have no ${queue.targetModel} embedding yet and will be missing from semantic search until they are embedded. Promote anyway?`
+      : `Make ${queue.targetModel} the active embedding model? ${queue.activeModel} embeddings are deleted.`
+    if (!confirm(message)) return
+    runMigration({ action: 'promote', force: remaining > 0 }, `${queue.targetModel} is now the active embedding model`)
+  }
+
+  const handleCancel = () => {
+    if (!queue?.targetModel || !confirm(`Stop migrating to ${queue.targetModel} and delete its embeddings?`)) return
+    runMigration({ action: 'cancel' }, 'Embedding migration cancelled')
+  }
+
+  if (isLoading || !queue) return <LoadingState />
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] px-6 py-4">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Embedding model</span>
+          <div className="flex items-center gap-2">
+            {queue.targetModel ? (
+              <>
+                <Button variant="outline" size="sm" onClick={handlePromote} disabled={migration.isPending}>
+                  Promote
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCancel} disabled={migration.isPending}>
+                  Cancel migration
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" size="sm" onClick={handleMigrate} disabled={migration.isPending}>
+                Migrate model…
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <UsageStat
+            label="Active"
+            value={(queue.totalRecipes - queue.missing).toLocaleString()}
+            detail={queue.activeModel}
+          />
+          {queue.targetModel && (
+            <UsageStat
+              label="Migrating to"
+              value={`${(queue.targetEmbedded ?? 0).toLocaleString()} / ${queue.totalRecipes.toLocaleString()}`}
+              detail={`${queue.targetModel}${queue.migrationStartedAt ? ` · since ${new Date(queue.migrationStartedAt).toLocaleDateString()}` : ''}`}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] px-6 py-4">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Recipe embeddings</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleRun(false)} disabled={runEmbeddings.isPending}>
+              <RefreshCw className="w-4 h-4 mr-1.5" />
+              Process queue
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleRun(true)} disabled={runEmbeddings.isPending}>
+              <Sparkles className="w-4 h-4 mr-1.5" />
+              Re-embed all
+            </Button>
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <UsageStat label="Queued" value={queue.pending.toLocaleString()} />
+          <UsageStat label="Failed" value={queue.failed.toLocaleString()} detail={`after ${queue.maxAttempts} attempts`} />
+          <UsageStat
+            label="Without embedding"
+            value={queue.missing.toLocaleString()}
+            detail={`of ${queue.totalRecipes.toLocaleString()} recipes`}
+          />
+        </div>
+      </div>
+
+      {queue.recentFailures.length > 0 && (
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200/60 dark:border-white/[0.06] overflow-hidden">
+          <div className="px-6 py-3 border-b border-gray-100 dark:border-white/5">
+            <span className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Recent failures</span>
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-white/5">
+            {queue.recentFailures.map((f) => (
+              <div key={f.recipeId} className="px-6 py-2.5">
+                <div className="flex items-center gap-4">
+                  <span className="flex-1 text-sm text-gray-900 dark:text-white truncate">{f.title || f.recipeId}</span>
+                  <span className="text-xs text-gray-400 dark:text-gray-500">
+                    {f.reason} · {f.attempts}/{queue.maxAttempts} attempts
+                  </span>
+                </div>
+                <p className="text-xs text-red-500 dark:text-red-400 truncate" title={f.lastError}>{f.lastError}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
 const LoadingState = () => (
   <div className="flex items-center justify-center py-20">
     <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
@@ -18,6 +18,7 @@ import {
   useUpdateMemberRole,
   useRemoveHouseholdMember,
   useTransferOwnership,
+  useSetMemberMealDefaults,
 } from '../services/api';
 import {
   Loader2,
@@ -41,8 +42,12 @@ import {
   ChevronDown,
   LogOut,
   ArrowRightLeft,
+  UtensilsCrossed,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import MealDefaultsEditor from '../components/family/MealDefaultsEditor';
+import { describeMealDefaults } from '../utils/mealAttendance';
+import type { MealAbsences } from '../types/mealPlan';
 
 const roleIcons: Record<string, React.ElementType> = {
   owner: Crown,
@@ -94,6 +99,8 @@ const Household = () => {
     allergies: [] as string[],
     likedFoods: '',
     dislikedFoods: '',
+    mealAbsences: {} as MealAbsences,
+    portionMultiplier: 1,
   });
 
   // Queries & mutations
@@ -108,10 +115,12 @@ const Household = () => {
   const updateMemberRole = useUpdateMemberRole();
   const removeMember = useRemoveHouseholdMember();
   const transferOwnership = useTransferOwnership();
+  const setMemberMealDefaults = useSetMemberMealDefaults();
 
   // Member management state
   const [memberMenuOpen, setMemberMenuOpen] = useState<string | null>(null);
   const [confirmAction, setConfirmAction] = useState<{ type: 'remove' | 'transfer'; memberId: string; memberName: string } | null>(null);
+  const [mealDefaultsForm, setMealDefaultsForm] = useState<{ memberId: string; mealAbsences: MealAbsences; portionMultiplier: number } | null>(null);
 
   const myRole = householdData?.myRole;
   const canInvite = myRole === 'owner' || myRole === 'admin';
@@ -211,7 +220,7 @@ const Household = () => {
   };
 
   const resetDepForm = () => {
-    setDepForm({ name: '', relationship: '', age: '', dietaryRestrictions: [], allergies: [], likedFoods: '', dislikedFoods: '' });
+    setDepForm({ name: '', relationship: '', age: '', dietaryRestrictions: [], allergies: [], likedFoods: '', dislikedFoods: '', mealAbsences: {}, portionMultiplier: 1 });
     setIsAddingDependent(false);
     setEditingDependentId(null);
   };
@@ -230,6 +239,8 @@ const Household = () => {
         dietaryRestrictions: depForm.dietaryRestrictions,
         allergies: depForm.allergies,
         preferences: prefs,
+        mealAbsences: depForm.mealAbsences,
+        portionMultiplier: depForm.portionMultiplier,
       },
       {
         onSuccess: () => {
@@ -260,6 +271,8 @@ const Household = () => {
           dietaryRestrictions: depForm.dietaryRestrictions,
           allergies: depForm.allergies,
           preferences: updatePrefs,
+          mealAbsences: depForm.mealAbsences,
+          portionMultiplier: depForm.portionMultiplier,
         },
       },
       {
@@ -293,6 +306,19 @@ const Household = () => {
       allergies: dep.allergies || [],
       likedFoods: (dep.preferences?.likedFoods || []).join(', '),
       dislikedFoods: (dep.preferences?.dislikedFoods || []).join(', '),
+      mealAbsences: dep.mealAbsences || {},
+      portionMultiplier: Number(dep.portionMultiplier) || 1,
+    });
+  };
+
+  const handleSaveMealDefaults = () => {
+    if (!mealDefaultsForm) return;
+    setMemberMealDefaults.mutate(mealDefaultsForm, {
+      onSuccess: () => {
+        toast.success('Meal defaults saved');
+        setMealDefaultsForm(null);
+      },
+      onError: (err: any) => toast.error(err?.message || 'Failed to save meal defaults'),
     });
   };
 
@@ -513,9 +539,11 @@ const Household = () => {
                       const isCurrentUser = member.userId === user?.id;
                       const memberName = member.profiles?.displayName || member.profiles?.email || 'Unknown';
                       const canManage = isOwner && !isCurrentUser && member.role !== 'owner';
+                      const canEditMeals = isCurrentUser || myRole === 'owner' || myRole === 'admin';
+                      const mealDefaults = describeMealDefaults(member.mealAbsences, member.portionMultiplier);
                       return (
+                        <React.Fragment key={member.id}>
                         <div
-                          key={member.id}
                           className={`flex items-center justify-between p-3 rounded-xl border transition-colors duration-150 ${
                             isCurrentUser
                               ? 'border-primary/30 bg-primary/5 dark:bg-primary/10'
@@ -546,9 +574,33 @@ const Household = () => {
                                   {member.profiles.email}
                                 </p>
                               )}
+                              {mealDefaults && (
+                                <p className="text-[10px] text-muted-foreground">{mealDefaults}</p>
+                              )}
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
+                            {canEditMeals && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0"
+                                title="Meal defaults"
+                                onClick={() =>
+                                  setMealDefaultsForm(
+                                    mealDefaultsForm?.memberId === member.id
+                                      ? null
+                                      : {
+                                          memberId: member.id,
+                                          mealAbsences: member.mealAbsences || {},
+                                          portionMultiplier: Number(member.portionMultiplier) || 1,
+                                        }
+                                  )
+                                }
+                              >
+                                <UtensilsCrossed className="h-3.5 w-3.5 text-muted-foreground" />
+                              </Button>
+                            )}
                             <Badge variant="secondary" className="gap-1 text-xs">
                               <RoleIcon className="h-3 w-3" />
                               {roleLabels[member.role] || member.role}
@@ -609,6 +661,29 @@ const Household = () => {
                             )}
                           </div>
                         </div>
+                        {mealDefaultsForm && mealDefaultsForm.memberId === member.id && (
+                          <div className="rounded-xl border border-border/60 p-4 space-y-3 bg-accent/20">
+                            <MealDefaultsEditor
+                              mealAbsences={mealDefaultsForm.mealAbsences}
+                              portionMultiplier={mealDefaultsForm.portionMultiplier}
+                              onChange={(next) => setMealDefaultsForm({ memberId: member.id, ...next })}
+                            />
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={handleSaveMealDefaults} disabled={setMemberMealDefaults.isPending} className="gap-1.5">
+                                {setMemberMealDefaults.isPending ? (
+                                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                ) : (
+                                  <Check className="h-3.5 w-3.5" />
+                                )}
+                                Save
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => setMealDefaultsForm(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                        </React.Fragment>
                       );
                     })}
                     {/* Pending invites */}
@@ -883,6 +958,13 @@ const Household = () => {
                       </div>
                     </div>
 
+                    {/* Meal Defaults */}
+                    <MealDefaultsEditor
+                      mealAbsences={depForm.mealAbsences}
+                      portionMultiplier={depForm.portionMultiplier}
+                      onChange={(next) => setDepForm((p) => ({ ...p, ...next }))}
+                    />
+
                     {/* Actions */}
                     <div className="flex gap-2">
                       <Button
@@ -981,6 +1063,12 @@ const Household = () => {
                               )}
                             </div>
                           )}
+                          {describeMealDefaults(dep.mealAbsences, dep.portionMultiplier) && (
+                            <p className="text-[10px] text-muted-foreground flex items-center gap-0.5 mt-1">
+                              <UtensilsCrossed className="h-2.5 w-2.5" />
+                              {describeMealDefaults(dep.mealAbsences, dep.portionMultiplier)}
+                            </p>
+                          )}
                         </div>
                         <div className="flex gap-1 shrink-0 ml-2">
                           <Button
@@ -12,6 +12,8 @@ import {
   useUpdateMealPlan,
   useDeleteMealPlan,
   useCopyMealPlan,
+  useMyHousehold,
+  useMealPlanAllergyConflicts,
 } from '@/services/api';
 import {
   Calendar,
@@ -36,15 +38,31 @@ import {
   Play,
   LayoutGrid,
   Rows,
+  Sparkles,
+  Soup,
+  AlertTriangle,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import type { MealPlanStatus, MealSlot, PlannedMealEntry } from '@/types/mealPlan';
+import type {
+  GeneratedMealPlan,
+  MealAllergyConflict,
+  MealAttendee,
+  MealPlanStatus,
+  MealSlot,
+  PlannedMealEntry,
+} from '@/types/mealPlan';
 import type { SelectedRecipeInfo } from '@/components/meal-planning/recipeTypes';
 import RecipeSelectorModal from '@/components/grocery/RecipeSelectorModal';
 import ServingsModal from '@/components/meal-planning/ServingsModal';
 import DayAssignmentModal from '@/components/meal-planning/DayAssignmentModal';
 import type { RecipeAssignment } from '@/components/meal-planning/DayAssignmentModal';
 import GroceryCart from '@/components/meal-planning/GroceryCart';
+import GeneratePlanModal from '@/components/meal-planning/GeneratePlanModal';
+import LeftoversModal from '@/components/meal-planning/LeftoversModal';
+import type { LeftoversPlan } from '@/components/meal-planning/LeftoversModal';
+import AttendanceModal from '@/components/meal-planning/AttendanceModal';
+import { getBatchServings } from '@/utils/ingredientAggregator';
+import { defaultAttendees, getHouseholdDiners, isSameAttendee, servingsForAttendees } from '@/utils/mealAttendance';
 
 const DAYS_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
@@ -123,6 +141,9 @@ const MealPlanner = () => {
   const [pendingMultiRecipes, setPendingMultiRecipes] = useState<SelectedRecipeInfo[]>([]);
   const [showServingsModal, setShowServingsModal] = useState(false);
   const [showAssignmentModal, setShowAssignmentModal] = useState(false);
+  const [showGenerateModal, setShowGenerateModal] = useState(false);
+  const [leftoversSource, setLeftoversSource] = useState<{ entry: PlannedMealEntry; date: string } | null>(null);
+  const [attendanceTarget, setAttendanceTarget] = useState<{ entry: PlannedMealEntry; date: string; slot: MealSlot } | null>(null);
   const [planListInputs, setPlanListInputs] = useState<Record<string, string>>({});
   const titleInputRef = useRef<HTMLInputElement>(null);
   const titleEditRef = useRef<HTMLDivElement>(null);
@@ -158,6 +179,7 @@ const MealPlanner = () => {
   const updateMealPlan = useUpdateMealPlan();
   const deleteMealPlan = useDeleteMealPlan();
   const copyMealPlan = useCopyMealPlan();
+  const { data: household } = useMyHousehold();
 
   const weekDates = useMemo(() => getWeekDates(currentWeek), [currentWeek]);
   const today = formatDateKey(new Date());
@@ -178,6 +200,19 @@ const MealPlanner = () => {
     return weekPlans[0] || null;
   }, [mealPlans, weekStart, weekEnd]);
 
+  // Servings to cook for each dinner with leftovers planned
+  const batchServings = useMemo(() => getBatchServings(weekPlan?.meals || {}), [weekPlan]);
+
+  // Household members and dependents — with any, servings follow who's eating
+  const diners = useMemo(() => getHouseholdDiners(household, user?.id), [household, user?.id]);
+  const { data: allergyConflicts } = useMealPlanAllergyConflicts(weekPlan?.id, weekPlan?.updatedAt);
+  const conflictsByEntry = useMemo(() => {
+    const map = new Map<string, MealAllergyConflict[]>();
+    for (const c of allergyConflicts || []) map.set(c.entryId, [...(map.get(c.entryId) || []), c]);
+    return map;
+  }, [allergyConflicts]);
+  const attendingConflicts = (entryId: string) => (conflictsByEntry.get(entryId) || []).filter((c) => c.attending);
+
   const historyPlans = useMemo(() => {
     if (!mealPlans) return [];
     return mealPlans.filter((p: any) => p.status === 'completed' || p.status === 'archived');
@@ -277,7 +312,18 @@ const MealPlanner = () => {
     setSelectorOpen(false);
     if (recipes.length === 0) return;
     setPendingMultiRecipes(recipes);
-    setShowServingsModal(true);
+    // With a household, servings come from who's eating each meal
+    if (diners.length > 0) setShowAssignmentModal(true);
+    else setShowServingsModal(true);
+  };
+
+  // New entries start with the people who usually eat that meal, and their servings
+  const withDefaultAttendance = (entry: PlannedMealEntry, dateStr: string, slot: MealSlot): PlannedMealEntry => {
+    if (diners.length === 0) return entry;
+    const attendees = defaultAttendees(diners, dateStr, slot);
+    // Everyone is usually away — leave it to the user
+    if (attendees.length === 0) return entry;
+    return { ...entry, attendees, servings: servingsForAttendees(attendees, diners) };
   };
 
   const handleServingsConfirmed = (recipes: SelectedRecipeInfo[]) => {
@@ -312,7 +358,7 @@ const MealPlanner = () => {
         for (const dateStr of dates) {
           const dayMeals = { ...(currentMeals[dateStr] || {}) };
           const slotMeals = [...(dayMeals[slot] || [])];
-          slotMeals.push({ ...entry, id: crypto.randomUUID() });
+          slotMeals.push(withDefaultAttendance({ ...entry, id: crypto.randomUUID() }, dateStr, slot));
           dayMeals[slot] = slotMeals;
           currentMeals[dateStr] = dayMeals;
         }
@@ -329,6 +375,96 @@ const MealPlanner = () => {
     );
   };
 
+  // Generated meals go into the week's plan, or a new draft plan for the week
+  const handleGeneratedPlan = (generated: GeneratedMealPlan) => {
+    setShowGenerateModal(false);
+    const currentMeals = { ...(weekPlan?.meals || {}) };
+    let added = 0;
+    for (const [dateStr, slots] of Object.entries(generated.meals)) {
+      const dayMeals = { ...(currentMeals[dateStr] || {}) };
+      for (const [slot, entries] of Object.entries(slots)) {
+        if (!entries?.length) continue;
+        dayMeals[slot] = [
+          ...(dayMeals[slot] || []),
+          ...entries.map((e) => withDefaultAttendance(e, dateStr, slot as MealSlot)),
+        ];
+        added += entries.length;
+      }
+      currentMeals[dateStr] = dayMeals;
+    }
+    if (added === 0) return;
+
+    const onSuccess = () => toast.success(`Added ${added} ${added === 1 ? 'meal' : 'meals'} — tweak them as you like`);
+    const onError = (err: any) => toast.error(err?.message || 'Failed to add generated meals');
+    if (weekPlan) {
+      updateMealPlan.mutate({ id: weekPlan.id, data: { meals: currentMeals } }, { onSuccess, onError });
+    } else {
+      createMealPlan.mutate(
+        {
+          title: `Week of ${currentWeek.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+          startDate: weekStart,
+          endDate: weekEnd,
+          meals: currentMeals,
+          status: 'draft',
+        },
+        { onSuccess, onError }
+      );
+    }
+  };
+
+  // Leftovers entries eat from the source dinner's batch instead of being cooked again
+  const handleLeftoversConfirmed = ({ slot, dates, servings }: LeftoversPlan) => {
+    const source = leftoversSource;
+    setLeftoversSource(null);
+    if (!weekPlan || !source || dates.length === 0) return;
+
+    const currentMeals = { ...(weekPlan.meals || {}) };
+    for (const dateStr of dates) {
+      const dayMeals = { ...(currentMeals[dateStr] || {}) };
+      dayMeals[slot] = [
+        ...(dayMeals[slot] || []),
+        {
+          id: crypto.randomUUID(),
+          recipeId: source.entry.recipeId,
+          recipeName: source.entry.recipeName,
+          recipeImage: source.entry.recipeImage,
+          servings,
+          leftoversOf: source.entry.id,
+        },
+      ];
+      currentMeals[dateStr] = dayMeals;
+    }
+
+    updateMealPlan.mutate(
+      { id: weekPlan.id, data: { meals: currentMeals } },
+      {
+        onSuccess: () => toast.success(`Planned ${dates.length} leftovers ${dates.length === 1 ? 'meal' : 'meals'}`),
+        onError: (err: any) => toast.error(err?.message || 'Failed to plan leftovers'),
+      }
+    );
+  };
+
+  const handleAttendanceConfirmed = (attendees: MealAttendee[], servings: number) => {
+    const target = attendanceTarget;
+    setAttendanceTarget(null);
+    if (!weekPlan || !target) return;
+
+    const currentMeals = { ...(weekPlan.meals || {}) };
+    const dayMeals = { ...(currentMeals[target.date] || {}) };
+    dayMeals[target.slot] = (dayMeals[target.slot] || []).map((m: PlannedMealEntry) =>
+      m.id === target.entry.id ? { ...m, attendees, servings } : m
+    );
+    currentMeals[target.date] = dayMeals;
+
+    updateMealPlan.mutate(
+      { id: weekPlan.id, data: { meals: currentMeals } },
+      {
+        onSuccess: () => toast.success(`${servings} ${servings === 1 ? 'serving' : 'servings'} for ${attendees.length} ${attendees.length === 1 ? 'person' : 'people'}`),
+        onError: (err: any) => toast.error(err?.message || 'Failed to update who is eating'),
+      }
+    );
+  };
+
   const handleAddPlanListItem = (listKey: string, name: string) => {
     if (!weekPlan || !name.trim()) return;
     const currentMeals = { ...(weekPlan.meals || {}) };
@@ -374,15 +510,64 @@ const MealPlanner = () => {
     dayMeals[slot] = slotMeals;
     currentMeals[dateStr] = dayMeals;
 
+    // Leftovers of a meal that isn't cooked any more go with it
+    let leftoversRemoved = 0;
+    for (const [key, day] of Object.entries(currentMeals)) {
+      if (key.startsWith('_') || !day || typeof day !== 'object') continue;
+      const nextDay: any = { ...day };
+      for (const s of DAILY_SLOTS) {
+        const kept = (nextDay[s.key] || []).filter((m: any) => m.leftoversOf !== mealId);
+        leftoversRemoved += (nextDay[s.key]?.length || 0) - kept.length;
+        nextDay[s.key] = kept;
+      }
+      currentMeals[key] = nextDay;
+    }
+
     updateMealPlan.mutate(
       { id: weekPlan.id, data: { meals: currentMeals } },
       {
-        onSuccess: () => toast.success('Meal removed'),
+        onSuccess: () => toast.success(leftoversRemoved > 0 ? 'Meal and its leftovers removed' : 'Meal removed'),
         onError: (err: any) => toast.error(err?.message || 'Failed to remove meal'),
       }
     );
   };
 
+  // Hover text for a calendar entry — leftovers name the day they were cooked; with a
+  // household, who's eating and any allergy warnings follow
+  const mealSummary = (meal: PlannedMealEntry): string => {
+    if (meal.leftoversOf) {
+      for (const [dateStr, day] of Object.entries(weekPlan?.meals || {})) {
+        if (dateStr.startsWith('_') || !day || typeof day !== 'object') continue;
+        const isSource = Object.values(day).some((entries: any) =>
+          Array.isArray(entries) && entries.some((m: any) => m.id === meal.leftoversOf)
+        );
+        if (isSource) {
+          const cookedOn = new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long' });
+          return `Leftovers of ${meal.recipeName} from ${cookedOn} · ${meal.servings} servings`;
+        }
+      }
+      return `Leftovers of ${meal.recipeName} · ${meal.servings} servings`;
+    }
+    const batch = batchServings.get(meal.id);
+    return batch ? `${meal.recipeName} · cook ${batch} servings (${meal.servings} now, the rest as leftovers)` : meal.recipeName;
+  };
+
+  const mealTitle = (meal: PlannedMealEntry): string => {
+    const lines = [mealSummary(meal)];
+    if (diners.length > 0) {
+      const names = meal.attendees
+        ? diners.filter((d) => meal.attendees!.some((a) => isSameAttendee(a, d))).map((d) => d.name)
+        : ['Everyone'];
+      lines.push(`Eating: ${names.join(', ') || 'nobody'} · ${meal.servings} servings`);
+    }
+    for (const c of attendingConflicts(meal.id)) lines.push(`Allergy warning — ${c.conflicts.join('; ')}`);
+    return lines.join('\n');
+  };
+
+  const openAttendance = (meal: PlannedMealEntry, date: string, slot: MealSlot) => {
+    if (diners.length > 0) setAttendanceTarget({ entry: meal, date, slot });
+  };
+
   const weekLabel = `${currentWeek.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${weekDates[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
 
   return (
@@ -534,6 +719,15 @@ const MealPlanner = () => {
                             Modify
                           </button>
                         )}
+                        {weekPlan.status !== 'completed' && (
+                          <button
+                            className="flex w-full items-center gap-2 rounded-lg px-2.5 py-1.5 text-xs text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white transition-colors"
+                            onClick={() => { setShowGenerateModal(true); setBannerMenuOpen(false); }}
+                          >
+                            <Sparkles className="h-3.5 w-3.5" />
+                            Generate Meals
+                          </button>
+                        )}
                         <div className="my-0.5 border-t border-stone-100 dark:border-white/[0.06]" />
                         <button
                           className="flex w-full items-center gap-2 rounded-lg px-2.5 py-1.5 text-xs text-stone-400 dark:text-stone-500 hover:text-rose-500 dark:hover:text-rose-400 transition-colors"
@@ -640,10 +834,37 @@ const MealPlanner = () => {
                                   {slotMeals.map((meal: any) => (
                                     <div
                                       key={meal.id}
-                                      className="group/meal flex items-center gap-1 px-2 py-1 rounded-lg bg-stone-50 dark:bg-white/[0.04] border border-stone-100 dark:border-white/[0.06] text-xs text-stone-700 dark:text-gray-300 transition-all duration-200 hover:bg-stone-100 dark:hover:bg-white/[0.08] hover:shadow-sm"
-                                      title={meal.recipeName}
+                                      className={`group/meal flex items-center gap-1 px-2 py-1 rounded-lg text-xs transition-all duration-200 hover:shadow-sm ${
+                                        meal.leftoversOf
+                                          ? 'bg-emerald-500/[0.04] border border-dashed border-emerald-500/30 text-stone-500 dark:text-gray-400 hover:bg-emerald-500/[0.08]'
+                                          : 'bg-stone-50 dark:bg-white/[0.04] border border-stone-100 dark:border-white/[0.06] text-stone-700 dark:text-gray-300 hover:bg-stone-100 dark:hover:bg-white/[0.08]'
+                                      }`}
+                                      title={mealTitle(meal)}
                                     >
-                                      <span className="truncate flex-1">{meal.recipeName}</span>
+                                      {meal.leftoversOf && <Soup className="h-3 w-3 text-emerald-500 flex-shrink-0" />}
+                                      {attendingConflicts(meal.id).length > 0 && (
+                                        <AlertTriangle className="h-3 w-3 text-rose-500 flex-shrink-0" />
+                                      )}
+                                      <span
+                                        className={`truncate flex-1 ${diners.length > 0 ? 'cursor-pointer' : ''}`}
+                                        onClick={() => openAttendance(meal, dateStr, slot.key)}
+                                      >
+                                        {meal.recipeName}
+                                      </span>
+                                      {batchServings.has(meal.id) && (
+                                        <span className="flex-shrink-0 text-[9px] font-semibold text-emerald-600 dark:text-emerald-400 tabular-nums">
+                                          ×{batchServings.get(meal.id)}
+                                        </span>
+                                      )}
+                                      {slot.key === 'dinner' && !meal.leftoversOf && (
+                                        <button
+                                          className="flex-shrink-0 opacity-0 group-hover/meal:opacity-100 text-stone-400 hover:text-emerald-500 transition-all"
+                                          onClick={() => setLeftoversSource({ entry: meal, date: dateStr })}
+                                          title="Plan leftovers"
+                                        >
+                                          <Soup className="h-3 w-3" />
+                                        </button>
+                                      )}
                                       <button
                                         className="flex-shrink-0 opacity-0 group-hover/meal:opacity-100 text-stone-400 hover:text-destructive transition-all"
                                         onClick={() => handleRemoveMeal(dateStr, slot.key, meal.id)}
@@ -795,10 +1016,32 @@ const MealPlanner = () => {
                                   {slotMeals.map((meal: any) => (
                                     <div
                                       key={meal.id}
-                                      className="group/meal flex items-center gap-0.5 px-1.5 py-1 rounded-md bg-stone-50 dark:bg-white/[0.04] border border-stone-100 dark:border-white/[0.06] text-[10px] text-stone-700 dark:text-gray-300 transition-all hover:bg-stone-100 dark:hover:bg-white/[0.08]"
-                                      title={meal.recipeName}
+                                      className={`group/meal flex items-center gap-0.5 px-1.5 py-1 rounded-md text-[10px] transition-all ${
+                                        meal.leftoversOf
+                                          ? 'bg-emerald-500/[0.04] border border-dashed border-emerald-500/30 text-stone-500 dark:text-gray-400 hover:bg-emerald-500/[0.08]'
+                                          : 'bg-stone-50 dark:bg-white/[0.04] border border-stone-100 dark:border-white/[0.06] text-stone-700 dark:text-gray-300 hover:bg-stone-100 dark:hover:bg-white/[0.08]'
+                                      }`}
+                                      title={mealTitle(meal)}
                                     >
-                                      <span className="truncate flex-1">{meal.recipeName}</span>
+                                      {meal.leftoversOf && <Soup className="h-2.5 w-2.5 text-emerald-500 flex-shrink-0" />}
+                                      {attendingConflicts(meal.id).length > 0 && (
+                                        <AlertTriangle className="h-2.5 w-2.5 text-rose-500 flex-shrink-0" />
+                                      )}
+                                      <span
+                                        className={`truncate flex-1 ${diners.length > 0 ? 'cursor-pointer' : ''}`}
+                                        onClick={() => openAttendance(meal, dateStr, slot.key)}
+                                      >
+                                        {meal.recipeName}
+                                      </span>
+                                      {slot.key === 'dinner' && !meal.leftoversOf && (
+                                        <button
+                                          className="flex-shrink-0 opacity-0 group-hover/meal:opacity-100 text-stone-400 hover:text-emerald-500 transition-all"
+                                          onClick={() => setLeftoversSource({ entry: meal, date: dateStr })}
+                                          title="Plan leftovers"
+                                        >
+                                          <Soup className="h-2.5 w-2.5" />
+                                        </button>
+                                      )}
                                       <button
                                         className="flex-shrink-0 opacity-0 group-hover/meal:opacity-100 text-stone-400 hover:text-destructive transition-all"
                                         onClick={() => handleRemoveMeal(dateStr, slot.key, meal.id)}
@@ -944,10 +1187,16 @@ const MealPlanner = () => {
                 <p className="text-sm text-stone-500 dark:text-gray-400 max-w-sm mx-auto mb-5">
                   Create a meal plan to start organizing your week and building a grocery list.
                 </p>
-                <Button onClick={() => setShowCreateForm(true)} className="gap-2">
-                  <Plus className="h-4 w-4" />
-                  Create Plan for This Week
-                </Button>
+                <div className="flex items-center justify-center gap-2">
+                  <Button onClick={() => setShowCreateForm(true)} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Create Plan for This Week
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowGenerateModal(true)} className="gap-2">
+                    <Sparkles className="h-4 w-4" />
+                    Generate Plan
+                  </Button>
+                </div>
               </div>
             )}
           </TabsContent>
@@ -1083,6 +1332,35 @@ const MealPlanner = () => {
         onClose={() => setShowServingsModal(false)}
       />
 
+      {/* Generate Plan Modal (draft meals for the week's empty slots) */}
+      <GeneratePlanModal
+        open={showGenerateModal}
+        startDate={weekPlan?.startDate ?? weekStart}
+        endDate={weekPlan?.endDate ?? weekEnd}
+        planId={weekPlan?.id}
+        onConfirm={handleGeneratedPlan}
+        onClose={() => setShowGenerateModal(false)}
+      />
+
+      {/* Attendance Modal (click a planned meal) */}
+      <AttendanceModal
+        open={!!attendanceTarget}
+        target={attendanceTarget}
+        diners={diners}
+        conflicts={attendanceTarget ? conflictsByEntry.get(attendanceTarget.entry.id) || [] : []}
+        onConfirm={handleAttendanceConfirmed}
+        onClose={() => setAttendanceTarget(null)}
+      />
+
+      {/* Leftovers Modal (from a dinner's hover action) */}
+      <LeftoversModal
+        open={!!leftoversSource}
+        source={leftoversSource}
+        weekDates={weekDates}
+        onConfirm={handleLeftoversConfirmed}
+        onClose={() => setLeftoversSource(null)}
+      />
+
       {/* Day Assignment Modal (after servings) */}
       <DayAssignmentModal
         open={showAssignmentModal}
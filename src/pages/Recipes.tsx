@@ -4,10 +4,12 @@ import { RecipeList } from "@/components/recipes/RecipeList";
 import { RecipeDetail } from "@/components/recipes/RecipeDetail";
 import { RecipeForm } from "@/components/recipes/RecipeForm";
 import { CollectionsSidebar } from "@/components/recipes/CollectionsSidebar";
+import { BulkImportModal } from "@/components/recipes/BulkImportModal";
 import { apiClient, useDeleteRecipe } from "@/services/api";
+import { downloadBlob } from "@/utils/download";
 import { useAuthStore } from "@/stores/authStore";
 import toast from "react-hot-toast";
-import { Filter, X } from "lucide-react";
+import { Download, Filter, Loader2, Upload, X } from "lucide-react";
 
 const Recipes = () => {
   const { slug } = useParams<{ slug: string }>();
@@ -19,6 +21,8 @@ const Recipes = () => {
   const [selectedCollectionName, setSelectedCollectionName] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'public' | 'mine' | 'household' | 'collection'>('public');
   const [mobileCollectionsOpen, setMobileCollectionsOpen] = useState(false);
+  const [bulkImportOpen, setBulkImportOpen] = useState(false);
+  const [exportingLibrary, setExportingLibrary] = useState(false);
   const { user } = useAuthStore();
   const deleteRecipeMutation = useDeleteRecipe();
 
@@ -91,6 +95,18 @@ const Recipes = () => {
     }
   };
 
+  const handleExportLibrary = async () => {
+    setExportingLibrary(true);
+    try {
+      const { blob, filename } = await apiClient.exportLibrary();
+      downloadBlob(blob, filename || "recipe-library.zip");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export library");
+    } finally {
+      setExportingLibrary(false);
+    }
+  };
+
   const showList = !showAddForm && !selectedRecipe && !editingRecipe;
 
   return (
@@ -124,6 +140,24 @@ const Recipes = () => {
               <h1 className="text-2xl font-bold tracking-tight text-stone-900 dark:text-white">
                 {viewMode === 'collection' && selectedCollectionName ? selectedCollectionName : viewMode === 'household' ? 'Household Recipes' : viewMode === 'public' ? 'Public Recipes' : 'My Recipes'}
               </h1>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleExportLibrary}
+                  disabled={exportingLibrary}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-stone-200/60 dark:border-white/[0.06] bg-white/60 dark:bg-white/[0.03] backdrop-blur-xl shadow-sm text-sm font-medium text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white transition-colors disabled:opacity-50"
+                  title="Download all your recipes and collections as a zip"
+                >
+                  {exportingLibrary ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  Export Library
+                </button>
+                <button
+                  onClick={() => setBulkImportOpen(true)}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-stone-200/60 dark:border-white/[0.06] bg-white/60 dark:bg-white/[0.03] backdrop-blur-xl shadow-sm text-sm font-medium text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white transition-colors"
+                >
+                  <Upload className="h-4 w-4" />
+                  Bulk Import
+                </button>
+              </div>
             </div>
 
             <div className="flex gap-6">
@@ -199,6 +233,8 @@ const Recipes = () => {
           </div>
         )}
       </div>
+
+      <BulkImportModal open={bulkImportOpen} onClose={() => setBulkImportOpen(false)} />
     </div>
   );
 };
@@ -7,6 +7,8 @@ import { useTheme } from '../providers/ThemeProvider';
 import { useAuthStore } from '../stores/authStore';
 import { useMeasurementSystem } from "../contexts/MeasurementSystemContext";
 import {
+  useChatMemories,
+  useDeleteChatMemories,
   useMyProfile,
   useUpdateUsername,
 } from '../services/api';
@@ -21,6 +23,7 @@ import {
   X,
   Check,
   Pencil,
+  Trash2,
 } from "lucide-react";
 import toast from 'react-hot-toast';
 
@@ -42,6 +45,8 @@ const Settings = () => {
   const { data: profile } = useMyProfile();
   const updateUsername = useUpdateUsername();
   const [isEditingUsername, setIsEditingUsername] = useState(false);
+  const { data: memories = [], isLoading: isLoadingMemories } = useChatMemories();
+  const deleteMemories = useDeleteChatMemories();
   const [editedUsername, setEditedUsername] = useState('');
 
   // Check if there are unsaved changes
@@ -135,6 +140,14 @@ const Settings = () => {
     });
   };
 
+  const handleForgetMemory = (memoryId?: string) => {
+    if (!memoryId && !confirm('Forget everything the assistant remembers about you?')) return;
+    deleteMemories.mutate(memoryId, {
+      onSuccess: () => toast.success(memoryId ? 'Memory forgotten' : 'All memories forgotten'),
+      onError: (err: any) => toast.error(err?.message || 'Failed to delete memory'),
+    });
+  };
+
   const themeOptions = [
     { value: 'light', label: 'Light', icon: Sun },
     { value: 'dark', label: 'Dark', icon: Moon },
@@ -395,6 +408,46 @@ const Settings = () => {
             </div>
           </div>
         </section>
+
+        {/* ── Chat Memory ── */}
+        <section>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-stone-500 dark:text-stone-400">Chat Memory</h2>
+            {memories.length > 0 && (
+              <button
+                onClick={() => handleForgetMemory()}
+                disabled={deleteMemories.isPending}
+                className="text-xs text-stone-400 hover:text-rose-500 dark:hover:text-rose-400 transition-colors"
+              >
+                Forget all
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-stone-400 dark:text-stone-500 mb-3">
+            Things you've told the assistant that it remembers across conversations
+          </p>
+          {isLoadingMemories ? (
+            <Loader2 className="h-4 w-4 animate-spin text-stone-400" />
+          ) : memories.length === 0 ? (
+            <p className="text-sm text-stone-500 dark:text-stone-400">Nothing remembered yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {memories.map((memory) => (
+                <li key={memory.id} className="flex items-start justify-between gap-3 py-1.5">
+                  <span className="text-sm text-stone-700 dark:text-stone-300">{memory.content}</span>
+                  <button
+                    onClick={() => handleForgetMemory(memory.id)}
+                    disabled={deleteMemories.isPending}
+                    className="mt-0.5 text-stone-400 hover:text-rose-500 dark:hover:text-rose-400 transition-colors"
+                    title="Forget this"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
       </div>
     </div>
   );
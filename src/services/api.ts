@@ -2,6 +2,28 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from './supabase';
 import { useAuthStore } from '@/stores/authStore';
 import { Logger } from './logger';
+import type {
+  DuplicateAction,
+  DuplicateResolution,
+  PipelineBatchItem,
+  PipelineJob,
+  PipelineJobStatus,
+  PipelineResult,
+  PipelineSourceType,
+  RecipeExportFormat,
+  SimilarRecipeMatch,
+} from '@/types/pipeline';
+import type {
+  ChatActionsResponse,
+  ChatMemory,
+  ChatStreamResponse,
+  EmbeddingQueueStatus,
+  EmbeddingMigrationAction,
+  LlmQuotaLimits,
+  LlmUsageSummary,
+  RecipeSearchParams,
+} from '@/types';
+import type { GenerateMealPlanOptions, GeneratedMealPlan, MealAbsences, MealAllergyConflict } from '@/types/mealPlan';
 
 // Supabase configuration - reuse from supabase.ts
 const SUPABASE_URL = (import.meta as any).env?.VITE_SUPABASE_URL || "";
@@ -11,6 +33,10 @@ const SUPABASE_ANON_KEY =
 // Supabase Edge Functions base URL
 const SUPABASE_FUNCTIONS_URL = `${SUPABASE_URL}/functions/v1`;
 
+// Recipe pipeline job polling
+const INGEST_JOB_POLL_INTERVAL_MS = 1500;
+const INGEST_JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
 // For local development, use local server for RAG endpoints
 const LOCAL_API_URL = "http://localhost:3000";
 const isLocalhost = window.location.hostname === "localhost" || window.location.hostname === "127.0.0.1";
@@ -92,6 +118,27 @@ const camelToSnake = (obj: any): any => {
   return snakeObj;
 };
 
+// Read a file as a base64 data URL (for pipeline uploads)
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+// Error for a failed edge function response. status/code let callers tell
+// e.g. an exhausted LLM quota (429 QUOTA_EXCEEDED) apart
+const responseError = async (response: Response): Promise<Error> => {
+  const error = await response
+    .json()
+    .catch(() => ({ error: "Network error" }));
+  return Object.assign(new Error(error.error || `HTTP ${response.status}`), {
+    status: response.status,
+    code: error.code,
+  });
+};
+
 // API client
 class ApiClient {
   private async request<T>(url: string, options: RequestInit = {}): Promise<T> {
@@ -113,15 +160,30 @@ class ApiClient {
     });
 
     if (!response.ok) {
-      const error = await response
-        .json()
-        .catch(() => ({ error: "Network error" }));
-      throw new Error(error.error || `HTTP ${response.status}`);
+      throw await responseError(response);
     }
 
     return response.json();
   }
 
+  /** Like `request`, but for endpoints that return a file download */
+  private async requestFile(url: string): Promise<{ blob: Blob; filename: string | null }> {
+    const headers: Record<string, string> = { apikey: SUPABASE_ANON_KEY };
+    const token = await this.getAuthToken();
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+
+    const disposition = response.headers.get("Content-Disposition") || "";
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || null;
+    return { blob: await response.blob(), filename };
+  }
+
   private async getAuthToken(): Promise<string | null> {
     // Get auth token from Supabase session
     const {
@@ -315,14 +377,13 @@ class ApiClient {
     return { success: true };
   }
 
-  async searchRecipes(query: string, limit?: number) {
-    // Use RAG search for recipe search
-    return this.ragSearch({
-      query,
-      userId: (await supabase.auth.getUser()).data.user?.id || "anonymous",
-      limit: limit || 10,
-      searchType: "hybrid",
-    });
+  /** Hybrid (semantic + full-text) search — chat-api embeds the query and calls search_recipes_hybrid */
+  async searchRecipes(params: RecipeSearchParams) {
+    const data = await this.request<{ recipes: any[]; total: number }>(
+      `${SUPABASE_FUNCTIONS_URL}/chat-api/search`,
+      { method: "POST", body: JSON.stringify(params) }
+    );
+    return { recipes: (data.recipes || []).map(snakeToCamel), total: data.total };
   }
 
   // Chat endpoints - using Supabase Edge Function (secure, API key protected)
@@ -403,6 +464,106 @@ class ApiClient {
     }
   }
 
+  /**
+   * Like `sendMessage`, but general chat and RAG answers stream in over SSE: `onDelta`
+   * gets each chunk of text as it arrives, and the promise resolves with the usual
+   * response once the server has saved the message. Aborting `signal` stops
+   * generation; the server keeps the partial answer. Recipe extraction isn't
+   * streamed — its JSON response comes back as is.
+   */
+  async streamMessage(
+    data: {
+      message: string;
+      context?: any;
+      sessionId?: string;
+      intent?: string;
+      images?: string[]; // Array of base64 data URLs
+    },
+    { onDelta, signal }: { onDelta: (content: string) => void; signal?: AbortSignal }
+  ): Promise<ChatStreamResponse> {
+    const startTime = Date.now();
+    const endpoint = `${SUPABASE_FUNCTIONS_URL}/chat-api/message`;
+
+    Logger.chat.apiCall(endpoint, 'POST', undefined, undefined);
+    Logger.chat.messageSent(
+      data.context?.conversationId || 'new',
+      data.sessionId || 'unknown',
+      data.message,
+      data.intent,
+      data.images?.length
+    );
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      apikey: SUPABASE_ANON_KEY,
+    };
+    const token = await this.getAuthToken();
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ ...data, stream: true }),
+      signal,
+    });
+    if (!response.ok) {
+      const error = await responseError(response);
+      Logger.chat.apiCall(endpoint, 'POST', response.status, Date.now() - startTime, error.message);
+      throw error;
+    }
+    if (!response.headers.get("Content-Type")?.includes("text/event-stream") || !response.body) {
+      return response.json();
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let result: ChatStreamResponse | null = null;
+
+    while (!result) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const events = buffer.split("\n\n");
+      buffer = events.pop() ?? "";
+
+      for (const event of events) {
+        const name = event.match(/^event: (.*)$/m)?.[1];
+        const payload = event.match(/^data: (.*)$/m)?.[1];
+        if (!name || !payload) continue;
+        const eventData = JSON.parse(payload);
+
+        if (name === "delta") onDelta(eventData.content);
+        else if (name === "done") result = eventData;
+        else if (name === "error") throw new Error(eventData.error);
+      }
+    }
+
+    if (!result) throw new Error("Chat stream ended before the reply was saved");
+    Logger.chat.apiCall(endpoint, 'POST', 200, Date.now() - startTime);
+    Logger.chat.messageReceived(
+      result.conversationId || data.context?.conversationId || 'unknown',
+      result.response.content,
+      false,
+      result.intentMetadata?.detectedIntent || data.intent
+    );
+    return result;
+  }
+
+  /** Confirm (all, or just `actionIds`) or cancel the actions a chat agent message staged */
+  async resolveChatActions(data: {
+    messageId: string;
+    decision: "confirm" | "cancel";
+    actionIds?: string[];
+  }): Promise<ChatActionsResponse> {
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/chat-api/actions`, {
+      method: "POST",
+      // Local YYYY-MM-DD, so actions that default to "the current plan" use the user's day
+      body: JSON.stringify({ ...data, today: new Date().toLocaleDateString("en-CA") }),
+    });
+  }
+
   async addRecipeViaChat(data: { recipeText: string }) {
     // Route through chat-api with recipe extraction intent
     return this.request(`${SUPABASE_FUNCTIONS_URL}/chat-api/message`, {
@@ -450,6 +611,21 @@ class ApiClient {
     );
   }
 
+  // ── Chat Memories ──
+
+  async getChatMemories(): Promise<ChatMemory[]> {
+    const data = await this.request<{ memories: ChatMemory[] }>(`${SUPABASE_FUNCTIONS_URL}/chat-api/memories`);
+    return data.memories || [];
+  }
+
+  /** Forget one remembered fact, or all of them when `memoryId` is omitted */
+  async deleteChatMemories(memoryId?: string) {
+    const query = memoryId ? `?memoryId=${memoryId}` : "";
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/chat-api/memories${query}`, {
+      method: "DELETE",
+    });
+  }
+
   // ── Meal Planning ──
 
   async getMealPlans(params?: { limit?: number; status?: string }) {
@@ -601,6 +777,22 @@ class ApiClient {
     return snakeToCamel(mealPlan);
   }
 
+  /** Draft meals for a date range from the household's recipes — nothing is saved */
+  async generateMealPlan(options: GenerateMealPlanOptions): Promise<GeneratedMealPlan> {
+    return this.request<GeneratedMealPlan>(`${SUPABASE_FUNCTIONS_URL}/chat-api/meal-plan/generate`, {
+      method: "POST",
+      body: JSON.stringify(options),
+    });
+  }
+
+  /** Planned meals that look like they contain a dependent's allergen, per dependent */
+  async getMealPlanAllergyConflicts(planId: string): Promise<MealAllergyConflict[]> {
+    const { conflicts } = await this.request<{ conflicts: MealAllergyConflict[] }>(
+      `${SUPABASE_FUNCTIONS_URL}/chat-api/meal-plan/conflicts?planId=${encodeURIComponent(planId)}`
+    );
+    return conflicts;
+  }
+
   async uploadImage(file: File, folder: string = "recipes"): Promise<string> {
     const {
       data: { user },
@@ -904,9 +1096,9 @@ class ApiClient {
   }
 
   /**
-   * Check for semantically similar recipes (Phase 2 — post-embedding).
-   * Sends recipe data to backend which generates an embedding and searches.
-   * Returns similar recipes above the similarity threshold.
+   * Check for duplicate and semantically similar recipes (Phase 2 — post-embedding).
+   * Sends recipe data to backend which matches the title and searches by embedding.
+   * Each match carries a field-by-field diff against the recipe being saved.
    */
   async checkSimilarRecipes(recipeData: {
     title: string;
@@ -916,39 +1108,175 @@ class ApiClient {
     tags?: string[];
     cuisine?: string;
     difficulty?: string;
-  }): Promise<{ similar: Array<{ id: string; title: string; similarity: number }> }> {
+    prep_time?: number | null;
+    cook_time?: number | null;
+    total_time?: number | null;
+    servings?: number | null;
+    image_url?: string | null;
+  }): Promise<{ similar: SimilarRecipeMatch[] }> {
     return this.request(`${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/check-similar`, {
       method: "POST",
       body: JSON.stringify(recipeData),
     });
   }
 
-  // ── Recipe Pipeline endpoints ──
-
-  async ingestRecipeFromUrl(url: string, autoSave = true) {
-    return this.request(`${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/ingest`, {
+  /**
+   * Save a recipe that duplicates an existing one — keep the existing recipe,
+   * replace it, save both (suffixed title and slug) or merge selected fields.
+   * `recipe` uses the app's camelCase recipe fields.
+   */
+  async resolveDuplicate(
+    recipe: Record<string, any>,
+    resolution: DuplicateResolution
+  ): Promise<{ recipe_id: string; action: DuplicateAction | null }> {
+    const { nutritionInfo, ...rest } = recipe;
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/resolve-duplicate`, {
       method: "POST",
-      body: JSON.stringify({ source_type: "url", url, auto_save: autoSave }),
+      body: JSON.stringify({ recipe: { ...rest, nutrition: nutritionInfo ?? null }, resolution }),
     });
   }
 
-  async ingestRecipeFromText(text: string, images?: string[], autoSave = true) {
-    return this.request(`${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/ingest`, {
-      method: "POST",
-      body: JSON.stringify({ source_type: "text", text, images, auto_save: autoSave }),
-    });
+  // ── Recipe Pipeline endpoints ──
+  // Ingestion runs as a background job (POST /jobs) that is polled until it finishes,
+  // so slow vision extractions aren't bound by a single request timeout.
+
+  async ingestRecipeFromUrl(url: string, autoSave = true, onProgress?: (job: PipelineJob) => void) {
+    return this.runIngestJob({ source_type: "url", url, auto_save: autoSave }, onProgress);
+  }
+
+  async ingestRecipeFromText(
+    text: string,
+    images?: string[],
+    autoSave = true,
+    onProgress?: (job: PipelineJob) => void
+  ) {
+    return this.runIngestJob({ source_type: "text", text, images, auto_save: autoSave }, onProgress);
   }
 
   async ingestRecipeFromVideo(
     data: { video_url?: string; frame_urls?: string[]; transcript?: string },
+    autoSave = true,
+    onProgress?: (job: PipelineJob) => void
+  ) {
+    return this.runIngestJob({ source_type: "video", ...data, auto_save: autoSave }, onProgress);
+  }
+
+  async startIngestJob(body: { source_type: PipelineSourceType } & Record<string, any>) {
+    return this.request<{ job_id: string; status: PipelineJobStatus }>(
+      `${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/jobs`,
+      { method: "POST", body: JSON.stringify(body) }
+    );
+  }
+
+  async getIngestJob(jobId: string) {
+    return this.request<PipelineJob>(
+      `${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/jobs/${encodeURIComponent(jobId)}`
+    );
+  }
+
+  /**
+   * Start an import job for a recipe-manager export (Paprika, Mealie, Tandoor, MealMaster).
+   * The file is sent base64-encoded; the format is detected server-side.
+   */
+  async importRecipeFile(file: File, autoSave = true) {
+    const dataUrl = await readFileAsDataUrl(file);
+    return this.startIngestJob({
+      source_type: "file",
+      file: { name: file.name, data: dataUrl.substring(dataUrl.indexOf(",") + 1) },
+      auto_save: autoSave,
+    });
+  }
+
+  /**
+   * Start an import job for a PDF (text or scanned) or for photos of cookbook pages.
+   * `pages` selects a 1-based page range such as "12-18"; `maxRecipes` raises the
+   * per-request recipe cap for cookbook chapters.
+   */
+  async importRecipePdf(
+    files: File[],
+    options: { pages?: string; maxRecipes?: number } = {},
     autoSave = true
   ) {
-    return this.request(`${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/ingest`, {
-      method: "POST",
-      body: JSON.stringify({ source_type: "video", ...data, auto_save: autoSave }),
+    const pdf = files.find((f) => f.type === "application/pdf" || f.name.toLowerCase().endsWith(".pdf"));
+    if (pdf) {
+      const dataUrl = await readFileAsDataUrl(pdf);
+      return this.startIngestJob({
+        source_type: "pdf",
+        pdf: { name: pdf.name, data: dataUrl.substring(dataUrl.indexOf(",") + 1), pages: options.pages || undefined },
+        max_recipes: options.maxRecipes,
+        auto_save: autoSave,
+      });
+    }
+    const images = await Promise.all(files.map(readFileAsDataUrl));
+    return this.startIngestJob({
+      source_type: "pdf",
+      images,
+      max_recipes: options.maxRecipes,
+      auto_save: autoSave,
     });
   }
 
+  /** Export one recipe as schema.org JSON-LD, a Markdown card or a Paprika file */
+  async exportRecipe(recipeId: string, format: RecipeExportFormat) {
+    return this.requestFile(
+      `${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/export/${encodeURIComponent(recipeId)}?format=${format}`
+    );
+  }
+
+  /** Zip of all the user's recipes (JSON-LD, Markdown, Paprika) plus collections.json */
+  async exportLibrary() {
+    return this.requestFile(`${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/export/library`);
+  }
+
+  /**
+   * Queue a batch import — one background job per URL or text blob.
+   * Items rejected up front come back with `errors` and no `job_id`.
+   */
+  async startBatchImport(items: string[], autoSave = true) {
+    return this.request<{ items: PipelineBatchItem[] }>(
+      `${SUPABASE_FUNCTIONS_URL}/recipe-pipeline/batch`,
+      { method: "POST", body: JSON.stringify({ items, auto_save: autoSave }) }
+    );
+  }
+
+  /** Fetch several of the caller's jobs in one query (RLS scopes to own jobs). */
+  async getIngestJobs(jobIds: string[]): Promise<PipelineJob[]> {
+    if (jobIds.length === 0) return [];
+    const { data, error } = await (supabase
+      .from("pipeline_jobs") as any)
+      .select("id, status, source_type, stages, result, created_at, updated_at, started_at, completed_at")
+      .in("id", jobIds);
+
+    if (error) throw error;
+    return (data || []) as PipelineJob[];
+  }
+
+  /**
+   * Start an ingest job and poll it until it succeeds or fails.
+   * `onProgress` receives the job after every poll so callers can render stage reports.
+   */
+  private async runIngestJob(
+    body: { source_type: PipelineSourceType } & Record<string, any>,
+    onProgress?: (job: PipelineJob) => void
+  ): Promise<PipelineResult> {
+    const { job_id } = await this.startIngestJob(body);
+    const deadline = Date.now() + INGEST_JOB_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, INGEST_JOB_POLL_INTERVAL_MS));
+
+      const job = await this.getIngestJob(job_id);
+      onProgress?.(job);
+
+      if (job.status === "succeeded" && job.result) return job.result;
+      if (job.status === "failed") {
+        throw new Error(job.result?.errors?.[0]?.message || "Recipe import failed");
+      }
+    }
+
+    throw new Error("Recipe import is taking longer than expected — check back shortly");
+  }
+
   async extractRecipeOnly(
     sourceType: "url" | "text" | "video",
     data: Record<string, any>
@@ -1088,6 +1416,16 @@ class ApiClient {
     if (demoteError) throw demoteError;
   }
 
+  /** Members can set their own meal defaults; owners and admins anyone's */
+  async setMemberMealDefaults(memberId: string, defaults: { mealAbsences: MealAbsences; portionMultiplier: number }) {
+    const { error } = await (supabase.rpc as any)('set_member_meal_defaults', {
+      p_member_id: memberId,
+      p_meal_absences: defaults.mealAbsences,
+      p_portion_multiplier: defaults.portionMultiplier,
+    });
+    if (error) throw error;
+  }
+
   // ── Family Members (Dependents) ──
 
   async createFamilyMember(data: {
@@ -1098,6 +1436,8 @@ class ApiClient {
     dietaryRestrictions?: string[];
     allergies?: string[];
     preferences?: Record<string, any>;
+    mealAbsences?: MealAbsences;
+    portionMultiplier?: number;
   }) {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error("User not authenticated");
@@ -1113,6 +1453,8 @@ class ApiClient {
         dietary_restrictions: data.dietaryRestrictions || [],
         allergies: data.allergies || [],
         preferences: data.preferences || {},
+        meal_absences: data.mealAbsences || {},
+        portion_multiplier: data.portionMultiplier ?? 1,
       })
       .select()
       .single();
@@ -1128,6 +1470,8 @@ class ApiClient {
     dietaryRestrictions?: string[];
     allergies?: string[];
     preferences?: Record<string, any>;
+    mealAbsences?: MealAbsences;
+    portionMultiplier?: number;
   }) {
     const payload: any = {};
     if (updates.name !== undefined) payload.name = updates.name;
@@ -1136,6 +1480,8 @@ class ApiClient {
     if (updates.dietaryRestrictions !== undefined) payload.dietary_restrictions = updates.dietaryRestrictions;
     if (updates.allergies !== undefined) payload.allergies = updates.allergies;
     if (updates.preferences !== undefined) payload.preferences = updates.preferences;
+    if (updates.mealAbsences !== undefined) payload.meal_absences = updates.mealAbsences;
+    if (updates.portionMultiplier !== undefined) payload.portion_multiplier = updates.portionMultiplier;
 
     const { data: member, error } = await (supabase
       .from("family_members") as any)
@@ -1423,6 +1769,51 @@ class ApiClient {
     });
   }
 
+  async adminGetUsage(month: string): Promise<LlmUsageSummary> {
+    const data = await this.request<any>(
+      `${SUPABASE_FUNCTIONS_URL}/admin-api/usage?month=${encodeURIComponent(month)}`,
+      { method: "GET" }
+    );
+    return snakeToCamel(data);
+  }
+
+  /** Set the monthly LLM quota of a household, or of a user outside one (null = no limit of that kind) */
+  async adminSetQuota(target: { householdId: string } | { userId: string }, limits: LlmQuotaLimits) {
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/admin-api/quotas`, {
+      method: "PATCH",
+      body: JSON.stringify({ ...target, ...limits }),
+    });
+  }
+
+  /** Remove a quota — the LLM_MONTHLY_*_QUOTA defaults apply again */
+  async adminDeleteQuota(target: { householdId: string } | { userId: string }) {
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/admin-api/quotas`, {
+      method: "DELETE",
+      body: JSON.stringify(target),
+    });
+  }
+
+  async adminGetEmbeddingQueue(): Promise<EmbeddingQueueStatus> {
+    const data = await this.request<any>(`${SUPABASE_FUNCTIONS_URL}/admin-api/embeddings`, { method: "GET" });
+    return snakeToCamel(data);
+  }
+
+  /** Start the embedding worker; `all` first queues every recipe for a full re-embed */
+  async adminRunEmbeddings(all = false): Promise<{ queued: number }> {
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/admin-api/embeddings`, {
+      method: "POST",
+      body: JSON.stringify({ all }),
+    });
+  }
+
+  /** Start, promote or cancel a switch to another embedding model */
+  async adminEmbeddingMigration(action: EmbeddingMigrationAction): Promise<{ queued?: number }> {
+    return this.request(`${SUPABASE_FUNCTIONS_URL}/admin-api/embeddings`, {
+      method: "PATCH",
+      body: JSON.stringify(action),
+    });
+  }
+
   async updateUsername(username: string) {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error("User not authenticated");
@@ -1505,11 +1896,12 @@ export const useDeleteRecipe = () => {
   });
 };
 
-export const useSearchRecipes = (query: string, limit?: number) => {
+export const useSearchRecipes = (params: RecipeSearchParams) => {
   return useQuery({
-    queryKey: ["recipes", "search", query, limit],
-    queryFn: () => apiClient.searchRecipes(query, limit),
-    enabled: !!query,
+    queryKey: ["recipes", "search", params],
+    queryFn: () => apiClient.searchRecipes(params),
+    enabled: !!params.query.trim(),
+    keepPreviousData: true,
   });
 };
 
@@ -1538,6 +1930,56 @@ export const useSendMessage = () => {
   });
 };
 
+export const useResolveChatActions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Parameters<typeof apiClient.resolveChatActions>[0]) =>
+      apiClient.resolveChatActions(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["meal-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["meal-plan"] });
+      queryClient.invalidateQueries({ queryKey: ["recipes"] });
+    },
+  });
+};
+
+export const useStreamMessage = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      data,
+      ...handlers
+    }: {
+      data: Parameters<typeof apiClient.streamMessage>[0];
+      onDelta: (content: string) => void;
+      signal?: AbortSignal;
+    }) => apiClient.streamMessage(data, handlers),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat", "history"] });
+    },
+  });
+};
+
+export const useChatMemories = () => {
+  return useQuery({
+    queryKey: ["chat", "memories"],
+    queryFn: () => apiClient.getChatMemories(),
+  });
+};
+
+export const useDeleteChatMemories = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (memoryId?: string) => apiClient.deleteChatMemories(memoryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat", "memories"] });
+    },
+  });
+};
+
 export const useMealPlans = (params?: { limit?: number; status?: string }) => {
   const { user, isLoading: authLoading } = useAuthStore();
 
@@ -1610,6 +2052,23 @@ export const useCopyMealPlan = () => {
   });
 };
 
+export const useGenerateMealPlan = () => {
+  return useMutation({
+    mutationFn: (options: GenerateMealPlanOptions) => apiClient.generateMealPlan(options),
+  });
+};
+
+// Keyed on the plan's updatedAt so every saved change to the plan is re-checked
+export const useMealPlanAllergyConflicts = (planId?: string, updatedAt?: string) => {
+  const { user, isLoading: authLoading } = useAuthStore();
+
+  return useQuery({
+    queryKey: ["meal-plan-conflicts", planId, updatedAt],
+    queryFn: () => apiClient.getMealPlanAllergyConflicts(planId!),
+    enabled: !authLoading && !!user && !!planId,
+  });
+};
+
 export const usePreferences = () => {
   // Check if user is authenticated before running the query
   const { user, isLoading: authLoading } = useAuthStore();
@@ -1725,6 +2184,8 @@ export const useCreateFamilyMember = () => {
       dietaryRestrictions?: string[];
       allergies?: string[];
       preferences?: Record<string, any>;
+      mealAbsences?: MealAbsences;
+      portionMultiplier?: number;
     }) => apiClient.createFamilyMember(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["household"] });
@@ -1738,7 +2199,16 @@ export const useUpdateFamilyMember = () => {
   return useMutation({
     mutationFn: ({ memberId, updates }: {
       memberId: string;
-      updates: { name?: string; relationship?: string; age?: number | null; dietaryRestrictions?: string[]; allergies?: string[]; preferences?: Record<string, any> };
+      updates: {
+        name?: string;
+        relationship?: string;
+        age?: number | null;
+        dietaryRestrictions?: string[];
+        allergies?: string[];
+        preferences?: Record<string, any>;
+        mealAbsences?: MealAbsences;
+        portionMultiplier?: number;
+      };
     }) => apiClient.updateFamilyMember(memberId, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["household"] });
@@ -1794,6 +2264,18 @@ export const useTransferOwnership = () => {
   });
 };
 
+export const useSetMemberMealDefaults = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ memberId, mealAbsences, portionMultiplier }: { memberId: string; mealAbsences: MealAbsences; portionMultiplier: number }) =>
+      apiClient.setMemberMealDefaults(memberId, { mealAbsences, portionMultiplier }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["household"] });
+    },
+  });
+};
+
 export const useUpdateRecipeVisibility = () => {
   const queryClient = useQueryClient();
 
@@ -2030,6 +2512,65 @@ export const useAdminRemoveHouseholdMember = () => {
   });
 };
 
+export const useAdminUsage = (month: string) => {
+  const { isAdmin } = useAuthStore();
+  return useQuery({
+    queryKey: ["admin", "usage", month],
+    queryFn: () => apiClient.adminGetUsage(month),
+    enabled: isAdmin,
+  });
+};
+
+export const useAdminSetQuota = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ target, limits }: { target: { householdId: string } | { userId: string }; limits: LlmQuotaLimits }) =>
+      apiClient.adminSetQuota(target, limits),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "usage"] });
+    },
+  });
+};
+
+export const useAdminDeleteQuota = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (target: { householdId: string } | { userId: string }) => apiClient.adminDeleteQuota(target),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "usage"] });
+    },
+  });
+};
+
+export const useAdminEmbeddingQueue = () => {
+  const { isAdmin } = useAuthStore();
+  return useQuery({
+    queryKey: ["admin", "embeddings"],
+    queryFn: () => apiClient.adminGetEmbeddingQueue(),
+    enabled: isAdmin,
+  });
+};
+
+export const useAdminRunEmbeddings = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (all: boolean) => apiClient.adminRunEmbeddings(all),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "embeddings"] });
+    },
+  });
+};
+
+export const useAdminEmbeddingMigration = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (action: EmbeddingMigrationAction) => apiClient.adminEmbeddingMigration(action),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "embeddings"] });
+    },
+  });
+};
+
 export const useAdminDeleteHousehold = () => {
   const queryClient = useQueryClient();
   return useMutation({
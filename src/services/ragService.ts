@@ -152,13 +152,20 @@ export const useIngredientSearch = () => {
  * NOTE: This is a lightweight client-side hint for logging/debugging only.
  * The server performs AI-powered intent detection which is authoritative.
  * 
- * Server-side intents: 'recipe_extraction' | 'rag_search' | 'general_chat'
+ * Server-side intents: 'recipe_extraction' | 'rag_search' | 'app_action' | 'general_chat'
  * 
  * This function provides a quick client-side hint but should not be used
  * for routing decisions - the server's AI detection is the source of truth.
  */
-export const detectIntent = (message: string): 'recipe_extraction' | 'rag_search' | 'general_chat' => {
+export const detectIntent = (message: string): 'recipe_extraction' | 'rag_search' | 'app_action' | 'general_chat' => {
   const lowerMessage = message.toLowerCase().trim();
+
+  // Pasted recipe content - always an extraction, even when it mentions a day or meal
+  const pastedRecipeKeywords = ['ingredients:', 'instructions:', 'directions:'];
+
+  // App actions - user wants to change their meal plan or grocery list ("add this recipe to Monday's dinner")
+  const appActionPattern =
+    /\b(meal plan|grocery list|shopping list|to (my |the )?(plan|calendar)|(to|on|for) (this |next )?(monday|tuesday|wednesday|thursday|friday|saturday|sunday|today|tomorrow|tonight)('s)?)\b/;
   
   // Recipe extraction keywords - user wants to ADD/SAVE a recipe
   const recipeExtractionKeywords = [
@@ -177,7 +184,16 @@ export const detectIntent = (message: string): 'recipe_extraction' | 'rag_search
     'what can i make with', 'recipes using', 'recipes that have'
   ];
   
-  // Check for explicit recipe extraction intent (highest priority)
+  if (pastedRecipeKeywords.some(keyword => lowerMessage.includes(keyword))) {
+    return 'recipe_extraction';
+  }
+
+  // Check for app actions before extraction keywords - "add this recipe to Monday" plans a meal
+  if (appActionPattern.test(lowerMessage)) {
+    return 'app_action';
+  }
+
+  // Check for explicit recipe extraction intent
   if (recipeExtractionKeywords.some(keyword => lowerMessage.includes(keyword))) {
     return 'recipe_extraction';
   }
@@ -1,3 +1,5 @@
+import type { RecipeQuality } from './pipeline'
+
 // Recipe types
 export interface Recipe {
   id: string
@@ -155,6 +157,7 @@ export interface StructuredRecipe {
   imageUrl?: string
   sourceUrl?: string
   sourceName?: string
+  quality?: RecipeQuality // Set when the recipe came through the pipeline
 }
 
 export interface ChatMessageResponse {
@@ -165,9 +168,114 @@ export interface ChatMessageResponse {
   }
   recipe?: StructuredRecipe // Optional structured recipe data (single)
   recipes?: StructuredRecipe[] // Optional multiple recipes
+  actions?: ChatAction[] // Writes the chat agent staged for confirmation
+}
+
+// A write the chat agent wants to make (chat-api agent.ts), confirmed or cancelled by the user
+export interface ChatAction {
+  id: string
+  tool: 'create_meal_plan' | 'add_recipe_to_plan' | 'add_grocery_item' | 'save_recipe'
+  args: Record<string, unknown>
+  summary: string
+  status: 'pending' | 'done' | 'failed' | 'cancelled'
+  result?: Record<string, unknown>
+  error?: string
+}
+
+// chat-api POST /actions response
+export interface ChatActionsResponse {
+  actions: ChatAction[]
+  response: {
+    id: string
+    content: string
+    timestamp: string
+  }
+}
+
+// Final `done` event of a streamed chat-api /message reply
+export interface ChatStreamResponse extends ChatMessageResponse {
+  conversationId?: string
+  sessionId?: string
+  title?: string
+  intentMetadata?: Record<string, any>
+}
+
+// A fact the chat assistant remembered about the user (chat-api GET /memories)
+export interface ChatMemory {
+  id: string
+  content: string
+  sourceConversationId: string | null
+  createdAt: string
 }
 
 export interface RecipesResponse {
   recipes: Recipe[]
   total: number
 }
+
+// chat-api POST /search — hybrid search via the search_recipes_hybrid RPC
+export type RecipeSearchScope = 'mine' | 'household' | 'public' | 'accessible'
+
+export interface RecipeSearchParams {
+  query: string
+  scope?: RecipeSearchScope
+  cuisine?: string
+  difficulty?: string
+  maxTotalTime?: number // Minutes — total time, or prep + cook
+  tags?: string[] // Any of these
+  limit?: number
+  offset?: number
+}
+
+// Admin LLM usage dashboard (admin-api GET /usage, camelCased)
+export interface LlmUsageBreakdown {
+  requests: number
+  totalTokens: number
+  costUsd: number
+}
+
+export interface LlmQuotaLimits {
+  monthlyTokenLimit: number | null
+  monthlyCostLimitUsd: number | null
+}
+
+export interface LlmUsageSummary {
+  month: string // YYYY-MM
+  totals: LlmUsageBreakdown & { promptTokens: number; completionTokens: number }
+  byHousehold: (LlmUsageBreakdown & LlmQuotaLimits & { householdId: string; name: string })[]
+  byUser: (LlmUsageBreakdown & LlmQuotaLimits & {
+    userId: string
+    displayName: string
+    email: string
+    inHousehold: boolean
+  })[]
+  byTask: (LlmUsageBreakdown & { task: string })[]
+  byModel: (LlmUsageBreakdown & { model: string })[]
+  defaultQuota: LlmQuotaLimits // From LLM_MONTHLY_*_QUOTA env, used when no quota is set
+}
+
+// Admin recipe embedding queue (admin-api GET /embeddings, camelCased)
+export interface EmbeddingQueueStatus {
+  pending: number // Queued and still being retried
+  failed: number // Gave up after maxAttempts — re-queued when the recipe is edited
+  missing: number // Recipes without an embedding from the active model
+  totalRecipes: number
+  maxAttempts: number
+  activeModel: string
+  targetModel: string | null // Set while migrating to another embedding model
+  targetEmbedded: number | null // Recipes already embedded with targetModel
+  migrationStartedAt: string | null
+  recentFailures: {
+    recipeId: string
+    title: string | null
+    reason: 'created' | 'edited' | 'missing' | 'reembed' | 'backfill'
+    attempts: number
+    lastError: string
+    nextAttemptAt: string
+  }[]
+}
+
+export type EmbeddingMigrationAction =
+  | { action: 'migrate'; model: string }
+  | { action: 'promote'; force?: boolean } // force: promote with recipes still missing a vector
+  | { action: 'cancel' }
@@ -13,8 +13,28 @@ export interface PlannedMealEntry {
   prepTime?: number;
   cookTime?: number;
   notes?: string;
+  /**
+   * id of the entry in the same plan whose batch this eats — e.g. Monday's lunch from
+   * Sunday's double batch of chili. `servings` is the portions eaten here; the source is
+   * cooked once, for its own servings plus those of all its leftovers.
+   */
+  leftoversOf?: string;
+  /**
+   * Who is eating this meal; `servings` follows from their portion multipliers. Missing on
+   * entries planned without a household — everyone counts as eating those.
+   */
+  attendees?: MealAttendee[];
 }
 
+// A household member (their profile) or a dependent (their family_members row)
+export interface MealAttendee {
+  kind: 'profile' | 'family_member';
+  id: string;
+}
+
+// Default attendance: meal slot → weekdays (0 = Sunday) the person usually misses it
+export type MealAbsences = Partial<Record<MealSlot, number[]>>;
+
 // Daily slot structure for date-keyed entries
 export interface DayMealSlots {
   breakfast?: PlannedMealEntry[];
@@ -82,3 +102,38 @@ export interface UpdateMealPlanInput {
   notes?: string;
   status?: MealPlanStatus;
 }
+
+// ── Plan generation (chat-api POST /meal-plan/generate) ──
+
+export type GeneratedMealSlot = Exclude<MealSlot, 'snacks'>;
+
+export interface GenerateMealPlanOptions {
+  startDate: string;
+  endDate: string;
+  slots: GeneratedMealSlot[];
+  maxWeeknightMinutes: number | null; // Monday–Friday dinners; recipes without a time pass
+  noRepeatDays: number; // 0 allows repeats
+  seed?: number; // Omit for a random plan; the response returns the one used
+  planId?: string; // Fill this plan's empty slots
+}
+
+export interface GeneratedMealPlan {
+  meals: Record<string, Partial<Record<GeneratedMealSlot, PlannedMealEntry[]>>>; // Only the new entries
+  unfilled: { date: string; slot: GeneratedMealSlot }[];
+  excluded: { allergy: number; diet: number; disliked: number };
+  candidates: number; // Recipes left to pick from
+  seed: number;
+}
+
+// ── Allergy conflicts (chat-api GET /meal-plan/conflicts) ──
+
+// A dependent with an allergen a planned meal's ingredients look like they contain
+export interface MealAllergyConflict {
+  entryId: string;
+  date: string;
+  slot: MealSlot;
+  familyMemberId: string;
+  name: string;
+  attending: boolean; // Flagged in the calendar; the rest warn before they're added
+  conflicts: string[]; // e.g. "Peanuts (Sam): peanut butter"
+}
@@ -0,0 +1,157 @@
+// ── Recipe Pipeline Types ──
+// Mirrors supabase/functions/_shared/recipe-schema.ts (snake_case, as returned by the edge function)
+
+export type PipelineSourceType = 'url' | 'text' | 'video' | 'file' | 'pdf';
+export type PipelineStage = 'adapter' | 'extract' | 'transform' | 'load';
+export type PipelineJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type RecipeExportFormat = 'jsonld' | 'markdown' | 'paprika';
+
+export interface PipelineError {
+  stage: PipelineStage;
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export interface PipelineResult {
+  success: boolean;
+  recipe_id?: string;
+  recipe?: Record<string, any>;
+  recipe_ids?: string[];
+  recipes?: Record<string, any>[];
+  source_metadata?: Record<string, any>;
+  errors?: PipelineError[];
+  stage_failed?: PipelineStage;
+  quality?: RecipeQuality;
+  duplicate?: DuplicateReport;
+}
+
+// ── Extraction quality ──
+
+export type FieldProvenance = 'extracted' | 'inferred' | 'defaulted';
+
+export type QualityField =
+  | 'title'
+  | 'description'
+  | 'ingredients'
+  | 'instructions'
+  | 'prep_time'
+  | 'cook_time'
+  | 'total_time'
+  | 'servings'
+  | 'difficulty'
+  | 'cuisine'
+  | 'tags'
+  | 'image_url'
+  | 'nutrition_info';
+
+export interface FieldQuality {
+  provenance: FieldProvenance;
+  confidence: number;
+  note?: string;
+}
+
+/** Set on each recipe returned by the pipeline (`recipe.quality`) */
+export interface RecipeQuality {
+  /** 0–1 */
+  score: number;
+  fields: Partial<Record<QualityField, FieldQuality>>;
+  /** Inferred, defaulted or low-confidence fields to review before saving */
+  review: QualityField[];
+}
+
+// ── Duplicate handling ──
+
+export type DuplicateAction = 'keep_existing' | 'replace' | 'save_both' | 'merge';
+
+export type MergeField =
+  | 'title'
+  | 'description'
+  | 'ingredients'
+  | 'instructions'
+  | 'prep_time'
+  | 'cook_time'
+  | 'total_time'
+  | 'servings'
+  | 'difficulty'
+  | 'cuisine'
+  | 'tags'
+  | 'image_url'
+  | 'nutrition_info'
+  | 'source_url'
+  | 'source_name';
+
+export interface DuplicateResolution {
+  action: DuplicateAction;
+  existing_id?: string;
+  fields?: MergeField[];
+  /** Visibility of a newly saved copy — the pipeline defaults to private */
+  visibility?: 'private' | 'household' | 'public';
+}
+
+export interface DiffIngredient {
+  name: string;
+  amount: number | null;
+  unit: string;
+  category?: string;
+  notes?: string;
+}
+
+export interface RecipeDiff {
+  fields: { field: MergeField; existing: unknown; incoming: unknown; changed: boolean }[];
+  ingredients: {
+    added: DiffIngredient[];
+    removed: DiffIngredient[];
+    changed: { name: string; existing: DiffIngredient; incoming: DiffIngredient }[];
+    unchanged: number;
+  };
+  instructions: { existing: string[]; incoming: string[]; changed: boolean };
+  changed_fields: MergeField[];
+}
+
+export interface DuplicateReport {
+  existing_id: string;
+  existing_title: string;
+  match: 'title' | 'similar';
+  similarity: number | null;
+  diff: RecipeDiff;
+}
+
+/** One entry of a POST /recipe-pipeline/check-similar response */
+export interface SimilarRecipeMatch {
+  id: string;
+  title: string;
+  match: 'title' | 'similar';
+  similarity: number | null;
+  diff: RecipeDiff;
+}
+
+export interface PipelineStageReport {
+  stage: PipelineStage;
+  status: 'completed' | 'failed' | 'skipped';
+  finished_at: string;
+  duration_ms: number;
+  detail?: string;
+}
+
+export interface PipelineJob {
+  id: string;
+  status: PipelineJobStatus;
+  source_type: PipelineSourceType;
+  stages: PipelineStageReport[];
+  result: PipelineResult | null;
+  created_at: string;
+  /** Last progress — GET /jobs/:id fails unfinished jobs untouched for 15 minutes */
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+/** One entry of a POST /recipe-pipeline/batch response */
+export interface PipelineBatchItem {
+  index: number;
+  source_type: 'url' | 'text' | 'file' | 'pdf' | null;
+  label: string;
+  job_id?: string;
+  errors?: PipelineError[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Save a Blob to the user's device by clicking a temporary object-URL link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Let the click start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
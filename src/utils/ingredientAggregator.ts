@@ -76,22 +76,10 @@ function groceryKey(name: string, unit: string): string {
   return `${normalizeName(name)}|${normalizeUnit(unit)}`;
 }
 
-// ── Main Aggregation ──
+// ── Plan Entries ──
 
-export function aggregateIngredients(
-  meals: MealPlanMeals,
-  recipeMap: Map<string, RecipeData>,
-): GroceryItem[] {
-  const grouped = new Map<string, {
-    name: string;
-    amount: number | null;
-    unit: string;
-    category: string;
-    sourceRecipes: Set<string>;
-    notes: string[];
-  }>();
-
-  // Collect all PlannedMealEntry items from daily slots and plan-level lists
+// All PlannedMealEntry items from daily slots and plan-level lists
+function collectEntries(meals: MealPlanMeals): PlannedMealEntry[] {
   const allEntries: PlannedMealEntry[] = [];
   for (const [key, dayMeals] of Object.entries(meals)) {
     if (!dayMeals || typeof dayMeals !== 'object') continue;
@@ -109,12 +97,67 @@ export function aggregateIngredients(
       }
     }
   }
+  return allEntries;
+}
+
+// ── Leftovers ──
+// An entry with `leftoversOf` eats from another entry's batch. Chains (leftovers of
+// leftovers) resolve to the entry that is actually cooked; leftovers whose cook isn't in
+// the plan (removed, or cooked in another week) have nothing left to buy.
+
+function findCook(entry: PlannedMealEntry, byId: Map<string, PlannedMealEntry>): PlannedMealEntry | null {
+  let current = entry;
+  const seen = new Set<string>();
+  while (current.leftoversOf) {
+    if (seen.has(current.id)) return null;
+    seen.add(current.id);
+    const source = byId.get(current.leftoversOf);
+    if (!source) return null;
+    current = source;
+  }
+  return current;
+}
+
+/** Servings to cook for each entry that has leftovers planned: its own plus all its leftovers' */
+export function getBatchServings(meals: MealPlanMeals): Map<string, number> {
+  const entries = collectEntries(meals);
+  const byId = new Map(entries.map((e) => [e.id, e]));
+  const batches = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.leftoversOf) continue;
+    const cook = findCook(entry, byId);
+    if (!cook) continue;
+    batches.set(cook.id, (batches.get(cook.id) ?? (cook.servings || 0)) + (entry.servings || 0));
+  }
+  return batches;
+}
+
+// ── Main Aggregation ──
+
+export function aggregateIngredients(
+  meals: MealPlanMeals,
+  recipeMap: Map<string, RecipeData>,
+): GroceryItem[] {
+  const grouped = new Map<string, {
+    name: string;
+    amount: number | null;
+    unit: string;
+    category: string;
+    sourceRecipes: Set<string>;
+    notes: string[];
+  }>();
+
+  const allEntries = collectEntries(meals);
+  const batches = getBatchServings(meals);
 
   for (const entry of allEntries) {
+    // Leftovers add to their cook's servings instead of being bought again
+    if (entry.leftoversOf) continue;
     const recipe = recipeMap.get(entry.recipeId);
     if (!recipe?.ingredients) continue;
 
-    const scale = (entry.servings || recipe.servings) / (recipe.servings || 4);
+    const servings = batches.get(entry.id) || entry.servings || recipe.servings;
+    const scale = servings / (recipe.servings || 4);
 
     for (const ing of recipe.ingredients) {
       const ingKey = groceryKey(ing.name, ing.unit || '');
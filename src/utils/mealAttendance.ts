@@ -0,0 +1,104 @@
+// ── Meal Attendance Utility ──
+// Who eats a planned meal by default, and how many servings that makes.
+
+import type { MealAbsences, MealAttendee, MealSlot } from '@/types/mealPlan';
+
+export interface HouseholdDiner extends MealAttendee {
+  name: string;
+  mealAbsences: MealAbsences;
+  portionMultiplier: number;
+  /** Recorded for dependents only */
+  allergies: string[];
+  /** household_members id, for members — what set_member_meal_defaults takes */
+  memberId?: string;
+}
+
+function portion(value: unknown): number {
+  const n = Number(value);
+  return n > 0 ? n : 1;
+}
+
+// ── Household → Diners ──
+// Members first (the current user as "You"), then active dependents.
+// No household means no diners: servings stay as entered.
+
+export function getHouseholdDiners(household: any, currentUserId?: string): HouseholdDiner[] {
+  if (!household) return [];
+  const members: HouseholdDiner[] = (household.members || []).map((m: any) => ({
+    kind: 'profile',
+    id: m.userId,
+    memberId: m.id,
+    name: m.userId === currentUserId ? 'You' : m.profiles?.displayName || m.profiles?.email || 'Member',
+    mealAbsences: m.mealAbsences || {},
+    portionMultiplier: portion(m.portionMultiplier),
+    allergies: [],
+  }));
+  const dependents: HouseholdDiner[] = (household.dependents || []).map((d: any) => ({
+    kind: 'family_member',
+    id: d.id,
+    name: d.name,
+    mealAbsences: d.mealAbsences || {},
+    portionMultiplier: portion(d.portionMultiplier),
+    allergies: d.allergies || [],
+  }));
+  return [...members, ...dependents];
+}
+
+export function isSameAttendee(a: MealAttendee, b: MealAttendee): boolean {
+  return a.kind === b.kind && a.id === b.id;
+}
+
+// ── Defaults ──
+
+function weekdayOf(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00`).getDay();
+}
+
+export function isUsuallyAway(diner: HouseholdDiner, dateStr: string, slot: MealSlot): boolean {
+  return (diner.mealAbsences[slot] || []).includes(weekdayOf(dateStr));
+}
+
+export function defaultAttendees(diners: HouseholdDiner[], dateStr: string, slot: MealSlot): MealAttendee[] {
+  return diners
+    .filter((d) => !isUsuallyAway(d, dateStr, slot))
+    .map(({ kind, id }) => ({ kind, id }));
+}
+
+// ── Servings ──
+// Portion multipliers summed and rounded up to whole servings. Attendees who have left
+// the household count as one serving.
+
+export function servingsForAttendees(attendees: MealAttendee[], diners: HouseholdDiner[]): number {
+  const total = attendees.reduce((sum, a) => {
+    const diner = diners.find((d) => isSameAttendee(d, a));
+    return sum + (diner ? diner.portionMultiplier : 1);
+  }, 0);
+  return Math.max(1, Math.ceil(total - 1e-9));
+}
+
+// ── Display ──
+
+const DAY_ABBR = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// [1,2,3,4,5] → "Mon–Fri", [0,6] → "Sun, Sat"
+function describeDays(days: number[]): string {
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  const runs: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    runs.push(j - i >= 2 ? `${DAY_ABBR[sorted[i]]}–${DAY_ABBR[sorted[j]]}` : sorted.slice(i, j + 1).map((d) => DAY_ABBR[d]).join(', '));
+    i = j;
+  }
+  return runs.join(', ');
+}
+
+/** "Away for lunch Mon–Fri · 0.5× portion", or "" for the defaults */
+export function describeMealDefaults(mealAbsences: MealAbsences | undefined, portionMultiplier: number | undefined): string {
+  const parts = (['breakfast', 'lunch', 'dinner'] as MealSlot[])
+    .filter((slot) => mealAbsences?.[slot]?.length)
+    .map((slot) => `Away for ${slot} ${describeDays(mealAbsences![slot]!)}`);
+  const multiplier = Number(portionMultiplier);
+  if (multiplier > 0 && multiplier !== 1) parts.push(`${multiplier}× portion`);
+  return parts.join(' · ');
+}
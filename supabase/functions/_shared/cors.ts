@@ -15,3 +15,16 @@ export function corsResponse(body: unknown, status = 200): Response {
 export function corsError(message: string, status = 500): Response {
   return corsResponse({ error: message }, status);
 }
+
+/** File download response — `filename` is suggested to the browser via Content-Disposition. */
+export function corsFile(body: Uint8Array, contentType: string, filename: string): Response {
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename.replace(/"/g, "")}"`,
+      "Access-Control-Expose-Headers": "Content-Disposition",
+    },
+    status: 200,
+  });
+}
@@ -1,9 +1,75 @@
 /**
  * Embedding generation utilities for the Deno runtime.
  * Ported from src/services/embeddingService.js.
+ *
+ * Stored vectors are tagged with the model that made them and EMBEDDING_TEXT_VERSION
+ * (migration 035), and only vectors of the same model are compared. Which model to
+ * embed with comes from `embedding_settings`, never the embedding policy's fallbacks.
  */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { OpenRouterClient } from "./openrouter-client.ts";
 import type { ValidatedRecipe } from "./recipe-schema.ts";
+import { DEFAULT_MODEL_POLICIES } from "./model-policy.ts";
+
+/** Attempts the embedding worker makes at a queued recipe before leaving it failed */
+export const EMBEDDING_MAX_ATTEMPTS = 5;
+
+/** Version of createRecipeText's output — bump it when that changes, then re-embed */
+export const EMBEDDING_TEXT_VERSION = 1;
+
+/** Dimensions of recipes.embedding_vector; other sizes are stored in recipe_embeddings */
+export const RECIPE_VECTOR_DIMENSIONS = 1536;
+
+export interface EmbeddingSettings {
+  /** The model searches and new embeddings use */
+  activeModel: string;
+  /** Set while migrating — new and edited recipes are embedded with it as well */
+  targetModel: string | null;
+}
+
+/** A vector with the model and recipe-text version it came from */
+export interface RecipeEmbedding {
+  model: string;
+  version: number;
+  vector: number[];
+}
+
+/** Same lifetime as the model policy cache */
+const SETTINGS_CACHE_MS = 60_000;
+
+let cachedSettings: { settings: EmbeddingSettings; loadedAt: number } | null = null;
+
+/**
+ * The `embedding_settings` row. Cached per isolate; a failed read is logged and falls
+ * back to the embedding policy's primary model.
+ */
+export async function loadEmbeddingSettings(supabase: SupabaseClient): Promise<EmbeddingSettings> {
+  if (cachedSettings && Date.now() - cachedSettings.loadedAt < SETTINGS_CACHE_MS) return cachedSettings.settings;
+
+  const { data, error } = await supabase
+    .from("embedding_settings")
+    .select("active_model, target_model")
+    .maybeSingle();
+
+  if (error || !data) {
+    console.warn("Could not read embedding_settings, using the default embedding model:", error?.message);
+    return { activeModel: DEFAULT_MODEL_POLICIES.embedding.models[0], targetModel: null };
+  }
+
+  const settings = { activeModel: data.active_model, targetModel: data.target_model };
+  cachedSettings = { settings, loadedAt: Date.now() };
+  return settings;
+}
+
+/** recipes columns holding `embedding` — none when its size belongs in recipe_embeddings */
+export function recipeVectorColumns(embedding: RecipeEmbedding | null): Record<string, unknown> {
+  if (!embedding || embedding.vector.length !== RECIPE_VECTOR_DIMENSIONS) return {};
+  return {
+    embedding_vector: `[${embedding.vector.join(",")}]`,
+    embedding_model: embedding.model,
+    embedding_version: embedding.version,
+  };
+}
 
 /**
  * Build a text representation of a recipe for embedding generation.
@@ -47,18 +113,19 @@ export function createRecipeText(recipe: ValidatedRecipe): string {
 }
 
 /**
- * Generate an embedding vector for recipe text.
+ * Generate an embedding vector for recipe text with `model`.
  * Returns null (non-fatal) if embedding generation fails.
  */
 export async function generateRecipeEmbedding(
   openRouter: OpenRouterClient,
-  recipe: ValidatedRecipe
-): Promise<number[] | null> {
+  recipe: ValidatedRecipe,
+  model: string
+): Promise<RecipeEmbedding | null> {
   try {
     const text = createRecipeText(recipe);
-    const embedding = await openRouter.generateEmbedding(text);
-    console.log(`Embedding generated (${embedding.length} dims)`);
-    return embedding;
+    const vector = await openRouter.generateEmbedding(text, model);
+    console.log(`Embedding generated (${model}, ${vector.length} dims)`);
+    return { model, version: EMBEDDING_TEXT_VERSION, vector };
   } catch (error) {
     console.error("Embedding generation failed (non-fatal):", error);
     return null;
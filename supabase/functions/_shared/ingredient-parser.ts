@@ -0,0 +1,268 @@
+/**
+ * Ingredient string parsing for the recipe pipeline.
+ * Shared by the LLM extract stage and the deterministic structured-data mappers.
+ */
+import type { Ingredient } from "./recipe-schema.ts";
+
+// ── Phase 1: Comprehensive unit list (~80 units) ──
+
+/** All known measurement units, grouped by category. Longest-first to avoid partial matches. */
+const KNOWN_UNITS = [
+  // Volume
+  "tablespoons?", "teaspoons?", "cups?", "tbsp", "tsp", "fluid\\s*oz", "fl\\s*oz",
+  "gallons?", "gal", "quarts?", "qt", "pints?", "pt",
+  "milliliters?", "liters?", "ml", "L",
+  // Weight
+  "ounces?", "pounds?", "oz", "lbs?", "grams?", "kilograms?", "kg", "g",
+  // Containers
+  "packages?", "packets?", "blocks?", "boxes?", "bags?", "jars?", "bottles?",
+  "containers?", "cartons?", "pkg",
+  // Cans / tins
+  "cans?", "tins?",
+  // Informal / small
+  "dollops?", "splashe?s?", "dashe?s?", "pinche?s?", "handfuls?",
+  "bunche?s?", "sprigs?", "knobs?",
+  // Baking
+  "sticks?", "sheets?", "layers?", "rounds?",
+  // Produce
+  "heads?", "ears?", "ribs?", "lea(?:f|ves)", "stalks?", "cloves?",
+  // Count / size
+  "pieces?", "slices?", "strips?", "cubes?", "wedges?",
+  "filets?", "fillets?", "whole", "halve?s?", "quarters?",
+  // Portions
+  "servings?", "portions?", "scoops?", "drops?", "squeezes?",
+  // Size descriptors (when used as units: "1 medium onion")
+  "medium", "large", "small",
+].join("|");
+
+const UNITS_PATTERN = new RegExp(`^(${KNOWN_UNITS})$`, "i");
+/** A unit at the start of the text; abbreviations may end in "." ("2 Tbsp. butter", "1 lb. beef") */
+const UNITS_CAPTURE = new RegExp(`^(${KNOWN_UNITS})\\.?(?:\\s|,|$)`, "i");
+
+/** Single-letter abbreviations — case matters: "1 T. butter" is a tablespoon, "1 t. salt" a teaspoon */
+const LETTER_UNITS: Record<string, string> = { T: "tbsp", t: "tsp", c: "cup", C: "cup" };
+const LETTER_UNIT_CAPTURE = /^([TtCc])\.?(?:\s|,|$)/;
+
+/** A package size written before the unit: "1 (14 oz) can tomatoes" */
+const SIZE_PREFIX = /^\(([^()]*)\)\s*/;
+
+/** An equivalent measure after the unit: "1 cup (240ml) milk" */
+const EQUIVALENT_PREFIX = /^\((\d[^()]*)\)\s*/;
+
+const AMOUNT_PATTERN = /^(\d+(?:\s+\d+\/\d+|\s*[./]\s*\d+)?(?:\s*(?:-|to)\s*\d+(?:[./]\d+)?)?)\s*/;
+
+// ── Phase 2: Unicode fractions & written numbers ──
+
+/** Map unicode fraction characters to decimal values */
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "\u00BD": 0.5,   // ½
+  "\u2153": 0.333,  // ⅓
+  "\u2154": 0.667,  // ⅔
+  "\u00BC": 0.25,   // ¼
+  "\u00BE": 0.75,   // ¾
+  "\u2155": 0.2,    // ⅕
+  "\u2156": 0.4,    // ⅖
+  "\u2157": 0.6,    // ⅗
+  "\u2158": 0.8,    // ⅘
+  "\u2159": 0.167,  // ⅙
+  "\u215A": 0.833,  // ⅚
+  "\u215B": 0.125,  // ⅛
+  "\u215C": 0.375,  // ⅜
+  "\u215D": 0.625,  // ⅝
+  "\u215E": 0.875,  // ⅞
+};
+
+const UNICODE_FRACTION_RE = new RegExp(`[${Object.keys(UNICODE_FRACTIONS).join("")}]`);
+
+/** Map written numbers to numeric values */
+const WRITTEN_NUMBERS: Record<string, number> = {
+  "a": 1, "an": 1, "one": 1, "two": 2, "three": 3, "four": 4, "five": 5,
+  "six": 6, "seven": 7, "eight": 8, "nine": 9, "ten": 10, "eleven": 11,
+  "twelve": 12, "dozen": 12, "half": 0.5,
+};
+
+// ── Phase 4: No-amount pattern matching ──
+
+/** Patterns indicating no specific amount */
+const NO_AMOUNT_PATTERNS = [
+  /^to\s+taste$/i,
+  /^as\s+needed$/i,
+  /^as\s+required$/i,
+  /^for\s+garnish(ing)?$/i,
+  /^optional$/i,
+  /^some$/i,
+  /^few$/i,
+];
+
+/**
+ * Normalize unicode fractions and written numbers in a string.
+ * "1½ cups" → "1.5 cups", "a pinch" → "1 pinch", "two cloves" → "2 cloves"
+ */
+function normalizeAmountText(text: string): string {
+  let result = text;
+
+  // Replace unicode fractions (handle "1½" → "1.5" and standalone "½" → "0.5")
+  for (const [char, value] of Object.entries(UNICODE_FRACTIONS)) {
+    if (result.includes(char)) {
+      // Check if preceded by a whole number: "1½" → add to it
+      const wholeMatch = result.match(new RegExp(`(\\d+)\\s*${char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+      if (wholeMatch) {
+        const total = parseInt(wholeMatch[1]) + value;
+        result = result.replace(wholeMatch[0], String(total));
+      } else {
+        result = result.replace(char, String(value));
+      }
+    }
+  }
+
+  // Replace written numbers at the start: "two cups" → "2 cups", "a pinch" → "1 pinch"
+  const firstWord = result.match(/^([a-zA-Z]+)\s/);
+  if (firstWord) {
+    const num = WRITTEN_NUMBERS[firstWord[1].toLowerCase()];
+    if (num !== undefined) {
+      result = String(num) + result.slice(firstWord[1].length);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse an amount string that may contain fractions, decimals, or ranges.
+ * "1/2" → 0.5, "1.5" → 1.5, "2-3" → 2.5 (midpoint), "2 to 3" → 2.5
+ */
+function parseAmount(raw: string): { amount: number | null; rangeNote: string } {
+  if (!raw) return { amount: null, rangeNote: "" };
+
+  const s = raw.trim();
+
+  // Phase 3: Range handling — "2-3" or "2 to 3"
+  const rangeMatch = s.match(/^(\d+(?:[./]\d+)?)\s*(?:-|to)\s*(\d+(?:[./]\d+)?)$/i);
+  if (rangeMatch) {
+    const low = parseSingleAmount(rangeMatch[1]);
+    const high = parseSingleAmount(rangeMatch[2]);
+    if (low !== null && high !== null) {
+      return { amount: (low + high) / 2, rangeNote: `${rangeMatch[1]}-${rangeMatch[2]}` };
+    }
+  }
+
+  // Mixed number: "1 1/2" → 1.5
+  const mixedMatch = s.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixedMatch) {
+    const whole = parseInt(mixedMatch[1]);
+    const frac = parseInt(mixedMatch[2]) / parseInt(mixedMatch[3]);
+    return { amount: whole + frac, rangeNote: "" };
+  }
+
+  return { amount: parseSingleAmount(s), rangeNote: "" };
+}
+
+function parseSingleAmount(s: string): number | null {
+  if (s.includes("/")) {
+    const [num, den] = s.split("/");
+    const val = Number(num) / Number(den);
+    return isNaN(val) ? null : val;
+  }
+  const val = parseFloat(s);
+  return isNaN(val) ? null : val;
+}
+
+/**
+ * Parse a quantity string like "1 medium, diced" or "2 cups" into amount/unit/notes.
+ * Handles ~80 unit types, unicode fractions, ranges, and no-amount patterns.
+ */
+export function parseQuantityString(quantity: string): { amount: number | null; unit: string; notes: string } {
+  if (!quantity) return { amount: null, unit: "", notes: "" };
+
+  // Normalize unicode fractions and written numbers first
+  const q = normalizeAmountText(quantity.trim());
+
+  // Phase 4: Check for no-amount patterns
+  for (const pattern of NO_AMOUNT_PATTERNS) {
+    if (pattern.test(q)) {
+      return { amount: null, unit: "", notes: q };
+    }
+  }
+
+  // Match: optional amount, optional package size, optional unit, optional comma, optional notes
+  // Amount patterns: "2", "1.5", "1/2", "2-3", "2 to 3", "1 1/2"
+  const split = splitAmountAndUnit(q);
+  if (split) {
+    const { amount, rangeNote } = parseAmount(split.rawAmount);
+    const notes = [rangeNote, split.size, split.rest].filter(Boolean).join(", ");
+    return { amount, unit: split.unit, notes };
+  }
+
+  // No numeric match — entire string is a note
+  return { amount: null, unit: "", notes: q };
+}
+
+/**
+ * Split "1 (14 oz) can tomatoes" into amount "1", size "14 oz", unit "can" and the rest
+ * ("tomatoes"). An equivalent after the unit ("1 cup (240ml) milk") goes into size too.
+ * Null when the text doesn't start with a number.
+ */
+function splitAmountAndUnit(text: string): { rawAmount: string; size: string; unit: string; rest: string } | null {
+  const amountMatch = text.match(AMOUNT_PATTERN);
+  if (!amountMatch) return null;
+
+  let afterAmount = text.slice(amountMatch[0].length);
+  const sizeMatch = afterAmount.match(SIZE_PREFIX);
+  if (sizeMatch) afterAmount = afterAmount.slice(sizeMatch[0].length);
+
+  // Try to match a unit at the start of the remaining text — no unit leaves it all as the rest
+  const unitMatch = afterAmount.match(UNITS_CAPTURE);
+  const letterMatch = unitMatch ? null : afterAmount.match(LETTER_UNIT_CAPTURE);
+  const unit = unitMatch ? unitMatch[1] : letterMatch ? LETTER_UNITS[letterMatch[1]] : "";
+  let afterUnit = afterAmount.slice((unitMatch ?? letterMatch)?.[0].length ?? 0);
+
+  const equivalentMatch = unit ? afterUnit.match(EQUIVALENT_PREFIX) : null;
+  if (equivalentMatch) afterUnit = afterUnit.slice(equivalentMatch[0].length);
+
+  return {
+    rawAmount: amountMatch[1],
+    size: [sizeMatch?.[1], equivalentMatch?.[1]].map((s) => s?.trim()).filter(Boolean).join(", "),
+    unit,
+    rest: afterUnit.replace(/^[,\s]+/, "").trim(),
+  };
+}
+
+/**
+ * Parse a plain ingredient string like "2 tbsp olive oil" into structured format.
+ * Uses the comprehensive unit list for accurate splitting of amount+unit from name.
+ */
+export function parseIngredientString(text: string): { name: string; amount: number | null; unit: string; category: string; notes: string } {
+  const normalized = normalizeAmountText(text.trim());
+  const parsed = parseQuantityString(normalized);
+
+  // Reconstruct: strip the matched amount+size+unit prefix to get the ingredient name
+  const name = splitAmountAndUnit(normalized)?.rest ?? normalized;
+
+  return {
+    name: name || text,
+    amount: parsed.amount,
+    unit: parsed.unit,
+    category: "",
+    notes: parsed.notes,
+  };
+}
+
+/**
+ * Parse a single ingredient line ("1½ cups onion, diced") into amount/unit/name,
+ * keeping the trailing prep note ("diced") separate from the name.
+ */
+export function parseIngredientLine(line: string): Ingredient {
+  const parsed = parseIngredientString(line);
+  const [name, ...rest] = parsed.name.split(/,\s*/);
+  const range = parsed.notes.match(/^\d+(?:[./]\d+)?-\d+(?:[./]\d+)?/)?.[0];
+  const size = splitAmountAndUnit(normalizeAmountText(line.trim()))?.size;
+  const notes = [range, size, rest.join(", ")].filter(Boolean).join(", ");
+
+  return {
+    name: name.trim() || line,
+    amount: parsed.amount,
+    unit: parsed.unit,
+    category: "",
+    ...(notes ? { notes } : {}),
+  };
+}
@@ -0,0 +1,29 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseIngredientLine } from "./ingredient-parser.ts";
+
+Deno.test("a metric equivalent after the unit goes into the notes", () => {
+  assertEquals(parseIngredientLine("1 cup (240ml) milk"), { name: "milk", amount: 1, unit: "cup", category: "", notes: "240ml" });
+  assertEquals(parseIngredientLine("2 tbsp (30 g) butter, softened"), {
+    name: "butter",
+    amount: 2,
+    unit: "tbsp",
+    category: "",
+    notes: "30 g, softened",
+  });
+});
+
+Deno.test("a package size before the unit goes into the notes", () => {
+  assertEquals(parseIngredientLine("1 (14 oz) can tomatoes"), { name: "tomatoes", amount: 1, unit: "can", category: "", notes: "14 oz" });
+});
+
+Deno.test("T., t. and c. read as tablespoon, teaspoon and cup", () => {
+  assertEquals(parseIngredientLine("2 T. butter"), { name: "butter", amount: 2, unit: "tbsp", category: "" });
+  assertEquals(parseIngredientLine("1 t. salt"), { name: "salt", amount: 1, unit: "tsp", category: "" });
+  assertEquals(parseIngredientLine("1 c. flour"), { name: "flour", amount: 1, unit: "cup", category: "" });
+  assertEquals(parseIngredientLine("1/2 C sugar"), { name: "sugar", amount: 0.5, unit: "cup", category: "" });
+});
+
+Deno.test("words starting with a unit letter keep their name", () => {
+  assertEquals(parseIngredientLine("2 carrots"), { name: "carrots", amount: 2, unit: "", category: "" });
+  assertEquals(parseIngredientLine("3 tomatoes (diced)"), { name: "tomatoes (diced)", amount: 3, unit: "", category: "" });
+});
@@ -0,0 +1,174 @@
+/**
+ * Model routing policy — which models serve each LLM task, in fallback order, with the
+ * timeout and generation settings to use. OpenRouterClient.runTask() applies it, so swapping
+ * a model or adding a fallback is configuration rather than a code change.
+ *
+ * Policies are layered: the defaults below, then the MODEL_POLICIES environment variable
+ * (JSON, e.g. {"chat": {"models": ["openai/gpt-4o-mini", "qwen/qwen-2.5-7b-instruct"]}}),
+ * then rows of the `model_policies` table. Each layer only overrides the fields it sets.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ModelTask = "intent" | "extraction" | "vision" | "chat" | "agent" | "embedding";
+
+export interface ModelPolicy {
+  /** Primary model first, then fallbacks tried in order */
+  models: string[];
+  /** Per-attempt timeout — a timed-out attempt moves on to the next model */
+  timeout_ms: number;
+  /** Ignored for embedding */
+  max_tokens: number;
+  /** Ignored for embedding */
+  temperature: number;
+}
+
+export type ModelPolicies = Record<ModelTask, ModelPolicy>;
+
+/** Settings a call site may override for one call */
+export type ModelOverrides = Partial<Pick<ModelPolicy, "timeout_ms" | "max_tokens" | "temperature">>;
+
+/** Settings handed to each attempt — per-call overrides already applied */
+export interface ModelSettings extends Required<ModelOverrides> {
+  /** The task the call serves — tags its usage record */
+  task: ModelTask;
+}
+
+export const MODEL_TASKS: ModelTask[] = ["intent", "extraction", "vision", "chat", "agent", "embedding"];
+
+export const DEFAULT_MODEL_POLICIES: ModelPolicies = {
+  intent: {
+    models: ["qwen/qwen-2.5-7b-instruct"],
+    timeout_ms: 10_000,
+    max_tokens: 150,
+    temperature: 0.1,
+  },
+  extraction: {
+    models: ["qwen/qwen-2.5-7b-instruct", "google/gemini-2.0-flash-001"],
+    timeout_ms: 60_000,
+    max_tokens: 4000,
+    temperature: 0.1,
+  },
+  vision: {
+    models: ["qwen/qwen-2.5-vl-7b-instruct", "google/gemini-2.0-flash-001"],
+    timeout_ms: 90_000,
+    max_tokens: 4000,
+    temperature: 0.1,
+  },
+  chat: {
+    models: ["qwen/qwen-2.5-7b-instruct"],
+    timeout_ms: 30_000,
+    max_tokens: 500,
+    temperature: 0.7,
+  },
+  // Tool calling — needs models that support OpenRouter `tools`
+  agent: {
+    models: ["qwen/qwen-2.5-72b-instruct", "google/gemini-2.0-flash-001"],
+    timeout_ms: 45_000,
+    max_tokens: 1000,
+    temperature: 0.2,
+  },
+  embedding: {
+    models: ["text-embedding-ada-002"],
+    timeout_ms: 15_000,
+    max_tokens: 0,
+    temperature: 0,
+  },
+};
+
+/** How long an isolate reuses policies read from the database */
+const POLICY_CACHE_MS = 60_000;
+
+let cached: { policies: ModelPolicies; loadedAt: number } | null = null;
+
+/** Defaults with MODEL_POLICIES applied — no database access. Invalid JSON is logged and ignored. */
+export function loadEnvModelPolicies(): ModelPolicies {
+  const raw = Deno.env.get("MODEL_POLICIES");
+  if (!raw) return DEFAULT_MODEL_POLICIES;
+
+  try {
+    const overrides = JSON.parse(raw);
+    if (overrides && typeof overrides === "object") return mergePolicies(DEFAULT_MODEL_POLICIES, overrides);
+  } catch { /* reported below */ }
+  console.error("MODEL_POLICIES must be a JSON object keyed by task — using the default model policies");
+  return DEFAULT_MODEL_POLICIES;
+}
+
+/**
+ * Env policies with the `model_policies` table applied on top. Cached per isolate;
+ * a failed read is logged and falls back to the env policies.
+ */
+export async function loadModelPolicies(supabase: SupabaseClient): Promise<ModelPolicies> {
+  if (cached && Date.now() - cached.loadedAt < POLICY_CACHE_MS) return cached.policies;
+
+  const base = loadEnvModelPolicies();
+  const { data, error } = await supabase
+    .from("model_policies")
+    .select("task, models, timeout_ms, max_tokens, temperature");
+
+  if (error) {
+    console.warn("Could not read model_policies, using defaults:", error.message);
+    return base;
+  }
+
+  const rows = Object.fromEntries((data ?? []).map(({ task, ...row }) => [task, row]));
+  const policies = mergePolicies(base, rows);
+  cached = { policies, loadedAt: Date.now() };
+  return policies;
+}
+
+/**
+ * Try `call` with each of the policy's models in turn until one succeeds.
+ * Throws an error naming every model's failure when none do.
+ */
+export async function withModelFallback<T>(
+  task: ModelTask,
+  policy: ModelPolicy,
+  call: (model: string, settings: ModelSettings) => Promise<T>,
+  overrides: ModelOverrides = {}
+): Promise<T> {
+  const settings: ModelSettings = {
+    task,
+    timeout_ms: overrides.timeout_ms ?? policy.timeout_ms,
+    max_tokens: overrides.max_tokens ?? policy.max_tokens,
+    temperature: overrides.temperature ?? policy.temperature,
+  };
+
+  const errors: string[] = [];
+  for (const [i, model] of policy.models.entries()) {
+    try {
+      return await call(model, settings);
+    } catch (error) {
+      errors.push(`${model}: ${error.message}`);
+      if (i < policy.models.length - 1) {
+        console.warn(`${task} model ${model} failed, falling back: ${error.message}`);
+      }
+    }
+  }
+  throw new Error(`All ${task} models failed: ${errors.join(" | ")}`);
+}
+
+/** Apply per-task overrides, ignoring unknown tasks and fields that are missing or invalid */
+function mergePolicies(base: ModelPolicies, overrides: Record<string, unknown>): ModelPolicies {
+  const merged = { ...base };
+  for (const task of MODEL_TASKS) {
+    const override = overrides[task] as Partial<Record<keyof ModelPolicy, unknown>> | undefined;
+    if (!override) continue;
+
+    const models = Array.isArray(override.models)
+      ? override.models.filter((m): m is string => typeof m === "string" && m.trim() !== "")
+      : [];
+    merged[task] = {
+      models: models.length > 0 ? models : base[task].models,
+      timeout_ms: positiveNumber(override.timeout_ms) ?? base[task].timeout_ms,
+      max_tokens: positiveNumber(override.max_tokens) ?? base[task].max_tokens,
+      temperature: typeof override.temperature === "number" && override.temperature >= 0
+        ? override.temperature
+        : base[task].temperature,
+    };
+  }
+  return merged;
+}
+
+function positiveNumber(value: unknown): number | null {
+  return typeof value === "number" && value > 0 ? value : null;
+}
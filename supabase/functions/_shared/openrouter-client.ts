@@ -2,20 +2,95 @@
  * Shared OpenRouter client for Supabase Edge Functions (Deno runtime).
  * Extracted from chat-api/index.ts for reuse across pipeline and chat.
  */
+import { createRecorderFromEnv, type OpenRouterRecorder } from "./openrouter-recorder.ts";
+import {
+  DEFAULT_MODEL_POLICIES,
+  loadEnvModelPolicies,
+  type ModelOverrides,
+  type ModelPolicies,
+  type ModelSettings,
+  type ModelTask,
+  withModelFallback,
+} from "./model-policy.ts";
+import { estimateTokens, type UsageLogger } from "./usage.ts";
+
+/** Per-request options shared by every method — set from the model policy by runTask */
+interface RequestOptions {
+  timeout_ms?: number;
+  /** Tags the usage record; calls made outside runTask count as chat */
+  task?: ModelTask;
+  /** Aborts the request (e.g. the user cancelled a streamed answer) */
+  signal?: AbortSignal;
+}
+
+/** A function the model may call — OpenAI-style `tools` entry */
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    /** JSON Schema for the arguments */
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** An assistant turn from chatWithTools — text, tool calls, or both */
+export interface AssistantMessage {
+  role: "assistant";
+  content: string | null;
+  tool_calls?: ToolCall[];
+}
+
 export class OpenRouterClient {
   private defaultApiKey: string;
   private vlApiKey?: string;
   private instructApiKey?: string;
+  private recorder: OpenRouterRecorder | null;
+  private policies: ModelPolicies;
+  private usageLogger: UsageLogger | null = null;
   private baseUrl = "https://openrouter.ai/api/v1";
 
   constructor(
     defaultApiKey: string,
     vlApiKey?: string,
-    instructApiKey?: string
+    instructApiKey?: string,
+    recorder: OpenRouterRecorder | null = null,
+    policies: ModelPolicies = DEFAULT_MODEL_POLICIES
   ) {
     this.defaultApiKey = defaultApiKey;
     this.vlApiKey = vlApiKey;
     this.instructApiKey = instructApiKey;
+    this.recorder = recorder;
+    this.policies = policies;
+  }
+
+  /** Replace the model policies, e.g. with ones loaded from the model_policies table */
+  setModelPolicies(policies: ModelPolicies) {
+    this.policies = policies;
+  }
+
+  /** Report the usage block of every successful response, e.g. to createUsageLogger() */
+  setUsageLogger(logger: UsageLogger | null) {
+    this.usageLogger = logger;
+  }
+
+  /**
+   * Run an LLM task under its model policy: `call` is tried with each model in fallback
+   * order and the policy's settings. `overrides` are for settings inherent to the call
+   * site (e.g. a short max_tokens for titles).
+   */
+  runTask<T>(
+    task: ModelTask,
+    call: (model: string, settings: ModelSettings) => Promise<T>,
+    overrides?: ModelOverrides
+  ): Promise<T> {
+    return withModelFallback(task, this.policies[task], call, overrides);
   }
 
   private getApiKeyForModel(model: string): string {
@@ -32,32 +107,23 @@ export class OpenRouterClient {
     systemPrompt: string,
     userMessage: string,
     model = "qwen/qwen3-8b",
-    options?: {
+    options?: RequestOptions & {
       temperature?: number;
       max_tokens?: number;
       response_format?: { type: string };
     }
   ): Promise<string> {
     const apiKey = this.getApiKeyForModel(model);
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": Deno.env.get("FRONTEND_URL") || "",
-        "X-Title": "MealPrep Agent",
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userMessage },
-        ],
-        temperature: options?.temperature ?? 0.7,
-        max_tokens: options?.max_tokens ?? 500,
-        response_format: options?.response_format,
-      }),
-    });
+    const response = await this.post("/chat/completions", apiKey, {
+      model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userMessage },
+      ],
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.max_tokens ?? 500,
+      response_format: options?.response_format,
+    }, options);
 
     if (!response.ok) {
       const error = await response.text();
@@ -80,7 +146,7 @@ export class OpenRouterClient {
     conversationHistory: any[],
     userMessage: string,
     model = "qwen/qwen3-8b",
-    options?: { temperature?: number; max_tokens?: number }
+    options?: RequestOptions & { temperature?: number; max_tokens?: number }
   ): Promise<string> {
     const messages = [
       { role: "system", content: systemPrompt },
@@ -89,21 +155,12 @@ export class OpenRouterClient {
     ];
 
     const apiKey = this.getApiKeyForModel(model);
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": Deno.env.get("FRONTEND_URL") || "",
-        "X-Title": "MealPrep Agent",
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature: options?.temperature ?? 0.7,
-        max_tokens: options?.max_tokens ?? 500,
-      }),
-    });
+    const response = await this.post("/chat/completions", apiKey, {
+      model,
+      messages,
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.max_tokens ?? 500,
+    }, options);
 
     if (!response.ok) {
       const error = await response.text();
@@ -119,12 +176,96 @@ export class OpenRouterClient {
     return data.choices[0].message.content;
   }
 
+  /**
+   * chatWithHistory with `stream: true`. Resolves once OpenRouter accepts the request — so
+   * runTask can still fall back to another model — then yields the answer's text as it
+   * arrives. With record/replay on, the whole completion comes back as one chunk.
+   */
+  async streamChatWithHistory(
+    systemPrompt: string,
+    conversationHistory: any[],
+    userMessage: string,
+    model = "qwen/qwen3-8b",
+    options?: RequestOptions & { temperature?: number; max_tokens?: number }
+  ): Promise<AsyncGenerator<string>> {
+    if (this.recorder) {
+      const content = await this.chatWithHistory(systemPrompt, conversationHistory, userMessage, model, options);
+      return (async function* () {
+        yield content;
+      })();
+    }
+
+    const messages = [
+      { role: "system", content: systemPrompt },
+      ...conversationHistory,
+      { role: "user", content: userMessage },
+    ];
+
+    const apiKey = this.getApiKeyForModel(model);
+    const response = await this.post("/chat/completions", apiKey, {
+      model,
+      messages,
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.max_tokens ?? 500,
+      stream: true,
+    }, options);
+
+    if (!response.ok || !response.body) {
+      const error = await response.text();
+      console.error("OpenRouter stream error:", response.status, error);
+      throw new Error(`OpenRouter API failed: ${response.status} - ${error}`);
+    }
+    const prompt = messages
+      .map((m) => (typeof m.content === "string" ? m.content : JSON.stringify(m.content ?? "")))
+      .join("\n");
+    return this.readStream(response.body, options?.task ?? "chat", model, estimateTokens(prompt));
+  }
+
+  /**
+   * One step of a tool-calling conversation. `messages` is the full transcript — system,
+   * user, assistant (with tool_calls) and `tool` results; the reply is the next assistant turn.
+   */
+  async chatWithTools(
+    messages: any[],
+    tools: ToolDefinition[],
+    model: string,
+    options?: RequestOptions & { temperature?: number; max_tokens?: number }
+  ): Promise<AssistantMessage> {
+    const apiKey = this.getApiKeyForModel(model);
+    const response = await this.post("/chat/completions", apiKey, {
+      model,
+      messages,
+      tools,
+      tool_choice: "auto",
+      temperature: options?.temperature ?? 0.2,
+      max_tokens: options?.max_tokens ?? 1000,
+    }, options);
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("OpenRouter chatWithTools error:", response.status, error);
+      throw new Error(`OpenRouter API failed: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      console.error("Invalid OpenRouter response:", data);
+      throw new Error("Invalid response from OpenRouter API");
+    }
+    return {
+      role: "assistant",
+      content: message.content ?? null,
+      tool_calls: message.tool_calls?.length ? message.tool_calls : undefined,
+    };
+  }
+
   async chatWithImages(
     systemPrompt: string,
     userMessage: string,
     images: string[],
     model = "qwen/qwen-2.5-vl-7b-instruct",
-    options?: {
+    options?: RequestOptions & {
       temperature?: number;
       max_tokens?: number;
       response_format?: { type: string };
@@ -139,25 +280,16 @@ export class OpenRouterClient {
     ];
 
     const apiKey = this.getApiKeyForModel(model);
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": Deno.env.get("FRONTEND_URL") || "",
-        "X-Title": "MealPrep Agent",
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userContent },
-        ],
-        temperature: options?.temperature ?? 0.1,
-        max_tokens: options?.max_tokens ?? 2000,
-        response_format: options?.response_format,
-      }),
-    });
+    const response = await this.post("/chat/completions", apiKey, {
+      model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userContent },
+      ],
+      temperature: options?.temperature ?? 0.1,
+      max_tokens: options?.max_tokens ?? 2000,
+      response_format: options?.response_format,
+    }, options);
 
     if (!response.ok) {
       const error = await response.text();
@@ -175,47 +307,174 @@ export class OpenRouterClient {
     return data.choices[0].message.content;
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    const apiKey = this.defaultApiKey;
-    const response = await fetch(`${this.baseUrl}/embeddings`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": Deno.env.get("FRONTEND_URL") || "",
-        "X-Title": "MealPrep Agent",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-ada-002",
+  /**
+   * Embed text with the embedding policy's models, in fallback order — or with `onlyModel`
+   * alone, for vectors that will be compared with others of that model.
+   */
+  generateEmbedding(text: string, onlyModel?: string): Promise<number[]> {
+    const policy = onlyModel ? { ...this.policies.embedding, models: [onlyModel] } : this.policies.embedding;
+    return withModelFallback("embedding", policy, async (model, settings) => {
+      const response = await this.post("/embeddings", this.defaultApiKey, {
+        model,
         input: text,
-      }),
+      }, settings);
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error("Embedding error:", response.status, error);
+        throw new Error(`Embedding API failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.data[0].embedding;
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("Embedding error:", response.status, error);
-      throw new Error(`Embedding API failed: ${response.status}`);
+  /**
+   * Yield the content deltas of an SSE completion stream, then log the usage its last chunk
+   * reports. A stream that ends early never gets that chunk, so its usage is estimated from
+   * `promptTokens` and the text streamed so far. Throws if the body ends before the answer does.
+   */
+  private async *readStream(
+    body: ReadableStream<Uint8Array>,
+    task: ModelTask,
+    model: string,
+    promptTokens: number
+  ): AsyncGenerator<string> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let usage = null;
+    let servedBy = model;
+    let streamed = "";
+    let finished = false;
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          // Skip keep-alive comments (": OPENROUTER PROCESSING") and the [DONE] marker
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") {
+            finished = true;
+            continue;
+          }
+
+          let chunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          if (chunk.error) throw new Error(`OpenRouter stream failed: ${chunk.error.message}`);
+          if (chunk.usage) usage = chunk.usage;
+          if (chunk.model) servedBy = chunk.model;
+          if (chunk.choices?.[0]?.finish_reason) finished = true;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            streamed += delta;
+            yield delta;
+          }
+        }
+      }
+      if (!finished) throw new Error("OpenRouter stream ended before the answer finished");
+    } finally {
+      reader.releaseLock();
+      if (this.usageLogger) {
+        await this.usageLogger({
+          task,
+          model: servedBy,
+          usage: usage ?? { prompt_tokens: promptTokens, completion_tokens: estimateTokens(streamed) },
+        });
+      }
     }
+  }
 
-    const data = await response.json();
-    return data.data[0].embedding;
+  /**
+   * POST to the API — through the recorder when record/replay is on — and log its usage.
+   * Streamed responses (`stream: true`) skip both; readStream logs their usage.
+   */
+  private async post(
+    endpoint: string,
+    apiKey: string,
+    body: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<Response> {
+    // A streamed answer may run past the timeout, so there it only bounds the wait for headers
+    const headersTimeout = body.stream && options.timeout_ms ? new AbortController() : null;
+    const timeout = headersTimeout?.signal ??
+      (options.timeout_ms ? AbortSignal.timeout(options.timeout_ms) : undefined);
+    const signal = timeout && options.signal ? AbortSignal.any([timeout, options.signal]) : timeout ?? options.signal;
+
+    // Ask OpenRouter to report cost in the usage block; left out of the recording key
+    const payload = endpoint === "/chat/completions" ? { ...body, usage: { include: true } } : body;
+    const send = () =>
+      fetch(`${this.baseUrl}${endpoint}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+          "HTTP-Referer": Deno.env.get("FRONTEND_URL") || "",
+          "X-Title": "MealPrep Agent",
+        },
+        body: JSON.stringify(payload),
+        signal,
+      });
+
+    if (body.stream) {
+      const timer = headersTimeout &&
+        setTimeout(
+          () => headersTimeout.abort(new DOMException("The request timed out", "TimeoutError")),
+          options.timeout_ms
+        );
+      try {
+        return await send();
+      } finally {
+        if (timer) clearTimeout(timer);
+      }
+    }
+
+    const response = await (this.recorder ? this.recorder.fetch(endpoint, body, send) : send());
+    if (response.ok && this.usageLogger) {
+      const data = await response.clone().json().catch(() => null);
+      if (data?.usage) {
+        await this.usageLogger({
+          task: options.task ?? "chat",
+          model: data.model || String(body.model),
+          usage: data.usage,
+        });
+      }
+    }
+    return response;
   }
 }
 
-/** Create an OpenRouterClient from environment variables. */
-export function createOpenRouterClient(): OpenRouterClient {
+/**
+ * Create an OpenRouterClient from environment variables. Model policies come from
+ * MODEL_POLICIES; pass loadModelPolicies(supabase) to apply the model_policies table too.
+ */
+export function createOpenRouterClient(policies: ModelPolicies = loadEnvModelPolicies()): OpenRouterClient {
   const defaultKey =
     Deno.env.get("OPENROUTER_API_KEY") ||
     Deno.env.get("OPENROUTER_API_KEY_QWEN2.5_instruct_8b") ||
     Deno.env.get("OPENROUTER_API_KEY_QWEN2.5_VL_8b");
 
-  if (!defaultKey) {
+  // Replaying recordings never reaches the API, so it works without a key
+  const recorder = createRecorderFromEnv();
+  if (!defaultKey && recorder?.mode !== "replay") {
     throw new Error("OPENROUTER_API_KEY not configured");
   }
 
   return new OpenRouterClient(
-    defaultKey,
+    defaultKey || "",
     Deno.env.get("OPENROUTER_API_KEY_QWEN2.5_VL_8b"),
-    Deno.env.get("OPENROUTER_API_KEY_QWEN2.5_instruct_8b")
+    Deno.env.get("OPENROUTER_API_KEY_QWEN2.5_instruct_8b"),
+    recorder,
+    policies
   );
 }
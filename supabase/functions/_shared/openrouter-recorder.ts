@@ -0,0 +1,135 @@
+/**
+ * Record/replay for OpenRouterClient — saves each request/response pair to disk, keyed by a
+ * hash of the endpoint and request body (model, messages and options), so chat and pipeline
+ * code can run deterministically against those recordings without network access.
+ * Local dev and tests only; enabled through the environment:
+ *
+ *   OPENROUTER_RECORDING=record   call the API and save every successful response
+ *   OPENROUTER_RECORDING=replay   answer from recordings only — a missing recording is an error
+ *   OPENROUTER_RECORDING=auto     replay what is recorded, call the API and record the rest
+ *   OPENROUTER_RECORDINGS_DIR     where recordings live (default ./openrouter-recordings)
+ *
+ * The recording format and key match src/lib/openrouter-recorder.ts, so one set of
+ * recordings serves both clients.
+ */
+
+export type RecordingMode = "record" | "replay" | "auto";
+
+export interface Recording {
+  key: string;
+  endpoint: string;
+  /** Request body as sent, with image data URLs shortened */
+  request: Record<string, unknown>;
+  response: unknown;
+  recorded_at: string;
+}
+
+const RECORDING_MODES: RecordingMode[] = ["record", "replay", "auto"];
+
+const DEFAULT_RECORDINGS_DIR = "./openrouter-recordings";
+
+export class OpenRouterRecorder {
+  constructor(
+    readonly dir: string,
+    readonly mode: RecordingMode
+  ) {}
+
+  /**
+   * Answer a request from its recording, or `send` it and record the response.
+   * Only successful responses are recorded; failures pass through untouched.
+   */
+  async fetch(
+    endpoint: string,
+    body: Record<string, unknown>,
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    const key = await recordingKey(endpoint, body);
+
+    if (this.mode !== "record") {
+      const recording = await this.read(key);
+      if (recording) {
+        return new Response(JSON.stringify(recording.response), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (this.mode === "replay") {
+        throw new Error(
+          `No OpenRouter recording for ${endpoint} (${body.model}, key ${key.slice(0, 12)}) — record it with OPENROUTER_RECORDING=record`
+        );
+      }
+    }
+
+    const response = await send();
+    if (response.ok) {
+      await this.write({
+        key,
+        endpoint,
+        request: shortenDataUrls(body) as Record<string, unknown>,
+        response: await response.clone().json(),
+        recorded_at: new Date().toISOString(),
+      });
+    }
+    return response;
+  }
+
+  private async read(key: string): Promise<Recording | null> {
+    try {
+      return JSON.parse(await Deno.readTextFile(`${this.dir}/${key}.json`));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+
+  private async write(recording: Recording): Promise<void> {
+    await Deno.mkdir(this.dir, { recursive: true });
+    await Deno.writeTextFile(`${this.dir}/${recording.key}.json`, JSON.stringify(recording, null, 2));
+  }
+}
+
+/** The recorder configured by OPENROUTER_RECORDING, or null when recording is off. */
+export function createRecorderFromEnv(): OpenRouterRecorder | null {
+  const mode = Deno.env.get("OPENROUTER_RECORDING");
+  if (!mode) return null;
+  if (!RECORDING_MODES.includes(mode as RecordingMode)) {
+    throw new Error(`Invalid OPENROUTER_RECORDING: "${mode}". Must be one of: ${RECORDING_MODES.join(", ")}.`);
+  }
+  return new OpenRouterRecorder(
+    Deno.env.get("OPENROUTER_RECORDINGS_DIR") || DEFAULT_RECORDINGS_DIR,
+    mode as RecordingMode
+  );
+}
+
+/** SHA-256 of the endpoint and request body, with object keys sorted so key order doesn't matter */
+export async function recordingKey(endpoint: string, body: Record<string, unknown>): Promise<string> {
+  const data = new TextEncoder().encode(canonicalJson({ endpoint, body }));
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => (v === undefined ? "null" : canonicalJson(v))).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Keep recordings readable — base64 images are hashed into the key, not stored */
+function shortenDataUrls(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.startsWith("data:") && value.length > 100
+      ? `${value.slice(0, value.indexOf(",") + 1)}… (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(shortenDataUrls);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, shortenDataUrls(v)]));
+  }
+  return value;
+}
@@ -4,19 +4,43 @@
 
 // ─── Intermediate format (output of all source adapters) ───
 
+/** Source types the pipeline knows about — each needs an adapter in the registry to be accepted */
+export type SourceType = "url" | "text" | "video" | "file" | "pdf" | "discord";
+
 export interface SourceMetadata {
-  source_type: "url" | "text" | "video" | "discord";
+  source_type: SourceType;
   source_url?: string;
   source_name?: string;
   extracted_at: string;
   adapter_version: string;
   extra?: Record<string, unknown>;
+  /** Parts of the source the adapter left out, e.g. pages past a limit — shown to the user */
+  warnings?: string[];
 }
 
 export interface IntermediateContent {
   raw_text: string;
   images: string[];
   source_metadata: SourceMetadata;
+  /**
+   * Recipe mapped deterministically from structured page data (e.g. JSON-LD).
+   * When complete, the extract stage uses it as-is and skips the LLM.
+   */
+  structured_recipe?: ExtractedRecipe;
+  /** Recipes parsed deterministically from an export file — extract passes them through as-is */
+  structured_recipes?: ExtractedRecipe[];
+  /**
+   * Independent slices of a long source (e.g. groups of PDF pages). Extract runs each
+   * through the LLM on its own and combines the recipes; raw_text/images are ignored.
+   */
+  chunks?: ContentChunk[];
+}
+
+export interface ContentChunk {
+  /** Human-readable position, e.g. "pages 3-5" */
+  label: string;
+  raw_text: string;
+  images: string[];
 }
 
 // ─── Extracted recipe (output of Extract stage) ───
@@ -50,6 +74,9 @@ export interface ExtractedRecipe {
   cuisine: string | null;
   nutrition: NutritionInfo | null;
   imageUrl: string | null;
+  /** Per-recipe origin when one source holds many recipes (e.g. an export file) */
+  sourceUrl?: string | null;
+  sourceName?: string | null;
 }
 
 // ─── Validated recipe (output of Transform stage, ready for DB) ───
@@ -71,6 +98,119 @@ export interface ValidatedRecipe {
   source_url: string | null;
   source_name: string | null;
   slug: string;
+  /** How each field was obtained — set by transform, never stored */
+  quality?: RecipeQuality;
+}
+
+// ─── Extraction quality ───
+
+/** Where a validated field's value came from */
+export type FieldProvenance = "extracted" | "inferred" | "defaulted";
+
+/** Recipe fields that get a provenance entry */
+export type QualityField =
+  | "title"
+  | "description"
+  | "ingredients"
+  | "instructions"
+  | "prep_time"
+  | "cook_time"
+  | "total_time"
+  | "servings"
+  | "difficulty"
+  | "cuisine"
+  | "tags"
+  | "image_url"
+  | "nutrition_info";
+
+export interface FieldQuality {
+  provenance: FieldProvenance;
+  /** 0–1 */
+  confidence: number;
+  /** Why the value was inferred or defaulted, or what was lost normalizing it */
+  note?: string;
+}
+
+export interface RecipeQuality {
+  /** 0–1 — confidence of each field weighted by importance; fields with no value count as 0 */
+  score: number;
+  /** Fields that have a value; fields left empty are absent */
+  fields: Partial<Record<QualityField, FieldQuality>>;
+  /** Inferred, defaulted or low-confidence fields the user should check before saving */
+  review: QualityField[];
+}
+
+/** A row of the `recipes` table (the columns the pipeline reads back) */
+export interface RecipeRow extends Omit<ValidatedRecipe, "servings" | "difficulty" | "slug" | "quality"> {
+  id: string;
+  slug: string | null;
+  servings: number | null;
+  difficulty: string | null;
+  created_at: string;
+}
+
+// ─── Duplicate handling ───
+
+/** What to do when the recipe being saved duplicates an existing one */
+export type DuplicateAction = "keep_existing" | "replace" | "save_both" | "merge";
+
+/** Recipe fields that can be taken from the incoming recipe in a merge */
+export type MergeField =
+  | "title"
+  | "description"
+  | "ingredients"
+  | "instructions"
+  | "prep_time"
+  | "cook_time"
+  | "total_time"
+  | "servings"
+  | "difficulty"
+  | "cuisine"
+  | "tags"
+  | "image_url"
+  | "nutrition_info"
+  | "source_url"
+  | "source_name";
+
+export interface DuplicateResolution {
+  action: DuplicateAction;
+  /** Recipe to resolve against — defaults to the duplicate the load stage detects */
+  existing_id?: string;
+  /** Fields taken from the incoming recipe when action is "merge" */
+  fields?: MergeField[];
+  /** Visibility of a newly saved copy (save_both, or no duplicate found) — defaults to private */
+  visibility?: "private" | "household" | "public";
+}
+
+export interface RecipeFieldDiff {
+  field: MergeField;
+  existing: unknown;
+  incoming: unknown;
+  changed: boolean;
+}
+
+export interface RecipeDiff {
+  /** Scalar and list fields other than ingredients/instructions */
+  fields: RecipeFieldDiff[];
+  /** Ingredients matched by normalized name */
+  ingredients: {
+    added: Ingredient[];
+    removed: Ingredient[];
+    changed: { name: string; existing: Ingredient; incoming: Ingredient }[];
+    unchanged: number;
+  };
+  instructions: { existing: string[]; incoming: string[]; changed: boolean };
+  changed_fields: MergeField[];
+}
+
+export interface DuplicateReport {
+  existing_id: string;
+  existing_title: string;
+  /** "title" for a case-insensitive title match, "similar" for an embedding near-duplicate */
+  match: "title" | "similar";
+  /** Cosine similarity for "similar" matches */
+  similarity: number | null;
+  diff: RecipeDiff;
 }
 
 // ─── Pipeline result ───
@@ -92,19 +232,74 @@ export interface PipelineResult {
   source_metadata?: SourceMetadata;
   errors?: PipelineError[];
   stage_failed?: PipelineError["stage"];
+  /** Quality of `recipe` (each of `recipes` carries its own as `quality`) */
+  quality?: RecipeQuality;
+  /** Set with a DUPLICATE_RECIPE load failure — resolve via POST /resolve-duplicate */
+  duplicate?: DuplicateReport;
+}
+
+// ─── Pipeline jobs (async ingestion) ───
+
+export interface PipelineStageReport {
+  stage: PipelineError["stage"];
+  status: "completed" | "failed" | "skipped";
+  finished_at: string;
+  duration_ms: number;
+  /** Short human-readable summary, e.g. the extracted title or recipe count */
+  detail?: string;
+}
+
+/** Called by runPipeline as each stage finishes */
+export type PipelineStageListener = (report: PipelineStageReport) => Promise<void> | void;
+
+export type PipelineJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface PipelineJob {
+  id: string;
+  status: PipelineJobStatus;
+  source_type: PipelineRequest["source_type"];
+  stages: PipelineStageReport[];
+  result: PipelineResult | null;
+  created_at: string;
+  /** Last progress — unfinished jobs untouched for 15 minutes are failed as timed out */
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
 }
 
 // ─── Pipeline request ───
 
+export type ImportFileFormat = "paprika" | "mealie" | "tandoor" | "mealmaster" | "jsonld";
+
 export interface PipelineRequest {
-  source_type: "url" | "text" | "video";
+  source_type: SourceType;
   url?: string;
   text?: string;
   images?: string[];
   video_url?: string;
   frame_urls?: string[];
   transcript?: string;
+  /** Recipe-manager export for source_type "file" */
+  file?: {
+    name: string;
+    /** Base64-encoded file contents (no data: prefix) */
+    data: string;
+    /** Detected from the file name/contents when omitted */
+    format?: ImportFileFormat;
+  };
+  /** PDF (text or scanned) for source_type "pdf" */
+  pdf?: {
+    name?: string;
+    /** Base64-encoded PDF (no data: prefix) */
+    data: string;
+    /** 1-based page selection, e.g. "12-18" or "3,5,7-9"; all pages when omitted */
+    pages?: string;
+  };
+  /** Cap on recipes taken from one LLM-extracted source (default 5) */
+  max_recipes?: number;
   auto_save?: boolean;
+  /** Resolve duplicates without asking (e.g. unattended imports); otherwise load fails with DUPLICATE_RECIPE */
+  on_duplicate?: DuplicateResolution;
 }
 
 // ─── Validation helpers ───
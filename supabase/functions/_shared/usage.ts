@@ -0,0 +1,128 @@
+/**
+ * LLM usage accounting and monthly quotas.
+ *
+ * OpenRouterClient hands the `usage` block of every response to a UsageLogger, which stores
+ * it in `llm_usage` per user, task and model (the database attributes it to the caller's
+ * household). Quotas are per household — or per user outside one — from `llm_quotas`,
+ * falling back to the LLM_MONTHLY_TOKEN_QUOTA / LLM_MONTHLY_COST_QUOTA_USD env defaults.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsResponse } from "./cors.ts";
+import type { ModelTask } from "./model-policy.ts";
+
+/** The usage block of an OpenRouter response; `cost` is in USD (credits) */
+export interface LlmUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost?: number;
+}
+
+export interface UsageEvent {
+  task: ModelTask;
+  model: string;
+  usage: LlmUsage;
+}
+
+export type UsageLogger = (event: UsageEvent) => Promise<void>;
+
+export interface QuotaStatus {
+  scope: "household" | "user";
+  period_start: string;
+  total_tokens: number;
+  cost_usd: number;
+  /** Null when neither a quota row nor the env default sets a limit */
+  monthly_token_limit: number | null;
+  monthly_cost_limit_usd: number | null;
+  exceeded: boolean;
+}
+
+/** Rough token count of `text` (about four characters a token), for usage no response reported */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Logger that records usage as `userId`. Pass a service-role client — users can read their
+ * usage but not write it, so a caller can't forge or skip rows. Failures are logged and swallowed — accounting never fails the request it measures.
+ */
+export function createUsageLogger(
+  supabase: SupabaseClient,
+  userId: string,
+  functionName: string
+): UsageLogger {
+  return async ({ task, model, usage }) => {
+    const prompt = Math.max(0, Math.round(usage.prompt_tokens ?? 0));
+    const completion = Math.max(0, Math.round(usage.completion_tokens ?? 0));
+    const { error } = await supabase.from("llm_usage").insert({
+      user_id: userId,
+      function_name: functionName,
+      task,
+      model,
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      total_tokens: Math.max(0, Math.round(usage.total_tokens ?? prompt + completion)),
+      cost_usd: typeof usage.cost === "number" && usage.cost >= 0 ? usage.cost : null,
+    });
+    if (error) console.warn("Failed to record LLM usage (non-fatal):", error.message);
+  };
+}
+
+/** This month's usage against the caller's quota. A failed lookup lets the request through. */
+export async function checkUsageQuota(supabase: SupabaseClient): Promise<QuotaStatus | null> {
+  const { data, error } = await supabase.rpc("get_my_llm_quota");
+  if (error || !data) {
+    console.warn("Could not check LLM quota (non-fatal):", error?.message);
+    return null;
+  }
+
+  const defaults = defaultQuotas();
+  const tokenLimit = data.monthly_token_limit ?? defaults.monthly_token_limit;
+  const costLimit = data.monthly_cost_limit_usd ?? defaults.monthly_cost_limit_usd;
+  const totalTokens = Number(data.total_tokens) || 0;
+  const cost = Number(data.cost_usd) || 0;
+
+  return {
+    scope: data.scope,
+    period_start: data.period_start,
+    total_tokens: totalTokens,
+    cost_usd: cost,
+    monthly_token_limit: tokenLimit === null ? null : Number(tokenLimit),
+    monthly_cost_limit_usd: costLimit === null ? null : Number(costLimit),
+    exceeded: (tokenLimit !== null && totalTokens >= Number(tokenLimit)) ||
+      (costLimit !== null && cost >= Number(costLimit)),
+  };
+}
+
+/** Quotas applied when no llm_quotas row exists — unset or invalid means unlimited */
+export function defaultQuotas(): Pick<QuotaStatus, "monthly_token_limit" | "monthly_cost_limit_usd"> {
+  return {
+    monthly_token_limit: positiveEnv("LLM_MONTHLY_TOKEN_QUOTA"),
+    monthly_cost_limit_usd: positiveEnv("LLM_MONTHLY_COST_QUOTA_USD"),
+  };
+}
+
+/** 429 for an exhausted quota, saying whose quota it is and when it resets */
+export function quotaExceededResponse(quota: QuotaStatus): Response {
+  const start = new Date(quota.period_start);
+  const resets = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  const whose = quota.scope === "household" ? "Your household has" : "You have";
+
+  return corsResponse({
+    error: `${whose} used this month's AI allowance. It resets on ${resets.toISOString().slice(0, 10)}.`,
+    code: "QUOTA_EXCEEDED",
+    quota: {
+      scope: quota.scope,
+      total_tokens: quota.total_tokens,
+      cost_usd: quota.cost_usd,
+      monthly_token_limit: quota.monthly_token_limit,
+      monthly_cost_limit_usd: quota.monthly_cost_limit_usd,
+      resets_at: resets.toISOString(),
+    },
+  }, 429);
+}
+
+function positiveEnv(name: string): number | null {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
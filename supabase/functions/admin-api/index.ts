@@ -12,6 +12,16 @@
  *   DELETE /invites     — Delete an invite by ID
  *   GET  /households   — List all households with members
  *   DELETE /households  — Delete a household by ID
+ *   GET  /usage        — LLM usage for a month (?month=YYYY-MM) by household, user, task and model
+ *   PATCH  /quotas     — Set a household's or user's monthly LLM quota
+ *   DELETE /quotas     — Remove a quota (the env default applies again)
+ *   GET  /embeddings   — Recipe embedding queue and model migration status
+ *   POST /embeddings   — Run the embedding worker; { all: true } first queues every recipe
+ *                        for a full re-embed (after a recipe text format change)
+ *   PATCH  /embeddings — Switch embedding models: { action: "migrate", model } starts
+ *                        embedding every recipe with the new model alongside the active one,
+ *                        { action: "promote", force? } makes it active, { action: "cancel" }
+ *                        drops it
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -20,6 +30,13 @@ import {
   getUserFromToken,
   createServiceClient,
 } from "../_shared/supabase-client.ts";
+import { defaultQuotas } from "../_shared/usage.ts";
+import { EMBEDDING_MAX_ATTEMPTS } from "../_shared/embedding-utils.ts";
+
+// Supabase Edge Runtime global — keeps the isolate alive for background work after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const RECENT_EMBEDDING_FAILURES = 10;
 
 // Verify caller is admin
 async function requireAdmin(req: Request) {
@@ -188,6 +205,166 @@ async function handleDeleteHousehold(req: Request): Promise<Response> {
   return corsResponse({ success: true });
 }
 
+// ── GET /usage ──
+async function handleGetUsage(req: Request): Promise<Response> {
+  const { admin } = await requireAdmin(req);
+
+  const month = new URL(req.url).searchParams.get("month") || new Date().toISOString().slice(0, 7);
+  const match = month.match(/^(\d{4})-(\d{2})$/);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    return corsError("month must be YYYY-MM", 400);
+  }
+  const start = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+  const end = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1));
+
+  const { data, error } = await admin.rpc("get_llm_usage_summary", {
+    p_period_start: start.toISOString(),
+    p_period_end: end.toISOString(),
+  });
+
+  if (error) return corsError(error.message, 500);
+  return corsResponse({ month, ...data, default_quota: defaultQuotas() });
+}
+
+// ── PATCH /quotas ──
+async function handleSetQuota(req: Request): Promise<Response> {
+  const { admin } = await requireAdmin(req);
+  const { householdId, userId, monthlyTokenLimit, monthlyCostLimitUsd } = await req.json();
+  if (!householdId === !userId) return corsError("Exactly one of householdId or userId is required", 400);
+
+  const limits = { monthly_token_limit: monthlyTokenLimit ?? null, monthly_cost_limit_usd: monthlyCostLimitUsd ?? null };
+  for (const [field, value] of Object.entries(limits)) {
+    if (value !== null && !(typeof value === "number" && value > 0)) {
+      return corsError(`${field} must be a positive number or null`, 400);
+    }
+  }
+
+  const { error } = await admin
+    .from("llm_quotas")
+    .upsert(
+      householdId ? { household_id: householdId, ...limits } : { user_id: userId, ...limits },
+      { onConflict: householdId ? "household_id" : "user_id" }
+    );
+
+  if (error) return corsError(error.message, 500);
+  return corsResponse({ success: true });
+}
+
+// ── DELETE /quotas ──
+async function handleDeleteQuota(req: Request): Promise<Response> {
+  const { admin } = await requireAdmin(req);
+  const { householdId, userId } = await req.json();
+  if (!householdId === !userId) return corsError("Exactly one of householdId or userId is required", 400);
+
+  const { error } = await admin
+    .from("llm_quotas")
+    .delete()
+    .eq(householdId ? "household_id" : "user_id", householdId || userId);
+
+  if (error) return corsError(error.message, 500);
+  return corsResponse({ success: true });
+}
+
+// ── GET /embeddings ──
+async function handleGetEmbeddings(req: Request): Promise<Response> {
+  const { admin } = await requireAdmin(req);
+
+  const count = async (query: any) => {
+    const { count, error } = await query;
+    if (error) throw new Error(error.message);
+    return count ?? 0;
+  };
+  const queue = () => admin.from("recipe_embedding_queue").select("recipe_id", { count: "exact", head: true });
+
+  const [pending, failed, status, failures] = await Promise.all([
+    count(queue().lt("attempts", EMBEDDING_MAX_ATTEMPTS)),
+    count(queue().gte("attempts", EMBEDDING_MAX_ATTEMPTS)),
+    admin.rpc("get_embedding_status"),
+    admin
+      .from("recipe_embedding_queue")
+      .select("recipe_id, reason, attempts, last_error, next_attempt_at, recipes(title)")
+      .not("last_error", "is", null)
+      .order("next_attempt_at", { ascending: false })
+      .limit(RECENT_EMBEDDING_FAILURES),
+  ]);
+  if (status.error) return corsError(status.error.message, 500);
+  if (failures.error) return corsError(failures.error.message, 500);
+  const { total_recipes, active_embedded, ...models } = status.data;
+
+  return corsResponse({
+    pending,
+    failed,
+    missing: total_recipes - active_embedded,
+    total_recipes,
+    ...models,
+    max_attempts: EMBEDDING_MAX_ATTEMPTS,
+    recent_failures: (failures.data || []).map(({ recipes, ...row }: any) => ({ ...row, title: recipes?.title ?? null })),
+  });
+}
+
+// ── POST /embeddings ──
+async function handleRunEmbeddings(req: Request): Promise<Response> {
+  const { admin } = await requireAdmin(req);
+  const { all } = await req.json().catch(() => ({}));
+
+  let queued = 0;
+  if (all) {
+    const { data, error } = await admin.rpc("enqueue_recipe_reembed");
+    if (error) return corsError(error.message, 500);
+    queued = data ?? 0;
+  }
+
+  startEmbeddingWorker();
+  return corsResponse({ success: true, queued }, 202);
+}
+
+// ── PATCH /embeddings ──
+async function handleEmbeddingMigration(req: Request): Promise<Response> {
+  const { admin } = await requireAdmin(req);
+  const { action, model, force } = await req.json();
+
+  switch (action) {
+    case "migrate": {
+      if (typeof model !== "string" || !model.trim()) return corsError("model is required", 400);
+      const { data, error } = await admin.rpc("start_embedding_migration", { new_model: model.trim() });
+      if (error) return corsError(error.message, 400);
+      startEmbeddingWorker();
+      return corsResponse({ success: true, queued: data ?? 0 }, 202);
+    }
+    case "promote": {
+      // Recipes still without a target vector are queued and embedded by the worker
+      const { data, error } = await admin.rpc("promote_embedding_model", { force: force === true });
+      if (error) return corsError(error.message, 400);
+      if (data) startEmbeddingWorker();
+      return corsResponse({ success: true, queued: data ?? 0 });
+    }
+    case "cancel": {
+      const { error } = await admin.rpc("cancel_embedding_migration");
+      if (error) return corsError(error.message, 400);
+      return corsResponse({ success: true });
+    }
+    default:
+      return corsError("action must be migrate, promote or cancel", 400);
+  }
+}
+
+/** Kick the embedding worker; it checks the service role key and runs on after we respond */
+function startEmbeddingWorker(): void {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/embedding-worker`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceKey}`, apikey: serviceKey },
+      body: "{}",
+    })
+      .then(async (res) => {
+        if (!res.ok) console.error("Embedding worker failed:", res.status, await res.text());
+      })
+      .catch((e) => console.error("Embedding worker call failed:", e.message))
+  );
+}
+
 // ── ROUTER ──
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -215,6 +392,21 @@ serve(async (req: Request) => {
         if (req.method === "DELETE") return await handleDeleteHousehold(req);
         return corsError("Method not allowed", 405);
 
+      case "usage":
+        if (req.method === "GET") return await handleGetUsage(req);
+        return corsError("Method not allowed", 405);
+
+      case "quotas":
+        if (req.method === "PATCH") return await handleSetQuota(req);
+        if (req.method === "DELETE") return await handleDeleteQuota(req);
+        return corsError("Method not allowed", 405);
+
+      case "embeddings":
+        if (req.method === "GET") return await handleGetEmbeddings(req);
+        if (req.method === "POST") return await handleRunEmbeddings(req);
+        if (req.method === "PATCH") return await handleEmbeddingMigration(req);
+        return corsError("Method not allowed", 405);
+
       default:
         return corsError(`Unknown route: ${path}`, 404);
     }
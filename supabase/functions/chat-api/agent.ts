@@ -0,0 +1,143 @@
+/**
+ * Tool-calling chat agent for `app_action` messages. The model works through the request
+ * with the tools in tools.ts: read tools run immediately, while write tools come back as
+ * pending actions, stored on the AI message, that the user confirms or cancels from the
+ * chat (POST /actions) before anything changes.
+ */
+import { AGENT_PROMPT } from "../_shared/recipe-prompts.ts";
+import { getTool, TOOL_DEFINITIONS, type ToolContext } from "./tools.ts";
+
+export type ChatActionStatus = "pending" | "done" | "failed" | "cancelled";
+
+/** A write the agent wants to make, awaiting the user's decision */
+export interface ChatAction {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  /** What the action does, in words — shown on the confirmation card */
+  summary: string;
+  status: ChatActionStatus;
+  result?: unknown;
+  error?: string;
+}
+
+/** Model round trips per message — each one may call several tools */
+const MAX_AGENT_STEPS = 6;
+
+export async function runAgent(
+  message: string,
+  history: { role: string; content: string }[],
+  today: string,
+  /** Household context and remembered facts, appended to the system prompt */
+  promptContext: string,
+  ctx: ToolContext
+): Promise<{ content: string; actions: ChatAction[] }> {
+  const { openRouter } = ctx;
+  const weekday = new Date(`${today}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+  const messages: any[] = [
+    { role: "system", content: `${AGENT_PROMPT}\n\nToday is ${weekday}, ${today}.${promptContext ? `\n\n${promptContext}` : ""}` },
+    ...history,
+    { role: "user", content: message },
+  ];
+  const actions: ChatAction[] = [];
+
+  for (let step = 0; step < MAX_AGENT_STEPS; step++) {
+    const reply = await openRouter.runTask("agent", (model, settings) =>
+      openRouter.chatWithTools(messages, TOOL_DEFINITIONS, model, settings)
+    );
+    if (!reply.tool_calls) {
+      return { content: reply.content?.trim() || defaultSummary(actions), actions };
+    }
+
+    messages.push({ role: "assistant", content: reply.content ?? "", tool_calls: reply.tool_calls });
+    for (const call of reply.tool_calls) {
+      const result = await callTool(call.function.name, call.function.arguments, actions, ctx);
+      messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(result) });
+    }
+  }
+
+  console.warn(`Agent stopped after ${MAX_AGENT_STEPS} steps`);
+  return { content: defaultSummary(actions), actions };
+}
+
+/** Run a read tool, or stage a write tool as a pending action. Errors go back to the model. */
+async function callTool(
+  name: string,
+  rawArgs: string,
+  actions: ChatAction[],
+  ctx: ToolContext
+): Promise<unknown> {
+  const tool = getTool(name);
+  if (!tool) return { error: `Unknown tool: ${name}` };
+
+  let args: Record<string, unknown>;
+  try {
+    args = rawArgs ? JSON.parse(rawArgs) : {};
+  } catch {
+    return { error: "Arguments must be valid JSON" };
+  }
+
+  try {
+    if (!tool.write) return await tool.run(args, ctx);
+
+    const summary = await tool.prepare!(args, ctx);
+    actions.push({ id: crypto.randomUUID(), tool: name, args, summary, status: "pending" });
+    return { status: "pending_confirmation", summary };
+  } catch (error) {
+    console.warn(`Agent tool ${name} failed:`, error.message);
+    return { error: error.message };
+  }
+}
+
+function defaultSummary(actions: ChatAction[]): string {
+  return actions.length > 0
+    ? "Here's what I'd like to do — confirm to go ahead:"
+    : "Sorry, I couldn't work out how to do that. Could you rephrase it?";
+}
+
+/**
+ * Run the pending actions the user confirmed, in order; `actionIds` limits it to some of
+ * them and cancels the rest. An action that fails doesn't stop the ones after it.
+ */
+export async function executeActions(
+  actions: ChatAction[],
+  actionIds: string[] | undefined,
+  ctx: ToolContext
+): Promise<ChatAction[]> {
+  const updated: ChatAction[] = [];
+  for (const action of actions) {
+    if (action.status !== "pending") {
+      updated.push(action);
+    } else if (actionIds && !actionIds.includes(action.id)) {
+      updated.push({ ...action, status: "cancelled" });
+    } else {
+      try {
+        const result = await getTool(action.tool)!.run(action.args, ctx);
+        updated.push({ ...action, status: "done", result });
+      } catch (error) {
+        console.error(`Chat action ${action.tool} failed:`, error);
+        updated.push({ ...action, status: "failed", error: error.message });
+      }
+    }
+  }
+  return updated;
+}
+
+export function cancelActions(actions: ChatAction[]): ChatAction[] {
+  return actions.map((a) => (a.status === "pending" ? { ...a, status: "cancelled" } : a));
+}
+
+/** Follow-up message reporting what happened to each action */
+export function describeActionResults(actions: ChatAction[]): string {
+  const done = actions.filter((a) => a.status === "done");
+  const failed = actions.filter((a) => a.status === "failed");
+  if (done.length === 0 && failed.length === 0) return "Okay, I won't make those changes.";
+
+  const lines: string[] = [];
+  if (done.length > 0) lines.push("Done:", ...done.map((a) => `• ${a.summary}`));
+  if (failed.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push("Couldn't complete:", ...failed.map((a) => `• ${a.summary} — ${a.error}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,329 @@
+/**
+ * Household context for chat replies: who the caller cooks for (household members and
+ * their dependents' allergies, diets and likes), the meal plan they're working from and
+ * the household's recent recipe reactions. Formatted as a block appended to the system
+ * prompt so suggestions respect it. Loading is best-effort — any part that fails is
+ * left out rather than failing the reply.
+ */
+
+export interface HouseholdPerson {
+  /** family_members id */
+  id?: string;
+  name: string;
+  relationship?: string;
+  age?: number | null;
+  allergies: string[];
+  dietaryRestrictions: string[];
+  likedFoods: string[];
+  dislikedFoods: string[];
+}
+
+export interface HouseholdContext {
+  /** Household members plus active dependents */
+  householdSize: number;
+  /** Dependents (family_members) — the people with recorded allergies and preferences */
+  people: HouseholdPerson[];
+  mealPlan: { title: string | null; startDate: string; endDate: string; days: string[] } | null;
+  reactions: { name: string; recipeId: string; recipe: string; reaction: "thumbs_up" | "thumbs_down" }[];
+}
+
+const MAX_REACTIONS = 20;
+const MAX_PLAN_DAYS = 7;
+const MEAL_SLOTS = ["breakfast", "lunch", "dinner", "snacks"];
+
+/**
+ * Ingredient words that give each common allergen away (the options offered on the
+ * Household page), matched anywhere in an ingredient name so compound words count
+ * ("buttermilk", "eggnog"). Custom allergies match on their own name.
+ */
+const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  peanuts: ["peanut"],
+  "tree nuts": ["almond", "walnut", "cashew", "pecan", "pistachio", "hazelnut", "macadamia", "pine nut"],
+  milk: ["milk", "butter", "cream", "cheese", "yogurt", "yoghurt", "ghee", "whey", "parmesan", "mozzarella", "ricotta"],
+  eggs: ["egg", "mayonnaise", "meringue"],
+  soy: ["soy", "soya", "tofu", "edamame", "tempeh", "miso"],
+  wheat: ["wheat", "flour", "bread", "breadcrumb", "pasta", "noodle", "couscous", "panko", "semolina"],
+  fish: ["fish", "salmon", "tuna", "cod", "anchovy", "anchovies", "sardine", "trout", "halibut", "tilapia"],
+  shellfish: ["shrimp", "prawn", "crab", "lobster", "scallop", "mussel", "clam", "oyster"],
+  sesame: ["sesame", "tahini"],
+};
+
+/** Look-alikes that don't contain the allergen ("eggplant"), removed before matching it */
+const ALLERGEN_EXCEPTIONS: Record<string, string[]> = {
+  milk: [
+    "peanut butter", "almond butter", "cocoa butter", "coconut milk", "coconut cream", "almond milk", "oat milk",
+    "soy milk", "cream of tartar", "butternut", "butterflied", "butterfly",
+  ],
+  eggs: ["eggplant"],
+  wheat: ["buckwheat"],
+};
+
+const MEAT_KEYWORDS = [
+  "beef", "steak", "pork", "bacon", "ham", "sausage", "chorizo", "pancetta", "prosciutto", "salami", "pepperoni",
+  "chicken", "turkey", "duck", "lamb", "veal", "venison", "mince", "gelatin",
+];
+const PORK_KEYWORDS = ["pork", "bacon", "ham", "pancetta", "prosciutto", "chorizo", "lard"];
+
+/**
+ * Restrictions (the options offered on the Household page) that rule out ingredients,
+ * as allergens or keywords. Restrictions not listed here (keto, low-sodium, ...) can't
+ * be judged from ingredient names and only count when a recipe is tagged with them.
+ */
+const DIET_EXCLUSIONS: Record<string, { allergens?: string[]; keywords?: string[] }> = {
+  vegetarian: { allergens: ["fish", "shellfish"], keywords: MEAT_KEYWORDS },
+  vegan: { allergens: ["fish", "shellfish", "milk", "eggs"], keywords: [...MEAT_KEYWORDS, "honey"] },
+  "gluten-free": { allergens: ["wheat"], keywords: ["barley", "rye"] },
+  "dairy-free": { allergens: ["milk"] },
+  halal: { keywords: [...PORK_KEYWORDS, "gelatin"] },
+  kosher: { allergens: ["shellfish"], keywords: PORK_KEYWORDS },
+};
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v) => typeof v === "string" && v.trim()).map((v) => v.trim()) : [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** A family_members row (as returned by get_my_household) as a HouseholdPerson */
+export function dependentToPerson(d: any): HouseholdPerson {
+  return {
+    id: d.id,
+    name: d.name,
+    relationship: d.relationship || undefined,
+    age: d.age,
+    allergies: stringList(d.allergies),
+    dietaryRestrictions: stringList(d.dietary_restrictions),
+    likedFoods: stringList(d.preferences?.likedFoods),
+    dislikedFoods: stringList(d.preferences?.dislikedFoods),
+  };
+}
+
+export async function loadHouseholdContext(
+  userId: string,
+  supabase: any,
+  today: string,
+  options: { maxReactions?: number } = {}
+): Promise<HouseholdContext> {
+  const context: HouseholdContext = { householdSize: 1, people: [], mealPlan: null, reactions: [] };
+
+  // Member and dependent user ids → names, for labelling reactions
+  const userNames = new Map<string, string>();
+  const dependentNames = new Map<string, string>();
+
+  try {
+    const { data, error } = await supabase.rpc("get_my_household");
+    if (error) throw error;
+    if (data) {
+      const members: any[] = data.members || [];
+      const dependents: any[] = data.dependents || [];
+      context.householdSize = Math.max(1, members.length + dependents.length);
+      for (const m of members) {
+        userNames.set(m.user_id, m.user_id === userId ? "You" : m.profiles?.display_name || "A household member");
+      }
+      for (const d of dependents) {
+        dependentNames.set(d.id, d.name);
+        context.people.push(dependentToPerson(d));
+      }
+    }
+  } catch (e) {
+    console.warn("Household lookup failed (non-fatal):", e.message);
+  }
+  if (!userNames.has(userId)) userNames.set(userId, "You");
+
+  try {
+    context.mealPlan = await loadCurrentPlan(userId, supabase, today);
+  } catch (e) {
+    console.warn("Meal plan lookup failed (non-fatal):", e.message);
+  }
+
+  try {
+    const filters = [`user_id.in.(${[...userNames.keys()].join(",")})`];
+    if (dependentNames.size > 0) filters.push(`family_member_id.in.(${[...dependentNames.keys()].join(",")})`);
+    const { data, error } = await supabase
+      .from("recipe_reactions")
+      .select("reaction, user_id, family_member_id, recipe_id, recipes(title)")
+      .or(filters.join(","))
+      .order("updated_at", { ascending: false })
+      .limit(options.maxReactions ?? MAX_REACTIONS);
+    if (error) throw error;
+    context.reactions = (data || [])
+      .filter((r: any) => r.recipes?.title)
+      .map((r: any) => ({
+        name: (r.family_member_id ? dependentNames.get(r.family_member_id) : userNames.get(r.user_id)) || "Someone",
+        recipeId: r.recipe_id,
+        recipe: r.recipes.title,
+        reaction: r.reaction,
+      }));
+  } catch (e) {
+    console.warn("Reaction lookup failed (non-fatal):", e.message);
+  }
+
+  return context;
+}
+
+/** The non-archived plan covering today, else the next one — summarised from today on */
+async function loadCurrentPlan(userId: string, supabase: any, today: string): Promise<HouseholdContext["mealPlan"]> {
+  const base = () =>
+    supabase
+      .from("meal_plans")
+      .select("title, start_date, end_date, meals")
+      .eq("user_id", userId)
+      .neq("status", "archived");
+
+  let { data: plan, error } = await base()
+    .lte("start_date", today)
+    .gte("end_date", today)
+    .order("start_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!plan) {
+    ({ data: plan, error } = await base()
+      .gt("start_date", today)
+      .order("start_date", { ascending: true })
+      .limit(1)
+      .maybeSingle());
+    if (error) throw error;
+  }
+  if (!plan) return null;
+
+  const days: string[] = [];
+  const dates = Object.keys(plan.meals || {})
+    .filter((key) => !key.startsWith("_") && key >= today)
+    .sort()
+    .slice(0, MAX_PLAN_DAYS);
+  for (const date of dates) {
+    const slots = plan.meals[date] || {};
+    const meals = MEAL_SLOTS.flatMap((slot) =>
+      (slots[slot] || []).map(
+        (entry: any) => `${slot}: ${entry.recipeName}${entry.leftoversOf ? " (leftovers)" : ""}`
+      )
+    );
+    if (meals.length > 0) days.push(`${date} — ${meals.join("; ")}`);
+  }
+
+  return { title: plan.title, startDate: plan.start_date, endDate: plan.end_date, days };
+}
+
+/** Everyone's allergies as "Peanuts (Sam)" — empty when nobody has any */
+function allergyList(people: HouseholdPerson[]): string[] {
+  return people.flatMap((p) => p.allergies.map((a) => `${a} (${p.name})`));
+}
+
+/** Context block for the system prompt, or "" when there's nothing to add */
+export function formatHouseholdContext(context: HouseholdContext): string {
+  const sections: string[] = [];
+
+  if (context.people.length > 0 || context.householdSize > 1) {
+    const lines = [`Household size: ${context.householdSize}`];
+    for (const p of context.people) {
+      const who = [p.relationship, p.age != null ? `age ${p.age}` : null].filter(Boolean).join(", ");
+      const details: string[] = [];
+      if (p.allergies.length) details.push(`ALLERGIC to ${p.allergies.join(", ")}`);
+      if (p.dietaryRestrictions.length) details.push(`diet: ${p.dietaryRestrictions.join(", ")}`);
+      if (p.likedFoods.length) details.push(`likes ${p.likedFoods.join(", ")}`);
+      if (p.dislikedFoods.length) details.push(`dislikes ${p.dislikedFoods.join(", ")}`);
+      lines.push(`- ${p.name}${who ? ` (${who})` : ""}${details.length ? `: ${details.join("; ")}` : ""}`);
+    }
+    sections.push(`## Household\n${lines.join("\n")}`);
+  }
+
+  if (context.mealPlan) {
+    const { title, startDate, endDate, days } = context.mealPlan;
+    const heading = `${title || "Meal plan"} (${startDate} to ${endDate})`;
+    sections.push(`## Current meal plan\n${heading}\n${days.length ? days.join("\n") : "Nothing planned yet from today on."}`);
+  }
+
+  if (context.reactions.length > 0) {
+    const liked = context.reactions.filter((r) => r.reaction === "thumbs_up");
+    const disliked = context.reactions.filter((r) => r.reaction === "thumbs_down");
+    const lines: string[] = [];
+    if (liked.length) lines.push(`Liked: ${liked.map((r) => `${r.recipe} (${r.name})`).join(", ")}`);
+    if (disliked.length) lines.push(`Disliked: ${disliked.map((r) => `${r.recipe} (${r.name})`).join(", ")}`);
+    sections.push(`## Recent recipe reactions\n${lines.join("\n")}`);
+  }
+
+  if (sections.length === 0) return "";
+
+  const rules = [
+    "- Tailor suggestions to this household: respect every dietary restriction and lean towards what they like",
+    "- Never suggest a dish containing a household member's allergen without offering a safe substitution",
+  ];
+  const allergies = allergyList(context.people);
+  if (allergies.length > 0) {
+    rules.push(
+      `- Household allergies: ${allergies.join(", ")}. If the user asks about a recipe that contains one of these, ` +
+        "start your answer with a clear warning naming the ingredient and the person"
+    );
+  }
+
+  return `# Household Context\n\n${sections.join("\n\n")}\n\n## Using this context\n${rules.join("\n")}`;
+}
+
+/**
+ * Household allergens a recipe's ingredients appear to contain, as "Peanuts (Sam): peanut
+ * butter". Keyword matching, so it can miss things — the prompt still asks the model to check.
+ */
+export function findAllergenConflicts(ingredients: unknown, people: HouseholdPerson[]): string[] {
+  const names = ingredientNames(ingredients);
+  const conflicts: string[] = [];
+  for (const person of people) {
+    for (const allergy of person.allergies) {
+      const hits = allergenHits(names, allergy.toLowerCase());
+      if (hits.length > 0) conflicts.push(`${allergy} (${person.name}): ${hits.join(", ")}`);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Household dietary restrictions a recipe appears to break, as "Vegetarian (Sam): bacon".
+ * A recipe tagged with the restriction ("vegetarian", "gluten-free") is taken at its word.
+ */
+export function findDietConflicts(
+  recipe: { ingredients?: unknown; tags?: string[] | null },
+  people: HouseholdPerson[]
+): string[] {
+  const names = ingredientNames(recipe.ingredients);
+  const tags = new Set((recipe.tags || []).map(normalizeDiet));
+  const conflicts: string[] = [];
+  for (const person of people) {
+    for (const restriction of person.dietaryRestrictions) {
+      const key = normalizeDiet(restriction);
+      const rule = DIET_EXCLUSIONS[key];
+      if (!rule || tags.has(key)) continue;
+      const keywordPattern = rule.keywords?.length ? new RegExp(`\\b(${rule.keywords.join("|")})s?\\b`) : null;
+      const hits = [
+        ...(rule.allergens || []).flatMap((allergen) => allergenHits(names, allergen)),
+        ...(keywordPattern ? names.filter((n) => keywordPattern.test(n)) : []),
+      ];
+      if (hits.length > 0) conflicts.push(`${restriction} (${person.name}): ${[...new Set(hits)].join(", ")}`);
+    }
+  }
+  return conflicts;
+}
+
+/** "Gluten Free" / "gluten-free" → "gluten-free" */
+export function normalizeDiet(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+function ingredientNames(ingredients: unknown): string[] {
+  if (!Array.isArray(ingredients)) return [];
+  return ingredients
+    .map((i: any) => (typeof i === "string" ? i : i?.name || ""))
+    .filter(Boolean)
+    .map((n: string) => n.toLowerCase());
+}
+
+/**
+ * Ingredient names that give away `allergen` (lower case). Matches anywhere in the name —
+ * a missed allergen is worse than a false alarm.
+ */
+function allergenHits(names: string[], allergen: string): string[] {
+  const pattern = new RegExp(ALLERGEN_KEYWORDS[allergen]?.join("|") || escapeRegExp(allergen.replace(/s$/, "")));
+  const exceptions = ALLERGEN_EXCEPTIONS[allergen] || [];
+  return [...new Set(names.filter((n) => pattern.test(exceptions.reduce((text, e) => text.replaceAll(e, ""), n))))];
+}
@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findAllergenConflicts, findDietConflicts, type HouseholdPerson } from "./household-context.ts";
+
+function person(allergies: string[], dietaryRestrictions: string[] = []): HouseholdPerson {
+  return { name: "Sam", allergies, dietaryRestrictions, likedFoods: [], dislikedFoods: [] };
+}
+
+Deno.test("allergens match inside compound words", () => {
+  const ingredients = ["buttermilk", "eggnog", "cornflour", "shortbread", "codfish", "crabmeat", "peanuts"];
+  assertEquals(findAllergenConflicts(ingredients, [person(["Milk", "Eggs", "Wheat", "Fish", "Shellfish", "Peanuts"])]), [
+    "Milk (Sam): buttermilk",
+    "Eggs (Sam): eggnog",
+    "Wheat (Sam): cornflour, shortbread",
+    "Fish (Sam): codfish",
+    "Shellfish (Sam): crabmeat",
+    "Peanuts (Sam): peanuts",
+  ]);
+});
+
+Deno.test("look-alikes of an allergen are not flagged", () => {
+  const ingredients = ["eggplant", "butternut squash", "buckwheat flour", "coconut milk", "peanut butter"];
+  assertEquals(findAllergenConflicts(ingredients, [person(["Eggs", "Milk"])]), []);
+});
+
+Deno.test("custom allergies match on their own name", () => {
+  assertEquals(findAllergenConflicts([{ name: "Dijon mustard" }], [person(["Mustard"])]), [
+    "Mustard (Sam): dijon mustard",
+  ]);
+});
+
+Deno.test("diet allergens use the same matching", () => {
+  assertEquals(findDietConflicts({ ingredients: ["buttermilk", "chicken"] }, [person([], ["Vegan"])]), [
+    "Vegan (Sam): buttermilk, chicken",
+  ]);
+});
@@ -1,18 +1,49 @@
 // Supabase Edge Function for Chat API
 // Uses shared modules for OpenRouter, prompts, and CORS.
 // Delegates recipe extraction to the recipe-pipeline edge function.
+// App actions run a tool-calling agent (agent.ts) whose writes wait for the
+// user to confirm them through POST /actions.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { corsHeaders, corsResponse, corsError } from "../_shared/cors.ts";
-import { getUserFromToken } from "../_shared/supabase-client.ts";
+import { createServiceClient, getUserFromToken } from "../_shared/supabase-client.ts";
 import {
   OpenRouterClient,
   createOpenRouterClient,
 } from "../_shared/openrouter-client.ts";
+import { loadModelPolicies, type ModelOverrides } from "../_shared/model-policy.ts";
+import { checkUsageQuota, createUsageLogger, quotaExceededResponse } from "../_shared/usage.ts";
 import {
   INTENT_DETECTION_PROMPT,
   GENERAL_CHAT_PROMPT,
 } from "../_shared/recipe-prompts.ts";
+import { callRecipePipeline } from "./pipeline-client.ts";
+import { SEARCH_SCOPES, searchRecipes, type SearchScope } from "./search.ts";
+import {
+  findAllergenConflicts,
+  formatHouseholdContext,
+  loadHouseholdContext,
+  type HouseholdContext,
+} from "./household-context.ts";
+import { formatUserMemories, loadConversationHistory, loadUserMemories, updateChatMemory } from "./memory.ts";
+import {
+  GENERATED_SLOTS,
+  type GeneratedSlot,
+  generateMealPlanFor,
+  MAX_GENERATED_DAYS,
+} from "./meal-plan-generator.ts";
+import { loadMealPlanAllergyConflicts } from "./meal-attendance.ts";
+import {
+  type ChatAction,
+  cancelActions,
+  describeActionResults,
+  executeActions,
+  runAgent,
+} from "./agent.ts";
+import type { ToolContext } from "./tools.ts";
+
+// Supabase Edge Runtime global — streamed replies finish saving after the response is returned
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 // ═══════════════════════════════════════════════════════════════════
 // INTENT DETECTION
@@ -29,16 +60,16 @@ async function detectIntent(
         ? `${message || "Classify this content"}\n\n[${images.length} image(s) provided]`
         : message;
 
-    const response = await openRouter.chat(
-      INTENT_DETECTION_PROMPT,
-      userMessage,
-      "qwen/qwen-2.5-7b-instruct",
-      { temperature: 0.1, max_tokens: 150, response_format: { type: "json_object" } }
+    const response = await openRouter.runTask("intent", (model, settings) =>
+      openRouter.chat(INTENT_DETECTION_PROMPT, userMessage, model, {
+        ...settings,
+        response_format: { type: "json_object" },
+      })
     );
 
     const result = JSON.parse(response);
 
-    const validIntents = ["recipe_extraction", "rag_search", "general_chat"];
+    const validIntents = ["recipe_extraction", "rag_search", "app_action", "general_chat"];
     if (!validIntents.includes(result.intent)) {
       console.warn("Invalid intent:", result.intent);
       return { intent: "general_chat", reason: "Invalid intent", confidence: 0.5 };
@@ -70,11 +101,6 @@ async function extractRecipe(
   userToken: string
 ): Promise<{ success: boolean; recipe?: any; recipes?: any[]; error?: string; source_url?: string }> {
   try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-
-    const pipelineUrl = `${supabaseUrl}/functions/v1/recipe-pipeline/extract-only`;
-
     // Detect URL in message — route to url adapter
     const detectedUrl = extractUrl(message || "");
     let pipelineBody: Record<string, unknown>;
@@ -95,18 +121,7 @@ async function extractRecipe(
       };
     }
 
-    const response = await fetch(pipelineUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${userToken}`,
-        apikey: supabaseKey,
-      },
-      body: JSON.stringify(pipelineBody),
-      signal: AbortSignal.timeout(50000),
-    });
-
-    const result = await response.json();
+    const result = await callRecipePipeline("extract-only", pipelineBody, userToken);
 
     if (result.success && (result.recipe || result.recipes)) {
       if (result.recipes && result.recipes.length > 1) {
@@ -131,49 +146,81 @@ async function extractRecipe(
 }
 
 // ═══════════════════════════════════════════════════════════════════
-// GENERAL CHAT (Direct)
+// CHAT REPLIES
+// General chat and RAG build the prompt for a reply; generateReply
+// answers it in one go, streamReply token by token over SSE.
 // ═══════════════════════════════════════════════════════════════════
 
-async function handleGeneralChat(
-  message: string,
-  conversationId: string,
-  supabase: any,
+interface ChatReply {
+  systemPrompt: string;
+  history: { role: string; content: string }[];
+  message: string;
+  overrides?: ModelOverrides;
+}
+
+const GENERAL_CHAT_FALLBACK =
+  "I apologize, but I'm having trouble processing your message right now. Please try again.";
+const RAG_FALLBACK = "I had trouble searching your recipes. Please try again.";
+const AGENT_FALLBACK = "I had trouble working on that request. Nothing was changed — please try again.";
+
+async function generateReply(
+  buildReply: () => Promise<ChatReply>,
+  fallback: string,
   openRouter: OpenRouterClient
 ): Promise<string> {
   try {
-    const { data: recentMessages, error: historyError } = await supabase
-      .from("chat_messages")
-      .select("content, sender, created_at")
-      .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: false })
-      .limit(10);
-
-    if (historyError) {
-      console.error("Error fetching conversation history:", historyError);
-    }
+    const reply = await buildReply();
+    return await openRouter.runTask(
+      "chat",
+      (model, settings) =>
+        openRouter.chatWithHistory(reply.systemPrompt, reply.history, reply.message, model, settings),
+      reply.overrides
+    );
+  } catch (error) {
+    console.error("Chat reply error:", error);
+    return fallback;
+  }
+}
 
-    const conversationHistory = (recentMessages || [])
-      .reverse()
-      .map((msg: any) => ({
-        role: msg.sender === "user" ? "user" : "assistant",
-        content: msg.content,
-      }));
+// ═══════════════════════════════════════════════════════════════════
+// GENERAL CHAT (Direct)
+// ═══════════════════════════════════════════════════════════════════
 
-    const model = "qwen/qwen-2.5-7b-instruct";
+/** Household context and remembered facts for the system prompt, loaded together */
+async function loadPromptContext(
+  userId: string,
+  today: string,
+  supabase: any
+): Promise<{ household: HouseholdContext; block: string }> {
+  const [household, memories] = await Promise.all([
+    loadHouseholdContext(userId, supabase, today),
+    loadUserMemories(userId, supabase),
+  ]);
+  const block = [formatHouseholdContext(household), formatUserMemories(memories)].filter(Boolean).join("\n\n");
+  return { household, block };
+}
 
-    const response = await openRouter.chatWithHistory(
-      GENERAL_CHAT_PROMPT,
-      conversationHistory,
-      message,
-      model,
-      { temperature: 0.7, max_tokens: 500 }
-    );
+/** Base prompt plus the context block, when there is one */
+function withPromptContext(prompt: string, block: string): string {
+  return block ? `${prompt}\n\n${block}` : prompt;
+}
 
-    return response;
-  } catch (error) {
-    console.error("General chat error:", error);
-    return "I apologize, but I'm having trouble processing your message right now. Please try again.";
-  }
+async function buildGeneralChatReply(
+  message: string,
+  conversationId: string,
+  userId: string,
+  today: string,
+  supabase: any
+): Promise<ChatReply> {
+  const [conversationHistory, context] = await Promise.all([
+    loadConversationHistory(conversationId, supabase),
+    loadPromptContext(userId, today, supabase),
+  ]);
+  return {
+    systemPrompt: withPromptContext(GENERAL_CHAT_PROMPT, context.block),
+    history: conversationHistory,
+    message,
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -190,115 +237,62 @@ Rules:
 - If no results match, say so honestly — don't make up recipes
 - Be concise (2-3 paragraphs max)
 - If the user asks for a recipe you found, include key details (ingredients, cook time)
+- If a result is flagged "Allergy warning", say so prominently whenever you mention that recipe
 - Stay conversational and helpful`;
 
-async function handleRAGSearch(
+async function buildRAGReply(
   message: string,
   conversationId: string,
   userId: string,
+  today: string,
   supabase: any,
   openRouter: OpenRouterClient
-): Promise<string> {
-  try {
-    // Run hybrid search (semantic + text) in parallel
-    let semanticResults: any[] = [];
-    let textResults: any[] = [];
-
-    // Generate embedding for semantic search
-    try {
-      const embedding = await openRouter.generateEmbedding(message);
-      const { data, error } = await supabase.rpc("search_recipes_semantic", {
-        query_embedding: JSON.stringify(embedding),
-        user_id: userId,
-        match_threshold: 0.5,
-        match_count: 5,
-      });
-      if (!error && data) semanticResults = data;
-    } catch (e) {
-      console.warn("Semantic search failed (non-fatal):", e.message);
-    }
-
-    // Text search
-    try {
-      const { data, error } = await supabase.rpc("search_recipes_text", {
-        search_query: message,
-        user_uuid: userId,
-        max_results: 5,
-      });
-      if (!error && data) textResults = data;
-    } catch (e) {
-      console.warn("Text search failed (non-fatal):", e.message);
-    }
-
-    // Combine and deduplicate (semantic results first — higher relevance)
-    const seenIds = new Set<string>();
-    const combinedResults: any[] = [];
-    for (const r of [...semanticResults, ...textResults]) {
-      if (!seenIds.has(r.id)) {
-        seenIds.add(r.id);
-        combinedResults.push(r);
+): Promise<ChatReply> {
+  const [{ recipes: combinedResults }, context] = await Promise.all([
+    searchRecipes(message, supabase, openRouter),
+    loadPromptContext(userId, today, supabase),
+  ]);
+
+  // Format results as context
+  let recipeContext: string;
+  if (combinedResults.length === 0) {
+    recipeContext = "No matching recipes found in the user's collection.";
+  } else {
+    recipeContext = combinedResults.map((r: any) => {
+      const parts = [`Recipe: ${r.title}`];
+      if (r.description) parts.push(`Description: ${r.description}`);
+      if (r.cuisine) parts.push(`Cuisine: ${r.cuisine}`);
+      if (r.difficulty) parts.push(`Difficulty: ${r.difficulty}`);
+      if (r.prep_time) parts.push(`Prep Time: ${r.prep_time}`);
+      if (r.cook_time) parts.push(`Cook Time: ${r.cook_time}`);
+      if (r.servings) parts.push(`Servings: ${r.servings}`);
+      if (r.tags?.length) parts.push(`Tags: ${r.tags.join(", ")}`);
+      if (r.ingredients) {
+        const ingList = Array.isArray(r.ingredients)
+          ? r.ingredients.map((i: any) =>
+              typeof i === "string" ? i : `${i.amount || ""} ${i.unit || ""} ${i.name}`.trim()
+            ).join(", ")
+          : "";
+        if (ingList) parts.push(`Ingredients: ${ingList}`);
       }
-    }
-
-    console.log(`RAG search: ${semanticResults.length} semantic + ${textResults.length} text → ${combinedResults.length} combined`);
-
-    // Format results as context
-    let recipeContext: string;
-    if (combinedResults.length === 0) {
-      recipeContext = "No matching recipes found in the user's collection.";
-    } else {
-      recipeContext = combinedResults.map((r: any) => {
-        const parts = [`Recipe: ${r.title}`];
-        if (r.description) parts.push(`Description: ${r.description}`);
-        if (r.cuisine) parts.push(`Cuisine: ${r.cuisine}`);
-        if (r.difficulty) parts.push(`Difficulty: ${r.difficulty}`);
-        if (r.prep_time) parts.push(`Prep Time: ${r.prep_time}`);
-        if (r.cook_time) parts.push(`Cook Time: ${r.cook_time}`);
-        if (r.servings) parts.push(`Servings: ${r.servings}`);
-        if (r.tags?.length) parts.push(`Tags: ${r.tags.join(", ")}`);
-        if (r.ingredients) {
-          const ingList = Array.isArray(r.ingredients)
-            ? r.ingredients.map((i: any) =>
-                typeof i === "string" ? i : `${i.amount || ""} ${i.unit || ""} ${i.name}`.trim()
-              ).join(", ")
-            : "";
-          if (ingList) parts.push(`Ingredients: ${ingList}`);
-        }
-        return parts.join("\n");
-      }).join("\n---\n");
-    }
-
-    // Get conversation history for context
-    const { data: recentMessages } = await supabase
-      .from("chat_messages")
-      .select("content, sender")
-      .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: false })
-      .limit(6);
-
-    const conversationHistory = (recentMessages || [])
-      .reverse()
-      .map((msg: any) => ({
-        role: msg.sender === "user" ? "user" : "assistant",
-        content: msg.content,
-      }));
+      const conflicts = findAllergenConflicts(r.ingredients, context.household.people);
+      if (conflicts.length) parts.push(`Allergy warning: ${conflicts.join("; ")}`);
+      return parts.join("\n");
+    }).join("\n---\n");
+  }
 
-    // Generate response with recipe context
-    const augmentedMessage = `User question: ${message}\n\n--- Search Results (${combinedResults.length} recipes found) ---\n${recipeContext}`;
+  const conversationHistory = await loadConversationHistory(conversationId, supabase);
 
-    const response = await openRouter.chatWithHistory(
-      RAG_RESPONSE_PROMPT,
-      conversationHistory,
-      augmentedMessage,
-      "qwen/qwen-2.5-7b-instruct",
-      { temperature: 0.5, max_tokens: 800 }
-    );
+  // Generate response with recipe context
+  const augmentedMessage = `User question: ${message}\n\n--- Search Results (${combinedResults.length} recipes found) ---\n${recipeContext}`;
 
-    return response;
-  } catch (error) {
-    console.error("RAG search error:", error);
-    return "I had trouble searching your recipes. Please try again.";
-  }
+  return {
+    systemPrompt: withPromptContext(RAG_RESPONSE_PROMPT, context.block),
+    history: conversationHistory,
+    message: augmentedMessage,
+    // Grounded answers run cooler and longer than general chat
+    overrides: { temperature: 0.5, max_tokens: 800 },
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -342,19 +336,38 @@ serve(async (req) => {
 
     let openRouter: OpenRouterClient;
     try {
-      openRouter = createOpenRouterClient();
+      openRouter = createOpenRouterClient(await loadModelPolicies(supabase));
     } catch {
       return corsError("OpenRouter API key not configured", 500);
     }
+    openRouter.setUsageLogger(createUsageLogger(createServiceClient(), user.id, "chat-api"));
+
+    // Monthly LLM quota — sending a message calls the model
+    if (method === "POST" && path.includes("/message")) {
+      const quota = await checkUsageQuota(supabase);
+      if (quota?.exceeded) return quotaExceededResponse(quota);
+    }
 
     // Route handling
     if (method === "POST" && path.includes("/message")) {
       return await handleSendMessage(req, supabase, user, openRouter, userToken);
+    } else if (method === "POST" && path.includes("/search")) {
+      return await handleSearch(req, supabase, openRouter);
+    } else if (method === "POST" && path.includes("/meal-plan/generate")) {
+      return await handleGenerateMealPlan(req, supabase, user);
+    } else if (method === "GET" && path.includes("/meal-plan/conflicts")) {
+      return await handleMealPlanConflicts(supabase, url.searchParams.get("planId"));
+    } else if (method === "POST" && path.includes("/actions")) {
+      return await handleChatActions(req, supabase, user, openRouter, userToken);
     } else if (method === "GET" && path.includes("/history")) {
       const limit = parseInt(url.searchParams.get("limit") || "50");
       return await handleGetHistory(req, supabase, user, limit);
     } else if (method === "DELETE" && path.includes("/history")) {
       return await handleClearHistory(req, supabase, user);
+    } else if (method === "GET" && path.includes("/memories")) {
+      return await handleGetMemories(supabase, user);
+    } else if (method === "DELETE" && path.includes("/memories")) {
+      return await handleDeleteMemories(req, supabase, user);
     }
 
     return corsError("Route not found", 404);
@@ -368,6 +381,13 @@ serve(async (req) => {
 // HANDLE SEND MESSAGE
 // ═══════════════════════════════════════════════════════════════════
 
+/** The client's local date (YYYY-MM-DD) when it sent a valid one, else the server's UTC date */
+function clientToday(value: unknown): string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? value
+    : new Date().toISOString().split("T")[0];
+}
+
 async function handleSendMessage(
   req: Request,
   supabase: any,
@@ -382,6 +402,7 @@ async function handleSendMessage(
       sessionId,
       intent: manualIntent,
       images = [],
+      stream = false,
     } = await req.json();
 
     if (!message && images.length === 0) {
@@ -501,12 +522,25 @@ async function handleSendMessage(
       };
     }
 
-    // ── Route to service ──
-    let aiResponse: string;
-    let recipe: any = null;
-    let recipes: any[] | null = null;
+    const turn: ChatTurn = {
+      supabase,
+      openRouter,
+      conversationId,
+      sessionId: session_id,
+      message: message || "",
+      userId: user.id,
+      isFirstMessage,
+      routingIntent,
+      intentMetadata,
+      startTime,
+    };
 
+    // ── Route to service ──
     if (routingIntent === "recipe_extraction") {
+      let aiResponse: string;
+      let recipe: any = null;
+      let recipes: any[] | null = null;
+
       const extractionResult = await extractRecipe(message || "", images, userToken);
       if (extractionResult.success) {
         recipe = extractionResult.recipe;
@@ -523,66 +557,329 @@ async function handleSendMessage(
       } else {
         aiResponse = `I had trouble extracting the recipe: ${extractionResult.error}`;
       }
-    } else if (routingIntent === "rag_search") {
-      aiResponse = await handleRAGSearch(message || "", conversationId, user.id, supabase, openRouter);
-    } else {
-      aiResponse = await handleGeneralChat(message || "", conversationId, supabase, openRouter);
+      return corsResponse(await finishMessage(turn, aiResponse, { recipe, recipes }));
+    }
+
+    // The client's local date, so "next week" means the user's next week
+    const today = clientToday(context?.today);
+
+    if (routingIntent === "app_action") {
+      let aiResponse: string;
+      let actions: ChatAction[] = [];
+      try {
+        const [history, context] = await Promise.all([
+          loadConversationHistory(conversationId, supabase),
+          loadPromptContext(user.id, today, supabase),
+        ]);
+        ({ content: aiResponse, actions } = await runAgent(message || "", history, today, context.block, {
+          supabase,
+          userId: user.id,
+          userToken,
+          openRouter,
+          today,
+        }));
+      } catch (error) {
+        console.error("Agent error:", error);
+        aiResponse = AGENT_FALLBACK;
+      }
+      return corsResponse(await finishMessage(turn, aiResponse, { actions }));
+    }
+
+    const buildReply = routingIntent === "rag_search"
+      ? () => buildRAGReply(message || "", conversationId, user.id, today, supabase, openRouter)
+      : () => buildGeneralChatReply(message || "", conversationId, user.id, today, supabase);
+    const fallback = routingIntent === "rag_search" ? RAG_FALLBACK : GENERAL_CHAT_FALLBACK;
+
+    if (stream) return streamReply(turn, buildReply, fallback);
+
+    const aiResponse = await generateReply(buildReply, fallback, openRouter);
+    return corsResponse(await finishMessage(turn, aiResponse));
+  } catch (error) {
+    console.error("handleSendMessage error:", error);
+    return corsError(error.message, 500);
+  }
+}
+
+/** A message being answered: the conversation it belongs to and how it was routed */
+interface ChatTurn {
+  supabase: any;
+  openRouter: OpenRouterClient;
+  conversationId: string;
+  sessionId: string;
+  message: string;
+  userId: string;
+  isFirstMessage: boolean;
+  routingIntent: string;
+  intentMetadata: any;
+  startTime: number;
+}
+
+/**
+ * Save the AI response, title a new conversation, and build the /message payload.
+ * A cancelled stream saves what was generated so far, flagged `cancelled`; one that broke
+ * off mid-answer is flagged `truncated`.
+ */
+async function finishMessage(
+  turn: ChatTurn,
+  aiResponse: string,
+  { recipe = null, recipes = null, actions = [], cancelled = false, truncated = false }: {
+    recipe?: any;
+    recipes?: any[] | null;
+    actions?: ChatAction[];
+    cancelled?: boolean;
+    truncated?: boolean;
+  } = {}
+) {
+  const { supabase, openRouter, conversationId, message } = turn;
+  const routingDuration = Date.now() - turn.startTime;
+
+  // Save AI response
+  const { data: aiMessage } = await supabase
+    .from("chat_messages")
+    .insert({
+      conversation_id: conversationId,
+      content: aiResponse,
+      sender: "ai",
+      message_type: recipe ? "recipe" : "text",
+      metadata: {
+        ...turn.intentMetadata,
+        recipe,
+        recipes,
+        routingDuration,
+        ...(actions.length > 0 ? { pendingActions: actions, actionsStatus: "pending" } : {}),
+        ...(cancelled ? { cancelled: true } : {}),
+        ...(truncated ? { truncated: true } : {}),
+      },
+    })
+    .select()
+    .single();
+
+  // Summary and memory upkeep run after the response — pasted recipes aren't facts to remember
+  EdgeRuntime.waitUntil(updateChatMemory({
+    supabase,
+    openRouter,
+    userId: turn.userId,
+    conversationId,
+    message,
+    extractFacts: turn.routingIntent !== "recipe_extraction",
+  }));
+
+  // Generate a smart title for new conversations (non-blocking on failure)
+  let generatedTitle: string | undefined;
+  if (turn.isFirstMessage) {
+    try {
+      const titleResponse = await openRouter.runTask(
+        "chat",
+        (model, settings) =>
+          openRouter.chat(
+            "Generate a very short title (4-6 words max) for this conversation. Return ONLY the title text, nothing else.",
+            `User: ${message.substring(0, 200)}\nAssistant: ${aiResponse.substring(0, 200)}`,
+            model,
+            settings
+          ),
+        { temperature: 0.3, max_tokens: 20 }
+      );
+      generatedTitle = titleResponse.trim().replace(/^["']|["']$/g, "");
+      if (generatedTitle) {
+        await supabase
+          .from("chat_conversations")
+          .update({ title: generatedTitle })
+          .eq("id", conversationId);
+      }
+    } catch (e) {
+      console.warn("Title generation failed (non-fatal):", e.message);
+    }
+  }
+
+  return {
+    message: "Message processed successfully",
+    response: {
+      id: aiMessage.id,
+      content: aiResponse,
+      sender: "ai",
+      timestamp: new Date().toISOString(),
+    },
+    recipe,
+    recipes: recipes && recipes.length > 1 ? recipes : undefined,
+    actions: actions.length > 0 ? actions : undefined,
+    conversationId,
+    sessionId: turn.sessionId,
+    intentMetadata: turn.intentMetadata,
+    title: generatedTitle,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// STREAMED REPLY (SSE)
+// Events: meta → delta* → done (the usual /message payload) or error.
+// Closing the connection cancels generation; the partial answer is
+// still saved.
+// ═══════════════════════════════════════════════════════════════════
+
+function streamReply(
+  turn: ChatTurn,
+  buildReply: () => Promise<ChatReply>,
+  fallback: string
+): Response {
+  const { openRouter } = turn;
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let output!: ReadableStreamDefaultController<Uint8Array>;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      output = controller;
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (abort.signal.aborted) return;
+    output.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+  };
+
+  const generate = async () => {
+    send("meta", {
+      conversationId: turn.conversationId,
+      sessionId: turn.sessionId,
+      intentMetadata: turn.intentMetadata,
+    });
+
+    let aiResponse = "";
+    let truncated = false;
+    try {
+      const reply = await buildReply();
+      const deltas = await openRouter.runTask(
+        "chat",
+        (model, settings) => {
+          // Don't fall back to another model once the client has gone
+          abort.signal.throwIfAborted();
+          return openRouter.streamChatWithHistory(
+            reply.systemPrompt,
+            reply.history,
+            reply.message,
+            model,
+            { ...settings, signal: abort.signal }
+          );
+        },
+        reply.overrides
+      );
+      for await (const delta of deltas) {
+        aiResponse += delta;
+        send("delta", { content: delta });
+      }
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error("Streaming chat error:", error);
+        truncated = aiResponse !== "";
+      }
+    }
+    // Whatever arrived before a mid-stream failure is kept as the answer
+    if (!aiResponse && !abort.signal.aborted) {
+      aiResponse = fallback;
+      send("delta", { content: fallback });
     }
 
-    const routingDuration = Date.now() - startTime;
+    try {
+      if (aiResponse) {
+        send("done", await finishMessage(turn, aiResponse, { cancelled: abort.signal.aborted, truncated }));
+      }
+    } catch (error) {
+      console.error("Streaming chat save error:", error);
+      send("error", { error: error.message });
+    }
+    if (!abort.signal.aborted) output.close();
+  };
+
+  // Keep the isolate alive to save the answer even if the client disconnects
+  EdgeRuntime.waitUntil(generate());
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
 
-    // Save AI response
-    const { data: aiMessage } = await supabase
+// ═══════════════════════════════════════════════════════════════════
+// HANDLE CHAT ACTIONS
+// Confirm or cancel the writes an agent message staged. The message is
+// claimed first (actionsStatus pending → running) so a double click
+// can't run them twice.
+// ═══════════════════════════════════════════════════════════════════
+
+async function handleChatActions(
+  req: Request,
+  supabase: any,
+  user: any,
+  openRouter: OpenRouterClient,
+  userToken: string
+) {
+  try {
+    const { messageId, decision, actionIds, today } = await req.json();
+    if (!messageId || (decision !== "confirm" && decision !== "cancel")) {
+      return corsError("messageId and decision (confirm | cancel) required", 400);
+    }
+    if (actionIds !== undefined && !Array.isArray(actionIds)) {
+      return corsError("actionIds must be an array", 400);
+    }
+
+    const { data: message, error: findError } = await supabase
+      .from("chat_messages")
+      .select("id, conversation_id, metadata")
+      .eq("id", messageId)
+      .maybeSingle();
+    if (findError) throw findError;
+    if (!message?.metadata?.pendingActions) return corsError("No actions found for this message", 404);
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("chat_messages")
+      .update({ metadata: { ...message.metadata, actionsStatus: "running" } })
+      .eq("id", messageId)
+      .eq("metadata->>actionsStatus", "pending")
+      .select("id");
+    if (claimError) throw claimError;
+    if (!claimed?.length) return corsError("These actions have already been handled", 409);
+
+    const ctx: ToolContext = { supabase, userId: user.id, userToken, openRouter, today: clientToday(today) };
+    const actions: ChatAction[] = decision === "confirm"
+      ? await executeActions(message.metadata.pendingActions, actionIds, ctx)
+      : cancelActions(message.metadata.pendingActions);
+
+    await supabase
+      .from("chat_messages")
+      .update({ metadata: { ...message.metadata, pendingActions: actions, actionsStatus: "resolved" } })
+      .eq("id", messageId);
+
+    const content = describeActionResults(actions);
+    const { data: aiMessage, error: insertError } = await supabase
       .from("chat_messages")
       .insert({
-        conversation_id: conversationId,
-        content: aiResponse,
+        conversation_id: message.conversation_id,
+        content,
         sender: "ai",
-        message_type: recipe ? "recipe" : "text",
-        metadata: { ...intentMetadata, recipe, recipes, routingDuration },
+        message_type: "text",
+        metadata: { actionsFor: messageId },
       })
       .select()
       .single();
-
-    // Generate a smart title for new conversations (non-blocking on failure)
-    let generatedTitle: string | undefined;
-    if (isFirstMessage) {
-      try {
-        const titleResponse = await openRouter.chat(
-          "Generate a very short title (4-6 words max) for this conversation. Return ONLY the title text, nothing else.",
-          `User: ${(message || "").substring(0, 200)}\nAssistant: ${aiResponse.substring(0, 200)}`,
-          "qwen/qwen-2.5-7b-instruct",
-          { temperature: 0.3, max_tokens: 20 }
-        );
-        generatedTitle = titleResponse.trim().replace(/^["']|["']$/g, "");
-        if (generatedTitle) {
-          await supabase
-            .from("chat_conversations")
-            .update({ title: generatedTitle })
-            .eq("id", conversationId);
-        }
-      } catch (e) {
-        console.warn("Title generation failed (non-fatal):", e.message);
-      }
-    }
+    if (insertError) throw insertError;
 
     return corsResponse({
-      message: "Message processed successfully",
+      actions,
       response: {
         id: aiMessage.id,
-        content: aiResponse,
+        content,
         sender: "ai",
-        timestamp: new Date().toISOString(),
+        timestamp: aiMessage.created_at,
       },
-      recipe,
-      recipes: recipes && recipes.length > 1 ? recipes : undefined,
-      conversationId,
-      sessionId: session_id,
-      intentMetadata,
-      title: generatedTitle,
     });
   } catch (error) {
-    console.error("handleSendMessage error:", error);
+    console.error("handleChatActions error:", error);
     return corsError(error.message, 500);
   }
 }
@@ -691,3 +988,177 @@ async function handleClearHistory(req: Request, supabase: any, user: any) {
     return corsError(error.message, 500);
   }
 }
+
+// ═══════════════════════════════════════════════════════════════════
+// RECIPE SEARCH
+// The Recipes page search — hybrid search with the query embedded here,
+// since the browser has no embedding model. Over quota, it ranks on
+// full text only rather than failing.
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_SEARCH_PAGE_SIZE = 50;
+
+async function handleSearch(req: Request, supabase: any, openRouter: OpenRouterClient) {
+  try {
+    const {
+      query = "",
+      scope = "mine",
+      cuisine,
+      difficulty,
+      maxTotalTime,
+      tags,
+      limit = 20,
+      offset = 0,
+    } = await req.json();
+
+    if (typeof query !== "string") return corsError("query must be a string", 400);
+    if (!SEARCH_SCOPES.includes(scope)) {
+      return corsError(`scope must be one of: ${SEARCH_SCOPES.join(", ")}`, 400);
+    }
+
+    const quota = await checkUsageQuota(supabase);
+    const pageSize = Math.min(Math.max(Number(limit) || 20, 1), MAX_SEARCH_PAGE_SIZE);
+    const pageOffset = Math.max(Number(offset) || 0, 0);
+    const { recipes, total } = await searchRecipes(query, supabase, openRouter, {
+      scope: scope as SearchScope,
+      cuisine: typeof cuisine === "string" ? cuisine : undefined,
+      difficulty: typeof difficulty === "string" ? difficulty : undefined,
+      maxTotalTime: Number.isFinite(maxTotalTime) ? Math.round(maxTotalTime) : undefined,
+      tags: Array.isArray(tags) ? tags.filter((t: unknown) => typeof t === "string") : undefined,
+      limit: pageSize,
+      offset: pageOffset,
+      skipEmbedding: !!quota?.exceeded,
+    });
+
+    return corsResponse({ recipes, total, limit: pageSize, offset: pageOffset });
+  } catch (error) {
+    console.error("Recipe search error:", error);
+    return corsError(error.message, 500);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// MEAL PLAN GENERATION
+// A seeded draft for the Meal Planner's "Generate plan" (meal-plan-generator.ts).
+// Nothing is saved; the page adds the meals to the plan.
+// ═══════════════════════════════════════════════════════════════════
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_NO_REPEAT_DAYS = 7;
+const MAX_NO_REPEAT_DAYS = 60;
+
+async function handleGenerateMealPlan(req: Request, supabase: any, user: any) {
+  try {
+    const {
+      startDate,
+      endDate,
+      slots = ["dinner"],
+      maxWeeknightMinutes = null,
+      noRepeatDays = DEFAULT_NO_REPEAT_DAYS,
+      seed,
+      planId,
+    } = await req.json();
+
+    for (const [field, value] of [["startDate", startDate], ["endDate", endDate]]) {
+      if (typeof value !== "string" || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+        return corsError(`${field} must be a date in YYYY-MM-DD format`, 400);
+      }
+    }
+    if (endDate < startDate) return corsError("endDate must not be before startDate", 400);
+    if (Date.parse(endDate) - Date.parse(startDate) > (MAX_GENERATED_DAYS - 1) * 86_400_000) {
+      return corsError(`A plan can be generated for at most ${MAX_GENERATED_DAYS} days`, 400);
+    }
+    if (!Array.isArray(slots) || slots.length === 0 || !slots.every((s) => GENERATED_SLOTS.includes(s))) {
+      return corsError(`slots must list one or more of: ${GENERATED_SLOTS.join(", ")}`, 400);
+    }
+    if (maxWeeknightMinutes !== null && !(Number.isInteger(maxWeeknightMinutes) && maxWeeknightMinutes > 0)) {
+      return corsError("maxWeeknightMinutes must be a positive whole number of minutes", 400);
+    }
+    if (!(Number.isInteger(noRepeatDays) && noRepeatDays >= 0 && noRepeatDays <= MAX_NO_REPEAT_DAYS)) {
+      return corsError(`noRepeatDays must be a whole number from 0 to ${MAX_NO_REPEAT_DAYS}`, 400);
+    }
+    if (seed !== undefined && !Number.isInteger(seed)) return corsError("seed must be an integer", 400);
+    if (planId !== undefined && typeof planId !== "string") return corsError("planId must be a string", 400);
+
+    const result = await generateMealPlanFor(
+      user.id,
+      supabase,
+      {
+        startDate,
+        endDate,
+        slots: slots as GeneratedSlot[],
+        maxWeeknightMinutes,
+        noRepeatDays,
+        // Returned with the plan, so a draft can be generated again exactly
+        seed: seed ?? Math.floor(Math.random() * 2 ** 31),
+      },
+      planId
+    );
+    return corsResponse(result);
+  } catch (error) {
+    console.error("Meal plan generation error:", error);
+    if (error.message === "Meal plan not found") return corsError(error.message, 404);
+    return corsError(error.message, 500);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// MEAL ATTENDANCE
+// Allergy flags for the dependents eating each planned meal (meal-attendance.ts).
+// ═══════════════════════════════════════════════════════════════════
+
+async function handleMealPlanConflicts(supabase: any, planId: string | null) {
+  if (!planId) return corsError("planId is required", 400);
+  try {
+    const conflicts = await loadMealPlanAllergyConflicts(supabase, planId);
+    return corsResponse({ conflicts });
+  } catch (error) {
+    console.error("Meal plan conflict check error:", error);
+    if (error.message === "Meal plan not found") return corsError(error.message, 404);
+    return corsError(error.message, 500);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// MEMORIES
+// Facts the assistant remembered about the user (memory.ts), shown
+// and deleted from Settings.
+// ═══════════════════════════════════════════════════════════════════
+
+async function handleGetMemories(supabase: any, user: any) {
+  try {
+    const { data, error } = await supabase
+      .from("user_memories")
+      .select("id, content, source_conversation_id, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    const memories = (data || []).map((m: any) => ({
+      id: m.id,
+      content: m.content,
+      sourceConversationId: m.source_conversation_id,
+      createdAt: m.created_at,
+    }));
+    return corsResponse({ memories });
+  } catch (error) {
+    return corsError(error.message, 500);
+  }
+}
+
+async function handleDeleteMemories(req: Request, supabase: any, user: any) {
+  try {
+    const url = new URL(req.url);
+    const memoryId = url.searchParams.get("memoryId");
+
+    let query = supabase.from("user_memories").delete().eq("user_id", user.id);
+    if (memoryId) query = query.eq("id", memoryId);
+
+    const { error } = await query;
+    if (error) throw error;
+    return corsResponse({ message: memoryId ? "Memory deleted successfully" : "All memories deleted successfully" });
+  } catch (error) {
+    return corsError(error.message, 500);
+  }
+}
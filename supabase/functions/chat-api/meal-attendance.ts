@@ -0,0 +1,89 @@
+/**
+ * Allergy checks for GET /meal-plan/conflicts: for every planned meal, the dependents
+ * whose allergies the recipe's ingredients appear to contain, and whether they are eating
+ * it (PlannedMealEntry.attendees — everyone when the entry doesn't record attendance).
+ * The planner flags attendees and warns before adding anyone else. Matching is
+ * findAllergenConflicts from household-context.ts. Only dependents have allergies on
+ * record, so members are never flagged.
+ */
+import { dependentToPerson, findAllergenConflicts, type HouseholdPerson } from "./household-context.ts";
+
+const MEAL_SLOTS = ["breakfast", "lunch", "dinner", "snacks"] as const;
+
+export interface MealAllergyConflict {
+  entryId: string;
+  date: string;
+  slot: (typeof MEAL_SLOTS)[number];
+  familyMemberId: string;
+  name: string;
+  attending: boolean;
+  /** "Peanuts (Sam): peanut butter" */
+  conflicts: string[];
+}
+
+/** Conflicts in a plan's meals JSONB, given the ingredients of its recipes by id */
+export function findMealPlanAllergyConflicts(
+  meals: Record<string, any>,
+  ingredientsByRecipe: Map<string, unknown>,
+  dependents: HouseholdPerson[]
+): MealAllergyConflict[] {
+  const conflicts: MealAllergyConflict[] = [];
+  for (const [date, slots] of Object.entries(meals || {})) {
+    if (date.startsWith("_") || !slots || typeof slots !== "object") continue;
+    for (const slot of MEAL_SLOTS) {
+      for (const entry of Array.isArray(slots[slot]) ? slots[slot] : []) {
+        const ingredients = ingredientsByRecipe.get(entry?.recipeId);
+        if (!ingredients) continue;
+        const attendees: any[] | null = Array.isArray(entry.attendees) ? entry.attendees : null;
+        for (const person of dependents) {
+          const found = findAllergenConflicts(ingredients, [person]);
+          if (found.length === 0) continue;
+          conflicts.push({
+            entryId: entry.id,
+            date,
+            slot,
+            familyMemberId: person.id!,
+            name: person.name,
+            attending: !attendees || attendees.some((a) => a?.kind === "family_member" && a.id === person.id),
+            conflicts: found,
+          });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
+
+/** Load a plan the caller can see, its recipes and the household's dependents, and check them */
+export async function loadMealPlanAllergyConflicts(supabase: any, planId: string): Promise<MealAllergyConflict[]> {
+  const { data: plan, error } = await supabase.from("meal_plans").select("id, meals").eq("id", planId).maybeSingle();
+  if (error) throw new Error(`Failed to load meal plan: ${error.message}`);
+  if (!plan) throw new Error("Meal plan not found");
+
+  const { data: household, error: householdError } = await supabase.rpc("get_my_household");
+  if (householdError) throw new Error(`Failed to load household: ${householdError.message}`);
+  const dependents = ((household?.dependents || []) as any[])
+    .map(dependentToPerson)
+    .filter((p) => p.allergies.length > 0);
+  if (dependents.length === 0) return [];
+
+  const recipeIds = new Set<string>();
+  for (const [key, slots] of Object.entries(plan.meals || {})) {
+    if (key.startsWith("_") || !slots || typeof slots !== "object") continue;
+    for (const entries of Object.values(slots as Record<string, any>)) {
+      for (const entry of Array.isArray(entries) ? entries : []) {
+        if (entry?.recipeId) recipeIds.add(entry.recipeId);
+      }
+    }
+  }
+  if (recipeIds.size === 0) return [];
+
+  const { data: recipes, error: recipeError } = await supabase
+    .from("recipes")
+    .select("id, ingredients")
+    .in("id", [...recipeIds]);
+  if (recipeError) throw new Error(`Failed to load recipes: ${recipeError.message}`);
+
+  const ingredientsByRecipe = new Map<string, unknown>((recipes || []).map((r: any) => [r.id, r.ingredients]));
+  return findMealPlanAllergyConflicts(plan.meals, ingredientsByRecipe, dependents);
+}
@@ -0,0 +1,291 @@
+/**
+ * Meal plan generation for POST /meal-plan/generate. Fills the empty breakfast, lunch and
+ * dinner slots of a date range with the household's own and shared recipes:
+ *   - recipes containing a household allergen, or breaking someone's dietary restriction,
+ *     are left out (keyword matching from household-context.ts)
+ *   - recipes the household reacted to with more thumbs down than up are left out; thumbs
+ *     up make a recipe more likely
+ *   - weeknight (Monday–Friday) dinners can be capped by total cook time
+ *   - a recipe isn't planned again within `noRepeatDays` of another day it is on — in this
+ *     plan or any other — and cuisines already on nearby days are less likely
+ * generateMealPlan is pure and seeded: the same recipes, household and seed always give
+ * the same plan. Nothing is saved — the caller adds the result to a plan as a draft.
+ */
+import {
+  findAllergenConflicts,
+  findDietConflicts,
+  type HouseholdContext,
+  loadHouseholdContext,
+  normalizeDiet,
+} from "./household-context.ts";
+
+export const GENERATED_SLOTS = ["breakfast", "lunch", "dinner"] as const;
+export type GeneratedSlot = (typeof GENERATED_SLOTS)[number];
+
+export const MAX_GENERATED_DAYS = 31;
+const MAX_CANDIDATES = 500;
+const MAX_REACTIONS = 1000;
+/** Days either side of a slot in which a cuisine counts against variety */
+const CUISINE_WINDOW_DAYS = 3;
+const DEFAULT_SERVINGS = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanCandidate {
+  id: string;
+  title: string;
+  image_url: string | null;
+  cuisine: string | null;
+  tags: string[] | null;
+  ingredients: unknown;
+  prep_time: number | null;
+  cook_time: number | null;
+  total_time: number | null;
+  servings: number | null;
+}
+
+export interface MealPlanGeneratorOptions {
+  startDate: string;
+  endDate: string;
+  slots: GeneratedSlot[];
+  /** Minutes; longer dinners aren't planned Monday–Friday. Recipes without a time pass */
+  maxWeeknightMinutes: number | null;
+  /** 0 allows repeats */
+  noRepeatDays: number;
+  seed: number;
+}
+
+/** The meals JSONB of a meal plan — ISO date keys → slot → entries */
+export type PlanMeals = Record<string, any>;
+
+export interface GeneratedMealPlan {
+  /** Only the new entries, in the PlannedMealEntry shape, to merge into the plan */
+  meals: Record<string, Partial<Record<GeneratedSlot, any[]>>>;
+  /** Empty slots no recipe fitted */
+  unfilled: { date: string; slot: GeneratedSlot }[];
+  /** Recipes ruled out before picking, so a thin plan can be explained */
+  excluded: { allergy: number; diet: number; disliked: number };
+  candidates: number;
+  seed: number;
+}
+
+/** mulberry32 — small, fast and good enough for picking dinners */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A v4-shaped id from the seeded generator, so generated plans compare equal */
+function seededId(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = "4";
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  const s = hex.join("");
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function dateOf(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split("T")[0];
+}
+
+function totalMinutes(recipe: PlanCandidate): number | null {
+  if (recipe.total_time) return recipe.total_time;
+  if (recipe.prep_time == null && recipe.cook_time == null) return null;
+  return (recipe.prep_time || 0) + (recipe.cook_time || 0);
+}
+
+function slotEntries(meals: PlanMeals, date: string, slot: string): any[] {
+  const entries = meals?.[date]?.[slot];
+  return Array.isArray(entries) ? entries : [];
+}
+
+/**
+ * Plan the empty slots of `plan` between the option dates. `history` holds the meals of
+ * every plan near the range (including `plan`) and is only used to avoid repeats.
+ */
+export function generateMealPlan(
+  candidates: PlanCandidate[],
+  household: Pick<HouseholdContext, "people" | "reactions">,
+  plan: PlanMeals,
+  history: PlanMeals[],
+  options: MealPlanGeneratorOptions
+): GeneratedMealPlan {
+  const random = seededRandom(options.seed);
+  const result: GeneratedMealPlan = {
+    meals: {},
+    unfilled: [],
+    excluded: { allergy: 0, diet: 0, disliked: 0 },
+    candidates: 0,
+    seed: options.seed,
+  };
+
+  const votes = new Map<string, number>();
+  const dislikes = new Map<string, number>();
+  for (const r of household.reactions) {
+    const map = r.reaction === "thumbs_up" ? votes : dislikes;
+    map.set(r.recipeId, (map.get(r.recipeId) || 0) + 1);
+  }
+  // Restrictions with no ingredient rule (keto, low-sodium, ...) favour recipes tagged with them
+  const preferredTags = new Set(household.people.flatMap((p) => p.dietaryRestrictions.map(normalizeDiet)));
+
+  // Sorted so the database's row order can't change the outcome
+  const eligible: { recipe: PlanCandidate; weight: number; tags: Set<string> }[] = [];
+  for (const recipe of [...candidates].sort((a, b) => a.id.localeCompare(b.id))) {
+    if (findAllergenConflicts(recipe.ingredients, household.people).length > 0) {
+      result.excluded.allergy++;
+      continue;
+    }
+    if (findDietConflicts(recipe, household.people).length > 0) {
+      result.excluded.diet++;
+      continue;
+    }
+    const up = votes.get(recipe.id) || 0;
+    const down = dislikes.get(recipe.id) || 0;
+    if (down > up) {
+      result.excluded.disliked++;
+      continue;
+    }
+    const tags = new Set((recipe.tags || []).map(normalizeDiet));
+    const dietBonus = [...tags].some((t) => preferredTags.has(t)) ? 2 : 1;
+    eligible.push({ recipe, weight: (1 + up - down) * dietBonus, tags });
+  }
+  result.candidates = eligible.length;
+
+  // Days each recipe is on, and the cuisine of every planned day
+  const recipeDays = new Map<string, number[]>();
+  const cuisineDays: { day: number; cuisine: string }[] = [];
+  const cuisineById = new Map(candidates.map((c) => [c.id, c.cuisine?.toLowerCase() || null]));
+  const record = (recipeId: string, day: number) => {
+    recipeDays.set(recipeId, [...(recipeDays.get(recipeId) || []), day]);
+    const cuisine = cuisineById.get(recipeId);
+    if (cuisine) cuisineDays.push({ day, cuisine });
+  };
+  for (const meals of history) {
+    for (const [date, slots] of Object.entries(meals || {})) {
+      if (date.startsWith("_") || !slots || typeof slots !== "object") continue;
+      for (const entries of Object.values(slots)) {
+        for (const entry of Array.isArray(entries) ? entries : []) {
+          if (entry?.recipeId) record(entry.recipeId, dayNumber(date));
+        }
+      }
+    }
+  }
+
+  const first = dayNumber(options.startDate);
+  const last = dayNumber(options.endDate);
+  const slots = GENERATED_SLOTS.filter((s) => options.slots.includes(s));
+
+  for (let day = first; day <= last; day++) {
+    const date = dateOf(day);
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    const isWeeknight = weekday >= 1 && weekday <= 5;
+
+    for (const slot of slots) {
+      if (slotEntries(plan, date, slot).length > 0) continue;
+
+      const choices: { recipe: PlanCandidate; weight: number }[] = [];
+      for (const { recipe, weight, tags } of eligible) {
+        const used = recipeDays.get(recipe.id) || [];
+        if (options.noRepeatDays > 0 && used.some((d) => Math.abs(d - day) < options.noRepeatDays)) continue;
+        if (used.includes(day)) continue;
+        if (slot === "dinner" && isWeeknight && options.maxWeeknightMinutes != null) {
+          const minutes = totalMinutes(recipe);
+          if (minutes != null && minutes > options.maxWeeknightMinutes) continue;
+        }
+
+        let w = weight;
+        // Recipes tagged for a meal go to that meal
+        if (tags.has(slot)) w *= 4;
+        else if (GENERATED_SLOTS.some((s) => s !== slot && tags.has(s))) w *= 0.25;
+        const cuisine = recipe.cuisine?.toLowerCase();
+        if (cuisine) {
+          const nearby = cuisineDays.filter((c) => c.cuisine === cuisine && Math.abs(c.day - day) <= CUISINE_WINDOW_DAYS).length;
+          w /= 1 + 2 * nearby;
+        }
+        choices.push({ recipe, weight: w });
+      }
+
+      if (choices.length === 0) {
+        result.unfilled.push({ date, slot });
+        continue;
+      }
+
+      const total = choices.reduce((sum, c) => sum + c.weight, 0);
+      let target = random() * total;
+      const picked = choices.find((c) => (target -= c.weight) < 0)?.recipe ?? choices[choices.length - 1].recipe;
+
+      record(picked.id, day);
+      const dayMeals = (result.meals[date] ??= {});
+      dayMeals[slot] = [
+        {
+          id: seededId(random),
+          recipeId: picked.id,
+          recipeName: picked.title,
+          recipeImage: picked.image_url || undefined,
+          servings: picked.servings || DEFAULT_SERVINGS,
+          prepTime: picked.prep_time ?? undefined,
+          cookTime: picked.cook_time ?? undefined,
+        },
+      ];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Load what generateMealPlan needs for the caller and run it: their own recipes and those
+ * shared with the household (RLS decides which), the household's people and reactions,
+ * the plan being filled (`planId`, if any) and their plans within the repeat window.
+ */
+export async function generateMealPlanFor(
+  userId: string,
+  supabase: any,
+  options: MealPlanGeneratorOptions,
+  planId?: string
+): Promise<GeneratedMealPlan> {
+  const windowStart = dateOf(dayNumber(options.startDate) - options.noRepeatDays);
+  const windowEnd = dateOf(dayNumber(options.endDate) + options.noRepeatDays);
+
+  const [household, recipes, plans] = await Promise.all([
+    loadHouseholdContext(userId, supabase, options.startDate, { maxReactions: MAX_REACTIONS }),
+    supabase
+      .from("recipes")
+      .select("id, title, image_url, cuisine, tags, ingredients, prep_time, cook_time, total_time, servings")
+      .or(`user_id.eq.${userId},visibility.eq.household`)
+      .order("id")
+      .limit(MAX_CANDIDATES),
+    supabase
+      .from("meal_plans")
+      .select("id, meals")
+      .eq("user_id", userId)
+      .lte("start_date", windowEnd)
+      .gte("end_date", windowStart),
+  ]);
+  if (recipes.error) throw new Error(`Failed to load recipes: ${recipes.error.message}`);
+  if (plans.error) throw new Error(`Failed to load meal plans: ${plans.error.message}`);
+
+  let plan: PlanMeals = {};
+  if (planId) {
+    const target = (plans.data || []).find((p: any) => p.id === planId);
+    if (!target) throw new Error("Meal plan not found");
+    plan = target.meals || {};
+  }
+
+  return generateMealPlan(
+    recipes.data || [],
+    household,
+    plan,
+    (plans.data || []).map((p: any) => p.meals),
+    options
+  );
+}
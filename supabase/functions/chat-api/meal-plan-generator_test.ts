@@ -0,0 +1,43 @@
+import { assertEquals, assertNotEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { generateMealPlan, type MealPlanGeneratorOptions, type PlanCandidate } from "./meal-plan-generator.ts";
+
+const CUISINES = ["italian", "mexican", "thai", "indian", null];
+
+const candidates: PlanCandidate[] = Array.from({ length: 24 }, (_, i) => ({
+  id: `00000000-0000-4000-8000-${String(i).padStart(12, "0")}`,
+  title: `Recipe ${i}`,
+  image_url: null,
+  cuisine: CUISINES[i % CUISINES.length],
+  tags: null,
+  ingredients: ["onion", "rice"],
+  prep_time: 10,
+  cook_time: 10 + i * 5,
+  total_time: null,
+  servings: 4,
+}));
+
+const household = { people: [], reactions: [] };
+
+function generate(seed: number, recipes = candidates) {
+  const options: MealPlanGeneratorOptions = {
+    startDate: "2026-03-02",
+    endDate: "2026-03-15",
+    slots: ["breakfast", "lunch", "dinner"],
+    maxWeeknightMinutes: 60,
+    noRepeatDays: 3,
+    seed,
+  };
+  return generateMealPlan(recipes, household, {}, [], options);
+}
+
+Deno.test("the same seed gives the same plan", () => {
+  assertEquals(generate(42), generate(42));
+});
+
+Deno.test("the order recipes are loaded in doesn't change the plan", () => {
+  assertEquals(generate(42, [...candidates].reverse()), generate(42));
+});
+
+Deno.test("different seeds give different plans", () => {
+  assertNotEquals(generate(1).meals, generate(2).meals);
+});
@@ -0,0 +1,203 @@
+/**
+ * Chat memory (migration 032). Each conversation keeps a rolling summary: once enough
+ * messages pile up after `summarized_through`, the older ones are folded into
+ * chat_conversations.summary and only the newest go to the model verbatim. Lasting facts
+ * the user states are extracted into user_memories and added to the prompt in every
+ * conversation. Both are updated after the reply has been sent.
+ */
+import type { OpenRouterClient } from "../_shared/openrouter-client.ts";
+import { CONVERSATION_SUMMARY_PROMPT, MEMORY_EXTRACTION_PROMPT } from "../_shared/recipe-prompts.ts";
+
+export type ChatHistory = { role: string; content: string }[];
+
+/** Unsummarised messages it takes before the older ones are folded into the summary */
+const SUMMARIZE_AFTER = 12;
+/** Newest messages left out of the summary, so recent turns stay verbatim */
+const KEEP_VERBATIM = 6;
+/**
+ * Most messages loaded as history: everything a summary hasn't covered yet is at most the
+ * threshold plus the message just sent. Only bites when summaries keep failing.
+ */
+const MAX_HISTORY = SUMMARIZE_AFTER + 1;
+/** Most messages folded in one summary update */
+const SUMMARY_BATCH = 50;
+/** Long messages (pasted recipes) are cut to this many characters for the summarizer */
+const MAX_SUMMARY_MESSAGE_CHARS = 1000;
+/** Memories given to the model (and to the extractor, to skip known facts) — the most recent */
+const MAX_PROMPT_MEMORIES = 50;
+const MAX_NEW_MEMORIES = 5;
+const MAX_MEMORY_CHARS = 500;
+
+/**
+ * Every message since the conversation's summary (up to MAX_HISTORY), oldest first, as chat
+ * roles — led by the summary itself, as a system message, when there is one. Anything that
+ * dropped out of the history is in the summary.
+ */
+export async function loadConversationHistory(conversationId: string, supabase: any): Promise<ChatHistory> {
+  const { data: conversation, error: conversationError } = await supabase
+    .from("chat_conversations")
+    .select("summary, summarized_through")
+    .eq("id", conversationId)
+    .maybeSingle();
+  if (conversationError) {
+    console.error("Error fetching conversation summary:", conversationError);
+  }
+
+  let query = supabase
+    .from("chat_messages")
+    .select("content, sender, created_at")
+    .eq("conversation_id", conversationId);
+  if (conversation?.summarized_through) query = query.gt("created_at", conversation.summarized_through);
+
+  const { data: recentMessages, error: historyError } = await query
+    .order("created_at", { ascending: false })
+    .limit(MAX_HISTORY);
+  if (historyError) {
+    console.error("Error fetching conversation history:", historyError);
+  }
+
+  const history: ChatHistory = (recentMessages || [])
+    .reverse()
+    .map((msg: any) => ({
+      role: msg.sender === "user" ? "user" : "assistant",
+      content: msg.content,
+    }));
+  if (conversation?.summary) {
+    history.unshift({ role: "system", content: `Summary of the earlier conversation:\n${conversation.summary}` });
+  }
+  return history;
+}
+
+/** The user's remembered facts, newest first */
+export async function loadUserMemories(userId: string, supabase: any): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("user_memories")
+    .select("content")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_PROMPT_MEMORIES);
+  if (error) {
+    console.warn("Memory lookup failed (non-fatal):", error.message);
+    return [];
+  }
+  return (data || []).map((m: any) => m.content);
+}
+
+/** Memory block for the system prompt, or "" when there's nothing remembered */
+export function formatUserMemories(memories: string[]): string {
+  if (memories.length === 0) return "";
+  return `# What You Remember About This User\n${memories.map((m) => `- ${m}`).join("\n")}\n\n` +
+    "Use these where they're relevant. Don't list them back unless the user asks what you remember.";
+}
+
+/**
+ * Post-reply upkeep: fold old messages into the conversation summary and, when
+ * `extractFacts` is set, remember new facts from the user's message. Failures are logged.
+ */
+export async function updateChatMemory(params: {
+  supabase: any;
+  openRouter: OpenRouterClient;
+  userId: string;
+  conversationId: string;
+  message: string;
+  extractFacts: boolean;
+}): Promise<void> {
+  const { supabase, openRouter, userId, conversationId, message } = params;
+  try {
+    await summarizeConversation(conversationId, supabase, openRouter);
+  } catch (e) {
+    console.warn("Conversation summary failed (non-fatal):", e.message);
+  }
+
+  if (!params.extractFacts || !message.trim()) return;
+  try {
+    await extractMemories(userId, conversationId, message, supabase, openRouter);
+  } catch (e) {
+    console.warn("Memory extraction failed (non-fatal):", e.message);
+  }
+}
+
+async function summarizeConversation(
+  conversationId: string,
+  supabase: any,
+  openRouter: OpenRouterClient
+): Promise<void> {
+  const { data: conversation, error } = await supabase
+    .from("chat_conversations")
+    .select("summary, summarized_through")
+    .eq("id", conversationId)
+    .single();
+  if (error) throw error;
+
+  let query = supabase
+    .from("chat_messages")
+    .select("content, sender, created_at")
+    .eq("conversation_id", conversationId);
+  if (conversation.summarized_through) query = query.gt("created_at", conversation.summarized_through);
+  const { data: messages, error: messagesError } = await query
+    .order("created_at", { ascending: true })
+    .limit(SUMMARY_BATCH);
+  if (messagesError) throw messagesError;
+  if (!messages || messages.length <= SUMMARIZE_AFTER) return;
+
+  const older = messages.slice(0, -KEEP_VERBATIM);
+  const transcript = older
+    .map((m: any) => `${m.sender === "user" ? "User" : "Assistant"}: ${m.content.substring(0, MAX_SUMMARY_MESSAGE_CHARS)}`)
+    .join("\n\n");
+  const input = `${conversation.summary ? `Summary so far:\n${conversation.summary}\n\n` : ""}New messages:\n${transcript}`;
+
+  const summary = (await openRouter.runTask(
+    "chat",
+    (model, settings) => openRouter.chat(CONVERSATION_SUMMARY_PROMPT, input, model, settings),
+    { temperature: 0.3, max_tokens: 400 }
+  )).trim();
+  if (!summary) return;
+
+  const { error: updateError } = await supabase
+    .from("chat_conversations")
+    .update({ summary, summarized_through: older[older.length - 1].created_at })
+    .eq("id", conversationId);
+  if (updateError) throw updateError;
+  console.log(`Summarized ${older.length} messages of conversation ${conversationId}`);
+}
+
+async function extractMemories(
+  userId: string,
+  conversationId: string,
+  message: string,
+  supabase: any,
+  openRouter: OpenRouterClient
+): Promise<void> {
+  const known = await loadUserMemories(userId, supabase);
+  const input = `Known memories:\n${known.length ? known.map((m) => `- ${m}`).join("\n") : "(none)"}\n\n` +
+    `User message:\n${message.substring(0, 2000)}`;
+
+  const response = await openRouter.runTask(
+    "chat",
+    (model, settings) =>
+      openRouter.chat(MEMORY_EXTRACTION_PROMPT, input, model, {
+        ...settings,
+        response_format: { type: "json_object" },
+      }),
+    { temperature: 0.2, max_tokens: 300 }
+  );
+
+  const seen = new Set(known.map((m) => m.toLowerCase()));
+  const fresh: string[] = [];
+  for (const item of JSON.parse(response).memories ?? []) {
+    if (typeof item !== "string") continue;
+    const content = item.trim().substring(0, MAX_MEMORY_CHARS);
+    if (!content || seen.has(content.toLowerCase())) continue;
+    seen.add(content.toLowerCase());
+    fresh.push(content);
+  }
+
+  for (const content of fresh.slice(0, MAX_NEW_MEMORIES)) {
+    const { error } = await supabase
+      .from("user_memories")
+      .insert({ user_id: userId, content, source_conversation_id: conversationId });
+    // 23505: already remembered with different casing
+    if (error && error.code !== "23505") throw error;
+  }
+  if (fresh.length > 0) console.log(`Remembered ${Math.min(fresh.length, MAX_NEW_MEMORIES)} new fact(s) for user ${userId}`);
+}
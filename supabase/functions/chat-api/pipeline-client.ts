@@ -0,0 +1,30 @@
+/**
+ * Calls to the recipe-pipeline edge function, made as the chat user so its RLS and
+ * usage accounting apply.
+ */
+
+/** Pipeline routes can run a full LLM extraction */
+const PIPELINE_TIMEOUT_MS = 50_000;
+
+/** POST `body` to recipe-pipeline/`route` and return the parsed PipelineResult */
+export async function callRecipePipeline(
+  route: "extract-only" | "ingest",
+  body: Record<string, unknown>,
+  userToken: string
+): Promise<any> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/recipe-pipeline/${route}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${userToken}`,
+      apikey: supabaseKey,
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(PIPELINE_TIMEOUT_MS),
+  });
+
+  return response.json();
+}
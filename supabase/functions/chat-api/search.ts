@@ -0,0 +1,67 @@
+/**
+ * Hybrid recipe search through the search_recipes_hybrid RPC (migration 033), which
+ * fuses semantic and full-text rankings with weighted reciprocal rank fusion. Used by
+ * RAG answers, the agent's search_recipes tool and POST /search. Embedding the query
+ * is best-effort — without it the RPC ranks on full text alone.
+ */
+import type { OpenRouterClient } from "../_shared/openrouter-client.ts";
+import { loadEmbeddingSettings } from "../_shared/embedding-utils.ts";
+
+export type SearchScope = "mine" | "household" | "public" | "accessible";
+
+export interface RecipeSearchOptions {
+  scope?: SearchScope;
+  cuisine?: string;
+  difficulty?: string;
+  /** Minutes — total_time, or prep + cook when it isn't set */
+  maxTotalTime?: number;
+  /** Matches recipes with any of these tags */
+  tags?: string[];
+  semanticWeight?: number;
+  textWeight?: number;
+  limit?: number;
+  offset?: number;
+  /** Rank on full text only — nothing is sent to the embedding model */
+  skipEmbedding?: boolean;
+}
+
+export const SEARCH_SCOPES: SearchScope[] = ["mine", "household", "public", "accessible"];
+
+export async function searchRecipes(
+  query: string,
+  supabase: any,
+  openRouter: OpenRouterClient,
+  options: RecipeSearchOptions = {}
+): Promise<{ recipes: any[]; total: number }> {
+  // Embedded with the active model — the RPC only compares vectors of that model
+  const { activeModel } = await loadEmbeddingSettings(supabase);
+  let embedding: number[] | null = null;
+  if (query.trim() && !options.skipEmbedding) {
+    try {
+      embedding = await openRouter.generateEmbedding(query, activeModel);
+    } catch (e) {
+      console.warn("Query embedding failed, searching text only (non-fatal):", e.message);
+    }
+  }
+
+  const { data, error } = await supabase.rpc("search_recipes_hybrid", {
+    search_query: query,
+    query_embedding: embedding ? JSON.stringify(embedding) : null,
+    search_scope: options.scope ?? "mine",
+    filter_cuisine: options.cuisine || null,
+    filter_difficulty: options.difficulty || null,
+    max_total_time: options.maxTotalTime ?? null,
+    filter_tags: options.tags?.length ? options.tags : null,
+    semantic_weight: options.semanticWeight ?? 1.0,
+    text_weight: options.textWeight ?? 1.0,
+    page_size: options.limit ?? 5,
+    page_offset: options.offset ?? 0,
+    query_model: activeModel,
+  });
+  if (error) throw error;
+
+  const recipes = data || [];
+  const total = recipes[0]?.total_count ?? 0;
+  console.log(`Recipe search: ${recipes.length} of ${total} (${embedding ? "hybrid" : "text only"})`);
+  return { recipes, total };
+}
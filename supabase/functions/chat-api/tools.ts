@@ -0,0 +1,431 @@
+/**
+ * Tools for the chat agent (see agent.ts). Read tools run as soon as the model calls
+ * them; write tools are staged as pending actions and run only after the user confirms.
+ * They act as the chat user on the same tables the app uses — meal_plans (meals and
+ * grocery_list JSONB, same shapes as src/types/mealPlan.ts) and recipes.
+ */
+import type { OpenRouterClient, ToolDefinition } from "../_shared/openrouter-client.ts";
+import { callRecipePipeline } from "./pipeline-client.ts";
+import { searchRecipes } from "./search.ts";
+
+export interface ToolContext {
+  supabase: any;
+  userId: string;
+  userToken: string;
+  openRouter: OpenRouterClient;
+  /** The user's local date (YYYY-MM-DD) — "today" for tools that default to the current plan */
+  today: string;
+}
+
+interface ChatTool {
+  definition: ToolDefinition;
+  /** Changes the user's data — staged for confirmation instead of run by the agent */
+  write: boolean;
+  /** Write tools: validate the arguments and describe the action for the user. Throws if invalid. */
+  prepare?: (args: any, ctx: ToolContext) => Promise<string>;
+  run: (args: any, ctx: ToolContext) => Promise<unknown>;
+}
+
+const MEAL_SLOTS = ["breakfast", "lunch", "dinner", "snacks"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SEARCH_RESULTS = 10;
+const MAX_PLAN_DAYS = 31;
+
+// ═══════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════
+
+function requireDate(value: unknown, field: string): string {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/** "Tue, Mar 17" */
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Sunday-to-Saturday week containing `date`, as the meal planner shows it */
+function weekOf(date: string): { start: string; end: string } {
+  const start = addDays(date, -new Date(`${date}T00:00:00Z`).getUTCDay());
+  return { start, end: addDays(start, 6) };
+}
+
+async function getRecipe(recipeId: unknown, ctx: ToolContext) {
+  if (typeof recipeId !== "string" || !recipeId) throw new Error("recipe_id is required");
+  const { data, error } = await ctx.supabase
+    .from("recipes")
+    .select("id, title, image_url, servings, prep_time, cook_time, ingredients")
+    .eq("id", recipeId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`No recipe with id ${recipeId}`);
+  return data;
+}
+
+/** The user's non-archived plan covering `date`, if any */
+async function findPlanCovering(date: string, ctx: ToolContext) {
+  const { data, error } = await ctx.supabase
+    .from("meal_plans")
+    .select("*")
+    .eq("user_id", ctx.userId)
+    .neq("status", "archived")
+    .lte("start_date", date)
+    .gte("end_date", date)
+    .order("start_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function insertPlan(
+  fields: { title?: string | null; start_date: string; end_date: string; notes?: string | null },
+  ctx: ToolContext
+) {
+  const { data, error } = await ctx.supabase
+    .from("meal_plans")
+    .insert({
+      user_id: ctx.userId,
+      created_by: ctx.userId,
+      last_edited_by: ctx.userId,
+      title: fields.title || null,
+      start_date: fields.start_date,
+      end_date: fields.end_date,
+      meals: {},
+      notes: fields.notes || null,
+      status: "draft",
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+async function updatePlan(planId: string, fields: Record<string, unknown>, ctx: ToolContext) {
+  const { error } = await ctx.supabase
+    .from("meal_plans")
+    .update({ ...fields, last_edited_by: ctx.userId })
+    .eq("id", planId);
+  if (error) throw error;
+}
+
+function validatePlanRange(args: any): { start: string; end: string } {
+  const start = requireDate(args.start_date, "start_date");
+  const end = requireDate(args.end_date, "end_date");
+  if (end < start) throw new Error("end_date must not be before start_date");
+  if (Date.parse(end) - Date.parse(start) > (MAX_PLAN_DAYS - 1) * 86_400_000) {
+    throw new Error(`A meal plan can cover at most ${MAX_PLAN_DAYS} days`);
+  }
+  return { start, end };
+}
+
+function validateGroceryItem(args: any) {
+  if (typeof args.name !== "string" || !args.name.trim()) throw new Error("name is required");
+  if (args.amount !== undefined && args.amount !== null && !(Number(args.amount) > 0)) {
+    throw new Error("amount must be a positive number");
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// TOOLS
+// ═══════════════════════════════════════════════════════════════════
+
+const TOOLS: Record<string, ChatTool> = {
+  search_recipes: {
+    write: false,
+    definition: {
+      type: "function",
+      function: {
+        name: "search_recipes",
+        description: "Search the user's saved recipes by meaning and keywords. Returns recipe ids to use with the other tools.",
+        parameters: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "What to look for, e.g. \"vegetarian dinner\" or \"chicken thighs\"" },
+            cuisine: { type: "string", description: "Only this cuisine, e.g. \"Italian\"" },
+            difficulty: { type: "string", enum: ["easy", "medium", "hard"] },
+            max_total_time: { type: "integer", description: "Only recipes ready within this many minutes" },
+            tags: { type: "array", items: { type: "string" }, description: "Only recipes with any of these tags" },
+            limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS },
+          },
+          required: ["query"],
+        },
+      },
+    },
+    run: async (args, ctx) => {
+      if (typeof args.query !== "string" || !args.query.trim()) throw new Error("query is required");
+      const limit = Math.min(Math.max(Number(args.limit) || 5, 1), MAX_SEARCH_RESULTS);
+      const { recipes } = await searchRecipes(args.query, ctx.supabase, ctx.openRouter, {
+        cuisine: typeof args.cuisine === "string" ? args.cuisine : undefined,
+        difficulty: typeof args.difficulty === "string" ? args.difficulty : undefined,
+        maxTotalTime: Number.isInteger(args.max_total_time) ? args.max_total_time : undefined,
+        tags: Array.isArray(args.tags) ? args.tags.filter((t: unknown) => typeof t === "string") : undefined,
+        limit,
+      });
+      return {
+        recipes: recipes.map((r: any) => ({
+          id: r.id,
+          title: r.title,
+          description: r.description ?? null,
+          cuisine: r.cuisine ?? null,
+          tags: r.tags ?? [],
+          prep_time: r.prep_time ?? null,
+          cook_time: r.cook_time ?? null,
+          servings: r.servings ?? null,
+        })),
+      };
+    },
+  },
+
+  scale_recipe: {
+    write: false,
+    definition: {
+      type: "function",
+      function: {
+        name: "scale_recipe",
+        description: "Scale a saved recipe's ingredient amounts to a number of servings. Doesn't change the saved recipe.",
+        parameters: {
+          type: "object",
+          properties: {
+            recipe_id: { type: "string" },
+            servings: { type: "integer", minimum: 1 },
+          },
+          required: ["recipe_id", "servings"],
+        },
+      },
+    },
+    run: async (args, ctx) => {
+      const servings = Number(args.servings);
+      if (!Number.isInteger(servings) || servings < 1) throw new Error("servings must be a positive whole number");
+      const recipe = await getRecipe(args.recipe_id, ctx);
+      const original = recipe.servings || 4;
+      const factor = servings / original;
+
+      return {
+        recipe_id: recipe.id,
+        title: recipe.title,
+        original_servings: original,
+        servings,
+        ingredients: (Array.isArray(recipe.ingredients) ? recipe.ingredients : []).map((i: any) =>
+          typeof i === "string"
+            ? i
+            : { ...i, amount: typeof i.amount === "number" ? Math.round(i.amount * factor * 100) / 100 : i.amount }
+        ),
+      };
+    },
+  },
+
+  create_meal_plan: {
+    write: true,
+    definition: {
+      type: "function",
+      function: {
+        name: "create_meal_plan",
+        description: "Create an empty draft meal plan for a date range. add_recipe_to_plan creates one for the week automatically, so only use this when the user asks for a plan.",
+        parameters: {
+          type: "object",
+          properties: {
+            start_date: { type: "string", description: "YYYY-MM-DD" },
+            end_date: { type: "string", description: "YYYY-MM-DD" },
+            title: { type: "string" },
+            notes: { type: "string" },
+          },
+          required: ["start_date", "end_date"],
+        },
+      },
+    },
+    prepare: async (args) => {
+      const { start, end } = validatePlanRange(args);
+      const name = args.title ? `"${args.title}"` : "a meal plan";
+      return `Create ${name} for ${formatDay(start)} – ${formatDay(end)}`;
+    },
+    run: async (args, ctx) => {
+      const { start, end } = validatePlanRange(args);
+      const plan = await insertPlan({ title: args.title, start_date: start, end_date: end, notes: args.notes }, ctx);
+      return { meal_plan_id: plan.id };
+    },
+  },
+
+  add_recipe_to_plan: {
+    write: true,
+    definition: {
+      type: "function",
+      function: {
+        name: "add_recipe_to_plan",
+        description: "Add a saved recipe to a meal slot on a date. Uses the meal plan covering that date, creating a draft plan for the week if there is none.",
+        parameters: {
+          type: "object",
+          properties: {
+            recipe_id: { type: "string" },
+            date: { type: "string", description: "YYYY-MM-DD" },
+            slot: { type: "string", enum: MEAL_SLOTS },
+            servings: { type: "integer", minimum: 1 },
+          },
+          required: ["recipe_id", "date", "slot"],
+        },
+      },
+    },
+    prepare: async (args, ctx) => {
+      const date = requireDate(args.date, "date");
+      if (!MEAL_SLOTS.includes(args.slot)) throw new Error(`slot must be one of ${MEAL_SLOTS.join(", ")}`);
+      const recipe = await getRecipe(args.recipe_id, ctx);
+      return `Add "${recipe.title}" to ${args.slot} on ${formatDay(date)}`;
+    },
+    run: async (args, ctx) => {
+      const date = requireDate(args.date, "date");
+      const recipe = await getRecipe(args.recipe_id, ctx);
+
+      let plan = await findPlanCovering(date, ctx);
+      const createdPlan = !plan;
+      if (!plan) {
+        const week = weekOf(date);
+        plan = await insertPlan({ start_date: week.start, end_date: week.end }, ctx);
+      }
+
+      const meals = { ...(plan.meals || {}) };
+      const day = { ...(meals[date] || {}) };
+      day[args.slot] = [
+        ...(day[args.slot] || []),
+        {
+          id: crypto.randomUUID(),
+          recipeId: recipe.id,
+          recipeName: recipe.title,
+          recipeImage: recipe.image_url || undefined,
+          servings: Number(args.servings) || recipe.servings || 4,
+          prepTime: recipe.prep_time ?? undefined,
+          cookTime: recipe.cook_time ?? undefined,
+        },
+      ];
+      meals[date] = day;
+
+      await updatePlan(plan.id, { meals }, ctx);
+      return { meal_plan_id: plan.id, created_plan: createdPlan };
+    },
+  },
+
+  add_grocery_item: {
+    write: true,
+    definition: {
+      type: "function",
+      function: {
+        name: "add_grocery_item",
+        description: "Add an item to a meal plan's grocery list — by default the plan covering today, or else the next upcoming one.",
+        parameters: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            amount: { type: "number" },
+            unit: { type: "string" },
+            meal_plan_id: { type: "string" },
+          },
+          required: ["name"],
+        },
+      },
+    },
+    prepare: async (args) => {
+      validateGroceryItem(args);
+      const quantity = [args.amount, args.unit].filter(Boolean).join(" ");
+      return `Add ${quantity ? `${quantity} ` : ""}${args.name.trim()} to the grocery list`;
+    },
+    run: async (args, ctx) => {
+      validateGroceryItem(args);
+
+      let plan;
+      if (args.meal_plan_id) {
+        const { data, error } = await ctx.supabase.from("meal_plans").select("*").eq("id", args.meal_plan_id).maybeSingle();
+        if (error) throw error;
+        plan = data;
+      } else {
+        const { today } = ctx;
+        plan = await findPlanCovering(today, ctx);
+        if (!plan) {
+          const { data, error } = await ctx.supabase
+            .from("meal_plans")
+            .select("*")
+            .eq("user_id", ctx.userId)
+            .neq("status", "archived")
+            .gt("start_date", today)
+            .order("start_date", { ascending: true })
+            .limit(1)
+            .maybeSingle();
+          if (error) throw error;
+          plan = data;
+        }
+      }
+      if (!plan) throw new Error("There's no meal plan to add groceries to — create one first");
+
+      const item = {
+        id: crypto.randomUUID(),
+        name: args.name.trim(),
+        amount: args.amount ? Number(args.amount) : null,
+        unit: args.unit?.trim() || "",
+        category: "other",
+        sourceRecipes: [],
+        isManual: true,
+        isChecked: false,
+        isRemoved: false,
+      };
+      await updatePlan(plan.id, {
+        grocery_list: {
+          items: [...(plan.grocery_list?.items || []), item],
+          lastGenerated: plan.grocery_list?.lastGenerated || new Date().toISOString(),
+        },
+      }, ctx);
+      return { meal_plan_id: plan.id, item_id: item.id };
+    },
+  },
+
+  save_recipe: {
+    write: true,
+    definition: {
+      type: "function",
+      function: {
+        name: "save_recipe",
+        description: "Save a new recipe to the user's collection, from a recipe page URL or the full recipe text (title, ingredients and steps — e.g. a recipe you wrote for them).",
+        parameters: {
+          type: "object",
+          properties: {
+            url: { type: "string" },
+            text: { type: "string" },
+          },
+        },
+      },
+    },
+    prepare: async (args) => {
+      if (args.url && /^https?:\/\//i.test(args.url)) return `Save the recipe from ${args.url}`;
+      if (typeof args.text !== "string" || !args.text.trim()) throw new Error("Provide a recipe url or text");
+      const title = args.text.trim().split("\n")[0].replace(/^#+\s*/, "").substring(0, 60);
+      return `Save "${title}" to your recipes`;
+    },
+    run: async (args, ctx) => {
+      const body = args.url
+        ? { source_type: "url", url: args.url, auto_save: true }
+        : { source_type: "text", text: args.text, auto_save: true };
+      const result = await callRecipePipeline("ingest", body, ctx.userToken);
+      if (!result.success || !result.recipe_id) {
+        throw new Error(result.errors?.[0]?.message || "Saving the recipe failed");
+      }
+      return { recipe_id: result.recipe_id, title: result.recipe?.title };
+    },
+  },
+};
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = Object.values(TOOLS).map((t) => t.definition);
+
+export function getTool(name: string): ChatTool | undefined {
+  return TOOLS[name];
+}
@@ -0,0 +1,55 @@
+/**
+ * Embedding Worker Edge Function
+ *
+ * Regenerates recipe embeddings queued in recipe_embedding_queue (edited or new recipes,
+ * and admin-triggered full re-embeds). Meant to be called on a schedule — see
+ * docs/API.md for a pg_cron example — and kicked by admin-api after a re-embed is queued.
+ * Callers authenticate with the service role key.
+ *
+ * Routes:
+ *   POST /embedding-worker — embed due recipes in batches until the queue is empty or
+ *                            the time budget runs out; returns the run summary
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, corsResponse, corsError } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/supabase-client.ts";
+import { createOpenRouterClient } from "../_shared/openrouter-client.ts";
+import { loadModelPolicies } from "../_shared/model-policy.ts";
+import { processEmbeddingQueue } from "./worker.ts";
+
+const MAX_BATCH_SIZE = 100;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") return corsError("Method not allowed", 405);
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token || token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return corsError("Service role key required", 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const batchSize = body.batchSize === undefined ? undefined : Number(body.batchSize);
+    if (batchSize !== undefined && !(Number.isInteger(batchSize) && batchSize >= 1 && batchSize <= MAX_BATCH_SIZE)) {
+      return corsError(`batchSize must be an integer from 1 to ${MAX_BATCH_SIZE}`, 400);
+    }
+
+    const supabase = createServiceClient();
+    let openRouter;
+    try {
+      openRouter = createOpenRouterClient(await loadModelPolicies(supabase));
+    } catch {
+      return corsError("OpenRouter API key not configured", 500);
+    }
+
+    const summary = await processEmbeddingQueue(supabase, openRouter, { batchSize });
+    return corsResponse(summary);
+  } catch (error) {
+    console.error("Embedding worker error:", error);
+    return corsError(error.message || "Internal server error", 500);
+  }
+});
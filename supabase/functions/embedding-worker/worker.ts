@@ -0,0 +1,183 @@
+/**
+ * Drains recipe_embedding_queue (migration 034): claims due recipes in batches, embeds
+ * each with createRecipeText/generateEmbedding and stores the vector through
+ * store_recipe_embedding — with the active model and, during a model migration
+ * (migration 035), the target model too. A failure
+ * schedules a retry with exponential backoff; after EMBEDDING_MAX_ATTEMPTS the row stays
+ * queued with its last_error for the admin queue status.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { OpenRouterClient } from "../_shared/openrouter-client.ts";
+import {
+  createRecipeText,
+  EMBEDDING_MAX_ATTEMPTS,
+  EMBEDDING_TEXT_VERSION,
+  type EmbeddingSettings,
+  loadEmbeddingSettings,
+} from "../_shared/embedding-utils.ts";
+import { createUsageLogger } from "../_shared/usage.ts";
+
+const DEFAULT_BATCH_SIZE = 20;
+/** Stop claiming new batches after this long, well inside the edge function wall clock */
+const DEFAULT_TIME_BUDGET_MS = 100_000;
+/** A claimed row is given back to the queue if the worker hasn't finished it by then */
+const LOCK_SECONDS = 300;
+const BASE_RETRY_SECONDS = 60;
+const MAX_RETRY_SECONDS = 6 * 60 * 60;
+
+export interface EmbeddingRunSummary {
+  /** Recipes claimed */
+  processed: number;
+  embedded: number;
+  failed: number;
+  /** Edited again while being embedded — left queued for the newer content */
+  superseded: number;
+}
+
+interface ClaimedRecipe {
+  recipe_id: string;
+  reason: string;
+  attempts: number;
+  enqueued_at: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  cuisine: string | null;
+  difficulty: string | null;
+  tags: string[] | null;
+  ingredients: any[] | null;
+  instructions: any[] | null;
+  updated_at: string;
+  /** Tags of the vector on the recipes row, when it has one */
+  embedding_model: string | null;
+  embedding_version: number | null;
+  /** Vectors in recipe_embeddings */
+  stored_embeddings: { model: string; version: number }[];
+}
+
+/** Seconds to wait before retrying a recipe that has failed `attempts` times */
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(MAX_RETRY_SECONDS, BASE_RETRY_SECONDS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Embed queued recipes until the queue has nothing due or the time budget runs out.
+ * `supabase` must be a service-role client. Usage is recorded against each recipe's owner.
+ */
+export async function processEmbeddingQueue(
+  supabase: SupabaseClient,
+  openRouter: OpenRouterClient,
+  options: { batchSize?: number; timeBudgetMs?: number } = {}
+): Promise<EmbeddingRunSummary> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const summary: EmbeddingRunSummary = { processed: 0, embedded: 0, failed: 0, superseded: 0 };
+  const settings = await loadEmbeddingSettings(supabase);
+
+  while (Date.now() < deadline) {
+    const { data, error } = await supabase.rpc("claim_recipe_embedding_batch", {
+      batch_size: batchSize,
+      max_attempts: EMBEDDING_MAX_ATTEMPTS,
+      lock_seconds: LOCK_SECONDS,
+    });
+    if (error) throw new Error(`Failed to claim embedding batch: ${error.message}`);
+
+    const batch = (data || []) as ClaimedRecipe[];
+    if (batch.length === 0) break;
+
+    for (const recipe of batch) {
+      summary.processed++;
+      const outcome = await embedRecipe(recipe, settings, supabase, openRouter);
+      summary[outcome]++;
+    }
+    if (batch.length < batchSize) break;
+  }
+
+  openRouter.setUsageLogger(null);
+  console.log(
+    `Embedding worker: ${summary.embedded} embedded, ${summary.failed} failed, ` +
+      `${summary.superseded} superseded of ${summary.processed}`
+  );
+  return summary;
+}
+
+/**
+ * The models the recipe needs a current vector for: the active model and, while migrating,
+ * the target. A re-embed redoes both even when they look current.
+ */
+function modelsToEmbed(recipe: ClaimedRecipe, settings: EmbeddingSettings): string[] {
+  const stored = [
+    ...(recipe.embedding_model ? [{ model: recipe.embedding_model, version: recipe.embedding_version ?? 0 }] : []),
+    ...recipe.stored_embeddings,
+  ];
+  const models = [settings.activeModel, ...(settings.targetModel ? [settings.targetModel] : [])];
+  if (recipe.reason === "reembed") return models;
+  return models.filter((model) => !stored.some((s) => s.model === model && s.version >= EMBEDDING_TEXT_VERSION));
+}
+
+async function embedRecipe(
+  recipe: ClaimedRecipe,
+  settings: EmbeddingSettings,
+  supabase: SupabaseClient,
+  openRouter: OpenRouterClient
+): Promise<"embedded" | "failed" | "superseded"> {
+  try {
+    openRouter.setUsageLogger(createUsageLogger(supabase, recipe.user_id, "embedding-worker"));
+    const text = createRecipeText({
+      ...recipe,
+      ingredients: recipe.ingredients ?? [],
+      instructions: recipe.instructions ?? [],
+      tags: recipe.tags ?? [],
+    } as any);
+
+    // Each write bumps updated_at; a null return means an edit got in first and re-queued it
+    let updatedAt: string | null = recipe.updated_at;
+    for (const model of modelsToEmbed(recipe, settings)) {
+      const vector = await openRouter.generateEmbedding(text, model);
+      const { data, error } = await supabase.rpc("store_recipe_embedding", {
+        p_recipe_id: recipe.recipe_id,
+        p_expected_updated_at: updatedAt,
+        p_model: model,
+        p_version: EMBEDDING_TEXT_VERSION,
+        p_embedding: JSON.stringify(vector),
+        p_text_content: text,
+      });
+      if (error) throw new Error(error.message);
+      updatedAt = data;
+      if (!updatedAt) {
+        await releaseClaim(recipe, supabase, {});
+        return "superseded";
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from("recipe_embedding_queue")
+      .delete()
+      .eq("recipe_id", recipe.recipe_id)
+      .eq("enqueued_at", recipe.enqueued_at);
+    if (deleteError) console.warn(`Failed to dequeue recipe ${recipe.recipe_id}:`, deleteError.message);
+    return "embedded";
+  } catch (error) {
+    const message = error.message || String(error);
+    console.error(`Embedding recipe ${recipe.recipe_id} failed (attempt ${recipe.attempts}):`, message);
+    await releaseClaim(recipe, supabase, {
+      last_error: message.substring(0, 500),
+      next_attempt_at: new Date(Date.now() + retryDelaySeconds(recipe.attempts) * 1000).toISOString(),
+    });
+    return "failed";
+  }
+}
+
+/** Unlock a claimed row — unless it was re-queued since, which already reset it */
+async function releaseClaim(
+  recipe: ClaimedRecipe,
+  supabase: SupabaseClient,
+  fields: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from("recipe_embedding_queue")
+    .update({ ...fields, locked_until: null })
+    .eq("recipe_id", recipe.recipe_id)
+    .eq("enqueued_at", recipe.enqueued_at);
+  if (error) console.warn(`Failed to release queued recipe ${recipe.recipe_id}:`, error.message);
+}
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ImportFileFormat } from "../../_shared/recipe-schema.ts";
+import type { ImportedRecipe, IntermediateContent, PipelineRequest, SourceAdapter } from "./types.ts";
+import { isGzip, isZip, listZip } from "./formats/archive.ts";
+import { decodeBase64 } from "./formats/common.ts";
+import { parsePaprika } from "./formats/paprika.ts";
+import { isMealieRecipe, parseMealie } from "./formats/mealie.ts";
+import { isTandoorRecipe, parseTandoor } from "./formats/tandoor.ts";
+import { isMealMaster, parseMealMaster } from "./formats/mealmaster.ts";
+import { findJsonLdRecipes, parseJsonLd } from "./formats/jsonld.ts";
+
+const ADAPTER_VERSION = "1.0.0";
+
+/** Recipes taken from one file — each one is embedded and saved in a single pipeline run */
+const MAX_RECIPES_PER_FILE = 100;
+
+/** Decoded export size limit — large libraries should be split into several files */
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+const IMAGE_BUCKET = "recipe-images";
+
+const PARSERS: Record<ImportFileFormat, (data: Uint8Array) => Promise<ImportedRecipe[]> | ImportedRecipe[]> = {
+  paprika: parsePaprika,
+  mealie: parseMealie,
+  tandoor: parseTandoor,
+  mealmaster: parseMealMaster,
+  jsonld: parseJsonLd,
+};
+
+/**
+ * File adapter — parses recipe-manager exports (Paprika, Mealie, Tandoor, MealMaster, JSON-LD)
+ * deterministically into structured recipes, so extract skips the LLM entirely.
+ * Photos embedded in the export are uploaded to the recipe-images bucket.
+ */
+export async function fileAdapter(
+  file: PipelineRequest["file"],
+  userId: string,
+  supabase: SupabaseClient
+): Promise<IntermediateContent> {
+  if (!file?.data) throw new Error("File contents are required for file source_type");
+
+  let data: Uint8Array;
+  try {
+    data = decodeBase64(file.data);
+  } catch {
+    throw new Error("File data must be base64-encoded");
+  }
+  if (data.length > MAX_FILE_BYTES) {
+    throw new Error(`File is too large (max ${MAX_FILE_BYTES / 1024 / 1024} MB)`);
+  }
+
+  const format = file.format ?? (await detectFormat(file.name || "", data));
+  if (!format || !PARSERS[format]) {
+    throw new Error(
+      "Unrecognized export file — supported formats are Paprika, Mealie, Tandoor, MealMaster and JSON-LD"
+    );
+  }
+
+  const parsed = (await PARSERS[format](data)).filter(
+    ({ recipe }) => recipe.title && (recipe.ingredients.length > 0 || recipe.instructions.length > 0)
+  );
+  if (parsed.length === 0) throw new Error(`No recipes found in ${format} export`);
+
+  const imported = parsed.slice(0, MAX_RECIPES_PER_FILE);
+  let imagesUploaded = 0;
+  for (const [i, item] of imported.entries()) {
+    if (!item.image) continue;
+    const url = await uploadImage(item.image, `${userId}/imports/${Date.now()}-${i}`, supabase);
+    if (url) {
+      item.recipe.imageUrl = url;
+      imagesUploaded++;
+    }
+  }
+
+  console.log(`File adapter: ${imported.length} ${format} recipe(s), ${imagesUploaded} image(s) uploaded`);
+
+  return {
+    raw_text: imported.map(({ recipe }) => recipe.title).join("\n"),
+    images: [],
+    structured_recipes: imported.map(({ recipe }) => recipe),
+    source_metadata: {
+      source_type: "file",
+      source_name: file.name || undefined,
+      extracted_at: new Date().toISOString(),
+      adapter_version: ADAPTER_VERSION,
+      extra: {
+        file_format: format,
+        recipes_found: parsed.length,
+        recipes_imported: imported.length,
+        truncated: parsed.length > imported.length,
+        images_uploaded: imagesUploaded,
+      },
+    },
+  };
+}
+
+export const fileSource: SourceAdapter = {
+  sourceTypes: ["file"],
+  version: ADAPTER_VERSION,
+  validate: (request) => {
+    if (!request.file?.data) return "file.data is required for file source_type";
+    if (request.file.format && !PARSERS[request.file.format]) {
+      return `Unsupported file.format: "${request.file.format}". Must be one of: ${Object.keys(PARSERS).join(", ")}.`;
+    }
+    return null;
+  },
+  run: (request, { userId, supabase }) => fileAdapter(request.file, userId, supabase),
+};
+
+/**
+ * Detect the export format from the file name, then by sniffing the contents.
+ */
+async function detectFormat(name: string, data: Uint8Array): Promise<ImportFileFormat | null> {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".paprikarecipes") || lower.endsWith(".paprikarecipe")) return "paprika";
+  if (lower.endsWith(".mmf") || lower.endsWith(".mm")) return "mealmaster";
+
+  if (isGzip(data)) return "paprika";
+
+  if (isZip(data)) {
+    const names = listZip(data).map((n) => n.toLowerCase());
+    if (names.some((n) => n.endsWith(".paprikarecipe"))) return "paprika";
+    if (names.some((n) => /(^|\/)recipes\/[^/]+\/[^/]+\.json$/.test(n))) return "mealie";
+    if (names.some((n) => n.endsWith(".zip") || /(^|\/)recipe\.json$/.test(n))) return "tandoor";
+    return null;
+  }
+
+  const text = new TextDecoder().decode(data.subarray(0, 64 * 1024));
+  if (isMealMaster(text)) return "mealmaster";
+
+  try {
+    const json = JSON.parse(new TextDecoder().decode(data));
+    if (findJsonLdRecipes(json).length > 0) return "jsonld";
+    const first = Array.isArray(json) ? json[0] : json;
+    if (isMealieRecipe(first)) return "mealie";
+    if (isTandoorRecipe(first)) return "tandoor";
+    if (first && typeof first === "object" && "ingredients" in first && "directions" in first) return "paprika";
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+/** Upload an embedded photo; failures are logged and the recipe is imported without it. */
+async function uploadImage(
+  image: NonNullable<ImportedRecipe["image"]>,
+  pathWithoutExt: string,
+  supabase: SupabaseClient
+): Promise<string | null> {
+  const filePath = `${pathWithoutExt}.${image.contentType.split("/")[1] || "jpg"}`;
+  try {
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(filePath, image.data, { contentType: image.contentType, upsert: false });
+    if (error) {
+      console.warn(`Import image upload failed: ${error.message}`);
+      return null;
+    }
+    const { data } = supabase.storage.from(IMAGE_BUCKET).getPublicUrl(filePath);
+    return data?.publicUrl || null;
+  } catch (error) {
+    console.warn(`Failed to upload import image ${filePath}:`, error.message);
+    return null;
+  }
+}
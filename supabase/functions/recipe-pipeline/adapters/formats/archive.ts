@@ -0,0 +1,229 @@
+/**
+ * Minimal zip + gzip readers/writers for recipe-manager imports and library exports.
+ * Reads stored and deflated zip entries (all the exporters we handle use one of the two);
+ * writes stored entries, since the files inside are small and often already compressed.
+ */
+
+/** Entries read from one archive — exports hold one file per recipe plus images */
+const MAX_ARCHIVE_ENTRIES = 2000;
+
+/**
+ * Total uncompressed bytes read for one import, guarding against zip bombs. Counted
+ * while inflating — the sizes in zip headers are whatever the archive claims.
+ */
+const MAX_UNCOMPRESSED_BYTES = 64 * 1024 * 1024;
+
+/** Uncompressed bytes an import may still read — share one across nested archives */
+export interface InflateBudget {
+  remaining: number;
+}
+
+export function inflateBudget(): InflateBudget {
+  return { remaining: MAX_UNCOMPRESSED_BYTES };
+}
+
+export interface ArchiveEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+export function isGzip(data: Uint8Array): boolean {
+  return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * Read every file entry of a zip archive via its central directory.
+ * Directories and entries using unsupported compression methods are skipped.
+ */
+export async function readZip(data: Uint8Array, budget = inflateBudget()): Promise<ArchiveEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries: ArchiveEntry[] = [];
+
+  for (const { name, method, compressedSize, localOffset } of centralDirectory(data)) {
+    // Local header name/extra lengths can differ from the central directory copy
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) spend(budget, raw.length, "Archive");
+    entries.push({ name, data: method === 0 ? raw : await decompress(raw, "deflate-raw", budget) });
+  }
+
+  return entries;
+}
+
+/** Names of the entries readZip would return, from the central directory alone — nothing is inflated */
+export function listZip(data: Uint8Array): string[] {
+  return [...centralDirectory(data)].map((entry) => entry.name);
+}
+
+/** Decompress a gzip member (e.g. a single .paprikarecipe file). */
+export function gunzip(data: Uint8Array, budget = inflateBudget()): Promise<Uint8Array> {
+  return decompress(data, "gzip", budget);
+}
+
+/** Gzip bytes (used for Paprika `.paprikarecipe` files). */
+export async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Build a zip archive with every entry stored uncompressed. */
+export function writeZip(entries: ArchiveEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+/** Inflate chunk by chunk, giving up as soon as the budget runs out. */
+async function decompress(data: Uint8Array, format: "gzip" | "deflate-raw", budget: InflateBudget): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    try {
+      spend(budget, value.length, format === "gzip" ? "Compressed file" : "Archive");
+    } catch (error) {
+      await reader.cancel();
+      throw error;
+    }
+    chunks.push(value);
+    length += value.length;
+  }
+
+  const out = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, position);
+    position += chunk.length;
+  }
+  return out;
+}
+
+function spend(budget: InflateBudget, bytes: number, what: string) {
+  budget.remaining -= bytes;
+  if (budget.remaining < 0) {
+    throw new Error(`${what} is too large to import (max ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024} MB uncompressed)`);
+  }
+}
+
+interface CentralDirectoryEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+/** Walk a zip's central directory, skipping directories and unsupported compression methods */
+function* centralDirectory(data: Uint8Array): Generator<CentralDirectoryEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) throw new Error("Not a valid zip archive");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  if (entryCount > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`Archive has too many entries (${entryCount}, max ${MAX_ARCHIVE_ENTRIES})`);
+  }
+
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Corrupt zip central directory");
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || (method !== 0 && method !== 8)) continue;
+    yield { name, method, compressedSize, localOffset };
+  }
+}
+
+/** Scan backwards for the end-of-central-directory record (it may be followed by a comment). */
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= minOffset; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) return i;
+  }
+  return -1;
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
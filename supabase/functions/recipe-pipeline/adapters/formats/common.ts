@@ -0,0 +1,74 @@
+/**
+ * Helpers shared by the export-format parsers.
+ */
+import type { ExtractedRecipe } from "../../../_shared/recipe-schema.ts";
+import type { ImportedRecipe } from "../types.ts";
+
+/** Recipe with every field empty — parsers fill in what their format provides */
+export function emptyRecipe(title: string): ExtractedRecipe {
+  return {
+    title,
+    description: null,
+    ingredients: [],
+    instructions: [],
+    prepTime: null,
+    cookTime: null,
+    totalTime: null,
+    servings: null,
+    difficulty: null,
+    tags: [],
+    cuisine: null,
+    nutrition: null,
+    imageUrl: null,
+  };
+}
+
+/** Split a multi-line text field into trimmed, non-empty lines. */
+export function splitLines(value: unknown): string[] {
+  if (typeof value !== "string") return [];
+  return value.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+/** Lowercase, de-duplicate and cap a list of tag names. */
+export function normalizeTags(values: unknown[]): string[] {
+  const tags: string[] = [];
+  for (const value of values) {
+    const tag = String(value ?? "").trim().toLowerCase();
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags.slice(0, 15);
+}
+
+/** First number in a string ("4 servings" → 4), or null. */
+export function leadingNumber(value: unknown): number | null {
+  if (typeof value === "number") return value > 0 ? value : null;
+  const match = String(value ?? "").match(/(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : null;
+}
+
+export function parseJson(data: Uint8Array, label: string): any {
+  try {
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error(`${label} is not valid JSON`);
+  }
+}
+
+export function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/^data:[^,]*,/, "").replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Wrap image bytes with a content type sniffed from their magic number; null for non-images. */
+export function toImage(data: Uint8Array | null | undefined): ImportedRecipe["image"] {
+  if (!data || data.length < 12) return undefined;
+  if (data[0] === 0xff && data[1] === 0xd8) return { data, contentType: "image/jpeg" };
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return { data, contentType: "image/png" };
+  }
+  if (String.fromCharCode(...data.subarray(8, 12)) === "WEBP") return { data, contentType: "image/webp" };
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return { data, contentType: "image/gif" };
+  return undefined;
+}
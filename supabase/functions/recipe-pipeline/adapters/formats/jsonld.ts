@@ -0,0 +1,25 @@
+/**
+ * schema.org Recipe JSON-LD files — a single Recipe, an array, or an `@graph` document
+ * (including our own JSON-LD export).
+ */
+import { mapJsonLdRecipe } from "../json-ld-mapper.ts";
+import type { ImportedRecipe } from "../types.ts";
+import { parseJson } from "./common.ts";
+
+/** Recipe nodes in a parsed JSON-LD document */
+export function findJsonLdRecipes(json: any): Record<string, any>[] {
+  const nodes = Array.isArray(json) ? json : json?.["@graph"] ? json["@graph"] : [json];
+  return nodes.filter((node: any) => {
+    const type = node?.["@type"];
+    return Array.isArray(type) ? type.includes("Recipe") : type === "Recipe";
+  });
+}
+
+export function parseJsonLd(data: Uint8Array): ImportedRecipe[] {
+  return findJsonLdRecipes(parseJson(data, "JSON-LD file")).map((ld) => {
+    const { recipe } = mapJsonLdRecipe(ld);
+    recipe.sourceUrl = typeof ld.url === "string" && ld.url.startsWith("http") ? ld.url : null;
+    recipe.sourceName = typeof ld.author?.name === "string" ? ld.author.name : null;
+    return { recipe };
+  });
+}
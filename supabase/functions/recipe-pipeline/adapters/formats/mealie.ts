@@ -0,0 +1,91 @@
+/**
+ * Mealie exports — a zip with `recipes/<slug>/<slug>.json` plus `recipes/<slug>/images/original.*`,
+ * or a bare recipe JSON (single object or array) downloaded from the recipe page / API.
+ */
+import { parseIngredientLine } from "../../../_shared/ingredient-parser.ts";
+import type { Ingredient } from "../../../_shared/recipe-schema.ts";
+import { mapNutrition, parseDuration } from "../json-ld-mapper.ts";
+import type { ImportedRecipe } from "../types.ts";
+import { isZip, readZip } from "./archive.ts";
+import { emptyRecipe, leadingNumber, normalizeTags, parseJson, splitLines, toImage } from "./common.ts";
+
+/** True when a parsed JSON object looks like a Mealie recipe */
+export function isMealieRecipe(json: any): boolean {
+  return !!json && typeof json === "object" && "recipeIngredient" in json && ("slug" in json || "orgURL" in json);
+}
+
+export async function parseMealie(data: Uint8Array): Promise<ImportedRecipe[]> {
+  if (!isZip(data)) {
+    const json = parseJson(data, "Mealie export");
+    return (Array.isArray(json) ? json : [json]).map((r) => mapMealieRecipe(r));
+  }
+
+  const entries = await readZip(data);
+  const recipes: ImportedRecipe[] = [];
+
+  for (const entry of entries) {
+    const match = entry.name.match(/^(?:.*\/)?recipes\/([^/]+)\/[^/]+\.json$/i);
+    if (!match) continue;
+
+    const imageEntry = entries.find((e) =>
+      new RegExp(`recipes/${escapeRegExp(match[1])}/images/original\\.`, "i").test(e.name)
+    );
+    recipes.push(mapMealieRecipe(parseJson(entry.data, entry.name), imageEntry?.data));
+  }
+
+  return recipes;
+}
+
+export function mapMealieRecipe(m: Record<string, any>, imageData?: Uint8Array): ImportedRecipe {
+  const recipe = emptyRecipe(String(m.name || "").trim());
+
+  recipe.description = String(m.description || "").trim() || null;
+  recipe.ingredients = (Array.isArray(m.recipeIngredient) ? m.recipeIngredient : [])
+    .map(mapIngredient)
+    .filter((i: Ingredient | null): i is Ingredient => i !== null);
+  recipe.instructions = (Array.isArray(m.recipeInstructions) ? m.recipeInstructions : [])
+    .flatMap((step: any) => splitLines(typeof step === "string" ? step : step?.text));
+  recipe.prepTime = parseDuration(m.prepTime);
+  recipe.cookTime = parseDuration(m.performTime ?? m.cookTime);
+  recipe.totalTime = parseDuration(m.totalTime);
+
+  const servings = leadingNumber(m.recipeServings) ?? leadingNumber(m.recipeYield);
+  recipe.servings = servings !== null ? Math.round(servings) : null;
+  recipe.tags = normalizeTags(
+    [...(m.recipeCategory || []), ...(m.tags || [])].map((t: any) => (typeof t === "string" ? t : t?.name))
+  );
+  recipe.nutrition = mapNutrition(m.nutrition);
+  recipe.sourceUrl = String(m.orgURL || "").trim() || null;
+
+  return { recipe, image: toImage(imageData) };
+}
+
+/**
+ * Mealie ingredients are either parsed (quantity/unit/food) or free text in `note`
+ * when the recipe was never run through its ingredient parser.
+ */
+function mapIngredient(item: any): Ingredient | null {
+  if (typeof item === "string") return item.trim() ? parseIngredientLine(item.trim()) : null;
+  if (!item || typeof item !== "object") return null;
+
+  const food = String(item.food?.name || "").trim();
+  const note = String(item.note || "").trim();
+
+  if (!food || item.disableAmount) {
+    const text = String(item.originalText || item.display || note || "").trim();
+    return text ? parseIngredientLine(text) : null;
+  }
+
+  const quantity = typeof item.quantity === "number" && item.quantity > 0 ? item.quantity : null;
+  return {
+    name: food,
+    amount: quantity,
+    unit: String(item.unit?.name || "").trim(),
+    category: "",
+    ...(note ? { notes: note } : {}),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,129 @@
+/**
+ * MealMaster text exports (.mmf / .mm / .txt) — one or more recipes framed by
+ * "MMMMM----- Recipe via Meal-Master" (or "-----") header and footer lines.
+ *
+ * Ingredient lines are fixed-column: amount in columns 1-7, unit code in 9-10,
+ * name from 12. Long lists may use two ingredient columns side by side.
+ */
+import { parseQuantityString } from "../../../_shared/ingredient-parser.ts";
+import type { Ingredient } from "../../../_shared/recipe-schema.ts";
+import type { ImportedRecipe } from "../types.ts";
+import { emptyRecipe, leadingNumber, normalizeTags } from "./common.ts";
+
+const HEADER_RE = /^(?:MMMMM|-----).*Meal-?Master/i;
+const FOOTER_RE = /^(?:MMMMM|-----)\s*$/;
+/** "MMMMM-----SAUCE-----" / "-----SAUCE-----" — a sub-heading inside the ingredient list */
+const SECTION_RE = /^(?:MMMMM|-----)-*\s*([^-].*?)\s*-+\s*$/;
+const INGREDIENT_RE = /^[ \d./-]{7} [ A-Za-z]{2} (\S.*)?$/;
+
+/** MealMaster two-letter unit codes */
+const UNIT_CODES: Record<string, string> = {
+  x: "", ea: "", sm: "small", md: "medium", lg: "large",
+  cn: "can", pk: "package", pn: "pinch", dr: "drop", ds: "dash",
+  ct: "carton", bn: "bunch", sl: "slice",
+  t: "tsp", ts: "tsp", T: "tbsp", tb: "tbsp", fl: "fl oz",
+  c: "cup", pt: "pint", qt: "quart", ga: "gallon",
+  oz: "oz", lb: "lb", ml: "ml", cb: "cubic cm", cl: "cl", dl: "dl", l: "L",
+  mg: "mg", cg: "cg", dg: "dg", g: "g", kg: "kg",
+};
+
+export function isMealMaster(text: string): boolean {
+  return text.split(/\r?\n/, 50).some((line) => HEADER_RE.test(line.trim()));
+}
+
+export function parseMealMaster(data: Uint8Array): ImportedRecipe[] {
+  const lines = new TextDecoder().decode(data).split(/\r?\n/);
+  const recipes: ImportedRecipe[] = [];
+  let block: string[] | null = null;
+
+  for (const line of lines) {
+    if (HEADER_RE.test(line.trim())) {
+      if (block) recipes.push(mapBlock(block));
+      block = [];
+    } else if (block && FOOTER_RE.test(line.trim())) {
+      recipes.push(mapBlock(block));
+      block = null;
+    } else if (block) {
+      block.push(line.replace(/\t/g, "        ").trimEnd());
+    }
+  }
+  if (block) recipes.push(mapBlock(block));
+
+  return recipes.filter(({ recipe }) => recipe.title);
+}
+
+function mapBlock(lines: string[]): ImportedRecipe {
+  const recipe = emptyRecipe("");
+  let i = 0;
+
+  // Header fields: Title / Categories / Yield (or Servings)
+  for (; i < lines.length; i++) {
+    const field = lines[i].match(/^\s*(Title|Categories|Yield|Servings)\s*:\s*(.*)$/i);
+    if (field) {
+      const [, key, value] = field;
+      if (/^title$/i.test(key)) recipe.title = value.trim();
+      else if (/^categories$/i.test(key)) recipe.tags = normalizeTags(value.split(","));
+      else {
+        const servings = leadingNumber(value);
+        recipe.servings = servings !== null ? Math.round(servings) : null;
+      }
+    } else if (lines[i].trim() && recipe.title) {
+      break;
+    }
+  }
+
+  // Ingredients run until the first line that isn't fixed-column
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || SECTION_RE.test(line.trim())) continue;
+    if (!INGREDIENT_RE.test(line)) break;
+
+    // Two-column layout: a second ingredient starts at column 42
+    const columns = line.length > 41 && INGREDIENT_RE.test(line.substring(41))
+      ? [line.substring(0, 40), line.substring(41)]
+      : [line];
+    for (const column of columns) addIngredient(recipe.ingredients, column);
+  }
+
+  // Directions: paragraphs separated by blank lines
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || SECTION_RE.test(line)) {
+      if (current.length) paragraphs.push(current.join(" "));
+      current = [];
+    } else {
+      current.push(line.replace(/^:\s*/, ""));
+    }
+  }
+  if (current.length) paragraphs.push(current.join(" "));
+  recipe.instructions = paragraphs;
+
+  return { recipe };
+}
+
+function addIngredient(ingredients: Ingredient[], column: string) {
+  const amountText = column.substring(0, 7).trim();
+  const code = column.substring(8, 10).trim();
+  const name = column.substring(11).trim();
+  if (!name) return;
+
+  // "-" in the name column continues the previous ingredient ("-finely chopped")
+  if (!amountText && !code && name.startsWith("-") && ingredients.length > 0) {
+    const previous = ingredients[ingredients.length - 1];
+    const extra = name.replace(/^-+\s*/, "");
+    previous.notes = previous.notes ? `${previous.notes} ${extra}` : extra;
+    return;
+  }
+
+  const [baseName, ...rest] = name.split(/[,;]\s*/);
+  const notes = rest.join(", ");
+  ingredients.push({
+    name: baseName.trim() || name,
+    amount: amountText ? parseQuantityString(amountText).amount : null,
+    unit: UNIT_CODES[code] ?? code,
+    category: "",
+    ...(notes ? { notes } : {}),
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Paprika exports — `.paprikarecipes` is a zip of gzipped JSON recipes,
+ * `.paprikarecipe` is a single gzipped JSON recipe.
+ */
+import { parseIngredientLine } from "../../../_shared/ingredient-parser.ts";
+import type { NutritionInfo } from "../../../_shared/recipe-schema.ts";
+import { parseDuration } from "../json-ld-mapper.ts";
+import type { ImportedRecipe } from "../types.ts";
+import { gunzip, inflateBudget, isGzip, isZip, readZip } from "./archive.ts";
+import { decodeBase64, emptyRecipe, leadingNumber, normalizeTags, parseJson, splitLines, toImage } from "./common.ts";
+
+const DIFFICULTIES: Record<string, "easy" | "medium" | "hard"> = {
+  easy: "easy",
+  medium: "medium",
+  moderate: "medium",
+  intermediate: "medium",
+  hard: "hard",
+  difficult: "hard",
+};
+
+export async function parsePaprika(data: Uint8Array): Promise<ImportedRecipe[]> {
+  if (isZip(data)) {
+    // One budget for the zip and every recipe in it
+    const budget = inflateBudget();
+    const entries = await readZip(data, budget);
+    const recipes: ImportedRecipe[] = [];
+    for (const entry of entries) {
+      if (!entry.name.toLowerCase().endsWith(".paprikarecipe")) continue;
+      recipes.push(mapPaprikaRecipe(parseJson(await gunzip(entry.data, budget), entry.name)));
+    }
+    return recipes;
+  }
+
+  // Single recipe — gzipped, or plain JSON from a manual unzip
+  const json = parseJson(isGzip(data) ? await gunzip(data) : data, "Paprika recipe");
+  return (Array.isArray(json) ? json : [json]).map(mapPaprikaRecipe);
+}
+
+export function mapPaprikaRecipe(p: Record<string, any>): ImportedRecipe {
+  const recipe = emptyRecipe(String(p.name || "").trim());
+
+  recipe.description = String(p.description || "").trim() || null;
+  recipe.ingredients = splitLines(p.ingredients).map(parseIngredientLine);
+  recipe.instructions = splitLines(p.directions);
+  recipe.prepTime = parseDuration(p.prep_time);
+  recipe.cookTime = parseDuration(p.cook_time);
+  recipe.totalTime = parseDuration(p.total_time);
+
+  const servings = leadingNumber(p.servings);
+  recipe.servings = servings !== null ? Math.round(servings) : null;
+  recipe.difficulty = DIFFICULTIES[String(p.difficulty || "").trim().toLowerCase()] ?? null;
+  recipe.tags = normalizeTags(Array.isArray(p.categories) ? p.categories : []);
+  recipe.nutrition = parseNutritionText(p.nutritional_info);
+  recipe.sourceUrl = String(p.source_url || "").trim() || null;
+  recipe.sourceName = String(p.source || "").trim() || null;
+
+  if (typeof p.image_url === "string" && p.image_url.startsWith("http")) {
+    recipe.imageUrl = p.image_url;
+  }
+
+  let image: ImportedRecipe["image"];
+  if (typeof p.photo_data === "string" && p.photo_data) {
+    try {
+      image = toImage(decodeBase64(p.photo_data));
+    } catch {
+      console.warn(`Skipping unreadable photo for "${recipe.title}"`);
+    }
+  }
+
+  return { recipe, image };
+}
+
+/** Paprika keeps nutrition as free text ("400 calories, 30 g protein, 12g fat"). */
+function parseNutritionText(value: unknown): NutritionInfo | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const find = (pattern: RegExp) => {
+    const match = value.match(pattern);
+    return match ? Number(match[1]) : undefined;
+  };
+  const nutrition: NutritionInfo = {
+    calories: find(/(\d+(?:\.\d+)?)\s*(?:k?cal(?:ories)?)\b/i) ?? find(/calories\s*:?\s*(\d+(?:\.\d+)?)/i),
+    protein: find(/(\d+(?:\.\d+)?)\s*g\s*protein/i) ?? find(/protein\s*:?\s*(\d+(?:\.\d+)?)/i),
+    carbs: find(/(\d+(?:\.\d+)?)\s*g\s*carb/i) ?? find(/carb\w*\s*:?\s*(\d+(?:\.\d+)?)/i),
+    fat: find(/(\d+(?:\.\d+)?)\s*g\s*fat/i) ?? find(/fat\s*:?\s*(\d+(?:\.\d+)?)/i),
+  };
+  for (const key of Object.keys(nutrition) as (keyof NutritionInfo)[]) {
+    if (nutrition[key] === undefined) delete nutrition[key];
+  }
+  return Object.keys(nutrition).length > 0 ? nutrition : null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Minimal PNG encoder for raw page images pulled out of scanned PDFs,
+ * so they can be sent to the vision model as data URLs.
+ */
+import { crc32 } from "./archive.ts";
+
+export interface RawImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+  /** 1 = grayscale, 3 = RGB, 4 = RGBA */
+  channels: 1 | 3 | 4;
+}
+
+const COLOR_TYPES: Record<RawImage["channels"], number> = { 1: 0, 3: 2, 4: 6 };
+
+/** Encode 8-bit pixels as a PNG (no filtering — scans compress well enough for the vision path). */
+export async function encodePng(image: RawImage): Promise<Uint8Array> {
+  const { width, height, channels } = image;
+  const stride = width * channels;
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"));
+  const idat = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  const header = new Uint8Array(13);
+  const hv = new DataView(header.buffer);
+  hv.setUint32(0, width);
+  hv.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = COLOR_TYPES[channels];
+
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", idat),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+/** Shrink an image so its longer side is at most `maxSide` pixels (box sampling). */
+export function downscale(image: RawImage, maxSide: number): RawImage {
+  const { width, height, channels } = image;
+  const scale = Math.max(width, height) / maxSide;
+  if (scale <= 1) return image;
+
+  const outWidth = Math.max(1, Math.floor(width / scale));
+  const outHeight = Math.max(1, Math.floor(height / scale));
+  const out = new Uint8Array(outWidth * outHeight * channels);
+
+  for (let y = 0; y < outHeight; y++) {
+    const y0 = Math.floor(y * scale);
+    const y1 = Math.min(height, Math.max(y0 + 1, Math.floor((y + 1) * scale)));
+    for (let x = 0; x < outWidth; x++) {
+      const x0 = Math.floor(x * scale);
+      const x1 = Math.min(width, Math.max(x0 + 1, Math.floor((x + 1) * scale)));
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) sum += image.data[(sy * width + sx) * channels + c];
+        }
+        out[(y * outWidth + x) * channels + c] = Math.round(sum / ((y1 - y0) * (x1 - x0)));
+      }
+    }
+  }
+
+  return { data: out, width: outWidth, height: outHeight, channels };
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,98 @@
+/**
+ * Tandoor exports — a zip of per-recipe zips, each holding `recipe.json` and an optional `image.*`.
+ * A single per-recipe zip or a bare `recipe.json` is accepted too.
+ */
+import { parseIngredientLine } from "../../../_shared/ingredient-parser.ts";
+import type { Ingredient } from "../../../_shared/recipe-schema.ts";
+import type { ImportedRecipe } from "../types.ts";
+import { type ArchiveEntry, inflateBudget, isZip, readZip } from "./archive.ts";
+import { emptyRecipe, normalizeTags, parseJson, splitLines, toImage } from "./common.ts";
+
+/** True when a parsed JSON object looks like a Tandoor recipe */
+export function isTandoorRecipe(json: any): boolean {
+  return !!json && typeof json === "object" && Array.isArray(json.steps) && "name" in json;
+}
+
+export async function parseTandoor(data: Uint8Array): Promise<ImportedRecipe[]> {
+  if (!isZip(data)) {
+    const json = parseJson(data, "Tandoor export");
+    return (Array.isArray(json) ? json : [json]).map((r) => mapTandoorRecipe(r));
+  }
+
+  // One budget for the export and every per-recipe zip in it
+  const budget = inflateBudget();
+  const entries = await readZip(data, budget);
+  const nested = entries.filter((e) => e.name.toLowerCase().endsWith(".zip"));
+  if (nested.length === 0) {
+    const recipe = readRecipeEntries(entries);
+    return recipe ? [recipe] : [];
+  }
+
+  const recipes: ImportedRecipe[] = [];
+  for (const entry of nested) {
+    const recipe = readRecipeEntries(await readZip(entry.data, budget));
+    if (recipe) recipes.push(recipe);
+  }
+  return recipes;
+}
+
+function readRecipeEntries(entries: ArchiveEntry[]): ImportedRecipe | null {
+  const json = entries.find((e) => /(^|\/)recipe\.json$/i.test(e.name));
+  if (!json) return null;
+  const image = entries.find((e) => /(^|\/)image\.[a-z]+$/i.test(e.name));
+  return mapTandoorRecipe(parseJson(json.data, json.name), image?.data);
+}
+
+export function mapTandoorRecipe(t: Record<string, any>, imageData?: Uint8Array): ImportedRecipe {
+  const recipe = emptyRecipe(String(t.name || "").trim());
+  const steps = (Array.isArray(t.steps) ? [...t.steps] : []).sort(
+    (a: any, b: any) => (a?.order ?? 0) - (b?.order ?? 0)
+  );
+
+  recipe.description = String(t.description || "").trim() || null;
+  recipe.ingredients = steps
+    .flatMap((step: any) => (Array.isArray(step?.ingredients) ? step.ingredients : []))
+    .map(mapIngredient)
+    .filter((i: Ingredient | null): i is Ingredient => i !== null);
+  recipe.instructions = steps.flatMap((step: any) => splitLines(step?.instruction));
+
+  const working = positiveInt(t.working_time);
+  const waiting = positiveInt(t.waiting_time);
+  recipe.prepTime = working;
+  recipe.cookTime = waiting;
+  recipe.totalTime = working !== null || waiting !== null ? (working ?? 0) + (waiting ?? 0) : null;
+
+  recipe.servings = positiveInt(t.servings);
+  recipe.tags = normalizeTags(
+    (Array.isArray(t.keywords) ? t.keywords : []).map((k: any) => (typeof k === "string" ? k : k?.name))
+  );
+  recipe.sourceUrl = String(t.source_url || "").trim() || null;
+
+  return { recipe, image: toImage(imageData) };
+}
+
+/** Tandoor ingredient rows; section headers (`is_header`) are not ingredients. */
+function mapIngredient(item: any): Ingredient | null {
+  if (!item || typeof item !== "object" || item.is_header) return null;
+
+  const food = String(item.food?.name || "").trim();
+  if (!food) {
+    const text = String(item.original_text || item.note || "").trim();
+    return text ? parseIngredientLine(text) : null;
+  }
+
+  const note = String(item.note || "").trim();
+  const amount = !item.no_amount && typeof item.amount === "number" && item.amount > 0 ? item.amount : null;
+  return {
+    name: food,
+    amount,
+    unit: String(item.unit?.name || "").trim(),
+    category: "",
+    ...(note ? { notes: note } : {}),
+  };
+}
+
+function positiveInt(value: unknown): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : null;
+}
@@ -0,0 +1,208 @@
+/**
+ * Deterministic Schema.org Recipe → ExtractedRecipe mapper.
+ * Lets the url adapter hand JSON-LD recipes straight to transform without an LLM round-trip.
+ */
+import type { ExtractedRecipe, NutritionInfo } from "../../_shared/recipe-schema.ts";
+import { parseIngredientLine } from "../../_shared/ingredient-parser.ts";
+
+export interface JsonLdMapping {
+  recipe: ExtractedRecipe;
+  /** True when title, ingredients and instructions were all mapped */
+  complete: boolean;
+  /** Required fields that could not be mapped */
+  missing: string[];
+}
+
+/**
+ * Map a Schema.org Recipe object into an ExtractedRecipe.
+ */
+export function mapJsonLdRecipe(ld: Record<string, any>): JsonLdMapping {
+  const title = cleanString(ld.name) || cleanString(ld.headline);
+
+  const ingredients = toArray(ld.recipeIngredient ?? ld.ingredients)
+    .map((item) => cleanString(item))
+    .filter(Boolean)
+    .map(parseIngredientLine);
+
+  const instructions = flattenInstructions(ld.recipeInstructions);
+
+  const prepTime = parseDuration(ld.prepTime);
+  const cookTime = parseDuration(ld.cookTime);
+  const totalTime = parseDuration(ld.totalTime);
+
+  const recipe: ExtractedRecipe = {
+    title,
+    description: cleanString(ld.description) || null,
+    ingredients,
+    instructions,
+    prepTime,
+    cookTime,
+    totalTime,
+    servings: parseYield(ld.recipeYield ?? ld.yield),
+    difficulty: null,
+    tags: collectTags(ld),
+    cuisine: toArray(ld.recipeCuisine).map((c) => cleanString(c)).find(Boolean) || null,
+    nutrition: mapNutrition(ld.nutrition),
+    imageUrl: pickImage(ld.image),
+  };
+
+  const missing: string[] = [];
+  if (!recipe.title) missing.push("title");
+  if (recipe.ingredients.length === 0) missing.push("ingredients");
+  if (recipe.instructions.length === 0) missing.push("instructions");
+
+  return { recipe, complete: missing.length === 0, missing };
+}
+
+/**
+ * Parse an ISO-8601 duration ("PT1H30M", "P0DT45M", "PT90M") into minutes.
+ * Falls back to free-text hours/minutes ("1 hr 30 mins") for sites and exports that emit those.
+ */
+export function parseDuration(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number") return value > 0 ? Math.round(value) : null;
+
+  const s = String(value).trim();
+  const iso = s.match(
+    /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i
+  );
+  if (iso) {
+    const [, days, hours, minutes, seconds] = iso;
+    const total =
+      Number(days || 0) * 1440 +
+      Number(hours || 0) * 60 +
+      Number(minutes || 0) +
+      Number(seconds || 0) / 60;
+    return total > 0 ? Math.round(total) : null;
+  }
+
+  // Free text: "1 hr 30 mins", "2 hours", "45 minutes", "30"
+  let minutes = 0;
+  for (const part of s.matchAll(/(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)(?![a-z])/gi)) {
+    minutes += part[2].toLowerCase().startsWith("h") ? Number(part[1]) * 60 : Number(part[1]);
+  }
+  if (minutes === 0) {
+    const leading = s.match(/^(\d+(?:\.\d+)?)/);
+    minutes = leading ? Number(leading[1]) : 0;
+  }
+  return minutes > 0 ? Math.round(minutes) : null;
+}
+
+/**
+ * Parse recipeYield — may be a number, "4 servings", "Makes 12", or an array of those.
+ */
+function parseYield(value: unknown): number | null {
+  for (const item of toArray(value)) {
+    if (typeof item === "number" && item > 0) return Math.round(item);
+    const match = String(item ?? "").match(/(\d+)/);
+    if (match) {
+      const n = parseInt(match[1]);
+      if (n > 0) return n;
+    }
+  }
+  return null;
+}
+
+/**
+ * Flatten recipeInstructions — plain string, string[], HowToStep[], or HowToSection[]
+ * (each section holding its own HowToStep list under itemListElement).
+ */
+function flattenInstructions(value: unknown): string[] {
+  const steps: string[] = [];
+
+  const visit = (node: any) => {
+    if (!node) return;
+    if (typeof node === "string") {
+      for (const line of node.split(/\n+/)) {
+        const text = cleanString(line);
+        if (text) steps.push(text);
+      }
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (typeof node !== "object") return;
+
+    const types = toArray(node["@type"]);
+    if (types.includes("HowToSection") || (node.itemListElement && !node.text)) {
+      visit(node.itemListElement);
+      return;
+    }
+
+    const text = cleanString(node.text) || cleanString(node.name);
+    if (text) steps.push(text);
+  };
+
+  visit(value);
+  return steps;
+}
+
+function collectTags(ld: Record<string, any>): string[] {
+  const tags: string[] = [];
+  const keywords = typeof ld.keywords === "string" ? ld.keywords.split(",") : toArray(ld.keywords);
+
+  for (const raw of [...toArray(ld.recipeCategory), ...keywords]) {
+    const tag = cleanString(raw).toLowerCase();
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+
+  return tags.slice(0, 15);
+}
+
+/** Map Schema.org NutritionInformation ("250 calories", "12 g") — also used by Mealie imports. */
+export function mapNutrition(n: any): NutritionInfo | null {
+  if (!n || typeof n !== "object") return null;
+
+  const nutrition: NutritionInfo = {};
+  const calories = leadingNumber(n.calories);
+  const protein = leadingNumber(n.proteinContent);
+  const carbs = leadingNumber(n.carbohydrateContent);
+  const fat = leadingNumber(n.fatContent);
+
+  if (calories !== null) nutrition.calories = calories;
+  if (protein !== null) nutrition.protein = protein;
+  if (carbs !== null) nutrition.carbs = carbs;
+  if (fat !== null) nutrition.fat = fat;
+
+  return Object.keys(nutrition).length > 0 ? nutrition : null;
+}
+
+function pickImage(image: unknown): string | null {
+  for (const item of toArray(image)) {
+    if (typeof item === "string" && item.startsWith("http")) return item;
+    if (item && typeof item === "object") {
+      const url = (item as any).url || (item as any).contentUrl;
+      if (typeof url === "string" && url.startsWith("http")) return url;
+    }
+  }
+  return null;
+}
+
+function leadingNumber(value: unknown): number | null {
+  const match = String(value ?? "").match(/(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : null;
+}
+
+function toArray(value: unknown): any[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Strip tags and decode the HTML entities recipe plugins commonly leave in JSON-LD strings. */
+function cleanString(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,136 @@
+/**
+ * Microdata / RDFa recipe reader — builds the same Recipe-shaped object as JSON-LD
+ * from `itemprop` (microdata) or `property` (RDFa) markup, for older blogs without JSON-LD.
+ */
+import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+export type InlineMarkupFormat = "microdata" | "rdfa";
+
+interface MarkupSyntax {
+  /** Attribute naming the item's properties */
+  propAttr: string;
+  /** Is this element the start of a new (nested) item? */
+  isScope: (el: any) => boolean;
+  /** Type name(s) declared on a scope element */
+  typeOf: (el: any) => string[];
+}
+
+const MICRODATA: MarkupSyntax = {
+  propAttr: "itemprop",
+  isScope: (el) => el.hasAttribute("itemscope"),
+  typeOf: (el) =>
+    (el.getAttribute("itemtype") || "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((t: string) => t.replace(/^.*[/#]/, "")),
+};
+
+const RDFA: MarkupSyntax = {
+  propAttr: "property",
+  isScope: (el) => el.hasAttribute("typeof"),
+  typeOf: (el) =>
+    (el.getAttribute("typeof") || "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((t: string) => t.replace(/^.*[:/#]/, "")),
+};
+
+/** Properties that are lists in the JSON-LD shape even when only one is marked up */
+const LIST_PROPERTIES = ["recipeIngredient", "ingredients", "recipeInstructions", "image"];
+
+/**
+ * Find a schema.org Recipe marked up with microdata, then RDFa.
+ * Returns the Recipe-shaped object and which format it came from.
+ */
+export function extractInlineRecipe(
+  html: string
+): { recipe: Record<string, any>; format: InlineMarkupFormat } | null {
+  // Cheap pre-check so pages without inline markup skip the DOM parse
+  if (!/itemprop\s*=|typeof\s*=/i.test(html)) return null;
+
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  if (!doc) return null;
+
+  for (const [format, syntax, selector] of [
+    ["microdata", MICRODATA, "[itemscope][itemtype]"],
+    ["rdfa", RDFA, "[typeof]"],
+  ] as const) {
+    const root = Array.from(doc.querySelectorAll(selector)).find((el: any) =>
+      syntax.typeOf(el).includes("Recipe")
+    );
+    if (!root) continue;
+
+    const recipe = readItem(root, syntax);
+    if (recipe.name || recipe.recipeIngredient || recipe.ingredients) {
+      return { recipe, format };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read all properties belonging to one item scope, recursing into nested items
+ * (HowToStep, HowToSection, NutritionInformation, ImageObject).
+ */
+function readItem(scope: any, syntax: MarkupSyntax): Record<string, any> {
+  const item: Record<string, any> = {};
+  const types = syntax.typeOf(scope);
+  if (types.length) item["@type"] = types.length === 1 ? types[0] : types;
+
+  for (const el of Array.from(scope.querySelectorAll(`[${syntax.propAttr}]`)) as any[]) {
+    if (owningScope(el, scope, syntax) !== scope) continue;
+
+    const value = syntax.isScope(el) ? readItem(el, syntax) : readValue(el);
+    if (value === "" || value === null) continue;
+
+    const names = (el.getAttribute(syntax.propAttr) || "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((n: string) => n.replace(/^.*[:/#]/, ""));
+
+    for (const name of names) {
+      if (item[name] === undefined) {
+        item[name] = LIST_PROPERTIES.includes(name) ? [value] : value;
+      } else if (Array.isArray(item[name])) {
+        item[name].push(value);
+      } else {
+        item[name] = [item[name], value];
+      }
+    }
+  }
+
+  return item;
+}
+
+/**
+ * Walk up from a property element to the nearest enclosing item scope.
+ * Properties of nested items must not leak into the parent item.
+ */
+function owningScope(el: any, root: any, syntax: MarkupSyntax): any {
+  let node = el.parentElement;
+  while (node && node !== root) {
+    if (syntax.isScope(node)) return node;
+    node = node.parentElement;
+  }
+  return root;
+}
+
+function readValue(el: any): string {
+  const tag = el.tagName.toLowerCase();
+
+  const content = el.getAttribute("content");
+  if (content !== null) return content.trim();
+
+  if (tag === "meta") return "";
+  if (tag === "time") return (el.getAttribute("datetime") || el.textContent).trim();
+  if (tag === "img" || tag === "source") return (el.getAttribute("src") || "").trim();
+  if (tag === "a" || tag === "link") {
+    const href = el.getAttribute("href") || "";
+    // Links wrapping visible text (e.g. linked ingredient names) carry the value in their text
+    return (el.textContent.trim() || href).trim();
+  }
+
+  // Keep line breaks — block-level instruction text is split into steps downstream
+  return el.textContent.replace(/[ \t]+/g, " ").replace(/\s*\n\s*/g, "\n").trim();
+}
@@ -0,0 +1,279 @@
+import type { ContentChunk } from "../../_shared/recipe-schema.ts";
+import type { IntermediateContent, PipelineRequest, SourceAdapter } from "./types.ts";
+import { extractImages, extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { decodeBase64 } from "./formats/common.ts";
+import { downscale, encodePng, type RawImage } from "./formats/png.ts";
+
+const ADAPTER_VERSION = "1.0.0";
+
+const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+/** Pages read from one request — a cookbook chapter, not a whole book */
+const MAX_PAGES = 40;
+
+/** Scanned pages cost a vision call per 4 pages */
+const MAX_SCANNED_PAGES = 12;
+
+/** Pages with less text than this are treated as scans */
+const MIN_TEXT_CHARS = 50;
+
+/** Text per chunk — matches what extract sends to the model in one call */
+const CHUNK_CHARS = 6000;
+
+/** chatWithImages sends at most 4 images per call */
+const IMAGES_PER_CHUNK = 4;
+
+/** Longest side of a page image sent to the vision model */
+const MAX_IMAGE_SIDE = 1600;
+
+const PAGE_RANGE_PATTERN = /^\s*\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*\s*$/;
+
+/**
+ * PDF adapter — reads the text layer of text PDFs and turns image-only (scanned) pages
+ * into PNGs for the vision path. Photos of cookbook pages can be sent as `images` instead.
+ * Pages are grouped into chunks that extract handles one LLM call at a time, so a
+ * chapter with many recipes goes through the multi-recipe path. Pages left out are
+ * listed in `source_metadata.warnings`.
+ */
+export async function pdfAdapter(
+  pdfInput: PipelineRequest["pdf"],
+  photos: string[] = []
+): Promise<IntermediateContent> {
+  if (!pdfInput?.data) {
+    if (photos.length === 0) throw new Error("PDF adapter requires a PDF or page photos");
+    return pagePhotosContent(photos);
+  }
+
+  let data: Uint8Array;
+  try {
+    data = decodeBase64(pdfInput.data);
+  } catch {
+    throw new Error("PDF data must be base64-encoded");
+  }
+  if (data.length > MAX_PDF_BYTES) {
+    throw new Error(`PDF is too large (max ${MAX_PDF_BYTES / 1024 / 1024} MB)`);
+  }
+
+  let pdf;
+  try {
+    pdf = await getDocumentProxy(data);
+  } catch (error) {
+    throw new Error(`Could not read PDF: ${error.message}`);
+  }
+
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const selected = parsePageRange(pdfInput.pages, totalPages);
+  if (selected.length > MAX_PAGES) {
+    throw new Error(`Too many pages selected (${selected.length}, max ${MAX_PAGES}) — choose a page range`);
+  }
+
+  const pages: { page: number; text?: string; image?: string }[] = [];
+  let scannedPages = 0;
+  const overLimitPages: number[] = [];
+  const emptyPages: number[] = [];
+
+  for (const page of selected) {
+    const pageText = cleanPageText(text[page - 1] ?? "");
+    if (pageText.length >= MIN_TEXT_CHARS) {
+      pages.push({ page, text: pageText });
+      continue;
+    }
+
+    if (scannedPages >= MAX_SCANNED_PAGES) {
+      overLimitPages.push(page);
+      continue;
+    }
+    // Image-only page — send the largest image on it (the scan) to the vision model
+    const image = await pageImage(pdf, page);
+    if (image) {
+      pages.push({ page, image });
+      scannedPages++;
+    } else {
+      emptyPages.push(page);
+    }
+  }
+
+  const warnings: string[] = [];
+  if (overLimitPages.length > 0) {
+    warnings.push(
+      `Skipped scanned ${pageList(overLimitPages)} — only ${MAX_SCANNED_PAGES} are read per import; ` +
+        "import the rest with another page range"
+    );
+  }
+  if (emptyPages.length > 0) {
+    warnings.push(`Skipped ${pageList(emptyPages)} — no text or image found`);
+  }
+
+  if (pages.length === 0) {
+    throw new Error("No readable text or page images found in the selected PDF pages");
+  }
+
+  const chunks = chunkPages(pages);
+  console.log(
+    `PDF adapter: ${selected.length}/${totalPages} page(s), ${scannedPages} scanned, ${chunks.length} chunk(s)`
+  );
+
+  return {
+    raw_text: pages.filter((p) => p.text).map((p) => `--- Page ${p.page} ---\n${p.text}`).join("\n\n"),
+    images: pages.filter((p) => p.image).slice(0, IMAGES_PER_CHUNK).map((p) => p.image!),
+    chunks,
+    source_metadata: {
+      source_type: "pdf",
+      source_name: pdfInput.name || undefined,
+      extracted_at: new Date().toISOString(),
+      adapter_version: ADAPTER_VERSION,
+      extra: {
+        total_pages: totalPages,
+        pages_selected: selected.length,
+        text_pages: pages.length - scannedPages,
+        scanned_pages: scannedPages,
+        skipped_pages: [...overLimitPages, ...emptyPages].sort((a, b) => a - b),
+        chunks: chunks.length,
+      },
+      ...(warnings.length > 0 ? { warnings } : {}),
+    },
+  };
+}
+
+export const pdfSource: SourceAdapter = {
+  sourceTypes: ["pdf"],
+  version: ADAPTER_VERSION,
+  validate: (request) => {
+    if (!request.pdf?.data && !request.images?.length) {
+      return "pdf.data or page images are required for pdf source_type";
+    }
+    if (request.pdf?.pages && !PAGE_RANGE_PATTERN.test(request.pdf.pages)) {
+      return `Invalid pdf.pages: "${request.pdf.pages}". Use e.g. "12-18" or "3,5,7-9".`;
+    }
+    return null;
+  },
+  run: (request) => pdfAdapter(request.pdf, request.images),
+};
+
+/**
+ * Parse a 1-based page selection ("3,5,7-9") into sorted page numbers.
+ * All pages when omitted; pages past the end of the document are an error.
+ */
+export function parsePageRange(spec: string | undefined, totalPages: number): number[] {
+  if (!spec?.trim()) return Array.from({ length: totalPages }, (_, i) => i + 1);
+  if (!PAGE_RANGE_PATTERN.test(spec)) throw new Error(`Invalid page range: "${spec}"`);
+
+  const pages = new Set<number>();
+  for (const part of spec.split(",")) {
+    const [start, end = start] = part.split("-").map((n) => Number(n.trim()));
+    if (start < 1 || end < start || end > totalPages) {
+      throw new Error(`Page range "${part.trim()}" is outside the document (1-${totalPages})`);
+    }
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/** Group consecutive text pages up to CHUNK_CHARS and scanned pages in fours, keeping page order. */
+function chunkPages(pages: { page: number; text?: string; image?: string }[]): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  let current: { pages: number[]; text: string[]; images: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const first = current.pages[0];
+    const last = current.pages[current.pages.length - 1];
+    chunks.push({
+      label: first === last ? `page ${first}` : `pages ${first}-${last}`,
+      raw_text: current.text.join("\n\n"),
+      images: current.images,
+    });
+    current = null;
+  };
+
+  for (const page of pages) {
+    if (page.text) {
+      const block = `--- Page ${page.page} ---\n${page.text}`;
+      const size = current ? current.text.join("\n\n").length : 0;
+      if (current && (current.images.length > 0 || size + block.length > CHUNK_CHARS)) flush();
+      current ??= { pages: [], text: [], images: [] };
+      current.pages.push(page.page);
+      current.text.push(block);
+    } else {
+      if (current && (current.text.length > 0 || current.images.length >= IMAGES_PER_CHUNK)) flush();
+      current ??= { pages: [], text: [], images: [] };
+      current.pages.push(page.page);
+      current.images.push(page.image!);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/** Photos of cookbook pages — each one is a scanned page, up to MAX_SCANNED_PAGES */
+function pagePhotosContent(allPhotos: string[]): IntermediateContent {
+  const photos = allPhotos.slice(0, MAX_SCANNED_PAGES);
+  const skipped = allPhotos.length - photos.length;
+  const warnings = skipped > 0
+    ? [`Skipped the last ${skipped} photo(s) — only ${MAX_SCANNED_PAGES} pages are read per import`]
+    : [];
+  const chunks: ContentChunk[] = [];
+  for (let i = 0; i < photos.length; i += IMAGES_PER_CHUNK) {
+    const images = photos.slice(i, i + IMAGES_PER_CHUNK);
+    chunks.push({
+      label: images.length === 1 ? `photo ${i + 1}` : `photos ${i + 1}-${i + images.length}`,
+      raw_text: "",
+      images,
+    });
+  }
+
+  return {
+    raw_text: "",
+    images: photos.slice(0, IMAGES_PER_CHUNK),
+    chunks,
+    source_metadata: {
+      source_type: "pdf",
+      extracted_at: new Date().toISOString(),
+      adapter_version: ADAPTER_VERSION,
+      extra: { scanned_pages: photos.length, chunks: chunks.length },
+      ...(warnings.length > 0 ? { warnings } : {}),
+    },
+  };
+}
+
+/**
+ * The largest image on a page as a PNG data URL, or null when the page has none. This is
+ * the embedded scan, not a render of the page: text or drawings laid over it (captions,
+ * an OCR layer too thin to count as text) are not in it, and smaller images are dropped.
+ * The edge runtime has no canvas to rasterize pages with — photos of such pages work better.
+ */
+async function pageImage(pdf: Awaited<ReturnType<typeof getDocumentProxy>>, page: number): Promise<string | null> {
+  let images: RawImage[];
+  try {
+    images = (await extractImages(pdf, page)) as RawImage[];
+  } catch (error) {
+    console.warn(`Could not read images on page ${page}:`, error.message);
+    return null;
+  }
+  if (images.length === 0) return null;
+
+  const largest = images.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+  const png = await encodePng(downscale(largest, MAX_IMAGE_SIDE));
+  return `data:image/png;base64,${encodeBase64(png)}`;
+}
+
+/** "page 7" / "pages 13, 14, 15" */
+function pageList(pages: number[]): string {
+  return pages.length === 1 ? `page ${pages[0]}` : `pages ${pages.join(", ")}`;
+}
+
+function cleanPageText(text: string): string {
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function encodeBase64(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,49 @@
+/**
+ * Source adapter registry — maps request `source_type` values to adapters.
+ * To add a source (email, PDF, Discord, ...) write a SourceAdapter and list it in
+ * BUILTIN_ADAPTERS; the orchestrator and the edge function pick it up from here.
+ */
+import type { PipelineRequest, SourceType } from "../../_shared/recipe-schema.ts";
+import type { SourceAdapter } from "./types.ts";
+import { textSource } from "./text-adapter.ts";
+import { urlSource } from "./url-adapter.ts";
+import { videoSource } from "./video-adapter.ts";
+import { fileSource } from "./file-adapter.ts";
+import { pdfSource } from "./pdf-adapter.ts";
+
+const BUILTIN_ADAPTERS: SourceAdapter[] = [textSource, urlSource, videoSource, fileSource, pdfSource];
+
+const adapters = new Map<string, SourceAdapter>();
+
+/** Register an adapter for each of its source types. A source type can only have one adapter. */
+export function registerAdapter(adapter: SourceAdapter): void {
+  for (const sourceType of adapter.sourceTypes) {
+    if (adapters.has(sourceType)) {
+      throw new Error(`An adapter is already registered for source_type "${sourceType}"`);
+    }
+    adapters.set(sourceType, adapter);
+  }
+}
+
+export function getAdapter(sourceType: string): SourceAdapter | undefined {
+  return adapters.get(sourceType);
+}
+
+/**
+ * Check a request against the registry — unknown source types and requests the
+ * adapter can't handle get a user-facing error; null means the request can run.
+ */
+export function validateSourceRequest(request: PipelineRequest): string | null {
+  const adapter = getAdapter(request.source_type);
+  if (!adapter) {
+    return `Invalid source_type: "${request.source_type}". Must be one of: ${registeredSourceTypes().join(", ")}.`;
+  }
+  return adapter.validate(request);
+}
+
+/** Source types with a registered adapter, in registration order */
+export function registeredSourceTypes(): SourceType[] {
+  return [...adapters.keys()] as SourceType[];
+}
+
+BUILTIN_ADAPTERS.forEach(registerAdapter);
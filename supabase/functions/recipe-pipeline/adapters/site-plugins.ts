@@ -0,0 +1,33 @@
+/**
+ * Site plugin registry — the URL adapter looks up a plugin by hostname when a page
+ * has no usable structured data. To support another site write a SitePlugin in
+ * `sites/`, list it in SITE_PLUGINS and save one of its pages as an eval fixture
+ * (`eval/fixtures/site-<name>/`) so selector regressions are caught offline.
+ */
+import type { SitePlugin } from "./sites/common.ts";
+import { dotdashPlugin } from "./sites/dotdash.ts";
+import { nytCookingPlugin } from "./sites/nyt-cooking.ts";
+import { bbcGoodFoodPlugin } from "./sites/bbc-good-food.ts";
+import { condeNastPlugin } from "./sites/conde-nast.ts";
+import { recipeCardPlugin } from "./sites/recipe-cards.ts";
+
+export type { SitePlugin } from "./sites/common.ts";
+export { extractSiteContent } from "./sites/common.ts";
+
+const SITE_PLUGINS: SitePlugin[] = [
+  dotdashPlugin,
+  nytCookingPlugin,
+  bbcGoodFoodPlugin,
+  condeNastPlugin,
+  recipeCardPlugin,
+];
+
+/** The plugin for a hostname — "www." is ignored and subdomains match their parent host. */
+export function findSitePlugin(hostname: string): SitePlugin | null {
+  const host = hostname.toLowerCase().replace(/^www\./, "");
+  return (
+    SITE_PLUGINS.find((plugin) =>
+      plugin.hosts.some((pluginHost) => host === pluginHost || host.endsWith(`.${pluginHost}`))
+    ) ?? null
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * BBC Good Food — the recipe sits in a masthead plus ingredients and method
+ * sections; everything around them is ads and related content.
+ */
+import type { SitePlugin } from "./common.ts";
+
+export const bbcGoodFoodPlugin: SitePlugin = {
+  name: "bbc-good-food",
+  hosts: ["bbcgoodfood.com"],
+  contentSelectors: [
+    "h1",
+    ".recipe-cook-and-prep-details",
+    ".post-header__description",
+    ".recipe__ingredients",
+    ".recipe__method-steps",
+  ],
+  removeSelectors: [".ad-placeholder", ".post-header__cta", ".recipe__nutrition-link", ".rating"],
+};
@@ -0,0 +1,167 @@
+/**
+ * Site plugins for the URL adapter — per-hostname DOM extraction for pages whose
+ * structured data is missing or broken and where generic readable-text extraction
+ * picks up comments, ads and "jump to recipe" cruft instead of the recipe.
+ */
+import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+type Doc = NonNullable<ReturnType<DOMParser["parseFromString"]>>;
+
+export interface SitePlugin {
+  /** Recorded as `source_metadata.extra.site_plugin` */
+  name: string;
+  /** Hostnames without "www." — subdomains match too */
+  hosts: string[];
+  /** Containers holding the recipe, in page order; every match is kept (e.g. ingredients and method blocks) */
+  contentSelectors: string[];
+  /** Cruft inside those containers, removed on top of CRUFT_SELECTORS */
+  removeSelectors?: string[];
+  /** A cleaner print view of the page, read instead of the page itself when it loads */
+  printUrl?(doc: Doc, pageUrl: URL): string | null;
+  /** The next page of a recipe split across several pages */
+  nextPageUrl?(doc: Doc, pageUrl: URL): string | null;
+}
+
+/** Recipes split across more pages than this are cut off */
+const MAX_SITE_PAGES = 3;
+
+/** Less text than this from a plugin means its selectors no longer match the site */
+const MIN_CONTENT_CHARS = 100;
+
+/** Cruft every plugin removes — jump/print/save buttons, ads, comments and newsletter boxes */
+const CRUFT_SELECTORS = [
+  "script", "style", "noscript", "iframe", "form", "button", "svg",
+  "[class*='jump-to-recipe']", "[class*='jump-link']", ".wprm-recipe-jump", ".tasty-recipes-jump-link",
+  "a[href^='#recipe']", "a[href^='#wprm-recipe']",
+  "[class*='comments']", "#comments", "[class*='newsletter']",
+  ".ad", ".ads", ".advertisement", "[class*='adslot']", "[id^='ad-']",
+];
+
+/** Whole lines left behind by buttons and links that carry no recipe content */
+const CRUFT_LINES =
+  /^(jump to recipe|print( recipe)?|pin( recipe| it)?|save( recipe)?|rate (this )?recipe|share|email|leave a (comment|review)|cook mode|prevent your screen from going dark)$/i;
+
+/** Elements that start a new line — textContent alone runs list items and steps together */
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "LI", "UL", "OL", "H1", "H2", "H3", "H4", "H5", "H6",
+  "SECTION", "ARTICLE", "HEADER", "TR", "TABLE", "DL", "DT", "DD", "BR", "FIGURE",
+]);
+
+/**
+ * Fetch and read a page with a site plugin, following its print view or pagination.
+ * Returns null when the plugin finds too little content, so the caller can fall back
+ * to generic readable-text extraction.
+ */
+export async function extractSiteContent(
+  plugin: SitePlugin,
+  html: string,
+  pageUrl: URL,
+  fetchHtml: (url: string) => Promise<string>
+): Promise<string | null> {
+  let doc = parseHtml(html);
+  if (!doc) return null;
+
+  const printUrl = plugin.printUrl?.(doc, pageUrl);
+  if (printUrl && printUrl !== pageUrl.href) {
+    try {
+      const printDoc = parseHtml(await fetchHtml(printUrl));
+      const text = printDoc ? containerText(plugin, printDoc) : null;
+      if (text) {
+        console.log(`Site plugin ${plugin.name}: read print view ${printUrl}`);
+        return text;
+      }
+    } catch (error) {
+      console.warn(`Site plugin ${plugin.name}: print view failed, reading the page instead:`, error.message);
+    }
+  }
+
+  const parts: string[] = [];
+  const visited = new Set([pageUrl.href]);
+  let currentUrl = pageUrl;
+
+  for (let page = 1; doc; page++) {
+    const text = containerText(plugin, doc);
+    if (text) parts.push(text);
+
+    const next = page < MAX_SITE_PAGES ? plugin.nextPageUrl?.(doc, currentUrl) : null;
+    if (!next || visited.has(next)) break;
+    visited.add(next);
+
+    try {
+      doc = parseHtml(await fetchHtml(next));
+      currentUrl = new URL(next);
+    } catch (error) {
+      console.warn(`Site plugin ${plugin.name}: could not fetch page ${page + 1}:`, error.message);
+      break;
+    }
+  }
+
+  if (parts.length > 1) console.log(`Site plugin ${plugin.name}: read ${parts.length} pages`);
+  const text = parts.join("\n\n");
+  return text.length >= MIN_CONTENT_CHARS ? text : null;
+}
+
+/** Absolute href of the first link matching `selector`, or null */
+export function linkHref(doc: Doc, selector: string, pageUrl: URL): string | null {
+  const href = doc.querySelector(selector)?.getAttribute("href");
+  if (!href) return null;
+  try {
+    return new URL(href, pageUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+/** `<link rel="next">` — how WordPress and most CMSs mark paginated posts */
+export function relNextUrl(doc: Doc, pageUrl: URL): string | null {
+  return linkHref(doc, "link[rel='next']", pageUrl) ?? linkHref(doc, "a[rel='next']", pageUrl);
+}
+
+/** Collapse whitespace left by removed markup. */
+export function cleanText(text: string): string {
+  return text
+    .replace(/\t/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/ {2,}/g, " ")
+    .trim();
+}
+
+function parseHtml(html: string): Doc | null {
+  return new DOMParser().parseFromString(html, "text/html");
+}
+
+/** Text of every container the plugin selects, skipping containers nested in one already taken. */
+function containerText(plugin: SitePlugin, doc: Doc): string | null {
+  for (const selector of [...CRUFT_SELECTORS, ...(plugin.removeSelectors ?? [])]) {
+    doc.querySelectorAll(selector).forEach((el: any) => el.remove());
+  }
+
+  const taken: any[] = [];
+  for (const selector of plugin.contentSelectors) {
+    doc.querySelectorAll(selector).forEach((el: any) => {
+      if (taken.some((t) => t === el || t.contains(el))) return;
+      taken.push(el);
+    });
+  }
+  if (taken.length === 0) return null;
+
+  const text = taken
+    .map((el) =>
+      blockText(el)
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line && !CRUFT_LINES.test(line))
+        .join("\n")
+    )
+    .filter(Boolean)
+    .join("\n\n");
+
+  const cleaned = cleanText(text);
+  return cleaned || null;
+}
+
+function blockText(node: any): string {
+  if (node.nodeType === 3) return node.textContent;
+  const inner = Array.from(node.childNodes ?? []).map(blockText).join("");
+  return BLOCK_TAGS.has(node.nodeName) ? `\n${inner}\n` : inner;
+}
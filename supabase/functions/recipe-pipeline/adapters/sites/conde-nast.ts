@@ -0,0 +1,17 @@
+/**
+ * Condé Nast food sites (Bon Appétit, Epicurious) — React pages that expose
+ * stable `data-testid` attributes on the ingredient and instruction blocks.
+ */
+import type { SitePlugin } from "./common.ts";
+
+export const condeNastPlugin: SitePlugin = {
+  name: "conde-nast",
+  hosts: ["bonappetit.com", "epicurious.com"],
+  contentSelectors: [
+    "h1",
+    "[data-testid='RecipeInfo']",
+    "[data-testid='IngredientList']",
+    "[data-testid='InstructionsWrapper']",
+  ],
+  removeSelectors: ["[data-testid='RecipeRatings']", "[class*='ConsumerMarketingUnit']", "[class*='AdWrapper']"],
+};
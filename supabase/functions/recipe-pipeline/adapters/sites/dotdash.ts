@@ -0,0 +1,39 @@
+/**
+ * Dotdash Meredith sites (Allrecipes, Serious Eats, Simply Recipes, ...) share one
+ * "mntl" page template: the recipe is split into details, ingredients and steps blocks
+ * with ad slots and "jump to recipe" buttons between them.
+ */
+import type { SitePlugin } from "./common.ts";
+
+export const dotdashPlugin: SitePlugin = {
+  name: "dotdash",
+  hosts: [
+    "allrecipes.com",
+    "seriouseats.com",
+    "simplyrecipes.com",
+    "eatingwell.com",
+    "foodandwine.com",
+    "thespruceeats.com",
+    "southernliving.com",
+    "bhg.com",
+  ],
+  contentSelectors: [
+    "h1",
+    ".mm-recipes-details",
+    "[class*='recipe-details']",
+    ".mm-recipes-structured-ingredients",
+    "[id^='structured-ingredients']",
+    ".mm-recipes-steps",
+    "[id^='structured-project__steps']",
+    "[id^='mntl-sc-block_'].recipe__steps",
+  ],
+  removeSelectors: [
+    "[class*='mntl-sc-block-adslot']",
+    ".mm-ads",
+    ".mntl-jump-to-recipe",
+    ".mntl-sc-block-universal-callout",
+    ".mntl-sc-block-featuredlink",
+    "figcaption",
+    ".feedback-block",
+  ],
+};
@@ -0,0 +1,24 @@
+/**
+ * NYT Cooking — Next.js pages with hashed CSS-module class names, so containers
+ * are matched on the stable class prefix.
+ */
+import type { SitePlugin } from "./common.ts";
+
+export const nytCookingPlugin: SitePlugin = {
+  name: "nyt-cooking",
+  hosts: ["cooking.nytimes.com"],
+  contentSelectors: [
+    "h1",
+    "[class*='recipeintro_']",
+    "[class*='stats_']",
+    "[class*='ingredients_ingredients']",
+    "[class*='preparation_preparation']",
+  ],
+  removeSelectors: [
+    "[class*='paywall']",
+    "[class*='notes_']",
+    "[class*='recipeNotes']",
+    "[class*='ratings_']",
+    "[class*='toolbar']",
+  ],
+};
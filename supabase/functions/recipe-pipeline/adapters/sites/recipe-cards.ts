@@ -0,0 +1,36 @@
+/**
+ * WordPress food blogs using the WP Recipe Maker or Tasty Recipes card. The card's
+ * print view has the recipe and nothing else, so it is read instead of the post;
+ * posts split with <!--nextpage--> are followed through rel="next".
+ */
+import { linkHref, relNextUrl, type SitePlugin } from "./common.ts";
+
+export const recipeCardPlugin: SitePlugin = {
+  name: "wordpress-recipe-card",
+  hosts: [
+    "budgetbytes.com",
+    "pinchofyum.com",
+    "cookieandkate.com",
+    "sallysbakingaddiction.com",
+    "minimalistbaker.com",
+    "halfbakedharvest.com",
+    "recipetineats.com",
+    "damndelicious.net",
+    "gimmesomeoven.com",
+    "loveandlemons.com",
+  ],
+  contentSelectors: [".wprm-recipe-container", ".wprm-recipe", ".tasty-recipes", "#tasty-recipes-print"],
+  removeSelectors: [
+    ".wprm-recipe-rating",
+    ".wprm-call-to-action",
+    ".wprm-recipe-image",
+    ".tasty-recipes-rating",
+    ".tasty-recipes-buttons",
+    ".tasty-recipes-entry-footer",
+  ],
+  printUrl: (doc, pageUrl) =>
+    pageUrl.pathname.includes("/wprm_print/") || pageUrl.pathname.includes("/print/")
+      ? null
+      : linkHref(doc, "a.wprm-recipe-print", pageUrl) ?? linkHref(doc, "a.tasty-recipes-print-button", pageUrl),
+  nextPageUrl: relNextUrl,
+};
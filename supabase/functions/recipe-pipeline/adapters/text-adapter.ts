@@ -1,4 +1,4 @@
-import type { IntermediateContent } from "./types.ts";
+import type { IntermediateContent, SourceAdapter } from "./types.ts";
 
 const ADAPTER_VERSION = "1.0.0";
 
@@ -26,3 +26,11 @@ export async function textAdapter(
     },
   };
 }
+
+export const textSource: SourceAdapter = {
+  sourceTypes: ["text"],
+  version: ADAPTER_VERSION,
+  validate: (request) =>
+    request.text?.trim() || request.images?.length ? null : "text or images are required for text source_type",
+  run: (request) => textAdapter(request.text || "", request.images),
+};
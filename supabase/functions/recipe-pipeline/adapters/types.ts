@@ -4,3 +4,39 @@ export type {
   SourceMetadata,
   PipelineRequest,
 } from "../../_shared/recipe-schema.ts";
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { OpenRouterClient } from "../../_shared/openrouter-client.ts";
+import type {
+  ExtractedRecipe,
+  IntermediateContent,
+  PipelineRequest,
+  SourceType,
+} from "../../_shared/recipe-schema.ts";
+
+/** A recipe parsed from an export file, with the photo embedded in the archive (if any) */
+export interface ImportedRecipe {
+  recipe: ExtractedRecipe;
+  image?: { data: Uint8Array; contentType: string };
+}
+
+/** Everything an adapter may need besides the request itself */
+export interface AdapterContext {
+  userId: string;
+  supabase: SupabaseClient;
+  openRouter: OpenRouterClient;
+}
+
+/**
+ * A source adapter as registered in `registry.ts` — turns one kind of request
+ * into IntermediateContent for the extract stage.
+ */
+export interface SourceAdapter {
+  /** Request `source_type` values this adapter handles */
+  sourceTypes: SourceType[];
+  /** Recorded as `source_metadata.adapter_version` */
+  version: string;
+  /** Returns a user-facing error when the request is missing what the adapter needs, else null */
+  validate(request: PipelineRequest): string | null;
+  run(request: PipelineRequest, context: AdapterContext): Promise<IntermediateContent>;
+}
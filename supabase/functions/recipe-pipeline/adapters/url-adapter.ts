@@ -1,54 +1,78 @@
-import type { IntermediateContent } from "./types.ts";
+import type { IntermediateContent, SourceAdapter } from "./types.ts";
 import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { mapJsonLdRecipe, type JsonLdMapping } from "./json-ld-mapper.ts";
+import { extractInlineRecipe } from "./microdata-reader.ts";
+import { extractSiteContent, findSitePlugin } from "./site-plugins.ts";
+import { cleanText } from "./sites/common.ts";
 
-const ADAPTER_VERSION = "1.0.0";
+const ADAPTER_VERSION = "1.3.0";
 
 const BROWSER_UA =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
 
 /**
- * URL adapter — fetches a recipe page, tries JSON-LD first, falls back to DOM text extraction.
+ * URL adapter — fetches a recipe page, tries JSON-LD first, then microdata/RDFa,
+ * then the site plugin for the hostname (if any), and falls back to DOM text extraction.
+ * Structured recipes are also mapped directly to an ExtractedRecipe so extract can skip the LLM.
  */
 export async function urlAdapter(url: string): Promise<IntermediateContent> {
   if (!url) throw new Error("URL is required");
 
-  let parsedUrl: URL;
   try {
-    parsedUrl = new URL(url);
+    new URL(url);
   } catch {
     throw new Error(`Invalid URL: ${url}`);
   }
 
-  // Fetch the page
-  const response = await fetch(url, {
-    headers: {
-      "User-Agent": BROWSER_UA,
-      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-    },
-    signal: AbortSignal.timeout(15000),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
-  }
-
-  const html = await response.text();
+  return readRecipePage(await fetchHtml(url), url);
+}
 
-  // Try JSON-LD structured data first (many recipe sites include Schema.org Recipe)
+/**
+ * Build IntermediateContent from a page that has already been fetched (also used by the
+ * offline eval harness with saved HTML). `fetchPage` loads the print views and further
+ * pages site plugins ask for.
+ */
+export async function readRecipePage(
+  html: string,
+  url: string,
+  fetchPage: (url: string) => Promise<string> = fetchHtml
+): Promise<IntermediateContent> {
+  const parsedUrl = new URL(url);
+
+  // Try JSON-LD structured data first (many recipe sites include Schema.org Recipe),
+  // then microdata/RDFa markup used by older blogs
   const jsonLd = extractJsonLd(html);
+  const inline = jsonLd ? null : extractInlineRecipe(html);
+  const structured = jsonLd ?? inline?.recipe ?? null;
+  const structuredFormat = jsonLd ? "json-ld" : inline?.format ?? null;
   const images = extractImages(html, parsedUrl);
   const ogImage = extractOgImage(html);
 
   let rawText: string;
-  let hasJsonLd = false;
-
-  if (jsonLd) {
-    rawText = formatJsonLdRecipe(jsonLd);
-    hasJsonLd = true;
-    console.log("JSON-LD recipe data found");
+  let mapping: JsonLdMapping | null = null;
+  let sitePlugin: string | null = null;
+
+  if (structured) {
+    // Keep the flattened text as LLM fallback in case the mapping is incomplete
+    rawText = formatJsonLdRecipe(structured);
+    mapping = mapJsonLdRecipe(structured);
+    console.log(
+      mapping.complete
+        ? `${structuredFormat} recipe data found and mapped`
+        : `${structuredFormat} recipe data found, mapping incomplete (missing: ${mapping.missing.join(", ")})`
+    );
   } else {
-    rawText = extractReadableText(html);
-    console.log("Falling back to DOM text extraction");
+    const plugin = findSitePlugin(parsedUrl.hostname);
+    const siteText = plugin ? await extractSiteContent(plugin, html, parsedUrl, fetchPage) : null;
+    if (siteText) {
+      rawText = siteText;
+      sitePlugin = plugin!.name;
+      console.log(`Extracted with site plugin ${sitePlugin}`);
+    } else {
+      if (plugin) console.warn(`Site plugin ${plugin.name} found no recipe content on ${parsedUrl.hostname}`);
+      rawText = extractReadableText(html);
+      console.log("Falling back to DOM text extraction");
+    }
   }
 
   if (!rawText.trim()) {
@@ -72,11 +96,48 @@ export async function urlAdapter(url: string): Promise<IntermediateContent> {
       source_name: parsedUrl.hostname.replace("www.", ""),
       extracted_at: new Date().toISOString(),
       adapter_version: ADAPTER_VERSION,
-      extra: { has_json_ld: hasJsonLd },
+      extra: {
+        has_json_ld: !!jsonLd,
+        structured_data_format: structuredFormat,
+        site_plugin: sitePlugin,
+        ...(mapping ? { structured_data_complete: mapping.complete } : {}),
+      },
     },
+    ...(mapping ? { structured_recipe: mapping.recipe } : {}),
   };
 }
 
+export const urlSource: SourceAdapter = {
+  sourceTypes: ["url"],
+  version: ADAPTER_VERSION,
+  validate: (request) => {
+    if (!request.url) return "url is required for url source_type";
+    try {
+      const { protocol } = new URL(request.url);
+      return protocol === "http:" || protocol === "https:" ? null : `Invalid URL: ${request.url}`;
+    } catch {
+      return `Invalid URL: ${request.url}`;
+    }
+  },
+  run: (request) => urlAdapter(request.url!),
+};
+
+async function fetchHtml(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": BROWSER_UA,
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    },
+    signal: AbortSignal.timeout(15000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
 /**
  * Extract JSON-LD Recipe data from the page.
  */
@@ -123,7 +184,7 @@ function extractJsonLd(html: string): Record<string, any> | null {
 }
 
 /**
- * Format JSON-LD recipe into human-readable text for the LLM.
+ * Format a Recipe-shaped object (JSON-LD, microdata or RDFa) into human-readable text for the LLM.
  */
 function formatJsonLdRecipe(ld: Record<string, any>): string {
   const parts: string[] = [];
@@ -233,11 +294,3 @@ function extractOgImage(html: string): string | null {
 function stripTags(html: string): string {
   return html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
 }
-
-function cleanText(text: string): string {
-  return text
-    .replace(/\t/g, " ")
-    .replace(/\n{3,}/g, "\n\n")
-    .replace(/ {2,}/g, " ")
-    .trim();
-}
@@ -1,4 +1,4 @@
-import type { IntermediateContent } from "./types.ts";
+import type { IntermediateContent, SourceAdapter } from "./types.ts";
 import type { OpenRouterClient } from "../../_shared/openrouter-client.ts";
 
 const ADAPTER_VERSION = "1.0.0";
@@ -80,6 +80,21 @@ export async function videoAdapter(
   };
 }
 
+export const videoSource: SourceAdapter = {
+  sourceTypes: ["video"],
+  version: ADAPTER_VERSION,
+  validate: (request) =>
+    request.video_url || request.frame_urls?.length || request.transcript
+      ? null
+      : "video_url, frame_urls or transcript is required for video source_type",
+  run: (request, { openRouter }) =>
+    videoAdapter(openRouter, {
+      video_url: request.video_url,
+      frame_urls: request.frame_urls,
+      transcript: request.transcript,
+    }),
+};
+
 function isYouTubeUrl(url: string): boolean {
   return /^https?:\/\/(www\.)?(youtube\.com|youtu\.be)\//i.test(url);
 }
@@ -114,14 +129,15 @@ async function extractTextFromFrames(
   frameUrls: string[]
 ): Promise<string> {
   try {
-    const response = await openRouter.chatWithImages(
-      "You are an OCR system. Extract ALL visible text from these video frames. Include recipe titles, ingredients, instructions, and any other text. Return only the extracted text, no commentary.",
-      "Extract all visible text from these video frames. Focus on recipe content: titles, ingredient lists, cooking instructions, measurements, and cooking times.",
-      frameUrls.slice(0, 4),
-      "qwen/qwen-2.5-vl-7b-instruct",
-      { temperature: 0.1, max_tokens: 3000 }
+    return await openRouter.runTask("vision", (model, settings) =>
+      openRouter.chatWithImages(
+        "You are an OCR system. Extract ALL visible text from these video frames. Include recipe titles, ingredients, instructions, and any other text. Return only the extracted text, no commentary.",
+        "Extract all visible text from these video frames. Focus on recipe content: titles, ingredient lists, cooking instructions, measurements, and cooking times.",
+        frameUrls.slice(0, 4),
+        model,
+        settings
+      )
     );
-    return response;
   } catch (error) {
     console.error("Vision OCR failed:", error);
     return "";
@@ -0,0 +1,134 @@
+/**
+ * Batch import — queues one pipeline job per URL or text blob and runs them
+ * in the background with bounded concurrency. Clients track each item via its job.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { OpenRouterClient } from "../_shared/openrouter-client.ts";
+import type { PipelineError, PipelineRequest } from "../_shared/recipe-schema.ts";
+import { createJob, keepJobsAlive, runJob } from "./jobs.ts";
+import { itemError } from "./pipeline.ts";
+
+/** Maximum number of items accepted per batch request */
+export const MAX_BATCH_ITEMS = 25;
+
+/** Pipelines running at once — each one makes several LLM/embedding calls */
+const BATCH_CONCURRENCY = 3;
+
+/** A URL or text blob; plain strings are classified by whether they parse as an http(s) URL */
+export type BatchItemInput = string | { source_type: "url" | "text"; url?: string; text?: string };
+
+export interface BatchItem {
+  index: number;
+  source_type: "url" | "text" | null;
+  /** URL or the first line of the text, for display */
+  label: string;
+  job_id?: string;
+  errors?: PipelineError[];
+}
+
+/**
+ * Validate the items, create a queued job for each valid one, and return the
+ * per-item summary plus a promise that runs the jobs to completion.
+ */
+export async function startBatch(
+  inputs: BatchItemInput[],
+  autoSave: boolean,
+  userId: string,
+  supabase: SupabaseClient,
+  openRouter: OpenRouterClient
+): Promise<{ items: BatchItem[]; done: Promise<void> }> {
+  const items: BatchItem[] = [];
+  const queued: { jobId: string; request: PipelineRequest }[] = [];
+
+  for (const [index, input] of inputs.entries()) {
+    const request = toPipelineRequest(input, autoSave);
+    const label = describeInput(input);
+
+    if (!request) {
+      items.push({
+        index,
+        source_type: null,
+        label,
+        errors: [
+          itemError("adapter", "INVALID_ITEM", `Item ${index + 1}`, new Error("Expected a URL or recipe text")),
+        ],
+      });
+      continue;
+    }
+
+    try {
+      const job = await createJob(request, userId, supabase);
+      items.push({ index, source_type: request.source_type as "url" | "text", label, job_id: job.id });
+      queued.push({ jobId: job.id, request });
+    } catch (error) {
+      items.push({
+        index,
+        source_type: request.source_type as "url" | "text",
+        label,
+        errors: [itemError("adapter", "JOB_CREATE_FAILED", `Item ${index + 1}`, error)],
+      });
+    }
+  }
+
+  const stopHeartbeat = keepJobsAlive(queued.map((q) => q.jobId), supabase);
+  const done = runWithConcurrency(queued, BATCH_CONCURRENCY, ({ jobId, request }) =>
+    runJob(jobId, request, userId, supabase, openRouter)
+  ).finally(stopHeartbeat);
+
+  console.log(`Batch started: ${queued.length}/${inputs.length} items queued`);
+  return { items, done };
+}
+
+function toPipelineRequest(input: BatchItemInput, autoSave: boolean): PipelineRequest | null {
+  if (typeof input === "string") {
+    const value = input.trim();
+    if (!value) return null;
+    return isHttpUrl(value)
+      ? { source_type: "url", url: value, auto_save: autoSave }
+      : { source_type: "text", text: value, auto_save: autoSave };
+  }
+
+  if (input?.source_type === "url" && input.url && isHttpUrl(input.url.trim())) {
+    return { source_type: "url", url: input.url.trim(), auto_save: autoSave };
+  }
+  if (input?.source_type === "text" && input.text?.trim()) {
+    return { source_type: "text", text: input.text.trim(), auto_save: autoSave };
+  }
+  return null;
+}
+
+function describeInput(input: BatchItemInput): string {
+  const value = typeof input === "string" ? input : input?.url || input?.text || "";
+  const firstLine = String(value).trim().split("\n")[0];
+  return firstLine.length > 120 ? firstLine.substring(0, 120) + "…" : firstLine;
+}
+
+function isHttpUrl(value: string): boolean {
+  if (/\s/.test(value)) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/** Run `worker` over `items` with at most `limit` in flight. Worker errors are logged, not thrown. */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        console.error("Batch worker failed:", error);
+      }
+    }
+  });
+  await Promise.all(lanes);
+}
@@ -0,0 +1,286 @@
+/**
+ * Duplicate detection and merge — finds existing recipes that match an incoming one
+ * (same title, or an embedding near-duplicate), diffs them field by field, and builds
+ * the record for whichever resolution the user picks.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type {
+  DuplicateReport,
+  Ingredient,
+  MergeField,
+  RecipeDiff,
+  RecipeFieldDiff,
+  RecipeRow,
+  ValidatedRecipe,
+} from "../_shared/recipe-schema.ts";
+import type { RecipeEmbedding } from "../_shared/embedding-utils.ts";
+
+/** Similarity above which the load stage treats a recipe as a near-duplicate */
+export const NEAR_DUPLICATE_SIMILARITY = 0.9;
+
+/** Fields compared one-to-one (ingredients and instructions get their own diff) */
+const SCALAR_FIELDS: MergeField[] = [
+  "title",
+  "description",
+  "prep_time",
+  "cook_time",
+  "total_time",
+  "servings",
+  "difficulty",
+  "cuisine",
+  "tags",
+  "image_url",
+  "nutrition_info",
+  "source_url",
+  "source_name",
+];
+
+/** Incoming recipe fields the diff needs — check-similar callers may send a partial recipe */
+export type DiffableRecipe = Pick<ValidatedRecipe, "title" | "ingredients" | "instructions"> &
+  Partial<Omit<ValidatedRecipe, "title" | "ingredients" | "instructions">>;
+
+/**
+ * Find the caller's recipes that duplicate `recipe`: a case-insensitive title match first,
+ * then embedding matches above `threshold`. Each report carries a diff against the recipe.
+ */
+export async function findDuplicates(
+  recipe: DiffableRecipe,
+  userId: string,
+  supabase: SupabaseClient,
+  embedding: RecipeEmbedding | null,
+  options: { threshold: number; limit: number }
+): Promise<DuplicateReport[]> {
+  const reports: DuplicateReport[] = [];
+
+  // Several recipes can share a title; a `*` in it can also match near-misses (see escapeLike)
+  const title = normalizeText(recipe.title);
+  const { data: titleRows, error: titleError } = await supabase
+    .from("recipes")
+    .select("*")
+    .eq("user_id", userId)
+    .ilike("title", escapeLike(recipe.title.trim()))
+    .order("created_at", { ascending: true })
+    .limit(options.limit);
+
+  if (titleError) console.warn("Duplicate title lookup failed (non-fatal):", titleError.message);
+  const titleMatches = ((titleRows ?? []) as RecipeRow[])
+    .filter((row) => normalizeText(row.title) === title);
+  for (const row of titleMatches) {
+    reports.push(toReport(row, recipe, "title", null));
+  }
+
+  if (embedding && reports.length < options.limit) {
+    const { data: similar, error } = await supabase.rpc("search_recipes_semantic", {
+      query_embedding: JSON.stringify(embedding.vector),
+      user_id: userId,
+      match_threshold: options.threshold,
+      match_count: options.limit + 1,
+      query_model: embedding.model,
+    });
+
+    if (error) {
+      console.warn("Near-duplicate search failed (non-fatal):", error.message);
+    } else {
+      const matches = ((similar ?? []) as any[])
+        .filter((r) => !titleMatches.some((row) => row.id === r.id))
+        .slice(0, options.limit - reports.length);
+
+      if (matches.length > 0) {
+        const { data: rows } = await supabase
+          .from("recipes")
+          .select("*")
+          .in("id", matches.map((m) => m.id));
+
+        for (const match of matches) {
+          const row = (rows ?? []).find((r: any) => r.id === match.id);
+          const similarity = match.similarity_score ?? match.similarity ?? null;
+          if (row) reports.push(toReport(row as RecipeRow, recipe, "similar", similarity));
+        }
+      }
+    }
+  }
+
+  return reports;
+}
+
+/** Load one of the caller's recipes by id (RLS plus the user filter scope the lookup). */
+export async function getOwnRecipe(
+  recipeId: string,
+  userId: string,
+  supabase: SupabaseClient
+): Promise<RecipeRow | null> {
+  const { data, error } = await supabase
+    .from("recipes")
+    .select("*")
+    .eq("id", recipeId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load recipe: ${error.message}`);
+  return data as RecipeRow | null;
+}
+
+/** Field-by-field diff of an existing recipe against the incoming one. */
+export function diffRecipes(existing: RecipeRow, incoming: DiffableRecipe): RecipeDiff {
+  const fields: RecipeFieldDiff[] = SCALAR_FIELDS
+    .filter((field) => field in incoming)
+    .map((field) => {
+      const before = (existing as any)[field] ?? null;
+      const after = (incoming as any)[field] ?? null;
+      return { field, existing: before, incoming: after, changed: !sameValue(field, before, after) };
+    });
+
+  const ingredients = diffIngredients(existing.ingredients || [], incoming.ingredients || []);
+  const existingSteps = existing.instructions || [];
+  const incomingSteps = incoming.instructions || [];
+  const instructionsChanged =
+    existingSteps.length !== incomingSteps.length ||
+    existingSteps.some((step, i) => normalizeText(step) !== normalizeText(incomingSteps[i]));
+
+  const changed_fields = fields.filter((f) => f.changed).map((f) => f.field);
+  if (ingredients.added.length || ingredients.removed.length || ingredients.changed.length) {
+    changed_fields.push("ingredients");
+  }
+  if (instructionsChanged) changed_fields.push("instructions");
+
+  return {
+    fields,
+    ingredients,
+    instructions: { existing: existingSteps, incoming: incomingSteps, changed: instructionsChanged },
+    changed_fields,
+  };
+}
+
+/** Changed fields the existing recipe leaves empty — the default merge only fills gaps */
+export function emptyFields(diff: RecipeDiff): MergeField[] {
+  const isEmpty = (value: unknown) =>
+    value === null || value === "" || (Array.isArray(value) && value.length === 0);
+  const fields = diff.fields.filter((f) => f.changed && isEmpty(f.existing)).map((f) => f.field);
+  const { added, removed, changed, unchanged } = diff.ingredients;
+  if (added.length > 0 && removed.length === 0 && changed.length === 0 && unchanged === 0) {
+    fields.push("ingredients");
+  }
+  if (diff.instructions.existing.length === 0 && diff.instructions.incoming.length > 0) fields.push("instructions");
+  return fields;
+}
+
+/** The existing recipe with the selected fields taken from the incoming one. */
+export function mergeRecipes(
+  existing: RecipeRow,
+  incoming: ValidatedRecipe,
+  fields: MergeField[]
+): ValidatedRecipe {
+  const merged: ValidatedRecipe = {
+    title: existing.title,
+    description: existing.description,
+    ingredients: existing.ingredients || [],
+    instructions: existing.instructions || [],
+    prep_time: existing.prep_time,
+    cook_time: existing.cook_time,
+    total_time: existing.total_time,
+    servings: existing.servings ?? incoming.servings,
+    difficulty: (existing.difficulty as ValidatedRecipe["difficulty"]) ?? incoming.difficulty,
+    cuisine: existing.cuisine,
+    tags: existing.tags || [],
+    image_url: existing.image_url,
+    nutrition_info: existing.nutrition_info,
+    source_url: existing.source_url,
+    source_name: existing.source_name,
+    slug: existing.slug || incoming.slug,
+  };
+
+  for (const field of fields) {
+    if (field in incoming) (merged as any)[field] = (incoming as any)[field];
+  }
+  return merged;
+}
+
+/**
+ * Title and slug for saving a second copy next to an existing recipe:
+ * "Chili" → "Chili (2)" / "chili-2", counting up past any that are already taken.
+ */
+export async function suffixedIdentity(
+  recipe: ValidatedRecipe,
+  userId: string,
+  supabase: SupabaseClient
+): Promise<{ title: string; slug: string }> {
+  const baseTitle = recipe.title.replace(/\s*\(\d+\)$/, "");
+  const baseSlug = recipe.slug.replace(/-\d+$/, "");
+
+  const { data } = await supabase
+    .from("recipes")
+    .select("title, slug")
+    .eq("user_id", userId)
+    .ilike("title", `${escapeLike(baseTitle)}%`);
+
+  const takenTitles = new Set((data ?? []).map((r: any) => String(r.title).trim().toLowerCase()));
+  const takenSlugs = new Set((data ?? []).map((r: any) => r.slug));
+
+  for (let n = 2; ; n++) {
+    const title = `${baseTitle} (${n})`;
+    const slug = `${baseSlug}-${n}`;
+    if (!takenTitles.has(title.toLowerCase()) && !takenSlugs.has(slug)) return { title, slug };
+  }
+}
+
+function toReport(
+  existing: RecipeRow,
+  incoming: DiffableRecipe,
+  match: DuplicateReport["match"],
+  similarity: number | null
+): DuplicateReport {
+  return {
+    existing_id: existing.id,
+    existing_title: existing.title,
+    match,
+    similarity,
+    diff: diffRecipes(existing, incoming),
+  };
+}
+
+function diffIngredients(existing: Ingredient[], incoming: Ingredient[]): RecipeDiff["ingredients"] {
+  const remaining = new Map(existing.map((i) => [normalizeText(i.name), i]));
+  const added: Ingredient[] = [];
+  const changed: RecipeDiff["ingredients"]["changed"] = [];
+  let unchanged = 0;
+
+  for (const ingredient of incoming) {
+    const key = normalizeText(ingredient.name);
+    const match = remaining.get(key);
+    if (!match) {
+      added.push(ingredient);
+      continue;
+    }
+    remaining.delete(key);
+    const same =
+      (match.amount ?? null) === (ingredient.amount ?? null) &&
+      normalizeText(match.unit) === normalizeText(ingredient.unit) &&
+      normalizeText(match.notes) === normalizeText(ingredient.notes);
+    if (same) unchanged++;
+    else changed.push({ name: ingredient.name, existing: match, incoming: ingredient });
+  }
+
+  return { added, removed: [...remaining.values()], changed, unchanged };
+}
+
+function sameValue(field: MergeField, a: unknown, b: unknown): boolean {
+  if (field === "tags") {
+    const left = ((a as string[] | null) || []).map(normalizeText).sort();
+    const right = ((b as string[] | null) || []).map(normalizeText).sort();
+    return left.join("|") === right.join("|");
+  }
+  if (typeof a === "string" || typeof b === "string") return normalizeText(a) === normalizeText(b);
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function normalizeText(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Escape LIKE wildcards so titles containing % or _ match literally. PostgREST reads `*` as
+ * `%` and has no escape for it, so `*` becomes `_` — callers compare the titles they get back.
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/\*/g, "_");
+}
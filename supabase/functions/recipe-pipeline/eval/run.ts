@@ -0,0 +1,264 @@
+/**
+ * Offline eval harness for the extract + transform stages.
+ *
+ * Runs every fixture in a folder through the same adapter → extract → transform path the
+ * pipeline uses and scores the ValidatedRecipe against the fixture's expected output, so
+ * prompt and model changes can be measured before they ship. LLM calls are answered from
+ * the fixture's saved responses — no network access or API key needed. `--live` sends them
+ * to OpenRouter instead (requires OPENROUTER_API_KEY and --allow-net --allow-env), or to its
+ * recordings with OPENROUTER_RECORDING=replay (see _shared/openrouter-recorder.ts).
+ *
+ *   deno run --allow-read recipe-pipeline/eval/run.ts [fixtures-dir] [--only <name>] [--min-score 0.8] [--json report.json] [--verbose]
+ *
+ * A fixture is a folder holding `fixture.json`:
+ *   {
+ *     "source": "html | text | image",
+ *     "input": "page.html | recipe.txt",       // html/text: file in the fixture folder
+ *     "images": ["photo.jpg"],                  // image: page photos, plus optional "text"
+ *     "url": "https://www.example.com/chili",   // html: page URL (its hostname picks the site plugin)
+ *     "pages": { "https://…/print": "print.html" }, // html: print views/next pages the plugin may load
+ *     "content": {                              // optional checks on the adapter output, before any LLM call
+ *       "site_plugin": "dotdash",               // the site plugin that must have read the page (null: none)
+ *       "includes": ["3 ripe bananas"],         // text the recipe content must contain
+ *       "excludes": ["Jump to Recipe"]          // cruft it must not
+ *     },
+ *     "expected": { ExpectedRecipe } | [ExpectedRecipe, …]
+ *   }
+ * and, unless the page's structured data skips the LLM, `responses.json`: the model replies
+ * in call order (a string each, or { "error": "…" } to replay a failed call).
+ */
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { fromFileUrl, join } from "https://deno.land/std@0.168.0/path/mod.ts";
+import type { IntermediateContent, ValidatedRecipe } from "../../_shared/recipe-schema.ts";
+import { createOpenRouterClient, type OpenRouterClient } from "../../_shared/openrouter-client.ts";
+import { readRecipePage } from "../adapters/url-adapter.ts";
+import { textAdapter } from "../adapters/text-adapter.ts";
+import { extract } from "../stages/extract.ts";
+import { transform } from "../stages/transform.ts";
+import { type ExpectedRecipe, type RecipeScore, scoreRecipe } from "./score.ts";
+import { type ScriptedResponse, ScriptedOpenRouterClient } from "./scripted-client.ts";
+
+interface Fixture {
+  source: "html" | "text" | "image";
+  input?: string;
+  text?: string;
+  images?: string[];
+  url?: string;
+  pages?: Record<string, string>;
+  content?: ContentChecks;
+  expected: ExpectedRecipe | ExpectedRecipe[];
+}
+
+interface ContentChecks {
+  site_plugin?: string | null;
+  includes?: string[];
+  excludes?: string[];
+}
+
+interface FixtureResult {
+  name: string;
+  /** Mean overall score of the fixture's recipes; 0 when the run failed */
+  score: number;
+  recipes: (RecipeScore & { quality: number | null })[];
+  llm_calls: number | null;
+  error?: string;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+async function main() {
+  const args = parseArgs(Deno.args);
+  const dir = args.dir ?? fromFileUrl(new URL("./fixtures/", import.meta.url));
+
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isDirectory && (!args.only || entry.name === args.only)) names.push(entry.name);
+  }
+  names.sort();
+  if (names.length === 0) {
+    console.error(args.only ? `No fixture named "${args.only}" in ${dir}` : `No fixtures in ${dir}`);
+    Deno.exit(1);
+  }
+
+  const results: FixtureResult[] = [];
+  for (const name of names) {
+    const result = await runFixture(join(dir, name), name, args);
+    results.push(result);
+    printResult(result);
+  }
+
+  const mean = round(results.reduce((sum, r) => sum + r.score, 0) / results.length);
+  const failed = results.filter((r) => r.error).length;
+  console.log(`\n${results.length} fixture(s), ${failed} failed — mean score ${mean}${args.live ? " (live)" : ""}`);
+
+  if (args.json) {
+    await Deno.writeTextFile(args.json, JSON.stringify({ mean, live: args.live, results }, null, 2));
+    console.log(`Report written to ${args.json}`);
+  }
+  if (args.minScore !== null && mean < args.minScore) {
+    console.error(`Mean score ${mean} is below --min-score ${args.minScore}`);
+    Deno.exit(1);
+  }
+}
+
+async function runFixture(
+  path: string,
+  name: string,
+  args: ReturnType<typeof parseArgs>
+): Promise<FixtureResult> {
+  let client: OpenRouterClient | null = null;
+  const restoreLogs = args.verbose ? () => {} : silencePipelineLogs();
+
+  try {
+    const fixture: Fixture = JSON.parse(await Deno.readTextFile(join(path, "fixture.json")));
+    const expected = Array.isArray(fixture.expected) ? fixture.expected : [fixture.expected];
+
+    client = args.live ? createOpenRouterClient() : new ScriptedOpenRouterClient(await readResponses(path));
+    const content = await fixtureContent(path, fixture);
+    if (fixture.content) checkContent(content, fixture.content);
+    const extracted = await extract(content, client, expected.length > 1 ? { maxRecipes: expected.length } : {});
+    const validated: ValidatedRecipe[] = (Array.isArray(extracted) ? extracted : [extracted]).map((recipe) =>
+      transform(recipe, content.source_metadata)
+    );
+
+    // Recipes are compared in order; a missing recipe scores 0
+    const recipes = expected.map((want, i) =>
+      validated[i]
+        ? { ...scoreRecipe(validated[i], want), quality: validated[i].quality?.score ?? null }
+        : { title: 0, ingredients: 0, amounts: null, instructions: 0, times: null, overall: 0, quality: null }
+    );
+    const unused = client instanceof ScriptedOpenRouterClient ? client.unused : 0;
+
+    return {
+      name,
+      score: round(recipes.reduce((sum, r) => sum + r.overall, 0) / recipes.length),
+      recipes,
+      llm_calls: client instanceof ScriptedOpenRouterClient ? client.calls.length : null,
+      ...(unused > 0 ? { error: `${unused} saved response(s) were not used — the fixture may be stale` } : {}),
+    };
+  } catch (error) {
+    return {
+      name,
+      score: 0,
+      recipes: [],
+      llm_calls: client instanceof ScriptedOpenRouterClient ? client.calls.length : null,
+      error: error.message,
+    };
+  } finally {
+    restoreLogs();
+  }
+}
+
+/** Build the adapter output for a fixture without touching the network. */
+async function fixtureContent(path: string, fixture: Fixture): Promise<IntermediateContent> {
+  switch (fixture.source) {
+    case "html": {
+      if (!fixture.input || !fixture.url) throw new Error("html fixtures need input and url");
+      const html = await Deno.readTextFile(join(path, fixture.input));
+      // Site plugins may ask for print views or further pages — serve those from the fixture too
+      const fetchPage = async (url: string) => {
+        const file = fixture.pages?.[url];
+        if (!file) throw new Error(`Page not saved in the fixture: ${url}`);
+        return Deno.readTextFile(join(path, file));
+      };
+      return readRecipePage(html, fixture.url, fetchPage);
+    }
+    case "text": {
+      if (!fixture.input) throw new Error("text fixtures need input");
+      return textAdapter(await Deno.readTextFile(join(path, fixture.input)));
+    }
+    case "image": {
+      if (!fixture.images?.length) throw new Error("image fixtures need images");
+      const images = await Promise.all(fixture.images.map((file) => imageDataUrl(join(path, file))));
+      return textAdapter(fixture.text ?? "", images);
+    }
+    default:
+      throw new Error(`Unknown fixture source: ${(fixture as Fixture).source}`);
+  }
+}
+
+/** Site plugin regressions show up here, before the saved LLM replies can paper over them. */
+function checkContent(content: IntermediateContent, checks: ContentChecks) {
+  if (checks.site_plugin !== undefined) {
+    const plugin = content.source_metadata.extra?.site_plugin ?? null;
+    if (plugin !== checks.site_plugin) {
+      throw new Error(`Expected site plugin ${checks.site_plugin ?? "none"}, got ${plugin ?? "none"}`);
+    }
+  }
+  const missing = (checks.includes ?? []).filter((text) => !content.raw_text.includes(text));
+  if (missing.length > 0) throw new Error(`Content is missing: ${missing.map((t) => `"${t}"`).join(", ")}`);
+  const cruft = (checks.excludes ?? []).filter((text) => content.raw_text.includes(text));
+  if (cruft.length > 0) throw new Error(`Content still has: ${cruft.map((t) => `"${t}"`).join(", ")}`);
+}
+
+async function readResponses(path: string): Promise<ScriptedResponse[]> {
+  try {
+    return JSON.parse(await Deno.readTextFile(join(path, "responses.json")));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return [];
+    throw error;
+  }
+}
+
+async function imageDataUrl(file: string): Promise<string> {
+  const type = IMAGE_TYPES[file.split(".").pop()!.toLowerCase()];
+  if (!type) throw new Error(`Unsupported image type: ${file}`);
+  return `data:${type};base64,${encodeBase64(await Deno.readFile(file))}`;
+}
+
+function printResult(result: FixtureResult) {
+  const status = result.error ? "FAIL" : "ok  ";
+  console.log(`${status} ${result.score.toFixed(2)}  ${result.name}${result.llm_calls !== null ? `  (${result.llm_calls} LLM call(s))` : ""}`);
+  for (const [i, recipe] of result.recipes.entries()) {
+    const metrics = (["title", "ingredients", "amounts", "instructions", "times"] as const)
+      .map((metric) => `${metric} ${recipe[metric] === null ? "-" : recipe[metric]!.toFixed(2)}`)
+      .join("  ");
+    console.log(`       #${i + 1}  ${metrics}  quality ${recipe.quality ?? "-"}`);
+  }
+  if (result.error) console.log(`       ${result.error}`);
+}
+
+/** The stages log every raw LLM response — keep the report readable unless --verbose */
+function silencePipelineLogs(): () => void {
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  return () => {
+    console.log = log;
+    console.warn = warn;
+  };
+}
+
+function parseArgs(argv: string[]) {
+  const args = {
+    dir: null as string | null,
+    only: null as string | null,
+    json: null as string | null,
+    minScore: null as number | null,
+    live: false,
+    verbose: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--only") args.only = argv[++i];
+    else if (arg === "--json") args.json = argv[++i];
+    else if (arg === "--min-score") args.minScore = Number(argv[++i]);
+    else if (arg === "--live") args.live = true;
+    else if (arg === "--verbose") args.verbose = true;
+    else args.dir = arg;
+  }
+  return args;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+if (import.meta.main) {
+  await main();
+}
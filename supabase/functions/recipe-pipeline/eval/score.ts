@@ -0,0 +1,124 @@
+/**
+ * Scoring for the eval harness — compares a ValidatedRecipe with the expected one.
+ * Every metric is 0–1; metrics the fixture doesn't specify are null and left out of the overall score.
+ */
+import type { Ingredient, ValidatedRecipe } from "../../_shared/recipe-schema.ts";
+
+/** What a fixture expects: title, ingredients and instructions, plus any other fields worth checking */
+export type ExpectedRecipe = Pick<ValidatedRecipe, "title" | "ingredients" | "instructions"> &
+  Partial<Omit<ValidatedRecipe, "title" | "ingredients" | "instructions" | "quality">>;
+
+export interface RecipeScore {
+  title: number;
+  /** F1 over ingredient names */
+  ingredients: number;
+  /** Share of matched ingredients with the right amount and unit */
+  amounts: number | null;
+  /** Word-level F1 over the instruction text */
+  instructions: number;
+  /** Share of expected prep/cook/total time and servings values that match */
+  times: number | null;
+  overall: number;
+}
+
+const TIME_FIELDS = ["prep_time", "cook_time", "total_time", "servings"] as const;
+
+const WEIGHTS = { title: 0.1, ingredients: 0.3, amounts: 0.15, instructions: 0.3, times: 0.15 };
+
+export function scoreRecipe(actual: ValidatedRecipe, expected: ExpectedRecipe): RecipeScore {
+  const title = normalize(actual.title) === normalize(expected.title) ? 1 : 0;
+
+  const pairs = matchIngredients(actual.ingredients, expected.ingredients);
+  const ingredients = f1(pairs.length, actual.ingredients.length, expected.ingredients.length);
+  const amounts = pairs.length === 0
+    ? null
+    : pairs.filter(([a, e]) => sameAmount(a, e)).length / pairs.length;
+
+  const instructions = wordF1(actual.instructions.join(" "), expected.instructions.join(" "));
+
+  const timeFields = TIME_FIELDS.filter((field) => field in expected);
+  const times = timeFields.length === 0
+    ? null
+    : timeFields.filter((field) => (actual[field] ?? null) === (expected[field] ?? null)).length / timeFields.length;
+
+  const scores = { title, ingredients, amounts, instructions, times };
+  let weighted = 0;
+  let total = 0;
+  for (const [metric, weight] of Object.entries(WEIGHTS) as [keyof typeof WEIGHTS, number][]) {
+    const value = scores[metric];
+    if (value === null) continue;
+    weighted += value * weight;
+    total += weight;
+  }
+
+  return { ...scores, overall: round(weighted / total) };
+}
+
+/** Greedy name matching — "garlic" matches "garlic cloves", each ingredient used once. */
+function matchIngredients(actual: Ingredient[], expected: Ingredient[]): [Ingredient, Ingredient][] {
+  const remaining = [...actual];
+  const pairs: [Ingredient, Ingredient][] = [];
+
+  for (const want of expected) {
+    const name = normalize(want.name);
+    let index = remaining.findIndex((got) => normalize(got.name) === name);
+    if (index === -1) {
+      index = remaining.findIndex((got) => {
+        const gotName = normalize(got.name);
+        return gotName.includes(name) || name.includes(gotName);
+      });
+    }
+    if (index === -1) continue;
+    pairs.push([remaining[index], want]);
+    remaining.splice(index, 1);
+  }
+  return pairs;
+}
+
+function sameAmount(actual: Ingredient, expected: Ingredient): boolean {
+  const amountMatches = actual.amount === null || expected.amount === null
+    ? actual.amount === expected.amount
+    : Math.abs(actual.amount - expected.amount) < 0.01;
+  return amountMatches && normalizeUnit(actual.unit) === normalizeUnit(expected.unit);
+}
+
+function wordF1(actual: string, expected: string): number {
+  const counts = new Map<string, number>();
+  const expectedWords = words(expected);
+  for (const word of expectedWords) counts.set(word, (counts.get(word) ?? 0) + 1);
+
+  let overlap = 0;
+  const actualWords = words(actual);
+  for (const word of actualWords) {
+    const left = counts.get(word) ?? 0;
+    if (left > 0) {
+      overlap++;
+      counts.set(word, left - 1);
+    }
+  }
+  return f1(overlap, actualWords.length, expectedWords.length);
+}
+
+function f1(matched: number, actualCount: number, expectedCount: number): number {
+  if (actualCount === 0 && expectedCount === 0) return 1;
+  if (matched === 0) return 0;
+  const precision = matched / actualCount;
+  const recall = matched / expectedCount;
+  return round((2 * precision * recall) / (precision + recall));
+}
+
+function words(text: string): string[] {
+  return normalize(text).split(" ").filter(Boolean);
+}
+
+function normalize(text: string): string {
+  return (text || "").toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+}
+
+function normalizeUnit(unit: string): string {
+  return normalize(unit).replace(/s$/, "");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,65 @@
+/**
+ * OpenRouterClient stand-in for the eval harness — answers each LLM call with the next
+ * response saved for the fixture, so extraction runs without network access.
+ */
+import { OpenRouterClient } from "../../_shared/openrouter-client.ts";
+
+/** A saved model reply, or a failure to replay (e.g. to exercise the vision model fallback) */
+export type ScriptedResponse = string | { error: string };
+
+export interface ScriptedCall {
+  method: "chat" | "chatWithHistory" | "chatWithImages";
+  model: string;
+  images: number;
+}
+
+export class ScriptedOpenRouterClient extends OpenRouterClient {
+  readonly calls: ScriptedCall[] = [];
+  private responses: ScriptedResponse[];
+
+  constructor(responses: ScriptedResponse[]) {
+    super("offline");
+    this.responses = [...responses];
+  }
+
+  async chat(_systemPrompt: string, _userMessage: string, model = "qwen/qwen3-8b"): Promise<string> {
+    return this.next({ method: "chat", model, images: 0 });
+  }
+
+  async chatWithHistory(
+    _systemPrompt: string,
+    _conversationHistory: any[],
+    _userMessage: string,
+    model = "qwen/qwen3-8b"
+  ): Promise<string> {
+    return this.next({ method: "chatWithHistory", model, images: 0 });
+  }
+
+  async chatWithImages(
+    _systemPrompt: string,
+    _userMessage: string,
+    images: string[],
+    model = "qwen/qwen-2.5-vl-7b-instruct"
+  ): Promise<string> {
+    return this.next({ method: "chatWithImages", model, images: images.length });
+  }
+
+  async generateEmbedding(_text: string): Promise<number[]> {
+    throw new Error("Embeddings are not available in the eval harness");
+  }
+
+  /** Responses that were never asked for — usually a sign the fixture is stale */
+  get unused(): number {
+    return this.responses.length;
+  }
+
+  private next(call: ScriptedCall): string {
+    this.calls.push(call);
+    const response = this.responses.shift();
+    if (response === undefined) {
+      throw new Error(`No saved response left for ${call.method} call #${this.calls.length} (${call.model})`);
+    }
+    if (typeof response !== "string") throw new Error(response.error);
+    return response;
+  }
+}
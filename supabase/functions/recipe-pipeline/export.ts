@@ -0,0 +1,266 @@
+/**
+ * Recipe export — the reverse of the ValidatedRecipe mapping.
+ * Serializes saved recipes as schema.org JSON-LD, a Markdown card or a Paprika file,
+ * and bundles a user's whole library (plus collections) into one zip.
+ * JSON-LD and Paprika output round-trips through the `file` source type of /ingest.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Ingredient, NutritionInfo, RecipeRow } from "../_shared/recipe-schema.ts";
+import { type ArchiveEntry, gzip, writeZip } from "./adapters/formats/archive.ts";
+
+export type ExportFormat = "jsonld" | "markdown" | "paprika";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["jsonld", "markdown", "paprika"];
+
+/** Recipes per query page when building a library export */
+const LIBRARY_PAGE_SIZE = 500;
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Uint8Array;
+}
+
+/** Serialize one recipe in the requested format. */
+export async function exportRecipe(recipe: RecipeRow, format: ExportFormat): Promise<ExportFile> {
+  const base = fileBaseName(recipe);
+  const encoder = new TextEncoder();
+
+  switch (format) {
+    case "jsonld":
+      return {
+        filename: `${base}.json`,
+        contentType: "application/ld+json",
+        body: encoder.encode(JSON.stringify(toJsonLd(recipe), null, 2)),
+      };
+    case "markdown":
+      return {
+        filename: `${base}.md`,
+        contentType: "text/markdown; charset=utf-8",
+        body: encoder.encode(toMarkdown(recipe)),
+      };
+    case "paprika":
+      return {
+        filename: `${base}.paprikarecipe`,
+        contentType: "application/octet-stream",
+        body: await gzip(encoder.encode(JSON.stringify(toPaprika(recipe)))),
+      };
+  }
+}
+
+/**
+ * Zip the caller's whole library: JSON-LD and Markdown per recipe, a Paprika file per
+ * recipe (so the zip itself imports back as a Paprika export), and `collections.json`.
+ */
+export async function exportLibrary(userId: string, supabase: SupabaseClient): Promise<ExportFile> {
+  const recipes: RecipeRow[] = [];
+  for (let offset = 0; ; offset += LIBRARY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("recipes")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .range(offset, offset + LIBRARY_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load recipes: ${error.message}`);
+    recipes.push(...((data || []) as RecipeRow[]));
+    if (!data || data.length < LIBRARY_PAGE_SIZE) break;
+  }
+
+  const { data: collections, error: collectionsError } = await supabase
+    .from("recipe_collections")
+    .select("id, name, description, icon, visibility, sort_order, collection_recipes(recipe_id, sort_order)")
+    .eq("user_id", userId)
+    .order("sort_order", { ascending: true });
+  if (collectionsError) throw new Error(`Failed to load collections: ${collectionsError.message}`);
+
+  const encoder = new TextEncoder();
+  const entries: ArchiveEntry[] = [];
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const recipe of recipes) {
+    let base = fileBaseName(recipe);
+    for (let n = 2; used.has(base); n++) base = `${fileBaseName(recipe)}-${n}`;
+    used.add(base);
+    names.set(recipe.id, base);
+
+    entries.push(
+      { name: `recipes/${base}.json`, data: encoder.encode(JSON.stringify(toJsonLd(recipe), null, 2)) },
+      { name: `recipes/${base}.md`, data: encoder.encode(toMarkdown(recipe)) },
+      { name: `paprika/${base}.paprikarecipe`, data: await gzip(encoder.encode(JSON.stringify(toPaprika(recipe)))) }
+    );
+  }
+
+  const collectionIndex = (collections || []).map((c: any) => ({
+    name: c.name,
+    description: c.description ?? null,
+    icon: c.icon ?? null,
+    visibility: c.visibility ?? null,
+    recipes: [...(c.collection_recipes || [])]
+      .sort((a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+      .map((cr: any) => names.get(cr.recipe_id))
+      .filter(Boolean),
+  }));
+  entries.push({ name: "collections.json", data: encoder.encode(JSON.stringify(collectionIndex, null, 2)) });
+
+  console.log(`Library export: ${recipes.length} recipes, ${collectionIndex.length} collections`);
+  return {
+    filename: `recipe-library-${new Date().toISOString().slice(0, 10)}.zip`,
+    contentType: "application/zip",
+    body: writeZip(entries),
+  };
+}
+
+// ─── Serializers ───
+
+/** schema.org Recipe — the shape the url adapter's JSON-LD mapper reads back. */
+export function toJsonLd(recipe: RecipeRow): Record<string, unknown> {
+  const ld: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.title,
+  };
+
+  if (recipe.description) ld.description = recipe.description;
+  if (recipe.image_url) ld.image = recipe.image_url;
+  if (recipe.source_url) ld.url = recipe.source_url;
+  if (recipe.source_name) ld.author = { "@type": "Organization", name: recipe.source_name };
+  if (recipe.prep_time) ld.prepTime = isoDuration(recipe.prep_time);
+  if (recipe.cook_time) ld.cookTime = isoDuration(recipe.cook_time);
+  if (recipe.total_time) ld.totalTime = isoDuration(recipe.total_time);
+  if (recipe.servings) ld.recipeYield = `${recipe.servings} servings`;
+  if (recipe.cuisine) ld.recipeCuisine = recipe.cuisine;
+  if (recipe.tags?.length) ld.keywords = recipe.tags.join(", ");
+
+  ld.recipeIngredient = (recipe.ingredients || []).map(formatIngredient);
+  ld.recipeInstructions = (recipe.instructions || []).map((text) => ({ "@type": "HowToStep", text }));
+
+  const n = recipe.nutrition_info;
+  if (n && Object.keys(n).length > 0) {
+    ld.nutrition = {
+      "@type": "NutritionInformation",
+      ...(n.calories ? { calories: `${n.calories} calories` } : {}),
+      ...(n.protein ? { proteinContent: `${n.protein} g` } : {}),
+      ...(n.carbs ? { carbohydrateContent: `${n.carbs} g` } : {}),
+      ...(n.fat ? { fatContent: `${n.fat} g` } : {}),
+    };
+  }
+
+  return ld;
+}
+
+/** Markdown recipe card. */
+export function toMarkdown(recipe: RecipeRow): string {
+  const lines: string[] = [`# ${recipe.title}`, ""];
+
+  if (recipe.description) lines.push(recipe.description, "");
+
+  const facts = [
+    recipe.prep_time ? `**Prep:** ${formatMinutes(recipe.prep_time)}` : null,
+    recipe.cook_time ? `**Cook:** ${formatMinutes(recipe.cook_time)}` : null,
+    recipe.total_time ? `**Total:** ${formatMinutes(recipe.total_time)}` : null,
+    recipe.servings ? `**Serves:** ${recipe.servings}` : null,
+    recipe.difficulty ? `**Difficulty:** ${recipe.difficulty}` : null,
+    recipe.cuisine ? `**Cuisine:** ${recipe.cuisine}` : null,
+  ].filter(Boolean);
+  if (facts.length) lines.push(facts.join(" · "), "");
+
+  if (recipe.image_url) lines.push(`![${recipe.title}](${recipe.image_url})`, "");
+
+  lines.push("## Ingredients", "");
+  for (const ingredient of recipe.ingredients || []) lines.push(`- ${formatIngredient(ingredient)}`);
+  lines.push("");
+
+  lines.push("## Instructions", "");
+  (recipe.instructions || []).forEach((step, i) => lines.push(`${i + 1}. ${step}`));
+  lines.push("");
+
+  const nutrition = formatNutrition(recipe.nutrition_info);
+  if (nutrition) lines.push("## Nutrition", "", nutrition, "");
+
+  if (recipe.tags?.length) lines.push(`**Tags:** ${recipe.tags.join(", ")}`, "");
+  if (recipe.source_url) {
+    lines.push(`**Source:** [${recipe.source_name || recipe.source_url}](${recipe.source_url})`, "");
+  } else if (recipe.source_name) {
+    lines.push(`**Source:** ${recipe.source_name}`, "");
+  }
+
+  return lines.join("\n");
+}
+
+/** Paprika recipe JSON (gzipped by the caller into a `.paprikarecipe`). */
+export function toPaprika(recipe: RecipeRow): Record<string, unknown> {
+  return {
+    uid: recipe.id.toUpperCase(),
+    name: recipe.title,
+    description: recipe.description || "",
+    ingredients: (recipe.ingredients || []).map(formatIngredient).join("\n"),
+    directions: (recipe.instructions || []).join("\n"),
+    notes: "",
+    nutritional_info: formatNutrition(recipe.nutrition_info) || "",
+    servings: recipe.servings ? String(recipe.servings) : "",
+    prep_time: recipe.prep_time ? formatMinutes(recipe.prep_time) : "",
+    cook_time: recipe.cook_time ? formatMinutes(recipe.cook_time) : "",
+    total_time: recipe.total_time ? formatMinutes(recipe.total_time) : "",
+    difficulty: recipe.difficulty ? recipe.difficulty[0].toUpperCase() + recipe.difficulty.slice(1) : "",
+    categories: recipe.tags || [],
+    source: recipe.source_name || "",
+    source_url: recipe.source_url || "",
+    image_url: recipe.image_url || "",
+    photo_data: null,
+    rating: 0,
+    created: recipe.created_at.replace("T", " ").slice(0, 19),
+  };
+}
+
+// ─── Formatting helpers ───
+
+/** "1.5 cups onion, diced" → "1 1/2 cups onion, diced" — parseable by the ingredient parser. */
+function formatIngredient(ingredient: Ingredient): string {
+  const amount = ingredient.amount ? formatAmount(ingredient.amount) : "";
+  const text = [amount, ingredient.unit, ingredient.name].filter(Boolean).join(" ");
+  return ingredient.notes ? `${text}, ${ingredient.notes}` : text;
+}
+
+const FRACTIONS: [number, string][] = [
+  [1 / 8, "1/8"], [1 / 4, "1/4"], [1 / 3, "1/3"], [3 / 8, "3/8"], [1 / 2, "1/2"],
+  [5 / 8, "5/8"], [2 / 3, "2/3"], [3 / 4, "3/4"], [7 / 8, "7/8"],
+];
+
+function formatAmount(amount: number): string {
+  const whole = Math.floor(amount);
+  const fraction = FRACTIONS.find(([value]) => Math.abs(amount - whole - value) < 0.01);
+  if (fraction) return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+  return String(Math.round(amount * 100) / 100);
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+function isoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ""}${rest || !hours ? `${rest}M` : ""}`;
+}
+
+function formatNutrition(n: NutritionInfo | null): string | null {
+  if (!n) return null;
+  const parts = [
+    n.calories ? `${n.calories} calories` : null,
+    n.protein ? `${n.protein} g protein` : null,
+    n.carbs ? `${n.carbs} g carbs` : null,
+    n.fat ? `${n.fat} g fat` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : null;
+}
+
+function fileBaseName(recipe: RecipeRow): string {
+  const slug =
+    recipe.slug ||
+    recipe.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return slug || recipe.id;
+}
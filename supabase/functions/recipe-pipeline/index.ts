@@ -4,16 +4,65 @@
  * Endpoints:
  *   POST /ingest        — full pipeline: adapter → extract → transform → load
  *   POST /extract-only  — extract + transform, no save (for chat preview)
- *   POST /check-similar — find similar existing recipes by embedding
+ *   POST /check-similar — find duplicate/similar existing recipes, each with a field diff
+ *   POST /resolve-duplicate — save a recipe that duplicates another (keep, replace, save both, merge)
+ *   POST /jobs          — queue the full pipeline in the background, returns a job id
+ *   POST /batch         — queue one job per URL/text item (bounded concurrency)
+ *   GET  /jobs/:id      — job status with per-stage reports and final result
+ *   GET  /export/:id    — one recipe as JSON-LD, Markdown or Paprika (?format=)
+ *   GET  /export/library — zip of the caller's recipes and collections
  *   GET  /health        — health check
  */
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { corsHeaders, corsResponse, corsError } from "../_shared/cors.ts";
-import { getUserFromToken } from "../_shared/supabase-client.ts";
+import { corsHeaders, corsResponse, corsError, corsFile } from "../_shared/cors.ts";
+import { createServiceClient, getUserFromToken } from "../_shared/supabase-client.ts";
 import { createOpenRouterClient } from "../_shared/openrouter-client.ts";
-import type { PipelineRequest } from "../_shared/recipe-schema.ts";
-import { createRecipeText } from "../_shared/embedding-utils.ts";
+import { loadModelPolicies } from "../_shared/model-policy.ts";
+import { checkUsageQuota, createUsageLogger, quotaExceededResponse } from "../_shared/usage.ts";
+import type {
+  DuplicateAction,
+  ExtractedRecipe,
+  PipelineRequest,
+  RecipeRow,
+} from "../_shared/recipe-schema.ts";
+import { createRecipeText, EMBEDDING_TEXT_VERSION, loadEmbeddingSettings } from "../_shared/embedding-utils.ts";
 import { runPipeline } from "./pipeline.ts";
+import { validateSourceRequest } from "./adapters/registry.ts";
+import { createJob, getJob, runJob } from "./jobs.ts";
+import { MAX_BATCH_ITEMS, startBatch } from "./batch.ts";
+import { type DiffableRecipe, findDuplicates } from "./duplicates.ts";
+import { transform } from "./stages/transform.ts";
+import { load } from "./stages/load.ts";
+import { EXPORT_FORMATS, type ExportFormat, exportLibrary, exportRecipe } from "./export.ts";
+
+// Supabase Edge Runtime global — keeps the isolate alive for background work after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const DUPLICATE_ACTIONS: DuplicateAction[] = ["keep_existing", "replace", "save_both", "merge"];
+const RECIPE_VISIBILITIES = ["private", "household", "public"];
+
+// check-similar flags anything above this; the load stage only blocks near-duplicates
+const SIMILAR_THRESHOLD = 0.7;
+const SIMILAR_LIMIT = 5;
+const SIMILAR_OPTIONAL_FIELDS: readonly (keyof DiffableRecipe)[] = [
+  "description",
+  "prep_time",
+  "cook_time",
+  "total_time",
+  "servings",
+  "difficulty",
+  "cuisine",
+  "tags",
+  "image_url",
+  "nutrition_info",
+  "source_url",
+  "source_name",
+];
+
+/** Set one field on a recipe, keeping the value tied to the field's type */
+function setField<K extends keyof DiffableRecipe>(recipe: DiffableRecipe, field: K, value: DiffableRecipe[K]) {
+  recipe[field] = value;
+}
 
 serve(async (req) => {
   // CORS preflight
@@ -51,10 +100,62 @@ serve(async (req) => {
     // ── Create OpenRouter client ──
     let openRouter;
     try {
-      openRouter = createOpenRouterClient();
+      openRouter = createOpenRouterClient(await loadModelPolicies(supabase));
     } catch {
       return corsError("OpenRouter API key not configured", 500);
     }
+    openRouter.setUsageLogger(createUsageLogger(createServiceClient(), user.id, "recipe-pipeline"));
+
+    // ── Monthly LLM quota — every POST route can call the model ──
+    if (req.method === "POST") {
+      const quota = await checkUsageQuota(supabase);
+      if (quota?.exceeded) return quotaExceededResponse(quota);
+    }
+
+    // ── Job status ──
+    if (req.method === "GET" && path.includes("/jobs/")) {
+      const jobId = path.split("/jobs/")[1]?.split("/")[0];
+      if (!jobId) {
+        return corsError("Job id is required", 400);
+      }
+
+      const job = await getJob(jobId, supabase);
+      if (!job) {
+        return corsError("Job not found", 404);
+      }
+      return corsResponse(job);
+    }
+
+    // ── Export ──
+    if (req.method === "GET" && path.includes("/export/")) {
+      const target = path.split("/export/")[1]?.split("/")[0];
+      if (!target) {
+        return corsError("Recipe id is required", 400);
+      }
+
+      if (target === "library") {
+        const file = await exportLibrary(user.id, supabase);
+        return corsFile(file.body, file.contentType, file.filename);
+      }
+
+      const format = (url.searchParams.get("format") || "jsonld") as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return corsError(`Invalid format: "${format}". Must be one of: ${EXPORT_FORMATS.join(", ")}.`, 400);
+      }
+
+      const { data: recipe, error } = await supabase
+        .from("recipes")
+        .select("*")
+        .eq("id", target)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to load recipe: ${error.message}`);
+      if (!recipe) {
+        return corsError("Recipe not found", 404);
+      }
+
+      const file = await exportRecipe(recipe as RecipeRow, format);
+      return corsFile(file.body, file.contentType, file.filename);
+    }
 
     // ── Route to handler ──
     if (req.method !== "POST") {
@@ -63,47 +164,99 @@ serve(async (req) => {
 
     // ── Check-similar endpoint ──
     if (path.includes("/check-similar")) {
-      const { title, description, ingredients, instructions, tags, cuisine, difficulty } =
-        await req.json();
+      const body = await req.json();
 
-      if (!title) {
+      if (!body.title) {
         return corsError("title is required", 400);
       }
 
+      // Only the fields the caller sent are diffed against each match
+      const candidate: DiffableRecipe = {
+        title: body.title,
+        ingredients: body.ingredients ?? [],
+        instructions: body.instructions ?? [],
+      };
+      for (const field of SIMILAR_OPTIONAL_FIELDS) {
+        if (body[field] !== undefined) setField(candidate, field, body[field]);
+      }
+
       // Build a recipe-like object compatible with createRecipeText
       const recipeText = createRecipeText({
-        title,
-        description: description ?? "",
-        ingredients: ingredients ?? [],
-        instructions: instructions ?? [],
-        tags: tags ?? [],
-        cuisine: cuisine ?? "",
-        difficulty: difficulty ?? "",
+        ...candidate,
+        description: candidate.description ?? "",
+        tags: candidate.tags ?? [],
+        cuisine: candidate.cuisine ?? "",
+        difficulty: candidate.difficulty ?? "",
       } as any);
 
-      const embedding = await openRouter.generateEmbedding(recipeText);
-
-      const { data, error } = await supabase.rpc("search_recipes_semantic", {
-        query_embedding: JSON.stringify(embedding),
-        user_id: user.id,
-        match_threshold: 0.7,
-        match_count: 5,
+      const { activeModel } = await loadEmbeddingSettings(supabase);
+      const embedding = {
+        model: activeModel,
+        version: EMBEDDING_TEXT_VERSION,
+        vector: await openRouter.generateEmbedding(recipeText, activeModel),
+      };
+      const matches = await findDuplicates(candidate, user.id, supabase, embedding, {
+        threshold: SIMILAR_THRESHOLD,
+        limit: SIMILAR_LIMIT,
       });
 
-      if (error) {
-        console.error("search_recipes_semantic error:", error);
-        return corsError("Failed to search for similar recipes", 500);
-      }
-
-      const similar = (data ?? []).map((r: any) => ({
-        id: r.id,
-        title: r.title,
-        similarity: r.similarity,
+      const similar = matches.map((m) => ({
+        id: m.existing_id,
+        title: m.existing_title,
+        similarity: m.similarity,
+        match: m.match,
+        diff: m.diff,
       }));
 
       return corsResponse({ similar });
     }
 
+    // ── Resolve a duplicate: keep existing, replace, save both or merge ──
+    if (path.endsWith("/resolve-duplicate")) {
+      const { recipe, resolution } = await req.json();
+
+      if (!recipe?.title) {
+        return corsError("recipe is required", 400);
+      }
+      if (!DUPLICATE_ACTIONS.includes(resolution?.action)) {
+        return corsError(`resolution.action must be one of: ${DUPLICATE_ACTIONS.join(", ")}`, 400);
+      }
+      if (resolution.visibility !== undefined && !RECIPE_VISIBILITIES.includes(resolution.visibility)) {
+        return corsError(`resolution.visibility must be one of: ${RECIPE_VISIBILITIES.join(", ")}`, 400);
+      }
+
+      try {
+        const validated = transform(recipe as ExtractedRecipe, {
+          source_type: "text",
+          extracted_at: new Date().toISOString(),
+          adapter_version: "resolve-duplicate",
+        });
+        const { recipe_id, action } = await load(validated, user.id, supabase, openRouter, resolution);
+        return corsResponse({ recipe_id, action: action ?? null });
+      } catch (error) {
+        if (error.stage && error.code) {
+          return corsError(error.message, error.code === "RECIPE_NOT_FOUND" ? 404 : 422);
+        }
+        throw error;
+      }
+    }
+
+    // ── Batch import ──
+    if (path.endsWith("/batch")) {
+      const { items, auto_save } = await req.json();
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return corsError("items must be a non-empty array of URLs or text", 400);
+      }
+      if (items.length > MAX_BATCH_ITEMS) {
+        return corsError(`A batch can contain at most ${MAX_BATCH_ITEMS} items`, 400);
+      }
+
+      const batch = await startBatch(items, auto_save !== false, user.id, supabase, openRouter);
+      EdgeRuntime.waitUntil(batch.done);
+      return corsResponse({ items: batch.items }, 202);
+    }
+
     const body: PipelineRequest = await req.json();
 
     if (path.includes("/extract-only")) {
@@ -111,12 +264,17 @@ serve(async (req) => {
       body.auto_save = false;
     }
 
-    // Validate source_type
-    if (!["url", "text", "video"].includes(body.source_type)) {
-      return corsError(
-        `Invalid source_type: "${body.source_type}". Must be "url", "text", or "video".`,
-        400
-      );
+    // Validate source_type and the fields its adapter needs
+    const invalid = validateSourceRequest(body);
+    if (invalid) {
+      return corsError(invalid, 400);
+    }
+
+    // Async job — respond immediately, run the pipeline after the response is sent
+    if (path.endsWith("/jobs")) {
+      const job = await createJob(body, user.id, supabase);
+      EdgeRuntime.waitUntil(runJob(job.id, body, user.id, supabase, openRouter));
+      return corsResponse({ job_id: job.id, status: job.status }, 202);
     }
 
     // Run pipeline
@@ -0,0 +1,182 @@
+/**
+ * Async pipeline jobs — persist a request to `pipeline_jobs`, run it in the background,
+ * and record each stage report as it finishes so clients can poll or subscribe.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { OpenRouterClient } from "../_shared/openrouter-client.ts";
+import type {
+  PipelineError,
+  PipelineJob,
+  PipelineRequest,
+  PipelineResult,
+  PipelineStageReport,
+} from "../_shared/recipe-schema.ts";
+import { runPipeline } from "./pipeline.ts";
+
+const JOB_COLUMNS = "id, status, source_type, stages, result, created_at, updated_at, started_at, completed_at";
+
+/**
+ * A queued or running job untouched for this long was cut off with its isolate (the
+ * runtime can end EdgeRuntime.waitUntil work early). Long enough for the slowest stage;
+ * batch jobs still waiting their turn are kept fresh by keepJobsAlive.
+ */
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+/** How often keepJobsAlive touches waiting jobs — well inside STALE_JOB_MS */
+const JOB_HEARTBEAT_MS = 5 * 60 * 1000;
+
+/**
+ * Insert a queued job for the request. Base64 images and file contents are stripped from
+ * the stored request copy — the in-memory request still carries them into the pipeline.
+ */
+export async function createJob(
+  request: PipelineRequest,
+  userId: string,
+  supabase: SupabaseClient
+): Promise<PipelineJob> {
+  const { images, file, pdf, ...rest } = request;
+  const storedRequest = {
+    ...rest,
+    images_count: images?.length ?? 0,
+    ...(file
+      ? { file: { name: file.name, format: file.format, size_bytes: Math.floor((file.data?.length ?? 0) * 0.75) } }
+      : {}),
+    ...(pdf
+      ? { pdf: { name: pdf.name, pages: pdf.pages, size_bytes: Math.floor((pdf.data?.length ?? 0) * 0.75) } }
+      : {}),
+  };
+
+  const { data, error } = await supabase
+    .from("pipeline_jobs")
+    .insert({
+      user_id: userId,
+      status: "queued",
+      source_type: request.source_type,
+      request: storedRequest,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Failed to create pipeline job: ${error.message}`);
+  return data as PipelineJob;
+}
+
+/**
+ * Run a queued job to completion. Never throws — failures are written to the job row.
+ */
+export async function runJob(
+  jobId: string,
+  request: PipelineRequest,
+  userId: string,
+  supabase: SupabaseClient,
+  openRouter: OpenRouterClient
+): Promise<void> {
+  const stages: PipelineStageReport[] = [];
+
+  await updateJob(supabase, jobId, {
+    status: "running",
+    started_at: new Date().toISOString(),
+  });
+
+  let result: PipelineResult;
+  try {
+    result = await runPipeline(request, userId, supabase, openRouter, async (report) => {
+      stages.push(report);
+      await updateJob(supabase, jobId, { stages });
+    });
+  } catch (error) {
+    console.error(`Pipeline job ${jobId} crashed:`, error);
+    result = {
+      success: false,
+      errors: [{ stage: "adapter", code: "UNKNOWN_ERROR", message: error.message || String(error) }],
+    };
+  }
+
+  // A job already failed as stale keeps that outcome
+  await updateJob(supabase, jobId, {
+    status: result.success ? "succeeded" : "failed",
+    stages,
+    result,
+    completed_at: new Date().toISOString(),
+  }, "running");
+  console.log(`Pipeline job ${jobId} ${result.success ? "succeeded" : "failed"}`);
+}
+
+/**
+ * Refresh `updated_at` on the unfinished jobs among `jobIds` until the returned function is
+ * called. Jobs waiting behind a batch's concurrency limit report nothing else, so without
+ * this getJob would fail them as stale while they are still in line.
+ */
+export function keepJobsAlive(jobIds: string[], supabase: SupabaseClient): () => void {
+  const timer = setInterval(async () => {
+    const { error } = await supabase
+      .from("pipeline_jobs")
+      .update({ updated_at: new Date().toISOString() })
+      .in("id", jobIds)
+      .in("status", ["queued", "running"]);
+    if (error) console.warn("Failed to refresh waiting pipeline jobs:", error.message);
+  }, JOB_HEARTBEAT_MS);
+  return () => clearInterval(timer);
+}
+
+/** Fetch a job owned by the caller (RLS scopes the lookup), failing it first if it went stale. */
+export async function getJob(jobId: string, supabase: SupabaseClient): Promise<PipelineJob | null> {
+  const { data, error } = await supabase
+    .from("pipeline_jobs")
+    .select(JOB_COLUMNS)
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load pipeline job: ${error.message}`);
+  const job = data as PipelineJob | null;
+  if (!job || (job.status !== "queued" && job.status !== "running")) return job;
+  if (Date.now() - new Date(job.updated_at).getTime() < STALE_JOB_MS) return job;
+
+  return (await failStaleJob(job, supabase)) ?? job;
+}
+
+/**
+ * Mark a stale job failed. Only matches while it is still unfinished and untouched, so a
+ * job that reports progress in the meantime is left alone (null is returned).
+ */
+async function failStaleJob(job: PipelineJob, supabase: SupabaseClient): Promise<PipelineJob | null> {
+  // It stopped in the stage after the last one it reported
+  const order: PipelineError["stage"][] = ["adapter", "extract", "transform", "load"];
+  const last = job.stages[job.stages.length - 1];
+  const result: PipelineResult = {
+    success: false,
+    errors: [{
+      stage: last ? order[order.indexOf(last.stage) + 1] ?? "load" : "adapter",
+      code: "JOB_TIMED_OUT",
+      message: "The import stopped before it finished — please try again",
+    }],
+  };
+
+  const { data, error } = await supabase
+    .from("pipeline_jobs")
+    .update({ status: "failed", result, completed_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .in("status", ["queued", "running"])
+    .eq("updated_at", job.updated_at)
+    .select(JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`Failed to mark pipeline job ${job.id} as timed out:`, error.message);
+    return null;
+  }
+  if (data) console.warn(`Pipeline job ${job.id} timed out (last update ${job.updated_at})`);
+  return data as PipelineJob | null;
+}
+
+async function updateJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  fields: Record<string, unknown>,
+  onlyIfStatus?: PipelineJob["status"]
+): Promise<void> {
+  let query = supabase.from("pipeline_jobs").update(fields).eq("id", jobId);
+  if (onlyIfStatus) query = query.eq("status", onlyIfStatus);
+  const { error } = await query;
+  if (error) console.warn(`Failed to update pipeline job ${jobId}:`, error.message);
+}
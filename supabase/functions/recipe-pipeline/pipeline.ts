@@ -7,80 +7,114 @@ import type {
   PipelineRequest,
   PipelineResult,
   PipelineError,
+  PipelineStageListener,
+  PipelineStageReport,
   IntermediateContent,
   ExtractedRecipe,
   ValidatedRecipe,
+  DuplicateResolution,
 } from "../_shared/recipe-schema.ts";
-import { textAdapter } from "./adapters/text-adapter.ts";
-import { urlAdapter } from "./adapters/url-adapter.ts";
-import { videoAdapter } from "./adapters/video-adapter.ts";
+import { getAdapter, validateSourceRequest } from "./adapters/registry.ts";
 import { extract } from "./stages/extract.ts";
 import { transform } from "./stages/transform.ts";
 import { load } from "./stages/load.ts";
 
+/**
+ * Run the full pipeline for one request.
+ * `onStage` (optional) is notified as each stage finishes — used by async jobs
+ * to report progress; listener failures never fail the pipeline.
+ */
 export async function runPipeline(
   request: PipelineRequest,
   userId: string,
   supabase: SupabaseClient,
-  openRouter: OpenRouterClient
+  openRouter: OpenRouterClient,
+  onStage?: PipelineStageListener
 ): Promise<PipelineResult> {
   const autoSave = request.auto_save !== false; // default true
+  const report = createStageReporter(onStage);
 
   // ── 1. Source Adapter ──
   let content: IntermediateContent;
+  let stageStart = Date.now();
   try {
-    content = await runAdapter(request, openRouter);
+    content = await runAdapter(request, userId, supabase, openRouter);
     console.log(`Adapter (${request.source_type}) completed`);
+    await report("adapter", "completed", stageStart, request.source_type);
   } catch (error) {
+    await report("adapter", "failed", stageStart, error.message);
     return errorResult("adapter", error);
   }
 
   // ── 2. Extract ──
   let extracted;
+  stageStart = Date.now();
   try {
-    extracted = await extract(content, openRouter);
+    extracted = await extract(content, openRouter, { maxRecipes: request.max_recipes });
     if (Array.isArray(extracted)) {
       console.log(`Extract completed: ${extracted.length} recipes found`);
+      await report("extract", "completed", stageStart, `${extracted.length} recipes found`);
     } else {
       console.log(`Extract completed: "${extracted.title}"`);
+      await report("extract", "completed", stageStart, extracted.title);
     }
   } catch (error) {
+    await report("extract", "failed", stageStart, error.message);
     return errorResult("extract", error);
   }
 
   // ── Multi-recipe path ──
   if (Array.isArray(extracted)) {
-    return handleMultipleRecipes(extracted, content, autoSave, userId, supabase, openRouter);
+    return handleMultipleRecipes(extracted, content, autoSave, request.on_duplicate, userId, supabase, openRouter, report);
   }
 
   // ── 3. Transform (single recipe) ──
   let validated;
+  stageStart = Date.now();
   try {
     validated = transform(extracted, content.source_metadata);
-    console.log(`Transform completed: "${validated.title}"`);
+    console.log(`Transform completed: "${validated.title}" (quality ${validated.quality?.score})`);
+    await report("transform", "completed", stageStart, validated.title);
   } catch (error) {
+    await report("transform", "failed", stageStart, error.message);
     return errorResult("transform", error);
   }
 
   // ── 4. Load (if auto_save) ──
   if (!autoSave) {
+    await report("load", "skipped", Date.now(), "auto_save disabled");
     return {
       success: true,
       recipe: validated,
+      quality: validated.quality,
       source_metadata: content.source_metadata,
     };
   }
 
+  stageStart = Date.now();
   try {
-    const { recipe_id, record } = await load(validated, userId, supabase, openRouter);
+    const { recipe_id } = await load(validated, userId, supabase, openRouter, request.on_duplicate);
     console.log(`Load completed: ${recipe_id}`);
+    await report("load", "completed", stageStart, recipe_id);
     return {
       success: true,
       recipe_id,
       recipe: validated,
+      quality: validated.quality,
       source_metadata: content.source_metadata,
     };
   } catch (error) {
+    await report("load", "failed", stageStart, error.message);
+    if (error.code === "DUPLICATE_RECIPE") {
+      // Hand back the validated recipe with the diff so the caller can resolve it
+      return {
+        ...errorResult("load", error),
+        recipe: validated,
+        quality: validated.quality,
+        source_metadata: content.source_metadata,
+        duplicate: error.details,
+      };
+    }
     return errorResult("load", error);
   }
 }
@@ -93,45 +127,59 @@ async function handleMultipleRecipes(
   extractedRecipes: ExtractedRecipe[],
   content: IntermediateContent,
   autoSave: boolean,
+  onDuplicate: DuplicateResolution | undefined,
   userId: string,
   supabase: SupabaseClient,
-  openRouter: OpenRouterClient
+  openRouter: OpenRouterClient,
+  report: StageReporter
 ): Promise<PipelineResult> {
   const validatedRecipes: ValidatedRecipe[] = [];
   const recipeIds: string[] = [];
   const errors: PipelineError[] = [];
+  const stageStart = Date.now();
 
   for (const extracted of extractedRecipes) {
     try {
       const validated = transform(extracted, content.source_metadata);
-      console.log(`Transform completed: "${validated.title}"`);
+      console.log(`Transform completed: "${validated.title}" (quality ${validated.quality?.score})`);
 
       if (autoSave) {
         try {
-          const { recipe_id } = await load(validated, userId, supabase, openRouter);
+          const { recipe_id } = await load(validated, userId, supabase, openRouter, onDuplicate);
           console.log(`Load completed: ${recipe_id}`);
           recipeIds.push(recipe_id);
         } catch (loadError: any) {
           console.warn(`Load failed for "${validated.title}": ${loadError.message}`);
-          errors.push({
-            stage: "load",
-            code: "LOAD_FAILED",
-            message: `Failed to save "${validated.title}": ${loadError.message}`,
-          });
+          const code = loadError.code === "DUPLICATE_RECIPE" ? "DUPLICATE_RECIPE" : "LOAD_FAILED";
+          errors.push(itemError("load", code, `Failed to save "${validated.title}"`, loadError));
         }
       }
 
       validatedRecipes.push(validated);
     } catch (transformError: any) {
       console.warn(`Transform failed for "${extracted.title}": ${transformError.message}`);
-      errors.push({
-        stage: "transform",
-        code: "TRANSFORM_FAILED",
-        message: `Failed to validate "${extracted.title}": ${transformError.message}`,
-      });
+      errors.push(
+        itemError("transform", "TRANSFORM_FAILED", `Failed to validate "${extracted.title}"`, transformError)
+      );
     }
   }
 
+  const total = extractedRecipes.length;
+  await report(
+    "transform",
+    validatedRecipes.length > 0 ? "completed" : "failed",
+    stageStart,
+    `${validatedRecipes.length}/${total} recipes validated`
+  );
+  if (validatedRecipes.length > 0) {
+    await report(
+      "load",
+      autoSave ? (recipeIds.length > 0 ? "completed" : "failed") : "skipped",
+      stageStart,
+      autoSave ? `${recipeIds.length}/${validatedRecipes.length} recipes saved` : "auto_save disabled"
+    );
+  }
+
   if (validatedRecipes.length === 0) {
     return {
       success: false,
@@ -149,6 +197,7 @@ async function handleMultipleRecipes(
     // Backwards-compatible: first recipe in singular fields
     recipe_id: recipeIds[0],
     recipe: validatedRecipes[0],
+    quality: validatedRecipes[0].quality,
     // Multi-recipe fields
     recipe_ids: recipeIds.length > 0 ? recipeIds : undefined,
     recipes: validatedRecipes,
@@ -157,28 +206,61 @@ async function handleMultipleRecipes(
   };
 }
 
+/** Run the registered adapter for the request's source type */
 async function runAdapter(
   request: PipelineRequest,
+  userId: string,
+  supabase: SupabaseClient,
   openRouter: OpenRouterClient
 ): Promise<IntermediateContent> {
-  switch (request.source_type) {
-    case "text":
-      return textAdapter(request.text || "", request.images);
-
-    case "url":
-      if (!request.url) throw new Error("URL is required for url source_type");
-      return urlAdapter(request.url);
-
-    case "video":
-      return videoAdapter(openRouter, {
-        video_url: request.video_url,
-        frame_urls: request.frame_urls,
-        transcript: request.transcript,
-      });
+  const problem = validateSourceRequest(request);
+  if (problem) throw new Error(problem);
 
-    default:
-      throw new Error(`Unknown source_type: ${request.source_type}`);
-  }
+  const adapter = getAdapter(request.source_type)!;
+  return adapter.run(request, { userId, supabase, openRouter });
+}
+
+/**
+ * Build the error recorded for one failed item of a set (recipe in a multi-recipe
+ * extraction, or entry in a batch import) without failing the rest of the set.
+ * Details of a PipelineError (e.g. a duplicate diff) are passed through.
+ */
+export function itemError(
+  stage: PipelineError["stage"],
+  code: string,
+  label: string,
+  error: any
+): PipelineError {
+  return {
+    stage,
+    code,
+    message: `${label}: ${error?.message || String(error)}`,
+    ...(error?.details !== undefined ? { details: error.details } : {}),
+  };
+}
+
+type StageReporter = (
+  stage: PipelineStageReport["stage"],
+  status: PipelineStageReport["status"],
+  startedAt: number,
+  detail?: string
+) => Promise<void>;
+
+function createStageReporter(listener?: PipelineStageListener): StageReporter {
+  return async (stage, status, startedAt, detail) => {
+    if (!listener) return;
+    try {
+      await listener({
+        stage,
+        status,
+        finished_at: new Date().toISOString(),
+        duration_ms: Date.now() - startedAt,
+        ...(detail ? { detail } : {}),
+      });
+    } catch (error) {
+      console.warn(`Stage listener failed for ${stage} (non-fatal):`, error.message);
+    }
+  };
 }
 
 function errorResult(
@@ -1,62 +1,114 @@
 /**
  * Load stage — duplicate check, embedding generation, and database insert.
+ * A duplicate (same title or an embedding near-duplicate) fails with DUPLICATE_RECIPE
+ * and a field diff, unless the request says how to resolve it.
  */
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { OpenRouterClient } from "../../_shared/openrouter-client.ts";
-import type { ValidatedRecipe } from "../../_shared/recipe-schema.ts";
+import type { DuplicateAction, DuplicateResolution, ValidatedRecipe } from "../../_shared/recipe-schema.ts";
 import { createPipelineError } from "../../_shared/recipe-schema.ts";
-import { generateRecipeEmbedding } from "../../_shared/embedding-utils.ts";
+import {
+  generateRecipeEmbedding,
+  loadEmbeddingSettings,
+  type RecipeEmbedding,
+  recipeVectorColumns,
+} from "../../_shared/embedding-utils.ts";
+import {
+  NEAR_DUPLICATE_SIMILARITY,
+  diffRecipes,
+  emptyFields,
+  findDuplicates,
+  getOwnRecipe,
+  mergeRecipes,
+  suffixedIdentity,
+} from "../duplicates.ts";
 
 export async function load(
   recipe: ValidatedRecipe,
   userId: string,
   supabase: SupabaseClient,
-  openRouter: OpenRouterClient
-): Promise<{ recipe_id: string; record: any }> {
-  // ── Duplicate check ──
-  const { data: existing } = await supabase
-    .from("recipes")
-    .select("id, title")
-    .eq("user_id", userId)
-    .ilike("title", recipe.title.trim())
-    .maybeSingle();
+  openRouter: OpenRouterClient,
+  resolution?: DuplicateResolution
+): Promise<{ recipe_id: string; record: any; action?: DuplicateAction }> {
+  // ── Generate embedding (non-fatal) — also used for near-duplicate detection ──
+  // During an embedding model migration the worker adds the target model's vector
+  const { activeModel } = await loadEmbeddingSettings(supabase);
+  const embedding = await generateRecipeEmbedding(openRouter, recipe, activeModel);
 
-  if (existing) {
-    throw createPipelineError(
-      "load",
-      "DUPLICATE_RECIPE",
-      `A recipe named "${existing.title}" already exists`,
-      { existing_id: existing.id }
-    );
+  // ── Duplicate check ──
+  let existing;
+  if (resolution?.existing_id) {
+    existing = await getOwnRecipe(resolution.existing_id, userId, supabase);
+    if (!existing) {
+      throw createPipelineError("load", "RECIPE_NOT_FOUND", "The recipe to resolve against no longer exists", {
+        existing_id: resolution.existing_id,
+      });
+    }
+  } else {
+    const [duplicate] = await findDuplicates(recipe, userId, supabase, embedding, {
+      threshold: NEAR_DUPLICATE_SIMILARITY,
+      limit: 1,
+    });
+    if (duplicate && !resolution) {
+      throw createPipelineError(
+        "load",
+        "DUPLICATE_RECIPE",
+        duplicate.match === "title"
+          ? `A recipe named "${duplicate.existing_title}" already exists`
+          : `This looks like your existing recipe "${duplicate.existing_title}"`,
+        duplicate
+      );
+    }
+    if (duplicate) existing = await getOwnRecipe(duplicate.existing_id, userId, supabase);
   }
 
-  // ── Generate embedding (non-fatal) ──
-  const embedding = await generateRecipeEmbedding(openRouter, recipe);
+  if (!existing) return insertRecipe(recipe, userId, supabase, embedding, resolution?.visibility);
+
+  switch (resolution!.action) {
+    case "keep_existing":
+      console.log(`Duplicate kept: ${existing.id} — "${existing.title}"`);
+      return { recipe_id: existing.id, record: existing, action: "keep_existing" };
+
+    case "replace": {
+      // Keep the existing slug so shared links keep working
+      const replacement = { ...recipe, slug: existing.slug || recipe.slug };
+      const record = await updateRecipe(existing.id, replacement, supabase, embedding);
+      return { recipe_id: existing.id, record, action: "replace" };
+    }
+
+    case "merge": {
+      const fields = resolution!.fields ?? emptyFields(diffRecipes(existing, recipe));
+      const merged = mergeRecipes(existing, recipe, fields);
+      const mergedEmbedding = await generateRecipeEmbedding(openRouter, merged, activeModel);
+      const record = await updateRecipe(existing.id, merged, supabase, mergedEmbedding);
+      return { recipe_id: existing.id, record, action: "merge" };
+    }
+
+    case "save_both": {
+      const identity = await suffixedIdentity(recipe, userId, supabase);
+      const saved = await insertRecipe({ ...recipe, ...identity }, userId, supabase, embedding, resolution!.visibility);
+      return { ...saved, action: "save_both" };
+    }
 
-  // ── Insert into database ──
+    default:
+      throw createPipelineError("load", "INVALID_RESOLUTION", `Unknown duplicate action: ${resolution!.action}`);
+  }
+}
+
+async function insertRecipe(
+  recipe: ValidatedRecipe,
+  userId: string,
+  supabase: SupabaseClient,
+  embedding: RecipeEmbedding | null,
+  visibility: DuplicateResolution["visibility"] = "private"
+): Promise<{ recipe_id: string; record: any }> {
   const { data, error } = await supabase
     .from("recipes")
     .insert({
       user_id: userId,
-      title: recipe.title,
-      description: recipe.description,
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      prep_time: recipe.prep_time,
-      cook_time: recipe.cook_time,
-      total_time: recipe.total_time,
-      servings: recipe.servings,
-      difficulty: recipe.difficulty,
-      cuisine: recipe.cuisine,
-      tags: recipe.tags,
-      image_url: recipe.image_url,
-      nutrition_info: recipe.nutrition_info,
-      source_url: recipe.source_url,
-      source_name: recipe.source_name,
-      slug: recipe.slug,
-      visibility: 'private',
+      ...recipeColumns(recipe, embedding),
+      visibility,
       is_favorite: false,
-      ...(embedding ? { embedding_vector: `[${embedding.join(",")}]` } : {}),
     })
     .select()
     .single();
@@ -71,3 +123,50 @@ export async function load(
   console.log(`Recipe loaded: ${data.id} — "${recipe.title}"`);
   return { recipe_id: data.id, record: data };
 }
+
+/** Overwrite an existing recipe's content — visibility, favorites and collections are untouched */
+async function updateRecipe(
+  recipeId: string,
+  recipe: ValidatedRecipe,
+  supabase: SupabaseClient,
+  embedding: RecipeEmbedding | null
+): Promise<any> {
+  const { data, error } = await supabase
+    .from("recipes")
+    .update(recipeColumns(recipe, embedding))
+    .eq("id", recipeId)
+    .select()
+    .single();
+
+  if (error) {
+    throw createPipelineError("load", "DB_ERROR", `Database update failed: ${error.message}`, {
+      code: error.code,
+      details: error.details,
+    });
+  }
+
+  console.log(`Recipe updated: ${recipeId} — "${recipe.title}"`);
+  return data;
+}
+
+function recipeColumns(recipe: ValidatedRecipe, embedding: RecipeEmbedding | null) {
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    prep_time: recipe.prep_time,
+    cook_time: recipe.cook_time,
+    total_time: recipe.total_time,
+    servings: recipe.servings,
+    difficulty: recipe.difficulty,
+    cuisine: recipe.cuisine,
+    tags: recipe.tags,
+    image_url: recipe.image_url,
+    nutrition_info: recipe.nutrition_info,
+    source_url: recipe.source_url,
+    source_name: recipe.source_name,
+    slug: recipe.slug,
+    ...recipeVectorColumns(embedding),
+  };
+}
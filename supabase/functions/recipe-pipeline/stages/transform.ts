@@ -1,14 +1,45 @@
 /**
  * Transform stage — validates and normalizes an extracted recipe
- * into the shape expected by the database.
+ * into the shape expected by the database, recording where each field came from.
  */
 import type {
   ExtractedRecipe,
+  FieldQuality,
+  QualityField,
+  RecipeQuality,
   ValidatedRecipe,
   SourceMetadata,
 } from "../../_shared/recipe-schema.ts";
 import { createPipelineError } from "../../_shared/recipe-schema.ts";
 
+/** Confidence in a value read from structured data or an export file */
+const STRUCTURED_CONFIDENCE = 1;
+/** Confidence in a value the LLM reports finding in the source */
+const LLM_CONFIDENCE = 0.85;
+/** Derived from other fields, or a judgement the model was asked to make */
+const INFERRED_CONFIDENCE = 0.6;
+const DEFAULTED_CONFIDENCE = 0.3;
+
+/** Fields below this confidence are listed for review even when extracted */
+const REVIEW_BELOW = 0.7;
+
+/** How much each field counts towards the quality score */
+const FIELD_WEIGHTS: Record<QualityField, number> = {
+  title: 2,
+  ingredients: 3,
+  instructions: 3,
+  servings: 1,
+  prep_time: 0.5,
+  cook_time: 0.5,
+  total_time: 0.5,
+  difficulty: 0.5,
+  description: 0.5,
+  image_url: 0.5,
+  nutrition_info: 0.5,
+  cuisine: 0.25,
+  tags: 0.25,
+};
+
 export function transform(
   extracted: ExtractedRecipe,
   sourceMetadata: SourceMetadata
@@ -24,41 +55,110 @@ export function transform(
     throw createPipelineError("transform", "MISSING_INSTRUCTIONS", "At least one instruction is required");
   }
 
+  // Structured data and export files are read deterministically; everything else came from the LLM
+  const found = isDeterministic(sourceMetadata) ? STRUCTURED_CONFIDENCE : LLM_CONFIDENCE;
+  const fields: Partial<Record<QualityField, FieldQuality>> = {
+    title: { provenance: "extracted", confidence: found },
+    instructions: { provenance: "extracted", confidence: found },
+  };
+
   // ── Normalize numeric fields ──
   const prepTime = toPositiveInt(extracted.prepTime);
   const cookTime = toPositiveInt(extracted.cookTime);
-  const totalTime =
-    toPositiveInt(extracted.totalTime) ||
-    (prepTime || cookTime ? (prepTime || 0) + (cookTime || 0) : null);
+  if (prepTime) fields.prep_time = { provenance: "extracted", confidence: found };
+  if (cookTime) fields.cook_time = { provenance: "extracted", confidence: found };
 
-  const servings = toPositiveInt(extracted.servings) || 4;
+  let totalTime = toPositiveInt(extracted.totalTime);
+  if (totalTime) {
+    fields.total_time = { provenance: "extracted", confidence: found };
+  } else if (prepTime || cookTime) {
+    totalTime = (prepTime || 0) + (cookTime || 0);
+    fields.total_time = { provenance: "inferred", confidence: INFERRED_CONFIDENCE, note: "Sum of prep and cook time" };
+  }
+
+  let servings = toPositiveInt(extracted.servings);
+  if (servings) {
+    fields.servings = { provenance: "extracted", confidence: found };
+  } else {
+    servings = 4;
+    fields.servings = {
+      provenance: "defaulted",
+      confidence: DEFAULTED_CONFIDENCE,
+      note: isBlank(extracted.servings)
+        ? "No servings found — defaulted to 4"
+        : `Servings "${extracted.servings}" is not a number — defaulted to 4`,
+    };
+  }
 
   // ── Normalize difficulty ──
   const validDifficulties = ["easy", "medium", "hard"] as const;
-  const difficulty = validDifficulties.includes(extracted.difficulty as any)
-    ? (extracted.difficulty as "easy" | "medium" | "hard")
-    : "medium";
+  let difficulty: ValidatedRecipe["difficulty"] = "medium";
+  if (validDifficulties.includes(extracted.difficulty as any)) {
+    difficulty = extracted.difficulty as "easy" | "medium" | "hard";
+    // The extraction prompts ask the model to estimate difficulty when the source doesn't say
+    fields.difficulty = found === STRUCTURED_CONFIDENCE
+      ? { provenance: "extracted", confidence: found }
+      : { provenance: "inferred", confidence: INFERRED_CONFIDENCE, note: "Estimated by the model" };
+  } else {
+    fields.difficulty = {
+      provenance: "defaulted",
+      confidence: DEFAULTED_CONFIDENCE,
+      note: "No difficulty found — defaulted to medium",
+    };
+  }
 
   // ── Normalize ingredients ──
-  const ingredients = extracted.ingredients.map((ing) => ({
-    name: String(ing.name || "").trim(),
-    amount: typeof ing.amount === "number" ? ing.amount : null,
-    unit: String(ing.unit || "").trim(),
-    category: String(ing.category || "pantry").trim(),
-    ...(ing.notes ? { notes: ing.notes } : {}),
-  }));
+  const droppedAmounts: string[] = [];
+  const ingredients = extracted.ingredients.map((ing) => {
+    if (typeof ing.amount !== "number" && !isBlank(ing.amount)) {
+      droppedAmounts.push(`${ing.amount} (${ing.name})`);
+    }
+    return {
+      name: String(ing.name || "").trim(),
+      amount: typeof ing.amount === "number" ? ing.amount : null,
+      unit: String(ing.unit || "").trim(),
+      category: String(ing.category || "pantry").trim(),
+      ...(ing.notes ? { notes: ing.notes } : {}),
+    };
+  });
+  fields.ingredients = droppedAmounts.length === 0
+    ? { provenance: "extracted", confidence: found }
+    : {
+        provenance: "extracted",
+        confidence: round(found * (1 - droppedAmounts.length / ingredients.length / 2)),
+        note: `Amounts that aren't numbers were dropped: ${droppedAmounts.join(", ")}`,
+      };
 
   // ── Normalize instructions to string[] ──
   const instructions = extracted.instructions.map((inst) =>
     typeof inst === "string" ? inst.trim() : JSON.stringify(inst)
   );
+  if (extracted.instructions.some((inst) => typeof inst !== "string")) {
+    fields.instructions = {
+      provenance: "extracted",
+      confidence: INFERRED_CONFIDENCE,
+      note: "Some steps weren't plain text and were kept as JSON",
+    };
+  }
+
+  // ── Optional fields — recorded only when present ──
+  const description = extracted.description?.trim() || null;
+  const cuisine = extracted.cuisine?.trim() || null;
+  const tags = (extracted.tags || []).map((t) => t.trim().toLowerCase());
+  const imageUrl = extracted.imageUrl || null;
+  const nutrition = extracted.nutrition || null;
+  if (description) fields.description = { provenance: "extracted", confidence: found };
+  if (cuisine) fields.cuisine = { provenance: "extracted", confidence: found };
+  if (tags.length) fields.tags = { provenance: "extracted", confidence: found };
+  if (imageUrl) fields.image_url = { provenance: "extracted", confidence: found };
+  if (nutrition) fields.nutrition_info = { provenance: "extracted", confidence: found };
 
   // ── Generate slug ──
   const slug = generateSlug(extracted.title);
 
   return {
     title: extracted.title.trim(),
-    description: extracted.description?.trim() || null,
+    description,
     ingredients,
     instructions,
     prep_time: prepTime,
@@ -66,16 +166,46 @@ export function transform(
     total_time: totalTime,
     servings,
     difficulty,
-    cuisine: extracted.cuisine?.trim() || null,
-    tags: (extracted.tags || []).map((t) => t.trim().toLowerCase()),
-    image_url: extracted.imageUrl || null,
-    nutrition_info: extracted.nutrition || null,
-    source_url: sourceMetadata.source_url || null,
-    source_name: sourceMetadata.source_name || null,
+    cuisine,
+    tags,
+    image_url: imageUrl,
+    nutrition_info: nutrition,
+    source_url: extracted.sourceUrl || sourceMetadata.source_url || null,
+    source_name: extracted.sourceName || sourceMetadata.source_name || null,
     slug,
+    quality: scoreQuality(fields),
   };
 }
 
+/** Weighted score over all fields (empty ones count as 0) plus the fields worth a second look. */
+function scoreQuality(fields: Partial<Record<QualityField, FieldQuality>>): RecipeQuality {
+  let total = 0;
+  let weighted = 0;
+  const review: QualityField[] = [];
+
+  for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as [QualityField, number][]) {
+    total += weight;
+    const quality = fields[field];
+    if (!quality) continue;
+    weighted += weight * quality.confidence;
+    if (quality.provenance !== "extracted" || quality.confidence < REVIEW_BELOW) review.push(field);
+  }
+
+  return { score: round(weighted / total), fields, review };
+}
+
+function isDeterministic(sourceMetadata: SourceMetadata): boolean {
+  return sourceMetadata.source_type === "file" || sourceMetadata.extra?.structured_data_complete === true;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 function toPositiveInt(value: unknown): number | null {
   if (value === null || value === undefined) return null;
   const n = Number(value);
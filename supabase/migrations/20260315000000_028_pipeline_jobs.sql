@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Migration 028: Pipeline Jobs
+--
+-- Asynchronous recipe ingestion. POST /recipe-pipeline/jobs creates a row,
+-- returns its id immediately and runs the pipeline in the background,
+-- appending a stage report to `stages` as each stage finishes.
+-- Clients poll GET /recipe-pipeline/jobs/:id or subscribe via realtime.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    source_type VARCHAR(20) NOT NULL,
+    request JSONB NOT NULL DEFAULT '{}',
+    -- Ordered PipelineStageReport[] — one entry per finished stage
+    stages JSONB NOT NULL DEFAULT '[]',
+    -- Final PipelineResult once status is succeeded/failed
+    result JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_user_created ON pipeline_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_status ON pipeline_jobs(status)
+    WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_pipeline_jobs_updated_at
+    BEFORE UPDATE ON pipeline_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS — jobs run with the caller's token, so owners read and write their own rows
+ALTER TABLE pipeline_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pipeline jobs" ON pipeline_jobs
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own pipeline jobs" ON pipeline_jobs
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own pipeline jobs" ON pipeline_jobs
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own pipeline jobs" ON pipeline_jobs
+    FOR DELETE USING (user_id = auth.uid());
+
+-- Realtime — lets the frontend subscribe to stage updates instead of polling
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND tablename = 'pipeline_jobs'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE pipeline_jobs;
+    END IF;
+END $$;
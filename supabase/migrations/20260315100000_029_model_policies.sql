@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration 029: Model Policies
+--
+-- Per-task model routing for the edge functions (see _shared/model-policy.ts).
+-- A row overrides the built-in policy and MODEL_POLICIES for its task; NULL
+-- columns keep the lower layer's value. Edge functions cache policies for a
+-- minute, so changes apply without a redeploy.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS model_policies (
+    task VARCHAR(20) PRIMARY KEY
+        CHECK (task IN ('intent', 'extraction', 'vision', 'chat', 'embedding')),
+    -- Primary model first, then fallbacks tried in order
+    models TEXT[] NOT NULL CHECK (cardinality(models) > 0),
+    timeout_ms INTEGER CHECK (timeout_ms > 0),
+    max_tokens INTEGER CHECK (max_tokens > 0),
+    temperature REAL CHECK (temperature >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_model_policies_updated_at
+    BEFORE UPDATE ON model_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS — edge functions read policies with the caller's token; only admins change them
+ALTER TABLE model_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view model policies" ON model_policies
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "admin_manage_model_policies" ON model_policies
+    FOR ALL USING (is_admin()) WITH CHECK (is_admin());
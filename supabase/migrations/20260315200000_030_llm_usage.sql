@@ -0,0 +1,225 @@
+-- ============================================================================
+-- Migration 030: LLM Usage and Quotas
+--
+-- llm_usage: one row per OpenRouter call made by chat-api or recipe-pipeline,
+-- with the token counts and cost OpenRouter reported. household_id is filled
+-- in from the caller's membership, so usage stays attributed to the household
+-- it was spent in.
+-- llm_quotas: monthly token/cost limits for a household, or for a user who is
+-- not in one. Without a row, the edge functions fall back to the
+-- LLM_MONTHLY_TOKEN_QUOTA / LLM_MONTHLY_COST_QUOTA_USD env defaults.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    household_id UUID REFERENCES households(id) ON DELETE SET NULL,
+    function_name VARCHAR(40) NOT NULL,
+    task VARCHAR(20) NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+    completion_tokens INTEGER NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+    total_tokens INTEGER NOT NULL DEFAULT 0 CHECK (total_tokens >= 0),
+    -- NULL when OpenRouter didn't report a cost
+    cost_usd NUMERIC(12, 6) CHECK (cost_usd >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_household_created ON llm_usage(household_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at);
+
+-- Attribute each row to the caller's household at the time of the call
+CREATE OR REPLACE FUNCTION set_llm_usage_household()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT hm.household_id INTO NEW.household_id
+  FROM household_members hm
+  WHERE hm.user_id = NEW.user_id
+  LIMIT 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_llm_usage_household
+    BEFORE INSERT ON llm_usage
+    FOR EACH ROW
+    EXECUTE FUNCTION set_llm_usage_household();
+
+CREATE TABLE IF NOT EXISTS llm_quotas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    household_id UUID UNIQUE REFERENCES households(id) ON DELETE CASCADE,
+    user_id UUID UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+    -- NULL means no limit of that kind
+    monthly_token_limit BIGINT CHECK (monthly_token_limit > 0),
+    monthly_cost_limit_usd NUMERIC(10, 2) CHECK (monthly_cost_limit_usd > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((household_id IS NULL) <> (user_id IS NULL))
+);
+
+CREATE TRIGGER update_llm_quotas_updated_at
+    BEFORE UPDATE ON llm_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS — users read their own usage, admins see everything. Only the edge
+-- functions write usage, with the service role, so users can't forge rows.
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE llm_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own llm usage" ON llm_usage
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "admin_read_all_llm_usage" ON llm_usage
+    FOR SELECT USING (is_admin());
+
+CREATE POLICY "admin_manage_llm_quotas" ON llm_quotas
+    FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- ============================================================================
+-- get_my_llm_quota()
+--   This month's usage for the caller's household (or the caller, outside a
+--   household) and its quota row, if any. Limits are NULL when no row is set.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_my_llm_quota()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_household_id UUID;
+  v_period_start TIMESTAMPTZ := date_trunc('month', NOW());
+  v_tokens BIGINT;
+  v_cost NUMERIC;
+  v_quota llm_quotas%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT hm.household_id INTO v_household_id
+  FROM household_members hm
+  WHERE hm.user_id = v_user_id
+  LIMIT 1;
+
+  IF v_household_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(total_tokens), 0), COALESCE(SUM(cost_usd), 0)
+    INTO v_tokens, v_cost
+    FROM llm_usage
+    WHERE household_id = v_household_id AND created_at >= v_period_start;
+
+    SELECT * INTO v_quota FROM llm_quotas WHERE household_id = v_household_id;
+  ELSE
+    SELECT COALESCE(SUM(total_tokens), 0), COALESCE(SUM(cost_usd), 0)
+    INTO v_tokens, v_cost
+    FROM llm_usage
+    WHERE user_id = v_user_id AND household_id IS NULL AND created_at >= v_period_start;
+
+    SELECT * INTO v_quota FROM llm_quotas WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN json_build_object(
+    'scope', CASE WHEN v_household_id IS NULL THEN 'user' ELSE 'household' END,
+    'household_id', v_household_id,
+    'period_start', v_period_start,
+    'total_tokens', v_tokens,
+    'cost_usd', v_cost,
+    'monthly_token_limit', v_quota.monthly_token_limit,
+    'monthly_cost_limit_usd', v_quota.monthly_cost_limit_usd
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_llm_quota() TO authenticated;
+
+-- ============================================================================
+-- get_llm_usage_summary(p_period_start, p_period_end)
+--   Usage totals for the admin dashboard, aggregated in the database so a busy
+--   month isn't cut off at the API row limit. Every household is listed (with
+--   its quota) even without usage. Service role only — called by admin-api.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_llm_usage_summary(p_period_start TIMESTAMPTZ, p_period_end TIMESTAMPTZ)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH period_usage AS (
+    SELECT * FROM llm_usage
+    WHERE created_at >= p_period_start AND created_at < p_period_end
+  )
+  SELECT json_build_object(
+    'totals', (
+      SELECT json_build_object(
+        'requests', COUNT(*),
+        'prompt_tokens', COALESCE(SUM(prompt_tokens), 0),
+        'completion_tokens', COALESCE(SUM(completion_tokens), 0),
+        'total_tokens', COALESCE(SUM(total_tokens), 0),
+        'cost_usd', COALESCE(SUM(cost_usd), 0)
+      )
+      FROM period_usage
+    ),
+    'by_household', COALESCE((
+      SELECT json_agg(h ORDER BY h.total_tokens DESC, h.name)
+      FROM (
+        SELECT hh.id AS household_id, hh.name,
+               COUNT(u.id) AS requests,
+               COALESCE(SUM(u.total_tokens), 0) AS total_tokens,
+               COALESCE(SUM(u.cost_usd), 0) AS cost_usd,
+               q.monthly_token_limit, q.monthly_cost_limit_usd
+        FROM households hh
+        LEFT JOIN period_usage u ON u.household_id = hh.id
+        LEFT JOIN llm_quotas q ON q.household_id = hh.id
+        GROUP BY hh.id, hh.name, q.monthly_token_limit, q.monthly_cost_limit_usd
+      ) h
+    ), '[]'::json),
+    'by_user', COALESCE((
+      SELECT json_agg(p ORDER BY p.total_tokens DESC)
+      FROM (
+        SELECT u.user_id, pr.display_name, pr.email,
+               bool_or(u.household_id IS NOT NULL) AS in_household,
+               COUNT(*) AS requests,
+               SUM(u.total_tokens) AS total_tokens,
+               COALESCE(SUM(u.cost_usd), 0) AS cost_usd,
+               q.monthly_token_limit, q.monthly_cost_limit_usd
+        FROM period_usage u
+        JOIN profiles pr ON pr.id = u.user_id
+        LEFT JOIN llm_quotas q ON q.user_id = u.user_id
+        GROUP BY u.user_id, pr.display_name, pr.email, q.monthly_token_limit, q.monthly_cost_limit_usd
+      ) p
+    ), '[]'::json),
+    'by_task', COALESCE((
+      SELECT json_agg(t ORDER BY t.total_tokens DESC)
+      FROM (
+        SELECT task, COUNT(*) AS requests, SUM(total_tokens) AS total_tokens,
+               COALESCE(SUM(cost_usd), 0) AS cost_usd
+        FROM period_usage
+        GROUP BY task
+      ) t
+    ), '[]'::json),
+    'by_model', COALESCE((
+      SELECT json_agg(m ORDER BY m.total_tokens DESC)
+      FROM (
+        SELECT model, COUNT(*) AS requests, SUM(total_tokens) AS total_tokens,
+               COALESCE(SUM(cost_usd), 0) AS cost_usd
+        FROM period_usage
+        GROUP BY model
+      ) m
+    ), '[]'::json)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_llm_usage_summary(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_llm_usage_summary(TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
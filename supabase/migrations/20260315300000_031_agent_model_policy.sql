@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Migration 031: Agent Model Policy
+--
+-- chat-api's tool-calling agent routes through its own model policy task,
+-- 'agent', so tool-capable models can be configured separately from chat.
+-- ============================================================================
+
+ALTER TABLE model_policies DROP CONSTRAINT IF EXISTS model_policies_task_check;
+ALTER TABLE model_policies ADD CONSTRAINT model_policies_task_check
+  CHECK (task IN ('intent', 'extraction', 'vision', 'chat', 'agent', 'embedding'));
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- Migration 032: Chat Memory
+--
+-- chat_conversations.summary: a rolling summary chat-api keeps of a
+-- conversation's older messages. Messages up to summarized_through are folded
+-- into it, so only the newer ones are sent to the model verbatim.
+-- user_memories: lasting facts the user has told the assistant ("we own an
+-- air fryer", "low-sodium for dad"). chat-api extracts them after each reply
+-- and adds them to the prompt in every conversation. Users review and delete
+-- them in Settings.
+-- ============================================================================
+
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS summarized_through TIMESTAMPTZ;
+
+COMMENT ON COLUMN chat_conversations.summary IS
+    'Rolling summary of the messages up to summarized_through, maintained by chat-api';
+
+CREATE TABLE IF NOT EXISTS user_memories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+    -- Conversation the fact was picked up from; kept when the conversation is deleted
+    source_conversation_id UUID REFERENCES chat_conversations(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_created ON user_memories(user_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_user_memories_content ON user_memories(user_id, lower(content));
+
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memories" ON user_memories
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own memories" ON user_memories
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own memories" ON user_memories
+    FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,166 @@
+-- ============================================================================
+-- Migration 033: Hybrid Recipe Search
+--
+-- search_recipes_hybrid: one RPC for semantic + full-text recipe search,
+-- merged with weighted reciprocal rank fusion (RRF):
+--   score = semantic_weight / (rrf_k + semantic_rank)
+--         + text_weight / (rrf_k + text_rank)
+-- A recipe found by only one method scores on that method alone. Both
+-- methods rank at most 200 candidates.
+--
+-- Runs as the caller (SECURITY INVOKER), so recipes RLS decides what can be
+-- found; search_scope narrows it further:
+--   mine       — the caller's own recipes
+--   household  — household-visible recipes of the caller's household
+--   public     — public recipes
+--   accessible — everything the caller can see
+-- Filters apply before ranking. With a blank search_query and no embedding,
+-- it lists the filtered recipes newest first. total_count is the number of
+-- matches across all pages.
+--
+-- Used by chat-api (RAG answers, the agent's search_recipes tool and
+-- POST /chat-api/search, which embeds the query for the Recipes page).
+-- Replaces the separate search_recipes_semantic / search_recipes_text calls,
+-- which are left in place.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION search_recipes_hybrid(
+  search_query TEXT DEFAULT '',
+  query_embedding VECTOR(1536) DEFAULT NULL,
+  search_scope TEXT DEFAULT 'mine',
+  filter_cuisine TEXT DEFAULT NULL,
+  filter_difficulty TEXT DEFAULT NULL,
+  max_total_time INTEGER DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  semantic_weight FLOAT DEFAULT 1.0,
+  text_weight FLOAT DEFAULT 1.0,
+  match_threshold FLOAT DEFAULT 0.5,
+  rrf_k INTEGER DEFAULT 60,
+  page_size INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title VARCHAR(255),
+  description TEXT,
+  ingredients JSONB,
+  instructions JSONB,
+  prep_time INTEGER,
+  cook_time INTEGER,
+  total_time INTEGER,
+  servings INTEGER,
+  difficulty VARCHAR(20),
+  cuisine VARCHAR(100),
+  tags TEXT[],
+  image_url TEXT,
+  source_url TEXT,
+  visibility TEXT,
+  slug VARCHAR(255),
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  author JSON,
+  semantic_rank BIGINT,
+  text_rank BIGINT,
+  score FLOAT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT r.*
+    FROM recipes r
+    WHERE CASE search_scope
+        WHEN 'mine' THEN r.user_id = auth.uid()
+        WHEN 'household' THEN r.visibility = 'household' AND r.user_id IN (
+          SELECT hm2.user_id
+          FROM household_members hm1
+          JOIN household_members hm2 ON hm2.household_id = hm1.household_id
+          WHERE hm1.user_id = auth.uid()
+        )
+        WHEN 'public' THEN r.visibility = 'public'
+        WHEN 'accessible' THEN TRUE
+        ELSE FALSE
+      END
+      AND (filter_cuisine IS NULL OR r.cuisine ILIKE filter_cuisine)
+      AND (filter_difficulty IS NULL OR r.difficulty = filter_difficulty)
+      AND (max_total_time IS NULL
+           OR COALESCE(r.total_time, COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0)) <= max_total_time)
+      AND (filter_tags IS NULL OR cardinality(filter_tags) = 0 OR r.tags && filter_tags)
+  ),
+  semantic AS (
+    SELECT c.id, ROW_NUMBER() OVER (ORDER BY c.embedding_vector <=> query_embedding) AS rank
+    FROM candidates c
+    WHERE query_embedding IS NOT NULL
+      AND c.embedding_vector IS NOT NULL
+      AND 1 - (c.embedding_vector <=> query_embedding) > match_threshold
+    ORDER BY c.embedding_vector <=> query_embedding
+    LIMIT 200
+  ),
+  fulltext AS (
+    SELECT c.id, ROW_NUMBER() OVER (
+        ORDER BY ts_rank(to_tsvector('english', COALESCE(c.searchable_text, '')), plainto_tsquery('english', search_query)) DESC
+      ) AS rank
+    FROM candidates c
+    WHERE btrim(COALESCE(search_query, '')) <> ''
+      AND to_tsvector('english', COALESCE(c.searchable_text, '')) @@ plainto_tsquery('english', search_query)
+    ORDER BY rank
+    LIMIT 200
+  ),
+  fused AS (
+    SELECT
+      COALESCE(s.id, t.id) AS id,
+      s.rank AS semantic_rank,
+      t.rank AS text_rank,
+      COALESCE(semantic_weight / (rrf_k + s.rank), 0) + COALESCE(text_weight / (rrf_k + t.rank), 0) AS score
+    FROM semantic s
+    FULL OUTER JOIN fulltext t ON t.id = s.id
+    UNION ALL
+    -- Browse: nothing to rank by
+    SELECT c.id, NULL, NULL, 0
+    FROM candidates c
+    WHERE btrim(COALESCE(search_query, '')) = '' AND query_embedding IS NULL
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.title,
+    r.description,
+    r.ingredients,
+    r.instructions,
+    r.prep_time,
+    r.cook_time,
+    r.total_time,
+    r.servings,
+    r.difficulty,
+    r.cuisine,
+    r.tags,
+    r.image_url,
+    r.source_url,
+    r.visibility,
+    r.slug,
+    r.created_at,
+    r.updated_at,
+    json_build_object(
+      'display_name', p.display_name,
+      'username', p.username,
+      'avatar_url', p.avatar_url
+    ) AS author,
+    f.semantic_rank,
+    f.text_rank,
+    f.score::FLOAT,
+    COUNT(*) OVER () AS total_count
+  FROM fused f
+  JOIN recipes r ON r.id = f.id
+  LEFT JOIN profiles p ON p.id = r.user_id
+  ORDER BY f.score DESC, r.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_recipes_hybrid(
+  TEXT, VECTOR(1536), TEXT, TEXT, TEXT, INTEGER, TEXT[], FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, INTEGER
+) TO authenticated;
@@ -0,0 +1,185 @@
+-- ============================================================================
+-- Migration 034: Recipe Embedding Queue
+--
+-- trigger_update_recipe_embedding clears embedding_vector when a recipe's
+-- content changes, and nothing regenerated it, so edited recipes dropped out
+-- of semantic search. recipe_embedding_queue now collects every recipe that
+-- needs an embedding:
+--   created  — inserted without one (e.g. saved from the recipe form)
+--   edited   — content changed and the trigger cleared it
+--   missing  — already without one when this migration ran
+--   reembed  — queued by an admin for a full re-embed (embedding model change);
+--              the old vector stays searchable until it is replaced
+-- The embedding-worker edge function claims batches with
+-- claim_recipe_embedding_batch, embeds them and deletes the rows it finished.
+-- A failed recipe is retried with backoff until max attempts, then stays in
+-- the queue with its last_error until it is edited or re-queued.
+--
+-- update_recipe_embedding also no longer clears a vector that the same
+-- UPDATE supplies (the pipeline's "replace" resolution sends one).
+-- The queue is service-role only: RLS on, no policies.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recipe_embedding_queue (
+    recipe_id UUID PRIMARY KEY REFERENCES recipes(id) ON DELETE CASCADE,
+    reason VARCHAR(20) NOT NULL DEFAULT 'edited'
+        CHECK (reason IN ('created', 'edited', 'missing', 'reembed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Set while a worker holds the row; an expired lock means the worker died
+    locked_until TIMESTAMPTZ,
+    enqueued_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_embedding_queue_next ON recipe_embedding_queue(next_attempt_at);
+
+ALTER TABLE recipe_embedding_queue ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Trigger: keep a vector the update supplies itself
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_recipe_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.embedding_vector IS NOT DISTINCT FROM OLD.embedding_vector THEN
+        NEW.embedding_vector := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Trigger: queue recipes left without an embedding
+-- Runs as definer — recipe owners can't write the queue directly.
+-- Re-queuing resets attempts, so an edit gives a failed recipe another go.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION enqueue_recipe_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO recipe_embedding_queue (recipe_id, reason)
+    VALUES (NEW.id, CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'edited' END)
+    ON CONFLICT (recipe_id) DO UPDATE
+    SET reason = EXCLUDED.reason,
+        attempts = 0,
+        last_error = NULL,
+        next_attempt_at = NOW(),
+        locked_until = NULL,
+        enqueued_at = NOW();
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enqueue_recipe_embedding_insert ON recipes;
+CREATE TRIGGER trigger_enqueue_recipe_embedding_insert
+    AFTER INSERT ON recipes
+    FOR EACH ROW
+    WHEN (NEW.embedding_vector IS NULL)
+    EXECUTE FUNCTION enqueue_recipe_embedding();
+
+DROP TRIGGER IF EXISTS trigger_enqueue_recipe_embedding_update ON recipes;
+CREATE TRIGGER trigger_enqueue_recipe_embedding_update
+    AFTER UPDATE ON recipes
+    FOR EACH ROW
+    WHEN (NEW.embedding_vector IS NULL AND (
+          OLD.title IS DISTINCT FROM NEW.title OR
+          OLD.description IS DISTINCT FROM NEW.description OR
+          OLD.ingredients IS DISTINCT FROM NEW.ingredients OR
+          OLD.instructions IS DISTINCT FROM NEW.instructions OR
+          OLD.tags IS DISTINCT FROM NEW.tags))
+    EXECUTE FUNCTION enqueue_recipe_embedding();
+
+-- ============================================================================
+-- claim_recipe_embedding_batch: lock up to batch_size due rows for a worker
+-- and return their recipes. attempts counts the claim, so a worker that dies
+-- mid-batch still uses up an attempt.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_recipe_embedding_batch(
+    batch_size INTEGER DEFAULT 20,
+    max_attempts INTEGER DEFAULT 5,
+    lock_seconds INTEGER DEFAULT 300
+)
+RETURNS TABLE (
+    recipe_id UUID,
+    reason VARCHAR(20),
+    attempts INTEGER,
+    enqueued_at TIMESTAMPTZ,
+    user_id UUID,
+    title VARCHAR(255),
+    description TEXT,
+    cuisine VARCHAR(100),
+    difficulty VARCHAR(20),
+    tags TEXT[],
+    ingredients JSONB,
+    instructions JSONB,
+    updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH claimed AS (
+        UPDATE recipe_embedding_queue q
+        SET attempts = q.attempts + 1,
+            locked_until = NOW() + make_interval(secs => lock_seconds)
+        WHERE q.recipe_id IN (
+            SELECT recipe_id
+            FROM recipe_embedding_queue
+            WHERE next_attempt_at <= NOW()
+              AND attempts < max_attempts
+              AND (locked_until IS NULL OR locked_until < NOW())
+            ORDER BY next_attempt_at
+            LIMIT batch_size
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING q.recipe_id, q.reason, q.attempts, q.enqueued_at
+    )
+    SELECT c.recipe_id, c.reason, c.attempts, c.enqueued_at,
+           r.user_id, r.title, r.description, r.cuisine, r.difficulty, r.tags,
+           r.ingredients, r.instructions, r.updated_at
+    FROM claimed c
+    JOIN recipes r ON r.id = c.recipe_id;
+$$;
+
+-- ============================================================================
+-- enqueue_recipe_reembed: queue every recipe for a full re-embed
+-- ============================================================================
+CREATE OR REPLACE FUNCTION enqueue_recipe_reembed()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO recipe_embedding_queue (recipe_id, reason)
+    SELECT id, 'reembed' FROM recipes
+    ON CONFLICT (recipe_id) DO UPDATE
+    SET reason = 'reembed',
+        attempts = 0,
+        last_error = NULL,
+        next_attempt_at = NOW(),
+        locked_until = NULL,
+        enqueued_at = NOW();
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_recipe_embedding_batch(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_recipe_reembed() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_recipe_embedding_batch(INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION enqueue_recipe_reembed() TO service_role;
+
+-- Backfill: recipes already edited (or saved) without an embedding
+INSERT INTO recipe_embedding_queue (recipe_id, reason)
+SELECT id, 'missing' FROM recipes WHERE embedding_vector IS NULL
+ON CONFLICT (recipe_id) DO NOTHING;
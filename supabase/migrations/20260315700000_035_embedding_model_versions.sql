@@ -0,0 +1,724 @@
+-- ============================================================================
+-- Migration 035: Embedding Model Versions
+--
+-- Vectors from different embedding models can't be compared, but nothing
+-- recorded which model made a stored vector. Every vector is now tagged with
+-- its model and the recipe-text version it was embedded from, and searches
+-- only compare vectors from the query's model.
+--
+-- embedding_settings (one row): active_model is the model searches and new
+-- embeddings use. Setting target_model starts a migration to another model —
+-- possibly with different dimensions:
+--   1. start_embedding_migration(model) queues every recipe ('backfill').
+--      Until promotion, every new or edited recipe is embedded with both
+--      models (dual-write): the active vector as before, the target vector
+--      by the embedding worker.
+--   2. Searches keep using the active model throughout.
+--   3. promote_embedding_model() switches over once the backfill is done;
+--      cancel_embedding_migration() drops the target's vectors instead.
+--
+-- Where vectors live:
+--   recipes.embedding_vector — the active model's vector, when it has the
+--       column's dimensions (1536); tagged by embedding_model/_version.
+--   recipe_embeddings — every other vector (a migration target, or an
+--       active model of other dimensions), one row per recipe and model.
+--       The unused 384-dim column becomes dimensionless; existing rows are
+--       tagged 'legacy-384' and dropped by the next promotion.
+-- store_recipe_embedding applies this rule for the embedding worker.
+--
+-- search_recipes_hybrid and search_recipes_semantic take an undimensioned
+-- query vector and a query_model (NULL = active model). search_recipes_semantic
+-- no longer returns the dropped is_public / rating columns, which broke
+-- check-similar's near-duplicate lookup.
+-- ============================================================================
+
+-- ============================================================================
+-- embedding_settings
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS embedding_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    active_model TEXT NOT NULL,
+    target_model TEXT CHECK (target_model <> active_model),
+    migration_started_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Both the edge functions and the frontend EmbeddingService have embedded with ada-002
+INSERT INTO embedding_settings (active_model) VALUES ('text-embedding-ada-002')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_embedding_settings_updated_at
+    BEFORE UPDATE ON embedding_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Readable by everyone signed in (edge functions embed queries as the user); written by the service role
+ALTER TABLE embedding_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read embedding settings" ON embedding_settings
+    FOR SELECT TO authenticated USING (true);
+
+-- ============================================================================
+-- recipes: tag the vector
+-- ============================================================================
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS embedding_version INTEGER;
+
+COMMENT ON COLUMN recipes.embedding_model IS
+    'Model that produced embedding_vector; searches only compare vectors of the same model';
+COMMENT ON COLUMN recipes.embedding_version IS
+    'Version of the recipe text (createRecipeText) that was embedded';
+
+-- Existing vectors — without touching updated_at
+ALTER TABLE recipes DISABLE TRIGGER update_recipes_updated_at;
+UPDATE recipes
+SET embedding_model = 'text-embedding-ada-002', embedding_version = 1
+WHERE embedding_vector IS NOT NULL AND embedding_model IS NULL;
+ALTER TABLE recipes ENABLE TRIGGER update_recipes_updated_at;
+
+-- ============================================================================
+-- recipe_embeddings: any model, any dimensions, one row per recipe and model
+-- ============================================================================
+DROP INDEX IF EXISTS idx_recipe_embeddings_vector;
+ALTER TABLE recipe_embeddings ALTER COLUMN embedding TYPE vector;
+ALTER TABLE recipe_embeddings ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE recipe_embeddings ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+UPDATE recipe_embeddings SET model = 'legacy-384' WHERE model IS NULL;
+ALTER TABLE recipe_embeddings ALTER COLUMN model SET NOT NULL;
+
+DELETE FROM recipe_embeddings a
+USING recipe_embeddings b
+WHERE a.recipe_id = b.recipe_id AND a.model = b.model AND a.ctid < b.ctid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_recipe_embeddings_recipe_model ON recipe_embeddings(recipe_id, model);
+CREATE INDEX IF NOT EXISTS idx_recipe_embeddings_model ON recipe_embeddings(model);
+
+-- Searches read these as the caller: visible whenever the recipe is (recipes RLS applies)
+DROP POLICY IF EXISTS "Users can view embeddings for their recipes" ON recipe_embeddings;
+CREATE POLICY "Users can view embeddings of visible recipes" ON recipe_embeddings
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM recipes WHERE recipes.id = recipe_embeddings.recipe_id)
+    );
+
+-- ============================================================================
+-- Queue: 'backfill' reason for migrations
+-- ============================================================================
+ALTER TABLE recipe_embedding_queue DROP CONSTRAINT IF EXISTS recipe_embedding_queue_reason_check;
+ALTER TABLE recipe_embedding_queue ADD CONSTRAINT recipe_embedding_queue_reason_check
+    CHECK (reason IN ('created', 'edited', 'missing', 'reembed', 'backfill'));
+
+-- ============================================================================
+-- Triggers: clear the tags with the vector; dual-write while migrating
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_recipe_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.embedding_vector IS NOT DISTINCT FROM OLD.embedding_vector THEN
+        NEW.embedding_vector := NULL;
+        NEW.embedding_model := NULL;
+        NEW.embedding_version := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Queues the recipe when it has no active vector, or — during a migration — always,
+-- so the target model's vector gets written too. An edit drops the recipe's other
+-- vectors first: they describe the old content.
+CREATE OR REPLACE FUNCTION enqueue_recipe_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        DELETE FROM recipe_embeddings WHERE recipe_id = NEW.id;
+    END IF;
+
+    IF NEW.embedding_vector IS NULL
+       OR EXISTS (SELECT 1 FROM embedding_settings WHERE target_model IS NOT NULL) THEN
+        INSERT INTO recipe_embedding_queue (recipe_id, reason)
+        VALUES (NEW.id, CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'edited' END)
+        ON CONFLICT (recipe_id) DO UPDATE
+        SET reason = EXCLUDED.reason,
+            attempts = 0,
+            last_error = NULL,
+            next_attempt_at = NOW(),
+            locked_until = NULL,
+            enqueued_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enqueue_recipe_embedding_insert ON recipes;
+CREATE TRIGGER trigger_enqueue_recipe_embedding_insert
+    AFTER INSERT ON recipes
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_recipe_embedding();
+
+DROP TRIGGER IF EXISTS trigger_enqueue_recipe_embedding_update ON recipes;
+CREATE TRIGGER trigger_enqueue_recipe_embedding_update
+    AFTER UPDATE ON recipes
+    FOR EACH ROW
+    WHEN (OLD.title IS DISTINCT FROM NEW.title OR
+          OLD.description IS DISTINCT FROM NEW.description OR
+          OLD.ingredients IS DISTINCT FROM NEW.ingredients OR
+          OLD.instructions IS DISTINCT FROM NEW.instructions OR
+          OLD.tags IS DISTINCT FROM NEW.tags)
+    EXECUTE FUNCTION enqueue_recipe_embedding();
+
+-- ============================================================================
+-- claim_recipe_embedding_batch: now also returns what the recipe already has
+-- stored — the recipes-row vector's tags and its recipe_embeddings rows
+-- ============================================================================
+DROP FUNCTION IF EXISTS claim_recipe_embedding_batch(INTEGER, INTEGER, INTEGER);
+
+CREATE FUNCTION claim_recipe_embedding_batch(
+    batch_size INTEGER DEFAULT 20,
+    max_attempts INTEGER DEFAULT 5,
+    lock_seconds INTEGER DEFAULT 300
+)
+RETURNS TABLE (
+    recipe_id UUID,
+    reason VARCHAR(20),
+    attempts INTEGER,
+    enqueued_at TIMESTAMPTZ,
+    user_id UUID,
+    title VARCHAR(255),
+    description TEXT,
+    cuisine VARCHAR(100),
+    difficulty VARCHAR(20),
+    tags TEXT[],
+    ingredients JSONB,
+    instructions JSONB,
+    updated_at TIMESTAMPTZ,
+    embedding_model TEXT,
+    embedding_version INTEGER,
+    -- [{ model, version }] from recipe_embeddings
+    stored_embeddings JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH claimed AS (
+        UPDATE recipe_embedding_queue q
+        SET attempts = q.attempts + 1,
+            locked_until = NOW() + make_interval(secs => lock_seconds)
+        WHERE q.recipe_id IN (
+            SELECT recipe_id
+            FROM recipe_embedding_queue
+            WHERE next_attempt_at <= NOW()
+              AND attempts < max_attempts
+              AND (locked_until IS NULL OR locked_until < NOW())
+            ORDER BY next_attempt_at
+            LIMIT batch_size
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING q.recipe_id, q.reason, q.attempts, q.enqueued_at
+    )
+    SELECT c.recipe_id, c.reason, c.attempts, c.enqueued_at,
+           r.user_id, r.title, r.description, r.cuisine, r.difficulty, r.tags,
+           r.ingredients, r.instructions, r.updated_at,
+           CASE WHEN r.embedding_vector IS NOT NULL THEN r.embedding_model END,
+           CASE WHEN r.embedding_vector IS NOT NULL THEN r.embedding_version END,
+           COALESCE((
+               SELECT jsonb_agg(jsonb_build_object('model', re.model, 'version', re.version))
+               FROM recipe_embeddings re
+               WHERE re.recipe_id = c.recipe_id
+           ), '[]'::jsonb)
+    FROM claimed c
+    JOIN recipes r ON r.id = c.recipe_id;
+$$;
+
+-- ============================================================================
+-- store_recipe_embedding: write one model's vector for the embedding worker.
+-- The active model's vector goes on the recipes row when it fits the column,
+-- anything else into recipe_embeddings. Skipped (returns NULL) when the recipe
+-- changed since expected_updated_at; otherwise returns its new updated_at.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION store_recipe_embedding(
+    p_recipe_id UUID,
+    p_expected_updated_at TIMESTAMPTZ,
+    p_model TEXT,
+    p_version INTEGER,
+    p_embedding vector,
+    p_text_content TEXT
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_updated_at TIMESTAMPTZ;
+    v_column_dims INTEGER;
+BEGIN
+    SELECT updated_at INTO v_updated_at
+    FROM recipes
+    WHERE id = p_recipe_id AND updated_at = p_expected_updated_at
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT atttypmod INTO v_column_dims
+    FROM pg_attribute
+    WHERE attrelid = 'recipes'::regclass AND attname = 'embedding_vector';
+
+    IF p_model = (SELECT active_model FROM embedding_settings) AND vector_dims(p_embedding) = v_column_dims THEN
+        UPDATE recipes
+        SET embedding_vector = p_embedding, embedding_model = p_model, embedding_version = p_version
+        WHERE id = p_recipe_id
+        RETURNING updated_at INTO v_updated_at;
+    ELSE
+        INSERT INTO recipe_embeddings (recipe_id, model, version, embedding, text_content)
+        VALUES (p_recipe_id, p_model, p_version, p_embedding, p_text_content)
+        ON CONFLICT (recipe_id, model) DO UPDATE
+        SET version = EXCLUDED.version,
+            embedding = EXCLUDED.embedding,
+            text_content = EXCLUDED.text_content;
+    END IF;
+    RETURN v_updated_at;
+END;
+$$;
+
+-- ============================================================================
+-- Migration control (admin-api)
+-- ============================================================================
+
+-- Start dual-writing `new_model` and queue every recipe for its backfill
+CREATE OR REPLACE FUNCTION start_embedding_migration(new_model TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settings embedding_settings;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_settings FROM embedding_settings FOR UPDATE;
+    IF btrim(COALESCE(new_model, '')) = '' THEN
+        RAISE EXCEPTION 'A model is required';
+    END IF;
+    IF new_model = v_settings.active_model THEN
+        RAISE EXCEPTION '% is already the active embedding model', new_model;
+    END IF;
+    IF v_settings.target_model IS NOT NULL THEN
+        RAISE EXCEPTION 'A migration to % is already in progress', v_settings.target_model;
+    END IF;
+
+    UPDATE embedding_settings SET target_model = new_model, migration_started_at = NOW();
+
+    INSERT INTO recipe_embedding_queue (recipe_id, reason)
+    SELECT id, 'backfill' FROM recipes
+    ON CONFLICT (recipe_id) DO UPDATE
+    SET attempts = 0,
+        last_error = NULL,
+        next_attempt_at = NOW(),
+        locked_until = NULL,
+        enqueued_at = NOW();
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Make the target the active model. Refuses while recipes still lack a target
+-- vector unless `force` — those are then queued and unsearchable until embedded.
+-- The old model's vectors are dropped. Returns the recipes left to embed.
+CREATE OR REPLACE FUNCTION promote_embedding_model(force BOOLEAN DEFAULT FALSE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_target TEXT;
+    v_missing INTEGER;
+    v_target_dims INTEGER;
+    v_column_dims INTEGER;
+BEGIN
+    SELECT target_model INTO v_target FROM embedding_settings FOR UPDATE;
+    IF v_target IS NULL THEN
+        RAISE EXCEPTION 'No embedding migration in progress';
+    END IF;
+
+    SELECT count(*) INTO v_missing
+    FROM recipes r
+    WHERE NOT EXISTS (SELECT 1 FROM recipe_embeddings re WHERE re.recipe_id = r.id AND re.model = v_target);
+    IF v_missing > 0 AND NOT force THEN
+        RAISE EXCEPTION '% recipes have no % embedding yet', v_missing, v_target;
+    END IF;
+
+    SELECT vector_dims(embedding) INTO v_target_dims FROM recipe_embeddings WHERE model = v_target LIMIT 1;
+    SELECT atttypmod INTO v_column_dims
+    FROM pg_attribute
+    WHERE attrelid = 'recipes'::regclass AND attname = 'embedding_vector';
+
+    -- Moving vectors isn't an edit — leave every recipe's updated_at alone
+    ALTER TABLE recipes DISABLE TRIGGER update_recipes_updated_at;
+
+    UPDATE recipes
+    SET embedding_vector = NULL, embedding_model = NULL, embedding_version = NULL
+    WHERE embedding_vector IS NOT NULL;
+
+    -- Same dimensions as the column: move the vectors onto the recipes rows (and their indexes)
+    IF v_target_dims = v_column_dims THEN
+        UPDATE recipes r
+        SET embedding_vector = re.embedding, embedding_model = re.model, embedding_version = re.version
+        FROM recipe_embeddings re
+        WHERE re.recipe_id = r.id AND re.model = v_target;
+        DELETE FROM recipe_embeddings WHERE model = v_target;
+    END IF;
+
+    ALTER TABLE recipes ENABLE TRIGGER update_recipes_updated_at;
+
+    DELETE FROM recipe_embeddings WHERE model <> v_target;
+    UPDATE embedding_settings SET active_model = v_target, target_model = NULL, migration_started_at = NULL;
+
+    INSERT INTO recipe_embedding_queue (recipe_id, reason)
+    SELECT r.id, 'missing' FROM recipes r
+    WHERE r.embedding_vector IS NULL
+      AND NOT EXISTS (SELECT 1 FROM recipe_embeddings re WHERE re.recipe_id = r.id AND re.model = v_target)
+    ON CONFLICT (recipe_id) DO NOTHING;
+
+    RETURN v_missing;
+END;
+$$;
+
+-- Abandon a migration: stop dual-writing and drop the target's vectors
+CREATE OR REPLACE FUNCTION cancel_embedding_migration()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_target TEXT;
+BEGIN
+    SELECT target_model INTO v_target FROM embedding_settings FOR UPDATE;
+    IF v_target IS NULL THEN
+        RAISE EXCEPTION 'No embedding migration in progress';
+    END IF;
+    DELETE FROM recipe_embeddings WHERE model = v_target;
+    DELETE FROM recipe_embedding_queue WHERE reason = 'backfill';
+    UPDATE embedding_settings SET target_model = NULL, migration_started_at = NULL;
+END;
+$$;
+
+-- Models in use and how many recipes each has a vector for
+CREATE OR REPLACE FUNCTION get_embedding_status()
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT json_build_object(
+        'active_model', s.active_model,
+        'target_model', s.target_model,
+        'migration_started_at', s.migration_started_at,
+        'total_recipes', (SELECT count(*) FROM recipes),
+        'active_embedded', (
+            SELECT count(*) FROM recipes r
+            WHERE (r.embedding_vector IS NOT NULL AND r.embedding_model = s.active_model)
+               OR EXISTS (SELECT 1 FROM recipe_embeddings re WHERE re.recipe_id = r.id AND re.model = s.active_model)
+        ),
+        'target_embedded', CASE WHEN s.target_model IS NOT NULL THEN (
+            SELECT count(*) FROM recipe_embeddings re WHERE re.model = s.target_model
+        ) END
+    )
+    FROM embedding_settings s;
+$$;
+
+-- The worker's claim/store and migration control are service-role only
+REVOKE EXECUTE ON FUNCTION claim_recipe_embedding_batch(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION store_recipe_embedding(UUID, TIMESTAMPTZ, TEXT, INTEGER, vector, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION start_embedding_migration(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION promote_embedding_model(BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_embedding_migration() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_embedding_status() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_recipe_embedding_batch(INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION store_recipe_embedding(UUID, TIMESTAMPTZ, TEXT, INTEGER, vector, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION start_embedding_migration(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION promote_embedding_model(BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION cancel_embedding_migration() TO service_role;
+GRANT EXECUTE ON FUNCTION get_embedding_status() TO service_role;
+
+-- ============================================================================
+-- search_recipes_semantic: model-aware, any dimensions, current columns
+-- ============================================================================
+DROP FUNCTION IF EXISTS search_recipes_semantic(VECTOR(1536), UUID, FLOAT, INT);
+
+CREATE FUNCTION search_recipes_semantic(
+    query_embedding vector,
+    user_id UUID,
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    query_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    title VARCHAR(255),
+    description TEXT,
+    ingredients JSONB,
+    instructions JSONB,
+    prep_time INTEGER,
+    cook_time INTEGER,
+    servings INTEGER,
+    difficulty VARCHAR(20),
+    tags TEXT[],
+    image_url TEXT,
+    source_url TEXT,
+    visibility TEXT,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    searchable_text TEXT,
+    similarity_score FLOAT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH model AS (
+        SELECT COALESCE(query_model, (SELECT active_model FROM embedding_settings)) AS name
+    ),
+    -- Each store is ranked on its own column, so the recipes-row vector index applies;
+    -- the dimension checks skip a store whose vectors can't be compared with the query
+    row_vectors AS (
+        SELECT r.id, r.embedding_vector <=> query_embedding AS distance
+        FROM recipes r
+        WHERE vector_dims(query_embedding) = (
+                SELECT atttypmod FROM pg_attribute
+                WHERE attrelid = 'recipes'::regclass AND attname = 'embedding_vector'
+              )
+          AND r.user_id = search_recipes_semantic.user_id
+          AND r.embedding_vector IS NOT NULL
+          AND r.embedding_model = (SELECT name FROM model)
+        ORDER BY r.embedding_vector <=> query_embedding
+        LIMIT match_count
+    ),
+    stored_vectors AS (
+        SELECT re.recipe_id AS id, re.embedding <=> query_embedding AS distance
+        FROM recipe_embeddings re
+        JOIN recipes r ON r.id = re.recipe_id
+        WHERE r.user_id = search_recipes_semantic.user_id
+          AND re.model = (SELECT name FROM model)
+          AND vector_dims(re.embedding) = vector_dims(query_embedding)
+        ORDER BY re.embedding <=> query_embedding
+        LIMIT match_count
+    ),
+    scored AS (
+        SELECT v.id, 1 - v.distance AS similarity
+        FROM (SELECT * FROM row_vectors UNION ALL SELECT * FROM stored_vectors) v
+    )
+    SELECT
+        r.id,
+        r.title,
+        r.description,
+        r.ingredients,
+        r.instructions,
+        r.prep_time,
+        r.cook_time,
+        r.servings,
+        r.difficulty,
+        r.tags,
+        r.image_url,
+        r.source_url,
+        r.visibility,
+        r.created_at,
+        r.updated_at,
+        r.searchable_text,
+        s.similarity AS similarity_score
+    FROM scored s
+    JOIN recipes r ON r.id = s.id
+    WHERE s.similarity > match_threshold
+    ORDER BY s.similarity DESC
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_recipes_semantic(vector, UUID, FLOAT, INT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- search_recipes_hybrid: as in migration 033, but the semantic ranking reads
+-- the query model's vectors from wherever they are stored
+-- ============================================================================
+DROP FUNCTION IF EXISTS search_recipes_hybrid(
+    TEXT, VECTOR(1536), TEXT, TEXT, TEXT, INTEGER, TEXT[], FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, INTEGER
+);
+
+CREATE FUNCTION search_recipes_hybrid(
+    search_query TEXT DEFAULT '',
+    query_embedding vector DEFAULT NULL,
+    search_scope TEXT DEFAULT 'mine',
+    filter_cuisine TEXT DEFAULT NULL,
+    filter_difficulty TEXT DEFAULT NULL,
+    max_total_time INTEGER DEFAULT NULL,
+    filter_tags TEXT[] DEFAULT NULL,
+    semantic_weight FLOAT DEFAULT 1.0,
+    text_weight FLOAT DEFAULT 1.0,
+    match_threshold FLOAT DEFAULT 0.5,
+    rrf_k INTEGER DEFAULT 60,
+    page_size INTEGER DEFAULT 20,
+    page_offset INTEGER DEFAULT 0,
+    query_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    title VARCHAR(255),
+    description TEXT,
+    ingredients JSONB,
+    instructions JSONB,
+    prep_time INTEGER,
+    cook_time INTEGER,
+    total_time INTEGER,
+    servings INTEGER,
+    difficulty VARCHAR(20),
+    cuisine VARCHAR(100),
+    tags TEXT[],
+    image_url TEXT,
+    source_url TEXT,
+    visibility TEXT,
+    slug VARCHAR(255),
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    author JSON,
+    semantic_rank BIGINT,
+    text_rank BIGINT,
+    score FLOAT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT r.*
+    FROM recipes r
+    WHERE CASE search_scope
+        WHEN 'mine' THEN r.user_id = auth.uid()
+        WHEN 'household' THEN r.visibility = 'household' AND r.user_id IN (
+          SELECT hm2.user_id
+          FROM household_members hm1
+          JOIN household_members hm2 ON hm2.household_id = hm1.household_id
+          WHERE hm1.user_id = auth.uid()
+        )
+        WHEN 'public' THEN r.visibility = 'public'
+        WHEN 'accessible' THEN TRUE
+        ELSE FALSE
+      END
+      AND (filter_cuisine IS NULL OR r.cuisine ILIKE filter_cuisine)
+      AND (filter_difficulty IS NULL OR r.difficulty = filter_difficulty)
+      AND (max_total_time IS NULL
+           OR COALESCE(r.total_time, COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0)) <= max_total_time)
+      AND (filter_tags IS NULL OR cardinality(filter_tags) = 0 OR r.tags && filter_tags)
+  ),
+  model AS (
+    SELECT COALESCE(query_model, (SELECT active_model FROM embedding_settings)) AS name
+  ),
+  -- Each store is ranked on its own column, so the recipes-row vector index applies;
+  -- the dimension checks skip a store whose vectors can't be compared with the query
+  row_vectors AS (
+    SELECT r.id, r.embedding_vector <=> query_embedding AS distance
+    FROM recipes r
+    WHERE query_embedding IS NOT NULL
+      AND vector_dims(query_embedding) = (
+        SELECT atttypmod FROM pg_attribute
+        WHERE attrelid = 'recipes'::regclass AND attname = 'embedding_vector'
+      )
+      AND r.embedding_vector IS NOT NULL
+      AND r.embedding_model = (SELECT name FROM model)
+      AND r.id IN (SELECT id FROM candidates)
+    ORDER BY r.embedding_vector <=> query_embedding
+    LIMIT 200
+  ),
+  stored_vectors AS (
+    SELECT re.recipe_id AS id, re.embedding <=> query_embedding AS distance
+    FROM recipe_embeddings re
+    WHERE query_embedding IS NOT NULL
+      AND re.model = (SELECT name FROM model)
+      AND vector_dims(re.embedding) = vector_dims(query_embedding)
+      AND re.recipe_id IN (SELECT id FROM candidates)
+    ORDER BY re.embedding <=> query_embedding
+    LIMIT 200
+  ),
+  semantic AS (
+    SELECT s.id, ROW_NUMBER() OVER (ORDER BY s.distance) AS rank
+    FROM (SELECT * FROM row_vectors UNION ALL SELECT * FROM stored_vectors) s
+    WHERE 1 - s.distance > match_threshold
+    ORDER BY s.distance
+    LIMIT 200
+  ),
+  fulltext AS (
+    SELECT c.id, ROW_NUMBER() OVER (
+        ORDER BY ts_rank(to_tsvector('english', COALESCE(c.searchable_text, '')), plainto_tsquery('english', search_query)) DESC
+      ) AS rank
+    FROM candidates c
+    WHERE btrim(COALESCE(search_query, '')) <> ''
+      AND to_tsvector('english', COALESCE(c.searchable_text, '')) @@ plainto_tsquery('english', search_query)
+    ORDER BY rank
+    LIMIT 200
+  ),
+  fused AS (
+    SELECT
+      COALESCE(s.id, t.id) AS id,
+      s.rank AS semantic_rank,
+      t.rank AS text_rank,
+      COALESCE(semantic_weight / (rrf_k + s.rank), 0) + COALESCE(text_weight / (rrf_k + t.rank), 0) AS score
+    FROM semantic s
+    FULL OUTER JOIN fulltext t ON t.id = s.id
+    UNION ALL
+    -- Browse: nothing to rank by
+    SELECT c.id, NULL, NULL, 0
+    FROM candidates c
+    WHERE btrim(COALESCE(search_query, '')) = '' AND query_embedding IS NULL
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.title,
+    r.description,
+    r.ingredients,
+    r.instructions,
+    r.prep_time,
+    r.cook_time,
+    r.total_time,
+    r.servings,
+    r.difficulty,
+    r.cuisine,
+    r.tags,
+    r.image_url,
+    r.source_url,
+    r.visibility,
+    r.slug,
+    r.created_at,
+    r.updated_at,
+    json_build_object(
+      'display_name', p.display_name,
+      'username', p.username,
+      'avatar_url', p.avatar_url
+    ) AS author,
+    f.semantic_rank,
+    f.text_rank,
+    f.score::FLOAT,
+    COUNT(*) OVER () AS total_count
+  FROM fused f
+  JOIN recipes r ON r.id = f.id
+  LEFT JOIN profiles p ON p.id = r.user_id
+  ORDER BY f.score DESC, r.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_recipes_hybrid(
+  TEXT, vector, TEXT, TEXT, TEXT, INTEGER, TEXT[], FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, INTEGER, TEXT
+) TO authenticated;
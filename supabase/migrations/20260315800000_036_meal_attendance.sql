@@ -0,0 +1,182 @@
+-- ============================================================================
+-- Migration 036: Meal Attendance
+--
+-- Planned meals record who is eating them (PlannedMealEntry.attendees in
+-- meal_plans.meals), and their servings follow from it. To pre-fill that,
+-- household members and dependents get defaults:
+--   meal_absences      — slot → weekdays (0 = Sunday) the person usually
+--                        misses that meal, e.g. {"lunch": [1,2,3,4,5]} for a
+--                        child who has lunch at school on weekdays
+--   portion_multiplier — how many servings the person eats (0.5 for a small
+--                        child, 1.5 for a big eater)
+--
+-- Dependents are edited through their family_members row as before. Members
+-- can't update their own household_members row (only owners can, and the row
+-- holds the role), so set_member_meal_defaults() lets a member change just
+-- these two columns for themselves — or an owner/admin for anyone.
+-- get_my_household() returns the new member columns.
+-- ============================================================================
+
+ALTER TABLE household_members
+    ADD COLUMN IF NOT EXISTS meal_absences JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS portion_multiplier NUMERIC(3,2) NOT NULL DEFAULT 1
+        CHECK (portion_multiplier > 0 AND portion_multiplier <= 4);
+
+ALTER TABLE family_members
+    ADD COLUMN IF NOT EXISTS meal_absences JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS portion_multiplier NUMERIC(3,2) NOT NULL DEFAULT 1
+        CHECK (portion_multiplier > 0 AND portion_multiplier <= 4);
+
+COMMENT ON COLUMN household_members.meal_absences IS
+    'Meal slot -> weekdays (0 = Sunday) the member usually misses that meal';
+COMMENT ON COLUMN family_members.meal_absences IS
+    'Meal slot -> weekdays (0 = Sunday) the dependent usually misses that meal';
+
+-- ============================================================================
+-- set_member_meal_defaults(p_member_id, p_meal_absences, p_portion_multiplier)
+-- p_member_id is a household_members id. Allowed for the member themselves
+-- and for owners/admins of the same household.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_member_meal_defaults(
+    p_member_id UUID,
+    p_meal_absences JSONB,
+    p_portion_multiplier NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_member household_members%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    IF jsonb_typeof(p_meal_absences) IS DISTINCT FROM 'object' THEN
+        RAISE EXCEPTION 'meal_absences must be an object';
+    END IF;
+
+    SELECT * INTO v_member FROM household_members WHERE id = p_member_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Household member not found';
+    END IF;
+
+    IF v_member.user_id <> v_user_id AND NOT EXISTS (
+        SELECT 1 FROM household_members hm
+        WHERE hm.household_id = v_member.household_id
+          AND hm.user_id = v_user_id
+          AND hm.role IN ('owner', 'admin')
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to change this member''s meal defaults';
+    END IF;
+
+    UPDATE household_members
+    SET meal_absences = p_meal_absences,
+        portion_multiplier = p_portion_multiplier
+    WHERE id = p_member_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_member_meal_defaults(UUID, JSONB, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- get_my_household() — as in migration 025, plus the members' meal defaults
+-- (dependents already return every column)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_my_household()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_household_id UUID;
+  v_role TEXT;
+  v_household JSON;
+  v_members JSON;
+  v_dependents JSON;
+  v_invites JSON;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  -- Get user's membership
+  SELECT hm.household_id, hm.role
+  INTO v_household_id, v_role
+  FROM household_members hm
+  WHERE hm.user_id = v_user_id
+  LIMIT 1;
+
+  IF v_household_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Household info
+  SELECT json_build_object(
+    'id', h.id,
+    'name', h.name,
+    'created_by', h.created_by,
+    'created_at', h.created_at,
+    'updated_at', h.updated_at
+  ) INTO v_household
+  FROM households h
+  WHERE h.id = v_household_id;
+
+  -- All members with profiles
+  SELECT COALESCE(json_agg(json_build_object(
+    'id', hm.id,
+    'user_id', hm.user_id,
+    'role', hm.role,
+    'joined_at', hm.joined_at,
+    'meal_absences', hm.meal_absences,
+    'portion_multiplier', hm.portion_multiplier,
+    'profiles', json_build_object(
+      'id', p.id,
+      'email', p.email,
+      'display_name', p.display_name,
+      'avatar_url', p.avatar_url
+    )
+  )), '[]'::json) INTO v_members
+  FROM household_members hm
+  JOIN profiles p ON p.id = hm.user_id
+  WHERE hm.household_id = v_household_id;
+
+  -- Active dependents (all columns)
+  SELECT COALESCE(json_agg(row_to_json(fm)), '[]'::json) INTO v_dependents
+  FROM family_members fm
+  WHERE fm.household_id = v_household_id
+    AND fm.is_active = true;
+
+  -- Pending invites
+  SELECT COALESCE(json_agg(json_build_object(
+    'id', hi.id,
+    'invited_email', hi.invited_email,
+    'inviter_name', hi.inviter_name,
+    'status', hi.status,
+    'created_at', hi.created_at,
+    'expires_at', hi.expires_at
+  ) ORDER BY hi.created_at DESC), '[]'::json) INTO v_invites
+  FROM household_invites hi
+  WHERE hi.household_id = v_household_id
+    AND hi.status = 'pending';
+
+  RETURN json_build_object(
+    'household', v_household,
+    'my_role', v_role,
+    'members', v_members,
+    'dependents', v_dependents,
+    'pending_invites', v_invites
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_household() TO authenticated;